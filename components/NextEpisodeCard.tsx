@@ -0,0 +1,143 @@
+import React, { useEffect } from "react";
+import { StyleSheet, Pressable, View } from "react-native";
+import Animated, {
+  useAnimatedStyle,
+  useSharedValue,
+  withSpring,
+  withTiming,
+} from "react-native-reanimated";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { BorderRadius, Spacing, Colors, Typography } from "@/constants/theme";
+
+interface NextEpisodeCardProps {
+  title: string;
+  countdown?: number;
+  onPlayNow: () => void;
+  onCancel: () => void;
+  visible: boolean;
+}
+
+export function NextEpisodeCard({
+  title,
+  countdown,
+  onPlayNow,
+  onCancel,
+  visible,
+}: NextEpisodeCardProps) {
+  const translateX = useSharedValue(200);
+  const opacity = useSharedValue(0);
+
+  useEffect(() => {
+    if (visible) {
+      translateX.value = withSpring(0, {
+        damping: 15,
+        stiffness: 150,
+        mass: 0.5,
+      });
+      opacity.value = withTiming(1, { duration: 200 });
+    } else {
+      translateX.value = withTiming(200, { duration: 200 });
+      opacity.value = withTiming(0, { duration: 150 });
+    }
+  }, [visible, translateX, opacity]);
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [{ translateX: translateX.value }],
+    opacity: opacity.value,
+  }));
+
+  if (!visible) return null;
+
+  return (
+    <Animated.View style={[styles.container, animatedStyle]}>
+      <ThemedText style={styles.heading}>
+        {countdown !== undefined && countdown > 0
+          ? `Next episode in ${countdown}s`
+          : "Next episode"}
+      </ThemedText>
+      <ThemedText style={styles.title} numberOfLines={2}>
+        {title}
+      </ThemedText>
+      <View style={styles.actions}>
+        <Pressable
+          onPress={onPlayNow}
+          style={({ pressed }) => [
+            styles.playButton,
+            { opacity: pressed ? 0.7 : 1 },
+          ]}
+        >
+          <Feather name="play" size={16} color={Colors.dark.skipButtonText} />
+          <ThemedText style={styles.playText}>Play Now</ThemedText>
+        </Pressable>
+        <Pressable
+          onPress={onCancel}
+          style={({ pressed }) => [
+            styles.cancelButton,
+            { opacity: pressed ? 0.7 : 1 },
+          ]}
+        >
+          <ThemedText style={styles.cancelText}>Cancel</ThemedText>
+        </Pressable>
+      </View>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: "absolute",
+    bottom: 80,
+    right: Spacing["2xl"],
+    width: 280,
+    backgroundColor: Colors.dark.overlay,
+    borderRadius: BorderRadius.sm,
+    padding: Spacing.lg,
+    gap: Spacing.sm,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  heading: {
+    ...Typography.small,
+    color: Colors.dark.disabled,
+  },
+  title: {
+    ...Typography.body,
+    fontWeight: "600",
+    color: Colors.dark.text,
+  },
+  actions: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginTop: Spacing.xs,
+  },
+  playButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    backgroundColor: Colors.dark.skipButton,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  playText: {
+    ...Typography.small,
+    fontWeight: "600",
+    color: Colors.dark.skipButtonText,
+  },
+  cancelButton: {
+    justifyContent: "center",
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    backgroundColor: Colors.dark.backgroundSecondary,
+  },
+  cancelText: {
+    ...Typography.small,
+    color: Colors.dark.text,
+  },
+});
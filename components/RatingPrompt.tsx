@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from "react";
+import { StyleSheet, Pressable, View } from "react-native";
+import Animated, {
+  useAnimatedStyle,
+  useSharedValue,
+  withTiming,
+} from "react-native-reanimated";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { BorderRadius, Spacing, Colors, Typography } from "@/constants/theme";
+
+interface RatingPromptProps {
+  title: string;
+  visible: boolean;
+  onRate: (rating: number) => void;
+  onDismiss: () => void;
+}
+
+const RATINGS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+export function RatingPrompt({
+  title,
+  visible,
+  onRate,
+  onDismiss,
+}: RatingPromptProps) {
+  const [highlighted, setHighlighted] = useState(0);
+  const opacity = useSharedValue(0);
+
+  useEffect(() => {
+    opacity.value = withTiming(visible ? 1 : 0, { duration: 200 });
+    if (!visible) {
+      setHighlighted(0);
+    }
+  }, [visible, opacity]);
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    opacity: opacity.value,
+  }));
+
+  if (!visible) return null;
+
+  return (
+    <Animated.View style={[styles.container, animatedStyle]}>
+      <View style={styles.header}>
+        <ThemedText style={styles.heading} numberOfLines={1}>
+          Rate {title} on Trakt
+        </ThemedText>
+        <Pressable onPress={onDismiss} hitSlop={8}>
+          <Feather name="x" size={18} color={Colors.dark.disabled} />
+        </Pressable>
+      </View>
+      <View style={styles.hearts}>
+        {RATINGS.map((rating) => (
+          <Pressable
+            key={rating}
+            onPress={() => onRate(rating)}
+            onHoverIn={() => setHighlighted(rating)}
+            onPressIn={() => setHighlighted(rating)}
+            hitSlop={4}
+          >
+            <Feather
+              name="heart"
+              size={22}
+              color={
+                rating <= highlighted ? Colors.dark.error : Colors.dark.disabled
+              }
+            />
+          </Pressable>
+        ))}
+      </View>
+      <ThemedText style={styles.hint}>
+        {highlighted > 0 ? `${highlighted}/10` : "Tap a heart to rate"}
+      </ThemedText>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: "absolute",
+    top: 80,
+    alignSelf: "center",
+    backgroundColor: Colors.dark.overlay,
+    borderRadius: BorderRadius.sm,
+    padding: Spacing.lg,
+    gap: Spacing.sm,
+    alignItems: "center",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  heading: {
+    ...Typography.body,
+    fontWeight: "600",
+    color: Colors.dark.text,
+    maxWidth: 320,
+  },
+  hearts: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  hint: {
+    ...Typography.small,
+    color: Colors.dark.disabled,
+  },
+});
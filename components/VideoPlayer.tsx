@@ -1,9 +1,24 @@
-import React, { useState, useCallback, useRef, useEffect } from "react";
-import { StyleSheet, View, Pressable, Platform, LayoutChangeEvent } from "react-native";
+import React, {
+  useState,
+  useCallback,
+  useRef,
+  useEffect,
+  useMemo,
+} from "react";
+import {
+  StyleSheet,
+  View,
+  Pressable,
+  Platform,
+  LayoutChangeEvent,
+} from "react-native";
 import Slider from "@react-native-community/slider";
-import { PanGestureHandler, GestureHandlerRootView } from "react-native-gesture-handler";
+import {
+  PanGestureHandler,
+  GestureHandlerRootView,
+} from "react-native-gesture-handler";
 import { useVideoPlayer, VideoView } from "expo-video";
-import { useEvent } from "expo";
+import { useEvent, useEventListener } from "expo";
 import Animated, {
   useAnimatedStyle,
   useSharedValue,
@@ -15,22 +30,52 @@ import { Feather } from "@expo/vector-icons";
 import { ThemedText } from "@/components/ThemedText";
 import { TimeDisplay } from "@/components/TimeDisplay";
 import { SkipButton } from "@/components/SkipButton";
+import { NextEpisodeCard } from "@/components/NextEpisodeCard";
+import {
+  buildManualSkipMarkers,
+  getActiveSkipMarker,
+  getSkipResolverOptions,
+  isSameSkipMarker,
+  mergeSkipMarkers,
+} from "@/services/skipMarkerResolver";
 import { Colors, Spacing, BorderRadius, Typography } from "@/constants/theme";
-import { SkipMarker, SkipSettings } from "@/types";
+import {
+  ChapterData,
+  ManualSkipLayer,
+  SkipMarkPoint,
+  SkipMarker,
+  SkipSettings,
+} from "@/types";
 
 interface VideoPlayerProps {
   uri: string;
   title?: string;
   onSettingsPress: () => void;
   skipSettings: SkipSettings;
+  chapters?: ChapterData[];
+  chapterSkipMarkers?: SkipMarker[];
   communitySkipMarkers?: SkipMarker[];
-  manualIntroSkip?: number;
-  manualCreditsSkip?: number;
+  manualSkip?: ManualSkipLayer;
   onProgress?: (position: number, duration: number) => void;
   onPreviousEpisode?: () => void;
   onNextEpisode?: () => void;
+  onMarkSkipPoint?: (point: SkipMarkPoint, time: number) => void;
+  onEditSkipTimes?: () => void;
+  onSkipMarker?: (marker: SkipMarker, automatic: boolean) => void;
+  onPlayingChange?: (isPlaying: boolean) => void;
+  onPlaybackEnd?: () => void;
+  // Seeks here whenever it changes, e.g. after the user chooses to resume
+  startPosition?: number;
+  nextEpisodeTitle?: string;
+  autoPlayNext?: boolean;
+  // Called once per video when playback reaches the end credits
+  onCreditsReached?: () => void;
 }
 
+const NEXT_EPISODE_COUNTDOWN_SECONDS = 10;
+// Used when no credits marker is known
+const CREDITS_LEAD_SECONDS = 30;
+
 const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
 
 function formatTime(seconds: number): string {
@@ -43,17 +88,83 @@ function formatTime(seconds: number): string {
   return `${mins}:${String(secs).padStart(2, "0")}`;
 }
 
+// Speed slider config: maps 0-100 to 0.25x - 3.0x with 1.0x at middle (50)
+const MIN_SPEED = 0.25;
+const NORMAL_SPEED = 1.0;
+const MAX_SPEED = 3.0;
+
+const speedToSliderValue = (speed: number) => {
+  if (speed <= NORMAL_SPEED) {
+    // 0.25x to 1.0x maps to 0-50
+    return ((speed - MIN_SPEED) / (NORMAL_SPEED - MIN_SPEED)) * 50;
+  } else {
+    // 1.0x to 3.0x maps to 50-100
+    return 50 + ((speed - NORMAL_SPEED) / (MAX_SPEED - NORMAL_SPEED)) * 50;
+  }
+};
+
+const sliderValueToSpeed = (value: number) => {
+  let speed;
+  if (value <= 50) {
+    // 0-50 maps to 0.25x-1.0x
+    speed = MIN_SPEED + (value / 50) * (NORMAL_SPEED - MIN_SPEED);
+  } else {
+    // 50-100 maps to 1.0x-3.0x
+    speed = NORMAL_SPEED + ((value - 50) / 50) * (MAX_SPEED - NORMAL_SPEED);
+  }
+  // Snap to nearest 0.05 increment
+  return Math.round(speed * 20) / 20;
+};
+
+// Audio/Subtitle delay config: -5000ms to +5000ms with 0 at middle (50)
+const MIN_DELAY = -5000;
+const NORMAL_DELAY = 0;
+const MAX_DELAY = 5000;
+
+const delayToSliderValue = (delay: number) => {
+  if (delay <= NORMAL_DELAY) {
+    // -5000 to 0 maps to 0-50
+    return ((delay - MIN_DELAY) / (NORMAL_DELAY - MIN_DELAY)) * 50;
+  } else {
+    // 0 to 5000 maps to 50-100
+    return 50 + ((delay - NORMAL_DELAY) / (MAX_DELAY - NORMAL_DELAY)) * 50;
+  }
+};
+
+const sliderValueToDelay = (value: number) => {
+  let delay;
+  if (value <= 50) {
+    // 0-50 maps to -5000 to 0
+    delay = MIN_DELAY + (value / 50) * (NORMAL_DELAY - MIN_DELAY);
+  } else {
+    // 50-100 maps to 0 to 5000
+    delay = NORMAL_DELAY + ((value - 50) / 50) * (MAX_DELAY - NORMAL_DELAY);
+  }
+  // Snap to nearest 50ms increment
+  return Math.round(delay / 50) * 50;
+};
+
 export function VideoPlayer({
   uri,
   title,
   onSettingsPress,
   skipSettings,
+  chapters = [],
+  chapterSkipMarkers = [],
   communitySkipMarkers = [],
-  manualIntroSkip = 0,
-  manualCreditsSkip = 0,
+  manualSkip,
   onProgress,
   onPreviousEpisode,
   onNextEpisode,
+  onMarkSkipPoint,
+  onEditSkipTimes,
+  onSkipMarker,
+  onPlayingChange,
+  onPlaybackEnd,
+  startPosition,
+  nextEpisodeTitle,
+  autoPlayNext = false,
+  onCreditsReached,
 }: VideoPlayerProps) {
   const [controlsVisible, setControlsVisible] = useState(true);
   const [currentPosition, setCurrentPosition] = useState(0);
@@ -64,6 +175,7 @@ export function VideoPlayer({
   const [showAudioDelay, setShowAudioDelay] = useState(false);
   const [showSubtitleDelay, setShowSubtitleDelay] = useState(false);
   const [showTrackSelection, setShowTrackSelection] = useState(false);
+  const [showMarkMenu, setShowMarkMenu] = useState(false);
   const [audioDelay, setAudioDelay] = useState(0); // ms
   const [subtitleDelay, setSubtitleDelay] = useState(0); // ms
   const [ccEnabled, setCcEnabled] = useState(true);
@@ -75,63 +187,7 @@ export function VideoPlayer({
   const [previewPosition, setPreviewPosition] = useState(0);
   const [activeSkipMarker, setActiveSkipMarker] = useState<SkipMarker | null>(null);
   const [autoSkipCountdown, setAutoSkipCountdown] = useState<number | undefined>(undefined);
-  
-  // Speed slider config: maps 0-100 to 0.25x - 3.0x with 1.0x at middle (50)
-  const MIN_SPEED = 0.25;
-  const NORMAL_SPEED = 1.0;
-  const MAX_SPEED = 3.0;
-  
-  const speedToSliderValue = (speed: number) => {
-    if (speed <= NORMAL_SPEED) {
-      // 0.25x to 1.0x maps to 0-50
-      return ((speed - MIN_SPEED) / (NORMAL_SPEED - MIN_SPEED)) * 50;
-    } else {
-      // 1.0x to 3.0x maps to 50-100
-      return 50 + ((speed - NORMAL_SPEED) / (MAX_SPEED - NORMAL_SPEED)) * 50;
-    }
-  };
-  
-  const sliderValueToSpeed = (value: number) => {
-    let speed;
-    if (value <= 50) {
-      // 0-50 maps to 0.25x-1.0x
-      speed = MIN_SPEED + (value / 50) * (NORMAL_SPEED - MIN_SPEED);
-    } else {
-      // 50-100 maps to 1.0x-3.0x
-      speed = NORMAL_SPEED + ((value - 50) / 50) * (MAX_SPEED - NORMAL_SPEED);
-    }
-    // Snap to nearest 0.05 increment
-    return Math.round(speed * 20) / 20;
-  };
 
-  // Audio/Subtitle delay config: -5000ms to +5000ms with 0 at middle (50)
-  const MIN_DELAY = -5000;
-  const NORMAL_DELAY = 0;
-  const MAX_DELAY = 5000;
-
-  const delayToSliderValue = (delay: number) => {
-    if (delay <= NORMAL_DELAY) {
-      // -5000 to 0 maps to 0-50
-      return ((delay - MIN_DELAY) / (NORMAL_DELAY - MIN_DELAY)) * 50;
-    } else {
-      // 0 to 5000 maps to 50-100
-      return 50 + ((delay - NORMAL_DELAY) / (MAX_DELAY - NORMAL_DELAY)) * 50;
-    }
-  };
-
-  const sliderValueToDelay = (value: number) => {
-    let delay;
-    if (value <= 50) {
-      // 0-50 maps to -5000 to 0
-      delay = MIN_DELAY + (value / 50) * (NORMAL_DELAY - MIN_DELAY);
-    } else {
-      // 50-100 maps to 0 to 5000
-      delay = NORMAL_DELAY + ((value - 50) / 50) * (MAX_DELAY - NORMAL_DELAY);
-    }
-    // Snap to nearest 50ms increment
-    return Math.round(delay / 50) * 50;
-  };
-  
   const controlsOpacity = useSharedValue(1);
   const hideControlsTimeout = useRef<NodeJS.Timeout | null>(null);
   const autoSkipInterval = useRef<NodeJS.Timeout | null>(null);
@@ -158,7 +214,26 @@ export function VideoPlayer({
 
   useEffect(() => {
     setIsPlaying(playerIsPlaying);
-  }, [playerIsPlaying]);
+    onPlayingChange?.(playerIsPlaying);
+  }, [playerIsPlaying, onPlayingChange]);
+
+  const [nextEpisodeDismissed, setNextEpisodeDismissed] = useState(false);
+  const [nextEpisodeCountdown, setNextEpisodeCountdown] = useState<
+    number | undefined
+  >(undefined);
+
+  useEventListener(player, "playToEnd", () => {
+    onPlaybackEnd?.();
+    if (autoPlayNext && onNextEpisode && !nextEpisodeDismissed) {
+      onNextEpisode();
+    }
+  });
+
+  useEffect(() => {
+    if (player && startPosition !== undefined && startPosition > 0) {
+      player.currentTime = startPosition;
+    }
+  }, [player, startPosition]);
 
   useEffect(() => {
     const interval = setInterval(() => {
@@ -171,57 +246,86 @@ export function VideoPlayer({
     return () => clearInterval(interval);
   }, [player, onProgress]);
 
-  useEffect(() => {
-    if (duration === 0) {
-      setActiveSkipMarker(null);
-      return;
-    }
+  const resolverOptions = useMemo(
+    () => getSkipResolverOptions(skipSettings, duration),
+    [skipSettings, duration],
+  );
 
-    const position = currentPosition;
-    
-    // Priority 1: Check community skip markers
-    if (skipSettings.enabledCommunitySkip && communitySkipMarkers.length > 0) {
-      for (const marker of communitySkipMarkers) {
-        if (marker.type === "intro" && position >= marker.startTime && position < marker.endTime) {
-          setActiveSkipMarker(marker);
-          return;
-        }
-        if (marker.type === "credits" && position >= marker.startTime - 10 && position < marker.endTime) {
-          setActiveSkipMarker(marker);
-          return;
-        }
-      }
+  const skipMarkers = useMemo(
+    () =>
+      mergeSkipMarkers(
+        {
+          chapter: chapterSkipMarkers,
+          community: communitySkipMarkers,
+          manual: manualSkip
+            ? buildManualSkipMarkers(manualSkip, duration)
+            : [],
+        },
+        resolverOptions.priority,
+      ),
+    [
+      chapterSkipMarkers,
+      communitySkipMarkers,
+      manualSkip,
+      duration,
+      resolverOptions.priority,
+    ],
+  );
+
+  const creditsStart = useMemo(() => {
+    // Only a credits marker in the second half can be the end credits rather than an opening sequence
+    const credits = skipMarkers.find(
+      (marker) => marker.type === "credits" && marker.startTime > duration / 2,
+    );
+    return credits?.startTime ?? Math.max(0, duration - CREDITS_LEAD_SECONDS);
+  }, [skipMarkers, duration]);
+
+  const inCredits = duration > 0 && currentPosition >= creditsStart;
+  const showNextEpisodeCard =
+    autoPlayNext && !!onNextEpisode && inCredits && !nextEpisodeDismissed;
+
+  const creditsReported = useRef(false);
+  useEffect(() => {
+    if (inCredits && !creditsReported.current) {
+      creditsReported.current = true;
+      onCreditsReached?.();
     }
+  }, [inCredits, onCreditsReached]);
 
-    // Priority 2: Use manual fallback settings
-    if (!skipSettings.enabledManualSkip) {
-      setActiveSkipMarker(null);
+  useEffect(() => {
+    if (!showNextEpisodeCard) {
+      setNextEpisodeCountdown(undefined);
       return;
     }
-    
-    if (manualIntroSkip > 0 && position < manualIntroSkip) {
-      setActiveSkipMarker({
-        type: "intro",
-        startTime: 0,
-        endTime: manualIntroSkip,
-        source: "manual",
-      });
-    } else if (manualCreditsSkip > 0 && duration > 0) {
-      const creditsStart = duration - manualCreditsSkip;
-      if (position >= creditsStart - 10 && position < duration - 5) {
-        setActiveSkipMarker({
-          type: "credits",
-          startTime: creditsStart,
-          endTime: duration,
-          source: "manual",
-        });
-      } else if (activeSkipMarker?.type === "credits") {
-        setActiveSkipMarker(null);
+
+    let countdown = NEXT_EPISODE_COUNTDOWN_SECONDS;
+    setNextEpisodeCountdown(countdown);
+    const interval = setInterval(() => {
+      countdown -= 1;
+      if (countdown <= 0) {
+        clearInterval(interval);
+        onNextEpisode?.();
+      } else {
+        setNextEpisodeCountdown(countdown);
       }
-    } else if (activeSkipMarker?.type === "intro") {
-      setActiveSkipMarker(null);
-    }
-  }, [currentPosition, duration, manualIntroSkip, manualCreditsSkip, skipSettings.enabledManualSkip, skipSettings.enabledCommunitySkip, communitySkipMarkers, activeSkipMarker?.type]);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [showNextEpisodeCard, onNextEpisode]);
+
+  const handleNextEpisodeCancel = useCallback(() => {
+    setNextEpisodeDismissed(true);
+  }, []);
+
+  useEffect(() => {
+    const marker =
+      duration > 0
+        ? getActiveSkipMarker(skipMarkers, currentPosition, resolverOptions)
+        : null;
+    // Keep the previous object when nothing changed so the auto-skip countdown isn't restarted
+    setActiveSkipMarker((previous) =>
+      isSameSkipMarker(previous, marker) ? previous : marker,
+    );
+  }, [currentPosition, duration, skipMarkers, resolverOptions]);
 
   useEffect(() => {
     if (activeSkipMarker && skipSettings.autoSkipEnabled) {
@@ -231,7 +335,7 @@ export function VideoPlayer({
       autoSkipInterval.current = setInterval(() => {
         countdown -= 1;
         if (countdown <= 0) {
-          handleSkip();
+          handleSkip(true);
           setAutoSkipCountdown(undefined);
           if (autoSkipInterval.current) {
             clearInterval(autoSkipInterval.current);
@@ -251,12 +355,18 @@ export function VideoPlayer({
     };
   }, [activeSkipMarker, skipSettings.autoSkipEnabled]);
 
-  const handleSkip = useCallback(() => {
-    if (activeSkipMarker && player) {
-      player.currentTime = activeSkipMarker.endTime;
-      setActiveSkipMarker(null);
-    }
-  }, [activeSkipMarker, player]);
+  const handleSkip = useCallback(
+    (automatic = false) => {
+      if (activeSkipMarker && player) {
+        player.currentTime = activeSkipMarker.endTime;
+        onSkipMarker?.(activeSkipMarker, automatic);
+        setActiveSkipMarker(null);
+      }
+    },
+    [activeSkipMarker, player, onSkipMarker],
+  );
+
+  const handleSkipPress = useCallback(() => handleSkip(false), [handleSkip]);
 
   const showControls = useCallback(() => {
     setControlsVisible(true);
@@ -273,6 +383,7 @@ export function VideoPlayer({
         setShowAudioDelay(false);
         setShowSubtitleDelay(false);
         setShowTrackSelection(false);
+        setShowMarkMenu(false);
         controlsOpacity.value = withTiming(0, { duration: 300 });
         setControlsVisible(false);
       }
@@ -297,6 +408,63 @@ export function VideoPlayer({
     showControls();
   }, [player, duration, showControls]);
 
+  const currentChapterIndex = chapters.reduce(
+    (found, chapter, index) =>
+      chapter.startTime <= currentPosition ? index : found,
+    -1,
+  );
+  const currentChapter =
+    currentChapterIndex >= 0 ? chapters[currentChapterIndex] : null;
+  const hasNextChapter =
+    chapters.length === 0 || currentChapterIndex < chapters.length - 1;
+
+  const seekToTime = useCallback(
+    (seconds: number) => {
+      if (player) {
+        player.currentTime = Math.max(
+          0,
+          duration > 0 ? Math.min(duration, seconds) : seconds,
+        );
+      }
+      showControls();
+    },
+    [player, duration, showControls],
+  );
+
+  const handlePreviousChapter = useCallback(() => {
+    if (chapters.length === 0 || !player) {
+      seekRelative(-30);
+      return;
+    }
+
+    // Like a CD player: restart the current chapter unless we are right at its beginning
+    const position = player.currentTime;
+    const index = chapters.reduce(
+      (found, chapter, i) => (chapter.startTime <= position ? i : found),
+      -1,
+    );
+    if (index >= 0 && position - chapters[index].startTime > 3) {
+      seekToTime(chapters[index].startTime);
+    } else if (index > 0) {
+      seekToTime(chapters[index - 1].startTime);
+    } else {
+      seekToTime(0);
+    }
+  }, [chapters, player, seekRelative, seekToTime]);
+
+  const handleNextChapter = useCallback(() => {
+    if (chapters.length === 0 || !player) {
+      seekRelative(30);
+      return;
+    }
+
+    const position = player.currentTime;
+    const next = chapters.find((chapter) => chapter.startTime > position + 0.5);
+    if (next) {
+      seekToTime(next.startTime);
+    }
+  }, [chapters, player, seekRelative, seekToTime]);
+
   const handleRewindPress = useCallback(() => {
     seekRelative(-10);
   }, [seekRelative]);
@@ -341,19 +509,23 @@ export function VideoPlayer({
     }
   }, []);
 
-  const handleSpeedChange = useCallback((value: number) => {
-    const newSpeed = parseFloat(sliderValueToSpeed(value).toFixed(2));
-    setPlaybackSpeed(newSpeed);
-    if (player) {
-      player.playbackRate = newSpeed;
-    }
-  }, [player, sliderValueToSpeed]);
+  const handleSpeedChange = useCallback(
+    (value: number) => {
+      const newSpeed = parseFloat(sliderValueToSpeed(value).toFixed(2));
+      setPlaybackSpeed(newSpeed);
+      if (player) {
+        player.playbackRate = newSpeed;
+      }
+    },
+    [player],
+  );
 
   const toggleSpeedSlider = useCallback(() => {
     setShowSpeedSlider(!showSpeedSlider);
     setShowAudioDelay(false);
     setShowSubtitleDelay(false);
     setShowTrackSelection(false);
+    setShowMarkMenu(false);
     showControls();
   }, [showSpeedSlider, showControls]);
 
@@ -362,6 +534,7 @@ export function VideoPlayer({
     setShowSpeedSlider(false);
     setShowSubtitleDelay(false);
     setShowTrackSelection(false);
+    setShowMarkMenu(false);
     showControls();
   }, [showAudioDelay, showControls]);
 
@@ -370,6 +543,7 @@ export function VideoPlayer({
     setShowSpeedSlider(false);
     setShowAudioDelay(false);
     setShowTrackSelection(false);
+    setShowMarkMenu(false);
     showControls();
   }, [showSubtitleDelay, showControls]);
 
@@ -378,18 +552,38 @@ export function VideoPlayer({
     setShowSpeedSlider(false);
     setShowAudioDelay(false);
     setShowSubtitleDelay(false);
+    setShowMarkMenu(false);
     showControls();
   }, [showTrackSelection, showControls]);
 
+  const toggleMarkMenu = useCallback(() => {
+    setShowMarkMenu(!showMarkMenu);
+    setShowSpeedSlider(false);
+    setShowAudioDelay(false);
+    setShowSubtitleDelay(false);
+    setShowTrackSelection(false);
+    showControls();
+  }, [showMarkMenu, showControls]);
+
+  const handleMarkSkipPoint = useCallback(
+    (point: SkipMarkPoint) => {
+      if (onMarkSkipPoint && player) {
+        onMarkSkipPoint(point, player.currentTime);
+      }
+      showControls();
+    },
+    [onMarkSkipPoint, player, showControls],
+  );
+
   const handleAudioDelayChange = useCallback((value: number) => {
     const newDelay = sliderValueToDelay(value);
     setAudioDelay(newDelay);
-  }, [sliderValueToDelay]);
+  }, []);
 
   const handleSubtitleDelayChange = useCallback((value: number) => {
     const newDelay = sliderValueToDelay(value);
     setSubtitleDelay(newDelay);
-  }, [sliderValueToDelay]);
+  }, []);
 
   const handleProgressBarLayout = useCallback((event: LayoutChangeEvent) => {
     setProgressBarWidth(event.nativeEvent.layout.width);
@@ -429,63 +623,100 @@ export function VideoPlayer({
   }, [showControls]);
 
   const closeMenus = useCallback(() => {
-    if (showSpeedSlider || showAudioDelay || showSubtitleDelay || showTrackSelection) {
+    if (
+      showSpeedSlider ||
+      showAudioDelay ||
+      showSubtitleDelay ||
+      showTrackSelection ||
+      showMarkMenu
+    ) {
       setShowSpeedSlider(false);
       setShowAudioDelay(false);
       setShowSubtitleDelay(false);
       setShowTrackSelection(false);
+      setShowMarkMenu(false);
     }
-  }, [showSpeedSlider, showAudioDelay, showSubtitleDelay, showTrackSelection]);
+  }, [
+    showSpeedSlider,
+    showAudioDelay,
+    showSubtitleDelay,
+    showTrackSelection,
+    showMarkMenu,
+  ]);
 
-  const handleVideoPress = useCallback((event: any) => {
-    const { locationX } = event.nativeEvent;
-    const now = Date.now();
-    const timeSinceLastTap = now - lastTapTime.current;
-    const isDoubleTap = timeSinceLastTap < 300 && lastTapLocation.current !== null;
-    
-    // Determine which region was tapped
-    const thirdWidth = videoWidth / 3;
-    let region: 'left' | 'right' | 'middle' = 'middle';
-    if (locationX < thirdWidth) region = 'left';
-    else if (locationX > thirdWidth * 2) region = 'right';
-    
-    if (isDoubleTap && lastTapLocation.current === region) {
-      // Double tap on same region - start FF/RW hold
-      if (doubleTapHoldInterval.current) {
-        clearTimeout(doubleTapHoldInterval.current);
-      }
-      
-      if (region === 'left') {
-        handleRewindPressIn();
-      } else if (region === 'right') {
-        handleForwardPressIn();
-      }
-      
-      // Stop the hold after user releases (simulated by timeout)
-      doubleTapHoldInterval.current = setTimeout(() => {
-        if (region === 'left') {
-          handleRewindPressOut();
-        } else if (region === 'right') {
-          handleForwardPressOut();
+  const handleVideoPress = useCallback(
+    (event: any) => {
+      const { locationX } = event.nativeEvent;
+      const now = Date.now();
+      const timeSinceLastTap = now - lastTapTime.current;
+      const isDoubleTap =
+        timeSinceLastTap < 300 && lastTapLocation.current !== null;
+
+      // Determine which region was tapped
+      const thirdWidth = videoWidth / 3;
+      let region: "left" | "right" | "middle" = "middle";
+      if (locationX < thirdWidth) region = "left";
+      else if (locationX > thirdWidth * 2) region = "right";
+
+      if (isDoubleTap && lastTapLocation.current === region) {
+        // Double tap on same region - start FF/RW hold
+        if (doubleTapHoldInterval.current) {
+          clearTimeout(doubleTapHoldInterval.current);
         }
-      }, 3000); // 3 second max hold
-      
-      lastTapTime.current = 0; // Reset to prevent triple-tap
-      lastTapLocation.current = null;
-    } else {
-      // Single tap
-      if (showSpeedSlider || showAudioDelay || showSubtitleDelay || showTrackSelection) {
-        closeMenus();
-      } else if (region === 'middle') {
-        togglePlayPause();
+
+        if (region === "left") {
+          handleRewindPressIn();
+        } else if (region === "right") {
+          handleForwardPressIn();
+        }
+
+        // Stop the hold after user releases (simulated by timeout)
+        doubleTapHoldInterval.current = setTimeout(() => {
+          if (region === "left") {
+            handleRewindPressOut();
+          } else if (region === "right") {
+            handleForwardPressOut();
+          }
+        }, 3000); // 3 second max hold
+
+        lastTapTime.current = 0; // Reset to prevent triple-tap
+        lastTapLocation.current = null;
       } else {
-        showControls();
+        // Single tap
+        if (
+          showSpeedSlider ||
+          showAudioDelay ||
+          showSubtitleDelay ||
+          showTrackSelection ||
+          showMarkMenu
+        ) {
+          closeMenus();
+        } else if (region === "middle") {
+          togglePlayPause();
+        } else {
+          showControls();
+        }
+
+        lastTapTime.current = now;
+        lastTapLocation.current = region;
       }
-      
-      lastTapTime.current = now;
-      lastTapLocation.current = region;
-    }
-  }, [videoWidth, togglePlayPause, closeMenus, showControls, handleRewindPressIn, handleRewindPressOut, handleForwardPressIn, handleForwardPressOut, showSpeedSlider, showAudioDelay, showSubtitleDelay, showTrackSelection]);
+    },
+    [
+      videoWidth,
+      togglePlayPause,
+      closeMenus,
+      showControls,
+      handleRewindPressIn,
+      handleRewindPressOut,
+      handleForwardPressIn,
+      handleForwardPressOut,
+      showSpeedSlider,
+      showAudioDelay,
+      showSubtitleDelay,
+      showTrackSelection,
+      showMarkMenu,
+    ],
+  );
 
   const controlsAnimatedStyle = useAnimatedStyle(() => ({
     opacity: controlsOpacity.value,
@@ -580,15 +811,52 @@ export function VideoPlayer({
         <Pressable 
           onPress={closeMenus}
           style={{ flex: 1 }}
-          pointerEvents={showSpeedSlider || showAudioDelay || showSubtitleDelay || showTrackSelection ? "auto" : "none"}
+          pointerEvents={
+            showSpeedSlider ||
+            showAudioDelay ||
+            showSubtitleDelay ||
+            showTrackSelection ||
+            showMarkMenu
+              ? "auto"
+              : "none"
+          }
         />
 
         <View style={styles.bottomControlsContainer}>
-          {!showSpeedSlider && !showAudioDelay && !showSubtitleDelay && !showTrackSelection ? (
+          {!showSpeedSlider &&
+          !showAudioDelay &&
+          !showSubtitleDelay &&
+          !showTrackSelection &&
+          !showMarkMenu ? (
             <>
+              {currentChapter?.title ? (
+                <ThemedText style={styles.chapterTitle} numberOfLines={1}>
+                  {currentChapter.title}
+                </ThemedText>
+              ) : null}
               <View style={styles.progressContainer}>
                 <ThemedText style={styles.timeText}>{formatTime(currentPosition)}</ThemedText>
                 <View style={styles.progressBarWrapper}>
+                  {duration > 0
+                    ? chapters
+                        .filter(
+                          (chapter) =>
+                            chapter.startTime > 0 &&
+                            chapter.startTime < duration,
+                        )
+                        .map((chapter) => (
+                          <View
+                            key={`${chapter.startTime}-${chapter.title}`}
+                            pointerEvents="none"
+                            style={[
+                              styles.chapterTick,
+                              {
+                                left: `${(chapter.startTime / duration) * 100}%`,
+                              },
+                            ]}
+                          />
+                        ))
+                    : null}
                   <Slider
                     style={styles.progressSlider}
                     minimumValue={0}
@@ -621,7 +889,7 @@ export function VideoPlayer({
                 <MediaButtonItem
                   icon="arrow-left"
                   label="Prev Ch"
-                  onPress={() => seekRelative(-30)}
+                  onPress={handlePreviousChapter}
                 />
                 <MediaButtonItem
                   icon="rewind"
@@ -653,7 +921,8 @@ export function VideoPlayer({
                 <MediaButtonItem
                   icon="arrow-right"
                   label="Next Ch"
-                  onPress={() => seekRelative(30)}
+                  onPress={handleNextChapter}
+                  disabled={!hasNextChapter}
                 />
                 <MediaButtonItem
                   icon="skip-forward"
@@ -723,7 +992,7 @@ export function VideoPlayer({
                 <ThemedText style={styles.speedRangeLabel}>+5s</ThemedText>
               </View>
             </View>
-          ) : (
+          ) : showTrackSelection ? (
             /* Track Selection */
             <View style={styles.trackSelectionContainer}>
               <View style={styles.trackRow}>
@@ -744,6 +1013,55 @@ export function VideoPlayer({
                 </Pressable>
               </View>
             </View>
+          ) : (
+            /* Mark Skip Points */
+            <View style={styles.trackSelectionContainer}>
+              <ThemedText style={styles.speedSliderLabel}>
+                Mark at {formatTime(currentPosition)}
+              </ThemedText>
+              <View style={styles.trackRow}>
+                <ThemedText style={styles.trackLabel}>Intro:</ThemedText>
+                <Pressable
+                  onPress={() => handleMarkSkipPoint("introStart")}
+                  style={styles.trackButton}
+                >
+                  <ThemedText style={styles.trackButtonText}>Start</ThemedText>
+                </Pressable>
+                <Pressable
+                  onPress={() => handleMarkSkipPoint("introEnd")}
+                  style={styles.trackButton}
+                >
+                  <ThemedText style={styles.trackButtonText}>End</ThemedText>
+                </Pressable>
+              </View>
+              <View style={styles.trackRow}>
+                <ThemedText style={styles.trackLabel}>Credits:</ThemedText>
+                <Pressable
+                  onPress={() => handleMarkSkipPoint("creditsStart")}
+                  style={styles.trackButton}
+                >
+                  <ThemedText style={styles.trackButtonText}>Start</ThemedText>
+                </Pressable>
+                <Pressable
+                  onPress={() => handleMarkSkipPoint("creditsEnd")}
+                  style={styles.trackButton}
+                >
+                  <ThemedText style={styles.trackButtonText}>End</ThemedText>
+                </Pressable>
+              </View>
+              {onEditSkipTimes ? (
+                <View style={styles.trackRow}>
+                  <Pressable
+                    onPress={onEditSkipTimes}
+                    style={[styles.trackButton, { flex: 1 }]}
+                  >
+                    <ThemedText style={styles.trackButtonText}>
+                      Edit Skip Times
+                    </ThemedText>
+                  </Pressable>
+                </View>
+              ) : null}
+            </View>
           )}
 
           {/* Bottom Actions Row */}
@@ -772,6 +1090,17 @@ export function VideoPlayer({
             >
               <ThemedText style={styles.speedText}>Tracks</ThemedText>
             </Pressable>
+            {onMarkSkipPoint ? (
+              <Pressable
+                onPress={toggleMarkMenu}
+                style={({ pressed }) => [
+                  styles.speedButton,
+                  { opacity: pressed ? 0.6 : 1 },
+                ]}
+              >
+                <ThemedText style={styles.speedText}>Mark</ThemedText>
+              </Pressable>
+            ) : null}
             <Pressable
               onPress={onSettingsPress}
               style={({ pressed }) => [styles.settingsButton, { opacity: pressed ? 0.6 : 1 }]}
@@ -782,11 +1111,22 @@ export function VideoPlayer({
         </View>
       </Animated.View>
 
-      {activeSkipMarker ? (
+      {onNextEpisode ? (
+        <NextEpisodeCard
+          title={nextEpisodeTitle ?? "Next episode"}
+          countdown={nextEpisodeCountdown}
+          onPlayNow={onNextEpisode}
+          onCancel={handleNextEpisodeCancel}
+          visible={showNextEpisodeCard}
+        />
+      ) : null}
+
+      {activeSkipMarker &&
+      !(showNextEpisodeCard && activeSkipMarker.type === "credits") ? (
         <SkipButton
           type={activeSkipMarker.type}
           duration={Math.floor(activeSkipMarker.endTime - activeSkipMarker.startTime)}
-          onSkip={handleSkip}
+          onSkip={handleSkipPress}
           visible={!!activeSkipMarker}
           autoSkipCountdown={autoSkipCountdown}
         />
@@ -838,6 +1178,20 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     position: "relative",
   },
+  chapterTitle: {
+    ...Typography.small,
+    color: Colors.dark.text,
+    opacity: 0.8,
+  },
+  chapterTick: {
+    position: "absolute",
+    width: 2,
+    height: 8,
+    marginLeft: -1,
+    borderRadius: 1,
+    backgroundColor: "rgba(255, 255, 255, 0.7)",
+    zIndex: 10,
+  },
   progressSlider: {
     width: "100%",
     height: 30,
@@ -960,6 +1314,7 @@ const styles = StyleSheet.create({
     alignItems: "center",
     justifyContent: "space-between",
     paddingVertical: Spacing.sm,
+    gap: Spacing.sm,
   },
   trackLabel: {
     ...Typography.small,
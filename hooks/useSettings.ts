@@ -4,7 +4,9 @@ import {
   SkipSettings,
   PlaybackSettings,
   TraktCredentials,
+  TraktPreferences,
   DebridSettings,
+  SourceSettings,
   DEFAULT_APP_SETTINGS,
 } from "@/types";
 import {
@@ -12,7 +14,9 @@ import {
   saveSkipSettings,
   savePlaybackSettings,
   saveTraktCredentials,
+  saveTraktPreferences,
   saveDebridSettings,
+  saveSourceSettings,
   clearTraktCredentials,
 } from "@/storage/settingsStorage";
 
@@ -20,13 +24,17 @@ export function useSettings() {
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_APP_SETTINGS);
   const [isLoading, setIsLoading] = useState(true);
 
-  useEffect(() => {
-    loadAllSettings().then((loaded) => {
-      setSettings(loaded);
-      setIsLoading(false);
-    });
+  // Each screen keeps its own copy, so screens call this when they regain focus
+  const reload = useCallback(async () => {
+    const loaded = await loadAllSettings();
+    setSettings(loaded);
+    setIsLoading(false);
   }, []);
 
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
   const updateSkipSettings = useCallback(async (updates: Partial<SkipSettings>) => {
     const newSkipSettings = { ...settings.skip, ...updates };
     setSettings((prev) => ({ ...prev, skip: newSkipSettings }));
@@ -55,19 +63,43 @@ export function useSettings() {
     await clearTraktCredentials();
   }, []);
 
+  const updateTraktPreferences = useCallback(
+    async (updates: Partial<TraktPreferences>) => {
+      const newTraktPreferences = { ...settings.traktPreferences, ...updates };
+      setSettings((prev) => ({
+        ...prev,
+        traktPreferences: newTraktPreferences,
+      }));
+      await saveTraktPreferences(newTraktPreferences);
+    },
+    [settings.traktPreferences],
+  );
+
   const updateDebridSettings = useCallback(async (updates: Partial<DebridSettings>) => {
     const newDebridSettings = { ...settings.debrid, ...updates };
     setSettings((prev) => ({ ...prev, debrid: newDebridSettings }));
     await saveDebridSettings(newDebridSettings);
   }, [settings.debrid]);
 
+  const updateSourceSettings = useCallback(
+    async (updates: Partial<SourceSettings>) => {
+      const newSourceSettings = { ...settings.sources, ...updates };
+      setSettings((prev) => ({ ...prev, sources: newSourceSettings }));
+      await saveSourceSettings(newSourceSettings);
+    },
+    [settings.sources],
+  );
+
   return {
     settings,
     isLoading,
+    reload,
     updateSkipSettings,
     updatePlaybackSettings,
     updateTraktCredentials,
     disconnectTrakt,
+    updateTraktPreferences,
     updateDebridSettings,
+    updateSourceSettings,
   };
 }
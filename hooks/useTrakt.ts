@@ -1,132 +1,252 @@
-import { useEffect, useCallback, useRef } from "react";
-import { traktService, createScrobbleData } from "@/services/traktService";
+import { useEffect, useCallback, useMemo, useRef, useState } from "react";
+import { AppState } from "react-native";
+import {
+  traktService,
+  createCheckinData,
+  createRatingsRequest,
+  isWatchedProgress,
+  TraktMediaData,
+} from "@/services/traktService";
+import { TraktScrobbler } from "@/services/traktScrobbler";
+import {
+  traktIdentityService,
+  MediaIdentityQuery,
+} from "@/services/traktIdentityService";
+import { traktOutbox } from "@/services/traktOutbox";
 import { useSettings } from "@/hooks/useSettings";
 
-interface UseTraktOptions {
-  imdbId?: string;
-  title: string;
-  season?: number;
-  episode?: number;
+interface UseTraktOptions extends MediaIdentityQuery {
+  // Set to false for videos that shouldn't reach Trakt at all, such as the sample video
+  enabled?: boolean;
+}
+
+// Progress ticks arrive every half second, so a larger jump means the user seeked
+const SEEK_THRESHOLD_SECONDS = 5;
+
+type CheckinState = { checkedIn: boolean };
+
+// A check-in that doesn't go through is tried again on the next play
+async function startCheckin(
+  identity: Promise<TraktMediaData | null>,
+  state: CheckinState,
+) {
+  state.checkedIn = true;
+  try {
+    const media = await identity;
+    if (!media || !(await traktService.checkin(createCheckinData(media)))) {
+      state.checkedIn = false;
+    }
+  } catch (error) {
+    console.error("Failed to check in on Trakt:", error);
+    state.checkedIn = false;
+  }
 }
 
 export function useTrakt(options: UseTraktOptions) {
   const { settings } = useSettings();
+  const {
+    imdbId,
+    tmdbId,
+    tvdbId,
+    traktId,
+    title,
+    year,
+    season,
+    episode,
+    filename,
+    enabled = true,
+  } = options;
+  const isActive = enabled && !!settings.trakt.accessToken;
+  const watchMode = settings.traktPreferences.watchMode;
+
+  const identity = useMemo(
+    () =>
+      isActive
+        ? traktIdentityService.resolve({
+            imdbId,
+            tmdbId,
+            tvdbId,
+            traktId,
+            title,
+            year,
+            season,
+            episode,
+            filename,
+          })
+        : null,
+    [
+      isActive,
+      imdbId,
+      tmdbId,
+      tvdbId,
+      traktId,
+      title,
+      year,
+      season,
+      episode,
+      filename,
+    ],
+  );
+  const identityRef = useRef(identity);
+  identityRef.current = identity;
+  const [isIdentified, setIsIdentified] = useState(false);
+
+  const scrobbler = useRef<TraktScrobbler | null>(null);
+  // Set in check-in mode once playback has started; cleared when the check-in is cancelled
+  const checkin = useRef<CheckinState | null>(null);
   const lastProgress = useRef(0);
-  const hasScrobbledStart = useRef(false);
-  const hasScrobbled80 = useRef(false);
+  const lastPosition = useRef<number | null>(null);
   const isPlaying = useRef(false);
 
+  useEffect(() => {
+    let cancelled = false;
+    setIsIdentified(false);
+    identity
+      ?.then((media) => {
+        if (!cancelled) setIsIdentified(!!media);
+      })
+      .catch((error) => {
+        console.error("Failed to identify media on Trakt:", error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [identity]);
+
   useEffect(() => {
     traktService.initialize();
+    // Replay anything that couldn't be sent during earlier sessions
+    traktOutbox.flush();
   }, []);
 
-  const resetScrobbleState = useCallback(() => {
-    hasScrobbledStart.current = false;
-    hasScrobbled80.current = false;
-    lastProgress.current = 0;
-  }, []);
+  useEffect(() => {
+    if (!identity || watchMode !== "checkin") return;
 
-  const scrobbleStart = useCallback(async () => {
-    if (!settings.trakt.accessToken) return;
-    if (hasScrobbledStart.current) return;
-
-    const data = createScrobbleData(
-      options.imdbId,
-      options.title,
-      options.season,
-      options.episode,
-      0
-    );
-
-    const success = await traktService.scrobbleStart(data);
-    if (success) {
-      hasScrobbledStart.current = true;
-      isPlaying.current = true;
+    const current: CheckinState = { checkedIn: false };
+    checkin.current = current;
+    lastProgress.current = 0;
+    lastPosition.current = null;
+    if (isPlaying.current) {
+      startCheckin(identity, current);
     }
-  }, [settings.trakt.accessToken, options]);
 
-  const scrobblePause = useCallback(async (progress: number) => {
-    if (!settings.trakt.accessToken) return;
-    if (!isPlaying.current) return;
+    // Walking away early shouldn't leave Trakt marking the title watched when the runtime runs out
+    return () => {
+      if (current.checkedIn && !isWatchedProgress(lastProgress.current)) {
+        traktService.cancelCheckin();
+      }
+      if (checkin.current === current) {
+        checkin.current = null;
+      }
+    };
+  }, [identity, watchMode]);
 
-    const data = createScrobbleData(
-      options.imdbId,
-      options.title,
-      options.season,
-      options.episode,
-      progress
-    );
+  useEffect(() => {
+    if (!identity || watchMode !== "scrobble") return;
 
-    await traktService.scrobblePause(data);
-    isPlaying.current = false;
-  }, [settings.trakt.accessToken, options]);
+    const current = new TraktScrobbler(identity);
+    scrobbler.current = current;
+    lastProgress.current = 0;
+    lastPosition.current = null;
+    if (isPlaying.current) {
+      current.dispatch("play", 0);
+    }
 
-  const scrobbleStop = useCallback(async (progress: number) => {
-    if (!settings.trakt.accessToken) return;
+    // Leaving the screen or switching episodes ends the scrobble with whatever progress was reached
+    return () => {
+      current.dispatch("stop", lastProgress.current);
+      if (scrobbler.current === current) {
+        scrobbler.current = null;
+      }
+    };
+  }, [identity, watchMode]);
 
-    const data = createScrobbleData(
-      options.imdbId,
-      options.title,
-      options.season,
-      options.episode,
-      progress
-    );
+  useEffect(() => {
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "active") {
+        traktOutbox.flush();
+      }
+      const current = scrobbler.current;
+      if (!current) return;
+      if (state === "background") {
+        current.dispatch("pause", lastProgress.current);
+      } else if (state === "active" && isPlaying.current) {
+        current.dispatch("play", lastProgress.current);
+      }
+    });
+    return () => subscription.remove();
+  }, []);
 
-    await traktService.scrobbleStop(data);
-    isPlaying.current = false;
-  }, [settings.trakt.accessToken, options]);
-
-  const updateProgress = useCallback(async (currentTime: number, duration: number) => {
-    if (!settings.trakt.accessToken || duration === 0) return;
-
-    const progress = (currentTime / duration) * 100;
-    lastProgress.current = progress;
-
-    if (progress >= 80 && !hasScrobbled80.current) {
-      hasScrobbled80.current = true;
-      
-      const data = createScrobbleData(
-        options.imdbId,
-        options.title,
-        options.season,
-        options.episode,
-        progress
-      );
-      await traktService.scrobbleStop(data);
+  const updateProgress = useCallback(
+    (currentTime: number, duration: number) => {
+      if (duration <= 0) return;
+
+      const previous = lastPosition.current;
+      lastPosition.current = currentTime;
+      lastProgress.current = (currentTime / duration) * 100;
+
+      if (
+        previous !== null &&
+        Math.abs(currentTime - previous) > SEEK_THRESHOLD_SECONDS
+      ) {
+        scrobbler.current?.dispatch("seek", lastProgress.current);
+      }
+    },
+    [],
+  );
+
+  const onPlay = useCallback(() => {
+    isPlaying.current = true;
+    const current = checkin.current;
+    if (current && !current.checkedIn && identityRef.current) {
+      startCheckin(identityRef.current, current);
     }
-  }, [settings.trakt.accessToken, options]);
-
-  const onPlay = useCallback(async () => {
-    if (!hasScrobbledStart.current) {
-      await scrobbleStart();
-    } else if (!isPlaying.current) {
-      const data = createScrobbleData(
-        options.imdbId,
-        options.title,
-        options.season,
-        options.episode,
-        lastProgress.current
-      );
-      await traktService.scrobbleStart(data);
-      isPlaying.current = true;
+    // Playback stalls in the background too; it only counts once the app is visible again
+    if (AppState.currentState !== "background") {
+      scrobbler.current?.dispatch("play", lastProgress.current);
     }
-  }, [scrobbleStart, options]);
+  }, []);
+
+  const onPause = useCallback(() => {
+    isPlaying.current = false;
+    scrobbler.current?.dispatch("pause", lastProgress.current);
+  }, []);
 
-  const onPause = useCallback(async () => {
-    await scrobblePause(lastProgress.current);
-  }, [scrobblePause]);
+  const onStop = useCallback(() => {
+    isPlaying.current = false;
+    scrobbler.current?.dispatch("stop", lastProgress.current);
+    const current = checkin.current;
+    if (current?.checkedIn && !isWatchedProgress(lastProgress.current)) {
+      current.checkedIn = false;
+      traktService.cancelCheckin();
+    }
+  }, []);
+
+  const onEnd = useCallback(() => {
+    isPlaying.current = false;
+    lastProgress.current = 100;
+    scrobbler.current?.dispatch("stop", 100);
+  }, []);
 
-  const onStop = useCallback(async () => {
-    await scrobbleStop(lastProgress.current);
-    resetScrobbleState();
-  }, [scrobbleStop, resetScrobbleState]);
+  const rate = useCallback(
+    async (rating: number) => {
+      const media = await identity;
+      return media
+        ? traktService.rate(createRatingsRequest(media, rating))
+        : false;
+    },
+    [identity],
+  );
 
   return {
     onPlay,
     onPause,
     onStop,
+    onEnd,
     updateProgress,
-    resetScrobbleState,
+    rate,
     isAuthenticated: !!settings.trakt.accessToken,
+    // Whether Trakt matched the video, so scrobbles, check-ins and ratings will be sent
+    isIdentified,
   };
 }
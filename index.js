@@ -1,5 +1,7 @@
 import { registerRootComponent } from "expo";
 
 import App from "@/App";
+import { installSecretRedaction } from "@/storage/secretStorage";
 
+installSecretRedaction();
 registerRootComponent(App);
@@ -5,6 +5,14 @@ import PlayerScreen from "@/screens/PlayerScreen";
 import SettingsScreen from "@/screens/SettingsScreen";
 import SkipConfigurationScreen from "@/screens/SkipConfigurationScreen";
 import TraktAuthScreen from "@/screens/TraktAuthScreen";
+import SkipSubmissionsScreen from "@/screens/SkipSubmissionsScreen";
+import CommunityProvidersScreen from "@/screens/CommunityProvidersScreen";
+import LibraryScreen from "@/screens/LibraryScreen";
+import DebridAccountScreen from "@/screens/DebridAccountScreen";
+import DebridAccountsScreen from "@/screens/DebridAccountsScreen";
+import SourcesScreen from "@/screens/SourcesScreen";
+import SourceSettingsScreen from "@/screens/SourceSettingsScreen";
+import BackupScreen from "@/screens/BackupScreen";
 import { HeaderTitle } from "@/components/HeaderTitle";
 import { useTheme } from "@/hooks/useTheme";
 import { getCommonScreenOptions } from "@/navigation/screenOptions";
@@ -72,6 +80,110 @@ export default function RootNavigator() {
           animation: "slide_from_bottom",
         }}
       />
+      <Stack.Screen
+        name="SkipSubmissions"
+        component={SkipSubmissionsScreen}
+        options={{
+          headerShown: true,
+          headerTransparent: true,
+          headerBlurEffect: "dark",
+          headerTitle: "Skip Submissions",
+          headerTintColor: theme.text,
+          presentation: "modal",
+          animation: "slide_from_right",
+        }}
+      />
+      <Stack.Screen
+        name="CommunityProviders"
+        component={CommunityProvidersScreen}
+        options={{
+          headerShown: true,
+          headerTransparent: true,
+          headerBlurEffect: "dark",
+          headerTitle: "Community Providers",
+          headerTintColor: theme.text,
+          presentation: "modal",
+          animation: "slide_from_right",
+        }}
+      />
+      <Stack.Screen
+        name="Library"
+        component={LibraryScreen}
+        options={{
+          headerShown: true,
+          headerTransparent: true,
+          headerBlurEffect: "dark",
+          headerTitle: "Library",
+          headerTintColor: theme.text,
+          presentation: "modal",
+          animation: "slide_from_bottom",
+        }}
+      />
+      <Stack.Screen
+        name="DebridAccounts"
+        component={DebridAccountsScreen}
+        options={{
+          headerShown: true,
+          headerTransparent: true,
+          headerBlurEffect: "dark",
+          headerTitle: "Debrid Accounts",
+          headerTintColor: theme.text,
+          presentation: "modal",
+          animation: "slide_from_right",
+        }}
+      />
+      <Stack.Screen
+        name="DebridAccount"
+        component={DebridAccountScreen}
+        options={{
+          headerShown: true,
+          headerTransparent: true,
+          headerBlurEffect: "dark",
+          headerTitle: "Debrid Account",
+          headerTintColor: theme.text,
+          presentation: "modal",
+          animation: "slide_from_right",
+        }}
+      />
+      <Stack.Screen
+        name="Sources"
+        component={SourcesScreen}
+        options={{
+          headerShown: true,
+          headerTransparent: true,
+          headerBlurEffect: "dark",
+          headerTitle: "Sources",
+          headerTintColor: theme.text,
+          presentation: "modal",
+          animation: "slide_from_right",
+        }}
+      />
+      <Stack.Screen
+        name="SourceSettings"
+        component={SourceSettingsScreen}
+        options={{
+          headerShown: true,
+          headerTransparent: true,
+          headerBlurEffect: "dark",
+          headerTitle: "Stream Sources",
+          headerTintColor: theme.text,
+          presentation: "modal",
+          animation: "slide_from_right",
+        }}
+      />
+      <Stack.Screen
+        name="Backup"
+        component={BackupScreen}
+        options={{
+          headerShown: true,
+          headerTransparent: true,
+          headerBlurEffect: "dark",
+          headerTitle: "Backup & Restore",
+          headerTintColor: theme.text,
+          presentation: "modal",
+          animation: "slide_from_right",
+        }}
+      />
     </Stack.Navigator>
   );
 }
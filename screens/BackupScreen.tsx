@@ -0,0 +1,308 @@
+import React, { useCallback, useState } from "react";
+import {
+  StyleSheet,
+  View,
+  TextInput,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+
+import { ThemedView } from "@/components/ThemedView";
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { SettingsRow, SettingsSectionHeader } from "@/components/SettingsRow";
+import {
+  backupService,
+  BackupFile,
+  ImportMode,
+  ImportSummary,
+} from "@/services/backupService";
+import { Colors, Spacing, BorderRadius, Typography } from "@/constants/theme";
+
+type BusyAction = "export" | "file" | "network" | null;
+
+const MODE_LABELS: Record<ImportMode, string> = {
+  merge: "Merge",
+  replace: "Replace",
+};
+
+const MODE_DESCRIPTIONS: Record<ImportMode, string> = {
+  merge:
+    "Keeps this device's settings, adds missing accounts and addons, and takes the newer of each skip and position",
+  replace: "Overwrites settings, skips and positions with the backup's",
+};
+
+function describeSummary(summary: ImportSummary): string {
+  const entries = `${summary.entries} skip ${summary.entries === 1 ? "entry" : "entries"} and resume positions imported.`;
+  if (summary.secrets === "restored") {
+    return `${entries} Trakt and debrid credentials were restored.`;
+  }
+  if (summary.secrets === "skipped") {
+    return `${entries} The backup's credentials were skipped; enter its passphrase to restore them.`;
+  }
+  return entries;
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export default function BackupScreen() {
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const [exportPassphrase, setExportPassphrase] = useState("");
+  const [importPassphrase, setImportPassphrase] = useState("");
+  const [importUrl, setImportUrl] = useState("");
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [busyAction, setBusyAction] = useState<BusyAction>(null);
+
+  const handleExport = useCallback(async () => {
+    setBusyAction("export");
+    try {
+      await backupService.exportToFile(exportPassphrase || undefined);
+    } catch (error) {
+      console.error("Failed to export backup:", error);
+      Alert.alert("Export Failed", getErrorMessage(error));
+    } finally {
+      setBusyAction(null);
+    }
+  }, [exportPassphrase]);
+
+  const runImport = useCallback(
+    async (backup: BackupFile) => {
+      try {
+        const summary = await backupService.importBackup(
+          backup,
+          mode,
+          importPassphrase || undefined,
+        );
+        Alert.alert("Backup Imported", describeSummary(summary));
+      } catch (error) {
+        console.error("Failed to import backup:", error);
+        Alert.alert("Import Failed", getErrorMessage(error));
+      } finally {
+        setBusyAction(null);
+      }
+    },
+    [mode, importPassphrase],
+  );
+
+  // Replacing is confirmed once the backup has been read, so the prompt can say when it was made
+  const confirmImport = useCallback(
+    (backup: BackupFile) => {
+      if (mode === "merge") {
+        runImport(backup);
+        return;
+      }
+
+      const createdAt = backup.createdAt
+        ? ` from ${new Date(backup.createdAt).toLocaleDateString()}`
+        : "";
+      Alert.alert(
+        "Replace Everything",
+        `Settings, skips and resume positions on this device will be replaced with the backup${createdAt}.`,
+        [
+          {
+            text: "Cancel",
+            style: "cancel",
+            onPress: () => setBusyAction(null),
+          },
+          {
+            text: "Replace",
+            style: "destructive",
+            onPress: () => runImport(backup),
+          },
+        ],
+      );
+    },
+    [mode, runImport],
+  );
+
+  const handleImportFile = useCallback(async () => {
+    setBusyAction("file");
+    try {
+      const backup = await backupService.pickBackupFile();
+      if (!backup) {
+        setBusyAction(null);
+        return;
+      }
+      confirmImport(backup);
+    } catch (error) {
+      console.error("Failed to read backup file:", error);
+      Alert.alert("Import Failed", getErrorMessage(error));
+      setBusyAction(null);
+    }
+  }, [confirmImport]);
+
+  const handleImportNetwork = useCallback(async () => {
+    if (!/^https?:\/\/\S+$/.test(importUrl.trim())) {
+      Alert.alert(
+        "Invalid Address",
+        "Enter the http address of an exported backup file.",
+      );
+      return;
+    }
+
+    setBusyAction("network");
+    try {
+      confirmImport(await backupService.fetchBackup(importUrl));
+    } catch (error) {
+      console.error("Failed to download backup:", error);
+      Alert.alert("Import Failed", getErrorMessage(error));
+      setBusyAction(null);
+    }
+  }, [importUrl, confirmImport]);
+
+  const isBusy = busyAction !== null;
+
+  return (
+    <ThemedView style={styles.container}>
+      <KeyboardAvoidingView
+        style={styles.keyboardView}
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        keyboardVerticalOffset={headerHeight}
+      >
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={[
+            styles.content,
+            {
+              paddingTop: headerHeight + Spacing.xl,
+              paddingBottom: insets.bottom + Spacing.xl,
+            },
+          ]}
+          keyboardShouldPersistTaps="handled"
+        >
+          <View style={styles.group}>
+            <SettingsSectionHeader title="Export" />
+            <ThemedText style={styles.hint}>
+              Saves settings, debrid accounts, stream sources, manual skips and
+              resume positions to a JSON file. Trakt tokens and debrid API keys
+              are only included when you set a passphrase, and are encrypted
+              with it.
+            </ThemedText>
+            <TextInput
+              style={styles.input}
+              value={exportPassphrase}
+              onChangeText={setExportPassphrase}
+              placeholder="Passphrase for credentials (optional)"
+              placeholderTextColor={Colors.dark.disabled}
+              autoCapitalize="none"
+              autoCorrect={false}
+              secureTextEntry
+            />
+            <Button onPress={handleExport} disabled={isBusy}>
+              {busyAction === "export" ? "Exporting..." : "Export Backup"}
+            </Button>
+          </View>
+
+          <View style={styles.group}>
+            <SettingsSectionHeader title="Import" />
+            <View style={styles.section}>
+              <SettingsRow
+                type="navigation"
+                label="Mode"
+                subtitle={MODE_DESCRIPTIONS[mode]}
+                icon="git-merge"
+                value={MODE_LABELS[mode]}
+                onPress={() =>
+                  setMode((current) =>
+                    current === "merge" ? "replace" : "merge",
+                  )
+                }
+              />
+            </View>
+            <TextInput
+              style={styles.input}
+              value={importPassphrase}
+              onChangeText={setImportPassphrase}
+              placeholder="Backup passphrase (optional)"
+              placeholderTextColor={Colors.dark.disabled}
+              autoCapitalize="none"
+              autoCorrect={false}
+              secureTextEntry
+            />
+            <Button onPress={handleImportFile} disabled={isBusy}>
+              {busyAction === "file" ? "Importing..." : "Import from File"}
+            </Button>
+          </View>
+
+          <View style={styles.group}>
+            <ThemedText style={styles.inputLabel}>
+              Import over the Network
+            </ThemedText>
+            <ThemedText style={styles.hint}>
+              For devices without a file browser: serve the exported file from a
+              computer or phone on the same network, for example with
+              &quot;python3 -m http.server&quot;, and enter its address.
+            </ThemedText>
+            <TextInput
+              style={styles.input}
+              value={importUrl}
+              onChangeText={setImportUrl}
+              placeholder="http://192.168.1.20:8000/streamplayer-backup.json"
+              placeholderTextColor={Colors.dark.disabled}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+            <Button onPress={handleImportNetwork} disabled={isBusy}>
+              {busyAction === "network"
+                ? "Downloading..."
+                : "Import from Network"}
+            </Button>
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.dark.backgroundRoot,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    flexGrow: 1,
+    paddingHorizontal: Spacing.xl,
+    gap: Spacing["2xl"],
+  },
+  group: {
+    gap: Spacing.sm,
+  },
+  section: {
+    backgroundColor: Colors.dark.backgroundDefault,
+    borderRadius: BorderRadius.md,
+    overflow: "hidden",
+  },
+  inputLabel: {
+    ...Typography.body,
+    fontWeight: "600",
+    color: Colors.dark.text,
+  },
+  hint: {
+    ...Typography.small,
+    color: Colors.dark.disabled,
+  },
+  input: {
+    height: Spacing.inputHeight,
+    backgroundColor: Colors.dark.backgroundDefault,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.lg,
+    ...Typography.body,
+    color: Colors.dark.text,
+    borderWidth: 1,
+    borderColor: Colors.dark.backgroundSecondary,
+  },
+});
@@ -0,0 +1,361 @@
+import React, { useState, useCallback } from "react";
+import {
+  StyleSheet,
+  View,
+  TextInput,
+  Alert,
+  Pressable,
+  Switch,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedView } from "@/components/ThemedView";
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { useSettings } from "@/hooks/useSettings";
+import {
+  DEFAULT_PROVIDER_TIMEOUT_MS,
+  normalizeProviderSettings,
+} from "@/services/skipProviders";
+import { SkipProviderSetting } from "@/types";
+import { Colors, Spacing, BorderRadius, Typography } from "@/constants/theme";
+
+const TIMEOUT_OPTIONS = [3000, 5000, 10000, 15000];
+
+export default function CommunityProvidersScreen() {
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const { settings, updateSkipSettings } = useSettings();
+  const [customName, setCustomName] = useState("");
+  const [customUrl, setCustomUrl] = useState("");
+
+  const providers = normalizeProviderSettings(settings.skip.communityProviders);
+
+  const saveProviders = useCallback(
+    (communityProviders: SkipProviderSetting[]) => {
+      updateSkipSettings({ communityProviders });
+    },
+    [updateSkipSettings],
+  );
+
+  const handleToggle = useCallback(
+    (id: string, enabled: boolean) => {
+      saveProviders(
+        providers.map((provider) =>
+          provider.id === id ? { ...provider, enabled } : provider,
+        ),
+      );
+    },
+    [providers, saveProviders],
+  );
+
+  const handleMove = useCallback(
+    (index: number, direction: -1 | 1) => {
+      const target = index + direction;
+      if (target < 0 || target >= providers.length) return;
+      const reordered = [...providers];
+      [reordered[index], reordered[target]] = [
+        reordered[target],
+        reordered[index],
+      ];
+      saveProviders(reordered);
+    },
+    [providers, saveProviders],
+  );
+
+  const handleTimeout = useCallback(
+    (id: string) => {
+      saveProviders(
+        providers.map((provider) => {
+          if (provider.id !== id) return provider;
+          const index = TIMEOUT_OPTIONS.indexOf(provider.timeoutMs);
+          return {
+            ...provider,
+            timeoutMs: TIMEOUT_OPTIONS[(index + 1) % TIMEOUT_OPTIONS.length],
+          };
+        }),
+      );
+    },
+    [providers, saveProviders],
+  );
+
+  const handleRemove = useCallback(
+    (provider: SkipProviderSetting) => {
+      Alert.alert("Remove Provider", `Remove ${provider.name}?`, [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: () =>
+            saveProviders(providers.filter((item) => item.id !== provider.id)),
+        },
+      ]);
+    },
+    [providers, saveProviders],
+  );
+
+  const handleAdd = useCallback(() => {
+    const url = customUrl.trim();
+    if (!/^https?:\/\//.test(url) || !url.includes("{imdb}")) {
+      Alert.alert(
+        "Invalid URL",
+        "Enter an http(s) URL containing {imdb}, and optionally {season} and {episode}.",
+      );
+      return;
+    }
+
+    const name =
+      customName.trim() || url.replace(/^https?:\/\//, "").split("/")[0];
+    saveProviders([
+      ...providers,
+      {
+        id: `custom_${Date.now().toString(36)}`,
+        name,
+        enabled: true,
+        timeoutMs: DEFAULT_PROVIDER_TIMEOUT_MS,
+        url,
+      },
+    ]);
+    setCustomName("");
+    setCustomUrl("");
+  }, [customName, customUrl, providers, saveProviders]);
+
+  return (
+    <ThemedView style={styles.container}>
+      <KeyboardAvoidingView
+        style={styles.keyboardView}
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        keyboardVerticalOffset={headerHeight}
+      >
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={[
+            styles.content,
+            {
+              paddingTop: headerHeight + Spacing.xl,
+              paddingBottom: insets.bottom + Spacing.xl,
+            },
+          ]}
+          keyboardShouldPersistTaps="handled"
+        >
+          <ThemedText style={styles.subtitle}>
+            Providers are queried together. When two return the same segment,
+            the one higher in this list wins.
+          </ThemedText>
+
+          <View style={styles.section}>
+            {providers.map((provider, index) => (
+              <View
+                key={provider.id}
+                style={[
+                  styles.providerRow,
+                  index > 0 ? styles.rowBorder : null,
+                ]}
+              >
+                <View style={styles.providerInfo}>
+                  <ThemedText style={styles.providerName}>
+                    {index + 1}. {provider.name}
+                  </ThemedText>
+                  {provider.url ? (
+                    <ThemedText style={styles.providerUrl} numberOfLines={1}>
+                      {provider.url}
+                    </ThemedText>
+                  ) : null}
+                  <View style={styles.providerActions}>
+                    <Pressable
+                      onPress={() => handleTimeout(provider.id)}
+                      style={({ pressed }) => [
+                        styles.pill,
+                        { opacity: pressed ? 0.6 : 1 },
+                      ]}
+                    >
+                      <Feather
+                        name="clock"
+                        size={12}
+                        color={Colors.dark.text}
+                      />
+                      <ThemedText style={styles.pillText}>
+                        {provider.timeoutMs / 1000}s
+                      </ThemedText>
+                    </Pressable>
+                    <Pressable
+                      onPress={() => handleMove(index, -1)}
+                      disabled={index === 0}
+                      style={{ opacity: index === 0 ? 0.3 : 1 }}
+                    >
+                      <Feather
+                        name="chevron-up"
+                        size={18}
+                        color={Colors.dark.text}
+                      />
+                    </Pressable>
+                    <Pressable
+                      onPress={() => handleMove(index, 1)}
+                      disabled={index === providers.length - 1}
+                      style={{
+                        opacity: index === providers.length - 1 ? 0.3 : 1,
+                      }}
+                    >
+                      <Feather
+                        name="chevron-down"
+                        size={18}
+                        color={Colors.dark.text}
+                      />
+                    </Pressable>
+                    {provider.url ? (
+                      <Pressable onPress={() => handleRemove(provider)}>
+                        <Feather
+                          name="trash-2"
+                          size={16}
+                          color={Colors.dark.error}
+                        />
+                      </Pressable>
+                    ) : null}
+                  </View>
+                </View>
+                <Switch
+                  value={provider.enabled}
+                  onValueChange={(value) => handleToggle(provider.id, value)}
+                  trackColor={{
+                    false: Colors.dark.backgroundSecondary,
+                    true: Colors.dark.accent,
+                  }}
+                  thumbColor={Colors.dark.text}
+                />
+              </View>
+            ))}
+          </View>
+
+          <View style={styles.inputGroup}>
+            <ThemedText style={styles.inputLabel}>Add JSON Endpoint</ThemedText>
+            <ThemedText style={styles.inputHint}>
+              {
+                "Use {imdb}, {season} and {episode} in the URL. The response can be { intro: { start, end } } or a list of { type, start, end }."
+              }
+            </ThemedText>
+            <TextInput
+              style={styles.input}
+              value={customName}
+              onChangeText={setCustomName}
+              placeholder="Name (optional)"
+              placeholderTextColor={Colors.dark.disabled}
+            />
+            <TextInput
+              style={styles.input}
+              value={customUrl}
+              onChangeText={setCustomUrl}
+              placeholder="https://example.com/skips/{imdb}/{season}/{episode}"
+              placeholderTextColor={Colors.dark.disabled}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+            <Button onPress={handleAdd} style={styles.addButton}>
+              Add Provider
+            </Button>
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.dark.backgroundRoot,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    flexGrow: 1,
+    paddingHorizontal: Spacing.xl,
+    gap: Spacing["2xl"],
+  },
+  subtitle: {
+    ...Typography.body,
+    color: Colors.dark.disabled,
+    lineHeight: 22,
+  },
+  section: {
+    backgroundColor: Colors.dark.backgroundDefault,
+    borderRadius: BorderRadius.md,
+    overflow: "hidden",
+  },
+  providerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  rowBorder: {
+    borderTopWidth: 1,
+    borderTopColor: Colors.dark.backgroundSecondary,
+  },
+  providerInfo: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  providerName: {
+    ...Typography.body,
+    fontWeight: "600",
+    color: Colors.dark.text,
+  },
+  providerUrl: {
+    ...Typography.small,
+    color: Colors.dark.disabled,
+  },
+  providerActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.lg,
+    marginTop: Spacing.xs,
+  },
+  pill: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.sm,
+    backgroundColor: Colors.dark.backgroundSecondary,
+  },
+  pillText: {
+    ...Typography.small,
+    color: Colors.dark.text,
+  },
+  inputGroup: {
+    gap: Spacing.sm,
+  },
+  inputLabel: {
+    ...Typography.body,
+    fontWeight: "600",
+    color: Colors.dark.text,
+  },
+  inputHint: {
+    ...Typography.small,
+    color: Colors.dark.disabled,
+  },
+  input: {
+    height: Spacing.inputHeight,
+    backgroundColor: Colors.dark.backgroundDefault,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.lg,
+    ...Typography.body,
+    color: Colors.dark.text,
+    borderWidth: 1,
+    borderColor: Colors.dark.backgroundSecondary,
+  },
+  addButton: {
+    marginTop: Spacing.sm,
+  },
+});
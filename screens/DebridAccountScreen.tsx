@@ -0,0 +1,581 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  StyleSheet,
+  View,
+  TextInput,
+  Alert,
+  Pressable,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  RefreshControl,
+  ActivityIndicator,
+} from "react-native";
+import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedView } from "@/components/ThemedView";
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { SettingsRow } from "@/components/SettingsRow";
+import { useSettings } from "@/hooks/useSettings";
+import {
+  debridService,
+  DebridAccount,
+  DebridTransfer,
+  DEBRID_SERVICE_NAMES,
+  getPremiumDaysLeft,
+} from "@/services/debridService";
+import { DebridAccountSetting, RootStackParamList } from "@/types";
+import { Colors, Spacing, BorderRadius, Typography } from "@/constants/theme";
+
+type DebridAccountScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  "DebridAccount"
+>;
+type DebridAccountScreenRouteProp = RouteProp<
+  RootStackParamList,
+  "DebridAccount"
+>;
+
+const EXPIRY_WARNING_DAYS = 7;
+
+function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
+function formatExpiry(account: DebridAccount): string {
+  if (account.premiumUntil === undefined) {
+    return account.isPremium ? "Unknown" : "Not premium";
+  }
+  return new Date(account.premiumUntil).toLocaleDateString();
+}
+
+function transferDetails(transfer: DebridTransfer): string {
+  const parts = [transfer.status];
+  if (transfer.size) parts.push(formatBytes(transfer.size));
+  if (!transfer.isFinished && transfer.speed) {
+    parts.push(`${formatBytes(transfer.speed)}/s`);
+  }
+  if (!transfer.isFinished && transfer.seeders !== undefined) {
+    parts.push(`${transfer.seeders} seeders`);
+  }
+  return parts.join(" · ");
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export default function DebridAccountScreen() {
+  const navigation = useNavigation<DebridAccountScreenNavigationProp>();
+  const route = useRoute<DebridAccountScreenRouteProp>();
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const {
+    settings,
+    isLoading: settingsLoading,
+    updateDebridSettings,
+  } = useSettings();
+  const [apiKey, setApiKey] = useState("");
+  const [account, setAccount] = useState<DebridAccount | null>(null);
+  const [transfers, setTransfers] = useState<DebridTransfer[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isConnecting, setIsConnecting] = useState(false);
+
+  const { accounts } = settings.debrid;
+  const { params } = route;
+  const accountId = "accountId" in params ? params.accountId : undefined;
+  const saved = accounts.find((item) => item.id === accountId);
+  const service =
+    saved?.service ?? ("service" in params ? params.service : undefined);
+  const savedKey = saved?.apiKey ?? "";
+  const isConnected = !!saved?.isConnected;
+
+  useEffect(() => {
+    if (service) {
+      navigation.setOptions({ headerTitle: DEBRID_SERVICE_NAMES[service] });
+    }
+  }, [navigation, service]);
+
+  useEffect(() => {
+    setApiKey(savedKey);
+  }, [savedKey]);
+
+  const loadAccount = useCallback(async (target: DebridAccountSetting) => {
+    try {
+      const [nextAccount, nextTransfers] = await Promise.all([
+        debridService.getAccount(target),
+        debridService.listTransfers(target),
+      ]);
+      setAccount(nextAccount);
+      setTransfers(
+        [...nextTransfers].sort(
+          (a, b) => Number(a.isFinished) - Number(b.isFinished),
+        ),
+      );
+    } catch (error) {
+      console.error("Failed to load debrid account:", error);
+      setAccount(null);
+      setTransfers([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (settingsLoading) return;
+    if (!saved?.isConnected) {
+      setAccount(null);
+      setTransfers([]);
+      return;
+    }
+    setIsLoading(true);
+    loadAccount(saved).finally(() => setIsLoading(false));
+  }, [settingsLoading, saved, loadAccount]);
+
+  const handleRefresh = useCallback(async () => {
+    if (!saved) return;
+    setIsRefreshing(true);
+    await loadAccount(saved);
+    setIsRefreshing(false);
+  }, [saved, loadAccount]);
+
+  const handleConnect = useCallback(async () => {
+    const key = apiKey.trim();
+    if (!service) return;
+    if (!key) {
+      Alert.alert("API Key Required", "Paste the API key from your account.");
+      return;
+    }
+
+    setIsConnecting(true);
+    let connected = false;
+    try {
+      await debridService.getAccount({ service, apiKey: key });
+      connected = true;
+    } catch (error) {
+      Alert.alert("Couldn't Connect", errorMessage(error));
+    }
+
+    if (saved) {
+      await updateDebridSettings({
+        accounts: accounts.map((item) =>
+          item.id === saved.id
+            ? { ...item, apiKey: key, isConnected: connected }
+            : item,
+        ),
+      });
+    } else if (connected) {
+      // New accounts are only kept once their key works, and go to the back of the queue
+      const id = `${service}_${Date.now().toString(36)}`;
+      await updateDebridSettings({
+        accounts: [
+          ...accounts,
+          { id, service, apiKey: key, enabled: true, isConnected: true },
+        ],
+      });
+      navigation.setParams({ accountId: id });
+    }
+    setIsConnecting(false);
+  }, [apiKey, service, saved, accounts, updateDebridSettings, navigation]);
+
+  const handleRemove = useCallback(() => {
+    if (!saved) return;
+    Alert.alert(
+      "Remove Account",
+      `Remove this ${DEBRID_SERVICE_NAMES[saved.service]} account?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: async () => {
+            await updateDebridSettings({
+              accounts: accounts.filter((item) => item.id !== saved.id),
+            });
+            navigation.goBack();
+          },
+        },
+      ],
+    );
+  }, [saved, accounts, updateDebridSettings, navigation]);
+
+  const handleDelete = useCallback(
+    (transfer: DebridTransfer) => {
+      if (!saved) return;
+      Alert.alert("Delete Torrent", `Delete ${transfer.name}?`, [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await debridService.deleteTransfer(saved, transfer.id);
+              setTransfers((current) =>
+                current.filter((item) => item.id !== transfer.id),
+              );
+            } catch (error) {
+              console.error("Failed to delete debrid torrent:", error);
+              Alert.alert("Couldn't Delete", errorMessage(error));
+            }
+          },
+        },
+      ]);
+    },
+    [saved],
+  );
+
+  const daysLeft = account ? getPremiumDaysLeft(account) : null;
+  const showExpiryWarning =
+    account?.isPremium && daysLeft !== null && daysLeft <= EXPIRY_WARNING_DAYS;
+
+  const renderAccount = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={Colors.dark.accent} />
+        </View>
+      );
+    }
+
+    if (!account) {
+      return isConnected && service ? (
+        <ThemedText style={styles.subtitle}>
+          Couldn&apos;t reach {DEBRID_SERVICE_NAMES[service]}. Pull down to try
+          again.
+        </ThemedText>
+      ) : null;
+    }
+
+    return (
+      <>
+        {showExpiryWarning ? (
+          <View style={styles.banner}>
+            <Feather
+              name="alert-triangle"
+              size={18}
+              color={Colors.dark.warning}
+            />
+            <ThemedText style={styles.bannerText}>
+              {daysLeft === 0
+                ? "Premium expires today."
+                : `Premium expires in ${daysLeft} day${daysLeft === 1 ? "" : "s"}.`}{" "}
+              Renew it to keep streaming.
+            </ThemedText>
+          </View>
+        ) : null}
+
+        <View style={styles.section}>
+          {account.username ? (
+            <>
+              <SettingsRow
+                type="info"
+                label="Account"
+                icon="user"
+                value={account.username}
+              />
+              <View style={styles.separator} />
+            </>
+          ) : null}
+          <SettingsRow
+            type="info"
+            label="Plan"
+            icon="award"
+            value={account.isPremium ? "Premium" : "Free"}
+            valueColor={
+              account.isPremium ? Colors.dark.success : Colors.dark.warning
+            }
+          />
+          <View style={styles.separator} />
+          <SettingsRow
+            type="info"
+            label="Premium Until"
+            icon="calendar"
+            value={formatExpiry(account)}
+            valueColor={showExpiryWarning ? Colors.dark.warning : undefined}
+          />
+          {account.points !== undefined ? (
+            <>
+              <View style={styles.separator} />
+              <SettingsRow
+                type="info"
+                label="Fidelity Points"
+                icon="star"
+                value={account.points.toLocaleString()}
+              />
+            </>
+          ) : null}
+          {account.fairUseLeft !== undefined ? (
+            <>
+              <View style={styles.separator} />
+              <SettingsRow
+                type="info"
+                label="Fair Use Left"
+                icon="activity"
+                value={`${Math.round(account.fairUseLeft)}%`}
+              />
+            </>
+          ) : null}
+        </View>
+
+        <View style={styles.inputGroup}>
+          <ThemedText style={styles.inputLabel}>Torrents</ThemedText>
+          {transfers.length === 0 ? (
+            <ThemedText style={styles.inputHint}>
+              No torrents in this account.
+            </ThemedText>
+          ) : (
+            <View style={styles.section}>
+              {transfers.map((transfer, index) => (
+                <View
+                  key={transfer.id}
+                  style={[
+                    styles.transferRow,
+                    index > 0 ? styles.rowBorder : null,
+                  ]}
+                >
+                  <View style={styles.transferInfo}>
+                    <ThemedText style={styles.transferName} numberOfLines={1}>
+                      {transfer.name}
+                    </ThemedText>
+                    <ThemedText style={styles.transferDetails}>
+                      {transferDetails(transfer)}
+                    </ThemedText>
+                    <View style={styles.progressTrack}>
+                      <View
+                        style={[
+                          styles.progressFill,
+                          {
+                            width: `${Math.min(100, Math.max(0, transfer.progress))}%`,
+                            backgroundColor: transfer.isFinished
+                              ? Colors.dark.success
+                              : Colors.dark.accent,
+                          },
+                        ]}
+                      />
+                    </View>
+                  </View>
+                  <Pressable onPress={() => handleDelete(transfer)} hitSlop={8}>
+                    <Feather
+                      name="trash-2"
+                      size={16}
+                      color={Colors.dark.error}
+                    />
+                  </Pressable>
+                </View>
+              ))}
+            </View>
+          )}
+        </View>
+      </>
+    );
+  };
+
+  if (!service) {
+    return (
+      <ThemedView style={styles.container}>
+        <View style={[styles.centered, { paddingTop: headerHeight }]}>
+          <ThemedText style={styles.subtitle}>
+            This account has been removed.
+          </ThemedText>
+        </View>
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <KeyboardAvoidingView
+        style={styles.keyboardView}
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        keyboardVerticalOffset={headerHeight}
+      >
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={[
+            styles.content,
+            {
+              paddingTop: headerHeight + Spacing.xl,
+              paddingBottom: insets.bottom + Spacing.xl,
+            },
+          ]}
+          keyboardShouldPersistTaps="handled"
+          refreshControl={
+            isConnected ? (
+              <RefreshControl
+                refreshing={isRefreshing}
+                onRefresh={handleRefresh}
+                tintColor={Colors.dark.text}
+              />
+            ) : undefined
+          }
+        >
+          <View style={styles.inputGroup}>
+            <ThemedText style={styles.inputLabel}>API Key</ThemedText>
+            <TextInput
+              style={styles.input}
+              value={apiKey}
+              onChangeText={setApiKey}
+              placeholder="Paste your API key"
+              placeholderTextColor={Colors.dark.disabled}
+              autoCapitalize="none"
+              autoCorrect={false}
+              secureTextEntry
+            />
+            <Button
+              onPress={handleConnect}
+              disabled={isConnecting}
+              style={styles.connectButton}
+            >
+              {isConnecting
+                ? "Connecting..."
+                : isConnected && apiKey.trim() === savedKey
+                  ? "Reconnect"
+                  : "Connect"}
+            </Button>
+            {saved ? (
+              <Pressable onPress={handleRemove} style={styles.disconnect}>
+                <ThemedText style={styles.disconnectText}>
+                  Remove Account
+                </ThemedText>
+              </Pressable>
+            ) : null}
+          </View>
+
+          {renderAccount()}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.dark.backgroundRoot,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    flexGrow: 1,
+    paddingHorizontal: Spacing.xl,
+    gap: Spacing["2xl"],
+  },
+  centered: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: Spacing.xl,
+  },
+  subtitle: {
+    ...Typography.body,
+    color: Colors.dark.disabled,
+    lineHeight: 22,
+    textAlign: "center",
+  },
+  banner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: Colors.dark.warning,
+    backgroundColor: Colors.dark.backgroundDefault,
+  },
+  bannerText: {
+    ...Typography.body,
+    flex: 1,
+    color: Colors.dark.text,
+  },
+  section: {
+    backgroundColor: Colors.dark.backgroundDefault,
+    borderRadius: BorderRadius.md,
+    overflow: "hidden",
+  },
+  separator: {
+    height: 1,
+    backgroundColor: Colors.dark.backgroundSecondary,
+    marginLeft: Spacing.lg,
+  },
+  transferRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  rowBorder: {
+    borderTopWidth: 1,
+    borderTopColor: Colors.dark.backgroundSecondary,
+  },
+  transferInfo: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  transferName: {
+    ...Typography.body,
+    fontWeight: "600",
+    color: Colors.dark.text,
+  },
+  transferDetails: {
+    ...Typography.small,
+    color: Colors.dark.disabled,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: Colors.dark.backgroundSecondary,
+    overflow: "hidden",
+    marginTop: Spacing.xs,
+  },
+  progressFill: {
+    height: "100%",
+  },
+  inputGroup: {
+    gap: Spacing.sm,
+  },
+  inputLabel: {
+    ...Typography.body,
+    fontWeight: "600",
+    color: Colors.dark.text,
+  },
+  inputHint: {
+    ...Typography.small,
+    color: Colors.dark.disabled,
+  },
+  input: {
+    height: Spacing.inputHeight,
+    backgroundColor: Colors.dark.backgroundDefault,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.lg,
+    ...Typography.body,
+    color: Colors.dark.text,
+    borderWidth: 1,
+    borderColor: Colors.dark.backgroundSecondary,
+  },
+  connectButton: {
+    marginTop: Spacing.sm,
+  },
+  disconnect: {
+    alignSelf: "center",
+    padding: Spacing.sm,
+  },
+  disconnectText: {
+    ...Typography.small,
+    color: Colors.dark.error,
+  },
+});
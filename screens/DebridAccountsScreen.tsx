@@ -0,0 +1,262 @@
+import React, { useCallback, useEffect } from "react";
+import { StyleSheet, View, Pressable, Switch, ScrollView } from "react-native";
+import { useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedView } from "@/components/ThemedView";
+import { ThemedText } from "@/components/ThemedText";
+import { useSettings } from "@/hooks/useSettings";
+import {
+  DEBRID_SERVICE_NAMES,
+  DebridServiceType,
+} from "@/services/debridService";
+import { DebridAccountSetting, RootStackParamList } from "@/types";
+import { Colors, Spacing, BorderRadius, Typography } from "@/constants/theme";
+
+type DebridAccountsScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  "DebridAccounts"
+>;
+
+const SERVICES = Object.keys(DEBRID_SERVICE_NAMES) as DebridServiceType[];
+
+export default function DebridAccountsScreen() {
+  const navigation = useNavigation<DebridAccountsScreenNavigationProp>();
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const { settings, reload, updateDebridSettings } = useSettings();
+  const { accounts } = settings.debrid;
+
+  useEffect(() => {
+    return navigation.addListener("focus", reload);
+  }, [navigation, reload]);
+
+  const saveAccounts = useCallback(
+    (nextAccounts: DebridAccountSetting[]) => {
+      updateDebridSettings({ accounts: nextAccounts });
+    },
+    [updateDebridSettings],
+  );
+
+  const handleToggle = useCallback(
+    (id: string, enabled: boolean) => {
+      saveAccounts(
+        accounts.map((account) =>
+          account.id === id ? { ...account, enabled } : account,
+        ),
+      );
+    },
+    [accounts, saveAccounts],
+  );
+
+  const handleMove = useCallback(
+    (index: number, direction: -1 | 1) => {
+      const target = index + direction;
+      if (target < 0 || target >= accounts.length) return;
+      const reordered = [...accounts];
+      [reordered[index], reordered[target]] = [
+        reordered[target],
+        reordered[index],
+      ];
+      saveAccounts(reordered);
+    },
+    [accounts, saveAccounts],
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[
+          styles.content,
+          {
+            paddingTop: headerHeight + Spacing.xl,
+            paddingBottom: insets.bottom + Spacing.xl,
+          },
+        ]}
+      >
+        <ThemedText style={styles.subtitle}>
+          Every account is checked for cached copies at once. Streams come from
+          the highest account that has one, and move down the list when an
+          account fails or runs out of quota.
+        </ThemedText>
+
+        {accounts.length > 0 ? (
+          <View style={styles.section}>
+            {accounts.map((account, index) => (
+              <View
+                key={account.id}
+                style={[styles.accountRow, index > 0 ? styles.rowBorder : null]}
+              >
+                <Pressable
+                  style={styles.accountInfo}
+                  onPress={() =>
+                    navigation.navigate("DebridAccount", {
+                      accountId: account.id,
+                    })
+                  }
+                >
+                  <ThemedText style={styles.accountName}>
+                    {index + 1}. {DEBRID_SERVICE_NAMES[account.service]}
+                  </ThemedText>
+                  <ThemedText
+                    style={[
+                      styles.accountStatus,
+                      {
+                        color: account.isConnected
+                          ? Colors.dark.success
+                          : Colors.dark.warning,
+                      },
+                    ]}
+                  >
+                    {account.isConnected ? "Connected" : "Not connected"}
+                  </ThemedText>
+                  <View style={styles.accountActions}>
+                    <Pressable
+                      onPress={() => handleMove(index, -1)}
+                      disabled={index === 0}
+                      style={{ opacity: index === 0 ? 0.3 : 1 }}
+                    >
+                      <Feather
+                        name="chevron-up"
+                        size={18}
+                        color={Colors.dark.text}
+                      />
+                    </Pressable>
+                    <Pressable
+                      onPress={() => handleMove(index, 1)}
+                      disabled={index === accounts.length - 1}
+                      style={{
+                        opacity: index === accounts.length - 1 ? 0.3 : 1,
+                      }}
+                    >
+                      <Feather
+                        name="chevron-down"
+                        size={18}
+                        color={Colors.dark.text}
+                      />
+                    </Pressable>
+                  </View>
+                </Pressable>
+                <Switch
+                  value={account.enabled}
+                  onValueChange={(value) => handleToggle(account.id, value)}
+                  trackColor={{
+                    false: Colors.dark.backgroundSecondary,
+                    true: Colors.dark.accent,
+                  }}
+                  thumbColor={Colors.dark.text}
+                />
+              </View>
+            ))}
+          </View>
+        ) : null}
+
+        <View style={styles.addGroup}>
+          <ThemedText style={styles.addLabel}>Add Account</ThemedText>
+          <View style={styles.serviceList}>
+            {SERVICES.map((service) => (
+              <Pressable
+                key={service}
+                onPress={() =>
+                  navigation.navigate("DebridAccount", { service })
+                }
+                style={({ pressed }) => [
+                  styles.pill,
+                  { opacity: pressed ? 0.6 : 1 },
+                ]}
+              >
+                <Feather name="plus" size={14} color={Colors.dark.text} />
+                <ThemedText style={styles.pillText}>
+                  {DEBRID_SERVICE_NAMES[service]}
+                </ThemedText>
+              </Pressable>
+            ))}
+          </View>
+        </View>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.dark.backgroundRoot,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    flexGrow: 1,
+    paddingHorizontal: Spacing.xl,
+    gap: Spacing["2xl"],
+  },
+  subtitle: {
+    ...Typography.body,
+    color: Colors.dark.disabled,
+    lineHeight: 22,
+  },
+  section: {
+    backgroundColor: Colors.dark.backgroundDefault,
+    borderRadius: BorderRadius.md,
+    overflow: "hidden",
+  },
+  accountRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  rowBorder: {
+    borderTopWidth: 1,
+    borderTopColor: Colors.dark.backgroundSecondary,
+  },
+  accountInfo: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  accountName: {
+    ...Typography.body,
+    fontWeight: "600",
+    color: Colors.dark.text,
+  },
+  accountStatus: {
+    ...Typography.small,
+  },
+  accountActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.lg,
+    marginTop: Spacing.xs,
+  },
+  addGroup: {
+    gap: Spacing.sm,
+  },
+  addLabel: {
+    ...Typography.body,
+    fontWeight: "600",
+    color: Colors.dark.text,
+  },
+  serviceList: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  pill: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+    backgroundColor: Colors.dark.backgroundDefault,
+  },
+  pillText: {
+    ...Typography.small,
+    color: Colors.dark.text,
+  },
+});
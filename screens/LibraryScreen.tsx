@@ -0,0 +1,318 @@
+import React, { useState, useCallback, useEffect } from "react";
+import {
+  StyleSheet,
+  View,
+  Alert,
+  Pressable,
+  ScrollView,
+  FlatList,
+  ActivityIndicator,
+  RefreshControl,
+} from "react-native";
+import { useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { Image } from "expo-image";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedView } from "@/components/ThemedView";
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { useSettings } from "@/hooks/useSettings";
+import { debridService } from "@/services/debridService";
+import {
+  libraryService,
+  LibraryItem,
+  LibrarySection,
+  StreamResolution,
+} from "@/services/libraryService";
+import { RootStackParamList } from "@/types";
+import { Colors, Spacing, BorderRadius, Typography } from "@/constants/theme";
+
+type LibraryScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  "Library"
+>;
+
+const POSTER_WIDTH = 120;
+const POSTER_HEIGHT = 180;
+
+interface PosterCardProps {
+  item: LibraryItem;
+  isResolving: boolean;
+  onPress: (item: LibraryItem) => void;
+}
+
+function PosterCard({ item, isResolving, onPress }: PosterCardProps) {
+  return (
+    <Pressable
+      onPress={() => onPress(item)}
+      style={({ pressed }) => [styles.card, { opacity: pressed ? 0.7 : 1 }]}
+    >
+      <View style={styles.poster}>
+        {item.posterUrl ? (
+          <Image
+            source={{ uri: item.posterUrl }}
+            style={StyleSheet.absoluteFill}
+            contentFit="cover"
+            transition={150}
+          />
+        ) : (
+          <Feather
+            name={item.kind === "movie" ? "film" : "tv"}
+            size={32}
+            color={Colors.dark.disabled}
+          />
+        )}
+        {isResolving ? (
+          <View style={styles.posterOverlay}>
+            <ActivityIndicator color={Colors.dark.text} />
+          </View>
+        ) : null}
+      </View>
+      <ThemedText style={styles.cardTitle} numberOfLines={1}>
+        {item.title}
+      </ThemedText>
+      {item.subtitle ? (
+        <ThemedText style={styles.cardSubtitle} numberOfLines={1}>
+          {item.subtitle}
+        </ThemedText>
+      ) : null}
+    </Pressable>
+  );
+}
+
+export default function LibraryScreen() {
+  const navigation = useNavigation<LibraryScreenNavigationProp>();
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const { settings, isLoading: settingsLoading } = useSettings();
+  const [sections, setSections] = useState<LibrarySection[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [resolvingKey, setResolvingKey] = useState<string | null>(null);
+
+  const isConnected = !!settings.trakt.accessToken;
+
+  const loadSections = useCallback(async () => {
+    try {
+      setSections(await libraryService.getSections());
+    } catch (error) {
+      console.error("Failed to load library:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (settingsLoading) return;
+    if (!isConnected) {
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    loadSections().finally(() => setIsLoading(false));
+  }, [settingsLoading, isConnected, loadSections]);
+
+  const handleRefresh = useCallback(async () => {
+    setIsRefreshing(true);
+    await loadSections();
+    setIsRefreshing(false);
+  }, [loadSections]);
+
+  const handleItemPress = useCallback(
+    async (item: LibraryItem) => {
+      if (resolvingKey) return;
+
+      setResolvingKey(item.key);
+      let result: StreamResolution;
+      try {
+        debridService.configure(settings.debrid);
+        result = await libraryService.resolveStream(item);
+      } catch (error) {
+        console.error("Failed to resolve library stream:", error);
+        Alert.alert(
+          "Can't Play",
+          "Couldn't get a stream for this title. Try again.",
+        );
+        return;
+      } finally {
+        setResolvingKey(null);
+      }
+
+      const target = result.ok ? null : result.target;
+      const imdbId = target?.ids?.imdb;
+      if (result.ok) {
+        navigation.navigate("Player", result.params);
+      } else if (target && imdbId) {
+        Alert.alert("Can't Play", result.error, [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Find Sources",
+            onPress: () =>
+              navigation.navigate("Sources", {
+                title: target.title,
+                year: target.year,
+                imdbId,
+                traktId: target.ids?.trakt,
+                tmdbId: target.ids?.tmdb,
+                tvdbId: target.ids?.tvdb,
+                season: target.season,
+                episode: target.episode,
+              }),
+          },
+        ]);
+      } else {
+        Alert.alert("Can't Play", result.error);
+      }
+    },
+    [resolvingKey, settings.debrid, navigation],
+  );
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={Colors.dark.accent} />
+        </View>
+      );
+    }
+
+    if (!isConnected) {
+      return (
+        <View style={styles.centered}>
+          <ThemedText style={styles.emptyText}>
+            Connect Trakt to browse your watch progress, watchlist and lists.
+          </ThemedText>
+          <Button onPress={() => navigation.navigate("TraktAuth")}>
+            Connect to Trakt
+          </Button>
+        </View>
+      );
+    }
+
+    if (sections.length === 0) {
+      return (
+        <View style={styles.centered}>
+          <ThemedText style={styles.emptyText}>
+            Nothing here yet. Titles you watch, add to your watchlist or save to
+            a list on Trakt will show up here.
+          </ThemedText>
+        </View>
+      );
+    }
+
+    return sections.map((section) => (
+      <View key={section.id} style={styles.section}>
+        <ThemedText style={styles.sectionTitle}>{section.title}</ThemedText>
+        <FlatList
+          horizontal
+          data={section.items}
+          keyExtractor={(item) => item.key}
+          renderItem={({ item }) => (
+            <PosterCard
+              item={item}
+              isResolving={resolvingKey === item.key}
+              onPress={handleItemPress}
+            />
+          )}
+          contentContainerStyle={styles.row}
+          showsHorizontalScrollIndicator={false}
+        />
+      </View>
+    ));
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[
+          styles.content,
+          {
+            paddingTop: headerHeight + Spacing.xl,
+            paddingBottom: insets.bottom + Spacing.xl,
+          },
+        ]}
+        refreshControl={
+          isConnected ? (
+            <RefreshControl
+              refreshing={isRefreshing}
+              onRefresh={handleRefresh}
+              tintColor={Colors.dark.text}
+            />
+          ) : undefined
+        }
+      >
+        {renderContent()}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.dark.backgroundRoot,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    flexGrow: 1,
+    gap: Spacing["2xl"],
+  },
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: Spacing.xl,
+    gap: Spacing.xl,
+  },
+  emptyText: {
+    ...Typography.body,
+    color: Colors.dark.disabled,
+    textAlign: "center",
+    maxWidth: 420,
+  },
+  section: {
+    gap: Spacing.md,
+  },
+  sectionTitle: {
+    ...Typography.h4,
+    color: Colors.dark.text,
+    paddingHorizontal: Spacing.xl,
+  },
+  row: {
+    paddingHorizontal: Spacing.xl,
+    gap: Spacing.lg,
+  },
+  card: {
+    width: POSTER_WIDTH,
+    gap: Spacing.xs,
+    borderRadius: BorderRadius.sm,
+  },
+  poster: {
+    width: POSTER_WIDTH,
+    height: POSTER_HEIGHT,
+    borderRadius: BorderRadius.sm,
+    backgroundColor: Colors.dark.backgroundDefault,
+    overflow: "hidden",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  posterOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  cardTitle: {
+    ...Typography.small,
+    fontWeight: "600",
+    color: Colors.dark.text,
+  },
+  cardSubtitle: {
+    ...Typography.small,
+    color: Colors.dark.disabled,
+  },
+});
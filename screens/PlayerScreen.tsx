@@ -1,18 +1,66 @@
-import React, { useEffect, useState, useCallback } from "react";
-import { StyleSheet, View, Platform } from "react-native";
+import React, {
+  useEffect,
+  useState,
+  useCallback,
+  useMemo,
+  useRef,
+} from "react";
+import { StyleSheet, View, Platform, Alert } from "react-native";
 import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import * as ScreenOrientation from "expo-screen-orientation";
 
 import { VideoPlayer } from "@/components/VideoPlayer";
+import { RatingPrompt } from "@/components/RatingPrompt";
 import { ThemedView } from "@/components/ThemedView";
 import { ThemedText } from "@/components/ThemedText";
 import { Button } from "@/components/Button";
 import { useSettings } from "@/hooks/useSettings";
-import { savePlaybackPosition } from "@/storage/settingsStorage";
+import { useTrakt } from "@/hooks/useTrakt";
+import {
+  loadManualSkipData,
+  saveManualSkipData,
+  loadShowSkipData,
+  getEpisodeId,
+} from "@/storage/settingsStorage";
 import { communitySkipService } from "@/services/communitySkipService";
-import { RootStackParamList, SkipMarker } from "@/types";
+import {
+  chapterService,
+  chaptersToSkipMarkers,
+} from "@/services/chapterService";
+import { resolveManualSkip } from "@/services/skipMarkerResolver";
+import {
+  skipSubmissionService,
+  SkipSubmissionInput,
+} from "@/services/skipSubmissionService";
+import {
+  playbackProgressService,
+  getResumePosition,
+  ProgressTarget,
+  ResumePoint,
+} from "@/services/playbackProgressService";
+import {
+  progressRepository,
+  getUriProgressId,
+} from "@/services/progressRepository";
+import { debridService } from "@/services/debridService";
+import { formatEpisode } from "@/services/libraryService";
+import { parseReleaseName } from "@/services/releaseNameParser";
+import { traktIdentityService } from "@/services/traktIdentityService";
+import {
+  episodeService,
+  EpisodeNeighbours,
+  EpisodeRef,
+} from "@/services/episodeService";
+import {
+  ChapterData,
+  EpisodeSkipData,
+  RootStackParamList,
+  ShowSkipData,
+  SkipMarkPoint,
+  SkipMarker,
+} from "@/types";
 import { Colors, Spacing, Typography } from "@/constants/theme";
 
 type PlayerScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, "Player">;
@@ -20,21 +68,106 @@ type PlayerScreenRouteProp = RouteProp<RootStackParamList, "Player">;
 
 const SAMPLE_VIDEO_URL = "https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4";
 
+function formatTime(seconds: number): string {
+  const hrs = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  if (hrs > 0) {
+    return `${hrs}:${String(mins).padStart(2, "0")}:${String(secs).padStart(2, "0")}`;
+  }
+  return `${mins}:${String(secs).padStart(2, "0")}`;
+}
+
+// Bare links opened from other apps carry nothing but the file name
+function needsIdentity(params: PlayerScreenRouteProp["params"]): boolean {
+  return !!params?.uri && !params.title && !params.imdbId;
+}
+
 export default function PlayerScreen() {
   const navigation = useNavigation<PlayerScreenNavigationProp>();
   const route = useRoute<PlayerScreenRouteProp>();
   const insets = useSafeAreaInsets();
   const { settings, isLoading } = useSettings();
-  
-  const [communitySkipMarkers, setCommunitySkipMarkers] = useState<SkipMarker[]>([]);
+
+  const [chapters, setChapters] = useState<ChapterData[]>([]);
+  const [communitySkipMarkers, setCommunitySkipMarkers] = useState<
+    SkipMarker[]
+  >([]);
+  const [episodeSkipData, setEpisodeSkipData] =
+    useState<EpisodeSkipData | null>(null);
+  const [showSkipData, setShowSkipData] = useState<ShowSkipData | null>(null);
   const [hasVideo, setHasVideo] = useState(false);
-  
+  const [resumePoint, setResumePoint] = useState<ResumePoint | null>(null);
+  const [startPosition, setStartPosition] = useState<number | undefined>(
+    undefined,
+  );
+  const [neighbours, setNeighbours] = useState<EpisodeNeighbours>({
+    previous: null,
+    next: null,
+  });
+  const isSwitchingEpisode = useRef(false);
+  const identifiedUri = useRef<string | null>(null);
+  // The resume question waits for the ids, which decide where the saved position lives
+  const [isIdentifying, setIsIdentifying] = useState(() =>
+    needsIdentity(route.params),
+  );
+  const [showRatingPrompt, setShowRatingPrompt] = useState(false);
+  const videoDuration = useRef(0);
+  // Progress isn't saved until the resume question is settled, so the saved spot can't be overwritten first
+  const resumeSettled = useRef(false);
+
   const videoUri = route.params?.uri || SAMPLE_VIDEO_URL;
   const videoTitle = route.params?.title || "Sample Video";
   const showName = route.params?.showName || "Unknown Show";
-  const imdbId = route.params?.imdbId || "tt0000000";
+  // Skip data is keyed by title, so videos without ids get none rather than sharing one made-up id
+  const imdbId = route.params?.imdbId;
   const season = route.params?.season ?? 1;
   const episode = route.params?.episode ?? 1;
+  const canShareSkips = settings.skip.shareSkipSegments && !!imdbId;
+
+  const progressTarget = useMemo<ProgressTarget | null>(
+    () =>
+      route.params?.imdbId
+        ? {
+            imdbId: route.params.imdbId,
+            season: route.params.season,
+            episode: route.params.episode,
+          }
+        : null,
+    [route.params?.imdbId, route.params?.season, route.params?.episode],
+  );
+
+  const progressDetails = useMemo(
+    () => ({
+      title: route.params?.title,
+      showName: route.params?.showName,
+      uri: route.params?.uri,
+    }),
+    [route.params?.title, route.params?.showName, route.params?.uri],
+  );
+
+  const {
+    onPlay: scrobblePlay,
+    onPause: scrobblePause,
+    onEnd: scrobbleEnd,
+    updateProgress: updateScrobbleProgress,
+    rate,
+    isIdentified: isTraktIdentified,
+  } = useTrakt({
+    imdbId: route.params?.imdbId,
+    tmdbId: route.params?.tmdbId,
+    tvdbId: route.params?.tvdbId,
+    traktId: route.params?.traktId,
+    title:
+      route.params?.season !== undefined
+        ? route.params?.showName
+        : route.params?.title,
+    season: route.params?.season,
+    episode: route.params?.episode,
+    filename: route.params?.uri,
+    // The sample video has nothing to scrobble against
+    enabled: !!route.params?.uri,
+  });
 
   useEffect(() => {
     async function lockOrientation() {
@@ -52,17 +185,157 @@ export default function PlayerScreen() {
   }, []);
 
   useEffect(() => {
+    // Cancelled when the episode changes or the player closes, so late results can't leak across episodes
+    const controller = new AbortController();
+
     async function loadSkipData() {
       // Load community skip markers if enabled
-      if (settings.skip.enabledCommunitySkip) {
-        const markers = await communitySkipService.getSkipMarkersForEpisode(imdbId, season, episode);
+      if (settings.skip.enabledCommunitySkip && imdbId) {
+        communitySkipService.configureProviders(
+          settings.skip.communityProviders,
+        );
+        const markers = await communitySkipService.getSkipMarkersForEpisode(
+          imdbId,
+          season,
+          episode,
+          {
+            signal: controller.signal,
+            onUpdate: (updated) => {
+              if (!controller.signal.aborted) setCommunitySkipMarkers(updated);
+            },
+          },
+        );
+        if (controller.signal.aborted) return;
         setCommunitySkipMarkers(markers);
+        communitySkipService.prefetch(
+          imdbId,
+          season,
+          episode + 1,
+          controller.signal,
+        );
       } else {
         setCommunitySkipMarkers([]);
       }
     }
+    setCommunitySkipMarkers([]);
     loadSkipData();
-  }, [imdbId, season, episode, settings.skip.enabledCommunitySkip]);
+    return () => controller.abort();
+  }, [
+    imdbId,
+    season,
+    episode,
+    settings.skip.enabledCommunitySkip,
+    settings.skip.communityProviders,
+  ]);
+
+  useEffect(() => {
+    if (!imdbId) {
+      setEpisodeSkipData(null);
+      setShowSkipData(null);
+      return;
+    }
+
+    const loadManualSkips = async () => {
+      const [episodeData, showData] = await Promise.all([
+        loadManualSkipData(imdbId, season, episode),
+        loadShowSkipData(imdbId),
+      ]);
+      setEpisodeSkipData(episodeData);
+      setShowSkipData(showData);
+    };
+    // Re-read when returning from the skip editor
+    loadManualSkips();
+    return navigation.addListener("focus", loadManualSkips);
+  }, [navigation, imdbId, season, episode]);
+
+  const manualSkip = useMemo(
+    () =>
+      resolveManualSkip([
+        episodeSkipData,
+        showSkipData,
+        {
+          introSkipSeconds: settings.skip.globalIntroSkipSeconds,
+          creditsSkipSeconds: settings.skip.globalCreditsSkipSeconds,
+        },
+      ]),
+    [
+      episodeSkipData,
+      showSkipData,
+      settings.skip.globalIntroSkipSeconds,
+      settings.skip.globalCreditsSkipSeconds,
+    ],
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadResumePoint() {
+      if (isIdentifying) return;
+      if (!settings.playback.rememberPosition) {
+        resumeSettled.current = true;
+        return;
+      }
+      let point: ResumePoint | null = null;
+      if (progressTarget) {
+        point = await playbackProgressService.getResumePoint(progressTarget);
+      } else {
+        // Videos without ids can only be matched by their URI
+        const progress = await progressRepository.get(
+          getUriProgressId(videoUri),
+        );
+        point =
+          progress && !progress.watched && progress.position > 0
+            ? {
+                position: progress.position,
+                progress: 0,
+                updatedAt: progress.updatedAt,
+                source: "local",
+              }
+            : null;
+      }
+      if (cancelled) return;
+      resumeSettled.current = point === null;
+      setResumePoint(point);
+    }
+
+    resumeSettled.current = false;
+    setResumePoint(null);
+    setStartPosition(undefined);
+    // Without a resume point the episode plays from the start and its progress is still saved
+    loadResumePoint().catch((error) => {
+      console.error("Failed to load resume point:", error);
+      if (!cancelled) resumeSettled.current = true;
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    progressTarget,
+    videoUri,
+    isIdentifying,
+    settings.playback.rememberPosition,
+  ]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadChapters() {
+      // Chapters drive Prev/Next Ch navigation even when chapter skipping is off
+      const loaded = await chapterService.getChapters(videoUri);
+      if (!cancelled) setChapters(loaded);
+    }
+    setChapters([]);
+    loadChapters();
+    return () => {
+      cancelled = true;
+    };
+  }, [videoUri]);
+
+  const chapterSkipMarkers = useMemo(
+    () =>
+      settings.skip.enabledChapterSkip ? chaptersToSkipMarkers(chapters) : [],
+    [chapters, settings.skip.enabledChapterSkip],
+  );
 
   useEffect(() => {
     if (route.params?.uri) {
@@ -70,15 +343,354 @@ export default function PlayerScreen() {
     }
   }, [route.params?.uri]);
 
+  useEffect(() => {
+    const params = route.params;
+    const uri = params?.uri;
+    if (!uri || !needsIdentity(params) || identifiedUri.current === uri) return;
+
+    identifiedUri.current = uri;
+    setIsIdentifying(true);
+    const release = parseReleaseName(uri);
+    const { season, episode } = release;
+    const isEpisode = season !== undefined && episode !== undefined;
+    navigation.setParams({
+      title: isEpisode
+        ? `${release.title} - ${formatEpisode(season, episode)}`
+        : release.title,
+      showName: isEpisode ? release.title : undefined,
+      season,
+      episode,
+    });
+
+    // With Trakt connected the ids follow, so skips and resume positions can be keyed properly
+    traktIdentityService
+      .resolve({ title: release.title, year: release.year, season, episode })
+      .then((media) => {
+        const ids = media?.show?.ids ?? media?.movie?.ids;
+        if (!ids || identifiedUri.current !== uri) return;
+        navigation.setParams({
+          imdbId: ids.imdb,
+          traktId: ids.trakt,
+          tmdbId: ids.tmdb,
+          tvdbId: ids.tvdb,
+        });
+      })
+      .catch((error) => console.error("Failed to identify video:", error))
+      .finally(() => {
+        if (identifiedUri.current === uri) setIsIdentifying(false);
+      });
+  }, [route.params, navigation]);
+
   const handleSettingsPress = useCallback(() => {
     navigation.navigate("Settings");
   }, [navigation]);
 
-  const handleProgress = useCallback((position: number, duration: number) => {
-    if (position > 0 && settings.playback.rememberPosition) {
-      savePlaybackPosition(videoUri, position);
+  useEffect(() => {
+    // Retry anything left over from earlier sessions
+    skipSubmissionService.flush();
+  }, []);
+
+  const submitSkipSegment = useCallback(
+    (
+      segment: Pick<
+        SkipSubmissionInput,
+        "type" | "startTime" | "endTime" | "origin"
+      >,
+    ) => {
+      if (!canShareSkips || !imdbId) return;
+      skipSubmissionService.enqueue({
+        ...segment,
+        imdbId,
+        showName,
+        season,
+        episode,
+        duration: videoDuration.current,
+      });
+    },
+    [canShareSkips, imdbId, showName, season, episode],
+  );
+
+  const handleSkipMarker = useCallback(
+    (marker: SkipMarker, automatic: boolean) => {
+      // Auto-skips aren't a user judgement, so only button presses count as confirmation
+      if (automatic) return;
+      if (marker.source === "manual") {
+        submitSkipSegment({
+          type: marker.type,
+          startTime: marker.startTime,
+          endTime: marker.endTime,
+          origin: "manual_skip",
+        });
+      }
+    },
+    [submitSkipSegment],
+  );
+
+  const handleEditSkipTimes = useCallback(() => {
+    if (!imdbId) return;
+    navigation.navigate("SkipConfiguration", {
+      imdbId,
+      showName,
+      season,
+      episode,
+    });
+  }, [navigation, imdbId, showName, season, episode]);
+
+  const handleMarkSkipPoint = useCallback(
+    (point: SkipMarkPoint, time: number) => {
+      if (!imdbId) return;
+      const seconds = Math.round(time * 10) / 10;
+      const base: EpisodeSkipData = episodeSkipData ?? {
+        episodeId: getEpisodeId(imdbId, season, episode),
+        showName,
+        season,
+        episode,
+        introSkipSeconds: 0,
+        creditsSkipSeconds: 0,
+        lastUpdated: Date.now(),
+      };
+      const updated: EpisodeSkipData = { ...base, lastUpdated: Date.now() };
+
+      switch (point) {
+        case "introStart":
+          updated.introStartTime = seconds;
+          break;
+        case "introEnd":
+          updated.introEndTime = seconds;
+          // Marking only the end means the intro runs from the start of the episode
+          updated.introStartTime = updated.introStartTime ?? 0;
+          break;
+        case "creditsStart":
+          updated.creditsStartTime = seconds;
+          break;
+        case "creditsEnd":
+          updated.creditsEndTime = seconds;
+          break;
+      }
+
+      setEpisodeSkipData(updated);
+      saveManualSkipData(updated);
+
+      if (
+        (point === "introStart" || point === "introEnd") &&
+        updated.introEndTime !== undefined
+      ) {
+        submitSkipSegment({
+          type: "intro",
+          startTime: updated.introStartTime ?? 0,
+          endTime: updated.introEndTime,
+          origin: "manual_mark",
+        });
+      } else if (
+        (point === "creditsStart" || point === "creditsEnd") &&
+        updated.creditsStartTime !== undefined
+      ) {
+        submitSkipSegment({
+          type: "credits",
+          startTime: updated.creditsStartTime,
+          endTime: updated.creditsEndTime ?? videoDuration.current,
+          origin: "manual_mark",
+        });
+      }
+    },
+    [episodeSkipData, imdbId, showName, season, episode, submitSkipSegment],
+  );
+
+  const promptResume = useCallback(
+    (point: ResumePoint, duration: number) => {
+      const position = getResumePosition(point, duration);
+      if (position === null) {
+        resumeSettled.current = true;
+        return;
+      }
+
+      Alert.alert(
+        "Resume Playback",
+        `Resume from ${formatTime(position)}?`,
+        [
+          {
+            text: "Start Over",
+            style: "cancel",
+            onPress: () => {
+              resumeSettled.current = true;
+              if (progressTarget) {
+                playbackProgressService.clearProgress(progressTarget);
+              }
+            },
+          },
+          {
+            text: "Resume",
+            onPress: () => {
+              resumeSettled.current = true;
+              setStartPosition(position);
+            },
+          },
+        ],
+        { cancelable: false },
+      );
+    },
+    [progressTarget],
+  );
+
+  const handleProgress = useCallback(
+    (position: number, duration: number) => {
+      videoDuration.current = duration;
+      updateScrobbleProgress(position, duration);
+
+      // Trakt only reports a percentage, so wait for the duration before asking
+      if (resumePoint && duration > 0) {
+        setResumePoint(null);
+        promptResume(resumePoint, duration);
+      }
+
+      if (
+        position > 0 &&
+        settings.playback.rememberPosition &&
+        resumeSettled.current
+      ) {
+        if (progressTarget) {
+          playbackProgressService.saveProgress(
+            progressTarget,
+            position,
+            duration,
+            progressDetails,
+          );
+        } else {
+          progressRepository.record({
+            ...progressDetails,
+            progressId: getUriProgressId(videoUri),
+            position,
+            duration,
+          });
+        }
+      }
+    },
+    [
+      videoUri,
+      settings.playback.rememberPosition,
+      updateScrobbleProgress,
+      resumePoint,
+      promptResume,
+      progressTarget,
+      progressDetails,
+    ],
+  );
+
+  const handlePlaybackEnd = useCallback(() => {
+    scrobbleEnd();
+    // A finished title shouldn't offer to resume at the credits next time, but stays in the watch history
+    if (progressTarget) {
+      playbackProgressService.markWatched(
+        progressTarget,
+        videoDuration.current,
+        progressDetails,
+      );
+    } else {
+      progressRepository.markWatched({
+        ...progressDetails,
+        progressId: getUriProgressId(videoUri),
+        position: videoDuration.current,
+        duration: videoDuration.current,
+      });
     }
-  }, [videoUri, settings.playback.rememberPosition]);
+  }, [scrobbleEnd, progressTarget, progressDetails, videoUri]);
+
+  const handlePlayingChange = useCallback(
+    (isPlaying: boolean) => {
+      if (isPlaying) {
+        scrobblePlay();
+      } else {
+        scrobblePause();
+        progressRepository.flush();
+      }
+    },
+    [scrobblePlay, scrobblePause],
+  );
+
+  useEffect(() => {
+    return () => {
+      progressRepository.flush();
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const params = route.params;
+
+    setNeighbours({ previous: null, next: null });
+    if (params?.uri) {
+      episodeService
+        .getNeighbours(params)
+        .then((result) => {
+          if (!cancelled) setNeighbours(result);
+        })
+        .catch((error) =>
+          console.error("Failed to load episode neighbours:", error),
+        );
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [route.params]);
+
+  const switchEpisode = useCallback(
+    async (ref: EpisodeRef) => {
+      const current = route.params;
+      if (!current || isSwitchingEpisode.current) return;
+
+      isSwitchingEpisode.current = true;
+      try {
+        debridService.configure(settings.debrid);
+        const result = await episodeService.resolve(ref, current);
+        if (result.ok) {
+          // Reusing the screen keeps the player in fullscreen; skip markers and the scrobble session follow the new params
+          navigation.setParams({
+            ...result.params,
+            playlist: current.playlist,
+          });
+        } else {
+          Alert.alert("Can't Play", result.error);
+        }
+      } finally {
+        isSwitchingEpisode.current = false;
+      }
+    },
+    [route.params, settings.debrid, navigation],
+  );
+
+  const handlePreviousEpisode = useCallback(() => {
+    if (neighbours.previous) switchEpisode(neighbours.previous);
+  }, [neighbours.previous, switchEpisode]);
+
+  const handleNextEpisode = useCallback(() => {
+    if (neighbours.next) switchEpisode(neighbours.next);
+  }, [neighbours.next, switchEpisode]);
+
+  useEffect(() => {
+    setShowRatingPrompt(false);
+  }, [videoUri]);
+
+  const handleCreditsReached = useCallback(() => {
+    if (settings.traktPreferences.promptRating && isTraktIdentified) {
+      setShowRatingPrompt(true);
+    }
+  }, [settings.traktPreferences.promptRating, isTraktIdentified]);
+
+  const handleRate = useCallback(
+    (rating: number) => {
+      setShowRatingPrompt(false);
+      rate(rating);
+    },
+    [rate],
+  );
+
+  const handleRatingDismiss = useCallback(() => {
+    setShowRatingPrompt(false);
+  }, []);
+
+  const handleLibraryPress = useCallback(() => {
+    navigation.navigate("Library");
+  }, [navigation]);
 
   const handleLoadSampleVideo = useCallback(() => {
     setHasVideo(true);
@@ -98,10 +710,15 @@ export default function PlayerScreen() {
         <View style={styles.emptyContent}>
           <ThemedText style={styles.emptyTitle}>StreamPlayer</ThemedText>
           <ThemedText style={styles.emptySubtitle}>
-            Open a video from Stremio or another app to start playing
+            Open a video from Stremio or another app, or pick something from
+            your Trakt library
           </ThemedText>
-          
+
           <View style={styles.buttonContainer}>
+            <Button onPress={handleLibraryPress} style={styles.sampleButton}>
+              Browse Library
+            </Button>
+
             <Button onPress={handleLoadSampleVideo} style={styles.sampleButton}>
               Play Sample Video
             </Button>
@@ -114,7 +731,7 @@ export default function PlayerScreen() {
           <View style={styles.infoContainer}>
             <ThemedText style={styles.infoTitle}>Features:</ThemedText>
             <ThemedText style={styles.infoItem}>
-              - Skip detection: Chapter, Audio, Community, Manual
+              - Skip detection: Chapter, Community, Manual
             </ThemedText>
             <ThemedText style={styles.infoItem}>
               - Real-time clock and end time display
@@ -137,14 +754,35 @@ export default function PlayerScreen() {
   return (
     <View style={styles.container}>
       <VideoPlayer
+        key={videoUri}
         uri={videoUri}
         title={videoTitle}
         onSettingsPress={handleSettingsPress}
         skipSettings={settings.skip}
+        chapters={chapters}
+        chapterSkipMarkers={chapterSkipMarkers}
         communitySkipMarkers={communitySkipMarkers}
-        manualIntroSkip={settings.skip.globalIntroSkipSeconds}
-        manualCreditsSkip={settings.skip.globalCreditsSkipSeconds}
+        manualSkip={manualSkip}
         onProgress={handleProgress}
+        onMarkSkipPoint={imdbId ? handleMarkSkipPoint : undefined}
+        onEditSkipTimes={imdbId ? handleEditSkipTimes : undefined}
+        onSkipMarker={handleSkipMarker}
+        onPlayingChange={handlePlayingChange}
+        onPlaybackEnd={handlePlaybackEnd}
+        startPosition={startPosition}
+        onPreviousEpisode={
+          neighbours.previous ? handlePreviousEpisode : undefined
+        }
+        onNextEpisode={neighbours.next ? handleNextEpisode : undefined}
+        nextEpisodeTitle={neighbours.next?.title}
+        autoPlayNext={settings.playback.autoPlayNext}
+        onCreditsReached={handleCreditsReached}
+      />
+      <RatingPrompt
+        title={videoTitle}
+        visible={showRatingPrompt}
+        onRate={handleRate}
+        onDismiss={handleRatingDismiss}
       />
     </View>
   );
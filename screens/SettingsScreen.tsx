@@ -1,4 +1,4 @@
-import React, { useCallback } from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import { StyleSheet, View, ScrollView, Alert, Platform } from "react-native";
 import { useNavigation } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
@@ -8,55 +8,107 @@ import { useHeaderHeight } from "@react-navigation/elements";
 import { ThemedView } from "@/components/ThemedView";
 import { SettingsRow, SettingsSectionHeader } from "@/components/SettingsRow";
 import { useSettings } from "@/hooks/useSettings";
+import { communitySkipService } from "@/services/communitySkipService";
+import { traktOutbox } from "@/services/traktOutbox";
 import { RootStackParamList } from "@/types";
 import { Colors, Spacing, Typography } from "@/constants/theme";
 
 type SettingsScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, "Settings">;
 
 const SPEED_OPTIONS = ["0.5x", "0.75x", "1.0x", "1.25x", "1.5x", "1.75x", "2.0x"];
-const DEBRID_SERVICES = [
-  { label: "None", value: "none" },
-  { label: "Real-Debrid", value: "realdebrid" },
-  { label: "AllDebrid", value: "alldebrid" },
-  { label: "Premiumize", value: "premiumize" },
-  { label: "TorBox", value: "torbox" },
-];
 
 export default function SettingsScreen() {
   const navigation = useNavigation<SettingsScreenNavigationProp>();
   const insets = useSafeAreaInsets();
   const headerHeight = useHeaderHeight();
-  const { settings, updateSkipSettings, updatePlaybackSettings, disconnectTrakt, updateDebridSettings } = useSettings();
+  const {
+    settings,
+    reload,
+    updateSkipSettings,
+    updatePlaybackSettings,
+    disconnectTrakt,
+    updateTraktPreferences,
+  } = useSettings();
+  const [pendingScrobbles, setPendingScrobbles] = useState(0);
+
+  useEffect(() => {
+    return navigation.addListener("focus", reload);
+  }, [navigation, reload]);
+
+  useEffect(() => {
+    traktOutbox.getQueue().then((queue) => setPendingScrobbles(queue.length));
+    return traktOutbox.subscribe((queue) => setPendingScrobbles(queue.length));
+  }, []);
 
   const handleManualSkipsPress = useCallback(() => {
     navigation.navigate("SkipConfiguration");
   }, [navigation]);
 
+  const handleCommunityProvidersPress = useCallback(() => {
+    navigation.navigate("CommunityProviders");
+  }, [navigation]);
+
+  const handleSkipSubmissionsPress = useCallback(() => {
+    navigation.navigate("SkipSubmissions");
+  }, [navigation]);
+
+  const handleDebridAccountsPress = useCallback(() => {
+    navigation.navigate("DebridAccounts");
+  }, [navigation]);
+
+  const handleSourceSettingsPress = useCallback(() => {
+    navigation.navigate("SourceSettings");
+  }, [navigation]);
+
+  const handleBackupPress = useCallback(() => {
+    navigation.navigate("Backup");
+  }, [navigation]);
+
+  const handleClearSkipCache = useCallback(() => {
+    Alert.alert(
+      "Clear Skip Cache",
+      "Community skip markers will be downloaded again the next time each episode is played.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Clear",
+          style: "destructive",
+          onPress: () => communitySkipService.clearCache(),
+        },
+      ],
+    );
+  }, []);
+
   const handleTraktConnect = useCallback(() => {
     navigation.navigate("TraktAuth");
   }, [navigation]);
 
   const handleTraktDisconnect = useCallback(() => {
+    const pendingNote =
+      pendingScrobbles > 0
+        ? ` ${pendingScrobbles} unsynced ${pendingScrobbles === 1 ? "event" : "events"} will be discarded.`
+        : "";
     Alert.alert(
       "Disconnect Trakt",
-      "Are you sure you want to disconnect your Trakt account?",
+      `Are you sure you want to disconnect your Trakt account?${pendingNote}`,
       [
         { text: "Cancel", style: "cancel" },
         { 
           text: "Disconnect", 
           style: "destructive",
-          onPress: () => disconnectTrakt(),
+          onPress: () => {
+            // Queued events belong to this account and must not reach the next one
+            traktOutbox.clear();
+            disconnectTrakt();
+          },
         },
       ]
     );
-  }, [disconnectTrakt]);
+  }, [disconnectTrakt, pendingScrobbles]);
 
-  const handleDebridServiceChange = useCallback(() => {
-    const currentIndex = DEBRID_SERVICES.findIndex((s) => s.value === settings.debrid.service);
-    const nextIndex = (currentIndex + 1) % DEBRID_SERVICES.length;
-    const nextService = DEBRID_SERVICES[nextIndex];
-    updateDebridSettings({ service: nextService.value as any });
-  }, [settings.debrid.service, updateDebridSettings]);
+  const handleTraktSync = useCallback(() => {
+    traktOutbox.flush(true);
+  }, []);
 
   const handleSpeedChange = useCallback(() => {
     const currentSpeed = `${settings.playback.defaultSpeed}x`;
@@ -70,7 +122,13 @@ export default function SettingsScreen() {
     ? `Connected as ${settings.trakt.username}`
     : "Not connected";
 
-  const debridLabel = DEBRID_SERVICES.find((s) => s.value === settings.debrid.service)?.label || "None";
+  const connectedDebridAccounts = settings.debrid.accounts.filter(
+    (account) => account.enabled && account.isConnected,
+  ).length;
+  const debridStatus =
+    settings.debrid.accounts.length === 0
+      ? "None"
+      : `${connectedDebridAccounts} of ${settings.debrid.accounts.length} connected`;
 
   return (
     <ThemedView style={styles.container}>
@@ -96,24 +154,33 @@ export default function SettingsScreen() {
             onValueChange={(value) => updateSkipSettings({ enabledChapterSkip: value })}
           />
           <View style={styles.separator} />
-          <SettingsRow
-            type="toggle"
-            label="Audio Fingerprint Skip"
-            subtitle="Detect intros by analyzing audio patterns"
-            icon="music"
-            value={settings.skip.enabledAudioSkip}
-            onValueChange={(value) => updateSkipSettings({ enabledAudioSkip: value })}
-          />
-          <View style={styles.separator} />
           <SettingsRow
             type="toggle"
             label="Community Skip Markers"
-            subtitle="Use IntroHater community-driven skip data"
+            subtitle="Use IntroHater, AniSkip and other community skip data"
             icon="users"
             value={settings.skip.enabledCommunitySkip}
             onValueChange={(value) => updateSkipSettings({ enabledCommunitySkip: value })}
           />
           <View style={styles.separator} />
+          <SettingsRow
+            type="navigation"
+            label="Community Providers"
+            subtitle="Enable, order and add skip data sources"
+            icon="list"
+            onPress={handleCommunityProvidersPress}
+          />
+          <View style={styles.separator} />
+          <SettingsRow
+            type="button"
+            label="Skip Cache"
+            subtitle="Cached community skip markers"
+            icon="database"
+            buttonLabel="Clear"
+            buttonVariant="danger"
+            onPress={handleClearSkipCache}
+          />
+          <View style={styles.separator} />
           <SettingsRow
             type="toggle"
             label="Manual Skip Markers"
@@ -139,6 +206,25 @@ export default function SettingsScreen() {
             icon="clock"
             onPress={handleManualSkipsPress}
           />
+          <View style={styles.separator} />
+          <SettingsRow
+            type="toggle"
+            label="Share Skip Times"
+            subtitle="Send segments you mark or confirm to the community"
+            icon="upload-cloud"
+            value={settings.skip.shareSkipSegments}
+            onValueChange={(value) =>
+              updateSkipSettings({ shareSkipSegments: value })
+            }
+          />
+          <View style={styles.separator} />
+          <SettingsRow
+            type="navigation"
+            label="Review Submissions"
+            subtitle="Edit or discard queued skip times"
+            icon="inbox"
+            onPress={handleSkipSubmissionsPress}
+          />
         </View>
 
         <SettingsSectionHeader title="Playback" />
@@ -154,7 +240,7 @@ export default function SettingsScreen() {
           <SettingsRow
             type="toggle"
             label="Remember Position"
-            subtitle="Resume playback from where you left off"
+            subtitle="Resume where you left off, across devices when Trakt is connected"
             icon="save"
             value={settings.playback.rememberPosition}
             onValueChange={(value) => updatePlaybackSettings({ rememberPosition: value })}
@@ -199,31 +285,76 @@ export default function SettingsScreen() {
               onPress={handleTraktConnect}
             />
           )}
-        </View>
-
-        <SettingsSectionHeader title="Debrid Services" />
-        <View style={styles.section}>
+          <View style={styles.separator} />
           <SettingsRow
-            type="navigation"
-            label="Service"
-            icon="cloud"
-            value={debridLabel}
-            onPress={handleDebridServiceChange}
+            type="toggle"
+            label="Check In Instead of Scrobbling"
+            subtitle="Mark titles watched once they start, without syncing progress"
+            icon="check-circle"
+            value={settings.traktPreferences.watchMode === "checkin"}
+            onValueChange={(value) =>
+              updateTraktPreferences({
+                watchMode: value ? "checkin" : "scrobble",
+              })
+            }
+          />
+          <View style={styles.separator} />
+          <SettingsRow
+            type="toggle"
+            label="Rate When Finished"
+            subtitle="Ask for a rating when the credits start"
+            icon="heart"
+            value={settings.traktPreferences.promptRating}
+            onValueChange={(value) =>
+              updateTraktPreferences({ promptRating: value })
+            }
           />
-          {settings.debrid.service !== "none" ? (
+          {pendingScrobbles > 0 ? (
             <>
               <View style={styles.separator} />
               <SettingsRow
-                type="info"
-                label="Status"
-                icon="check-circle"
-                value={settings.debrid.isConnected ? "Connected" : "Not configured"}
-                valueColor={settings.debrid.isConnected ? Colors.dark.success : Colors.dark.warning}
+                type="button"
+                label="Pending Scrobbles"
+                subtitle={`${pendingScrobbles} waiting for a connection`}
+                icon="upload-cloud"
+                buttonLabel="Sync Now"
+                onPress={handleTraktSync}
               />
             </>
           ) : null}
         </View>
 
+        <SettingsSectionHeader title="Debrid Services" />
+        <View style={styles.section}>
+          <SettingsRow
+            type="navigation"
+            label="Accounts"
+            icon="cloud"
+            value={debridStatus}
+            onPress={handleDebridAccountsPress}
+          />
+          <View style={styles.separator} />
+          <SettingsRow
+            type="navigation"
+            label="Stream Sources"
+            subtitle="Stremio addons and quality preferences"
+            icon="list"
+            value={`${settings.sources.addons.filter((addon) => addon.enabled).length} addons`}
+            onPress={handleSourceSettingsPress}
+          />
+        </View>
+
+        <SettingsSectionHeader title="Data" />
+        <View style={styles.section}>
+          <SettingsRow
+            type="navigation"
+            label="Backup & Restore"
+            subtitle="Move settings, skips and positions to another device"
+            icon="archive"
+            onPress={handleBackupPress}
+          />
+        </View>
+
         <SettingsSectionHeader title="About" />
         <View style={styles.section}>
           <SettingsRow
@@ -1,6 +1,15 @@
-import React, { useState, useCallback } from "react";
-import { StyleSheet, View, TextInput, Alert, Pressable, KeyboardAvoidingView, Platform } from "react-native";
-import { useNavigation } from "@react-navigation/native";
+import React, { useState, useCallback, useEffect } from "react";
+import {
+  StyleSheet,
+  View,
+  TextInput,
+  Alert,
+  Pressable,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from "react-native";
+import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useHeaderHeight } from "@react-navigation/elements";
@@ -10,10 +19,55 @@ import { ThemedView } from "@/components/ThemedView";
 import { ThemedText } from "@/components/ThemedText";
 import { Button } from "@/components/Button";
 import { useSettings } from "@/hooks/useSettings";
-import { RootStackParamList } from "@/types";
+import { normalizeSourcePriority } from "@/services/skipMarkerResolver";
+import {
+  loadManualSkipData,
+  saveManualSkipData,
+  clearManualSkipData,
+  loadShowSkipData,
+  saveShowSkipData,
+  clearShowSkipData,
+  getEpisodeId,
+} from "@/storage/settingsStorage";
+import {
+  ManualSkipRanges,
+  RootStackParamList,
+  SkipSource,
+  SkipType,
+} from "@/types";
 import { Colors, Spacing, BorderRadius, Typography } from "@/constants/theme";
 
-type SkipConfigScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, "SkipConfiguration">;
+type SkipConfigScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  "SkipConfiguration"
+>;
+type SkipConfigScreenRouteProp = RouteProp<
+  RootStackParamList,
+  "SkipConfiguration"
+>;
+
+type RangeField = keyof ManualSkipRanges;
+type RangeInputs = Record<RangeField, string>;
+
+const EMPTY_RANGE_INPUTS: RangeInputs = {
+  introStartTime: "",
+  introEndTime: "",
+  creditsStartTime: "",
+  creditsEndTime: "",
+};
+
+const SOURCE_LABELS: Record<SkipSource, string> = {
+  chapter: "Chapter Markers",
+  community: "Community Skip Markers",
+  manual: "Manual Fallback (these settings)",
+};
+
+const LEAD_IN_TYPES: { type: SkipType; label: string }[] = [
+  { type: "intro", label: "Intro" },
+  { type: "recap", label: "Recap" },
+  { type: "credits", label: "Credits" },
+  { type: "preview", label: "Preview" },
+];
 
 function formatSecondsToTime(seconds: number): string {
   if (seconds <= 0) return "0:00";
@@ -22,8 +76,132 @@ function formatSecondsToTime(seconds: number): string {
   return `${mins}:${String(secs).padStart(2, "0")}`;
 }
 
+// Accepts plain seconds ("95"), m:ss ("1:35") or h:mm:ss
+function parseTimeInput(value: string): number | undefined | null {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  if (!/^\d+(\.\d+)?(:\d{1,2}(\.\d+)?){0,2}$/.test(trimmed)) return null;
+  return trimmed
+    .split(":")
+    .reduce((total, part) => total * 60 + parseFloat(part), 0);
+}
+
+function formatTimeInput(seconds: number | undefined): string {
+  if (seconds === undefined) return "";
+  const hrs = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = Math.round((seconds % 60) * 10) / 10;
+  const secsText = secs < 10 ? `0${secs}` : String(secs);
+  return hrs > 0
+    ? `${hrs}:${String(mins).padStart(2, "0")}:${secsText}`
+    : `${mins}:${secsText}`;
+}
+
+function rangesToInputs(ranges: ManualSkipRanges | null): RangeInputs {
+  if (!ranges) return EMPTY_RANGE_INPUTS;
+  return {
+    introStartTime: formatTimeInput(ranges.introStartTime),
+    introEndTime: formatTimeInput(ranges.introEndTime),
+    creditsStartTime: formatTimeInput(ranges.creditsStartTime),
+    creditsEndTime: formatTimeInput(ranges.creditsEndTime),
+  };
+}
+
+function inputsToRanges(
+  inputs: RangeInputs,
+  label: string,
+): ManualSkipRanges | string {
+  const ranges: ManualSkipRanges = {};
+  for (const field of Object.keys(EMPTY_RANGE_INPUTS) as RangeField[]) {
+    const parsed = parseTimeInput(inputs[field]);
+    if (parsed === null) {
+      return `${label}: "${inputs[field]}" is not a valid time. Use seconds or m:ss.`;
+    }
+    ranges[field] = parsed;
+  }
+  if (
+    ranges.introEndTime !== undefined &&
+    ranges.introEndTime <= (ranges.introStartTime ?? 0)
+  ) {
+    return `${label}: the intro must end after it starts.`;
+  }
+  if (
+    ranges.introStartTime !== undefined &&
+    ranges.introEndTime === undefined
+  ) {
+    return `${label}: set where the intro ends.`;
+  }
+  if (
+    ranges.creditsEndTime !== undefined &&
+    ranges.creditsStartTime === undefined
+  ) {
+    return `${label}: set where the credits start.`;
+  }
+  if (
+    ranges.creditsStartTime !== undefined &&
+    ranges.creditsEndTime !== undefined &&
+    ranges.creditsEndTime <= ranges.creditsStartTime
+  ) {
+    return `${label}: the credits must end after they start.`;
+  }
+  return ranges;
+}
+
+function hasRanges(ranges: ManualSkipRanges): boolean {
+  return Object.values(ranges).some((value) => value !== undefined);
+}
+
+interface SkipRangeEditorProps {
+  title: string;
+  hint: string;
+  values: RangeInputs;
+  onChange: (field: RangeField, value: string) => void;
+}
+
+function SkipRangeEditor({
+  title,
+  hint,
+  values,
+  onChange,
+}: SkipRangeEditorProps) {
+  return (
+    <View style={styles.inputGroup}>
+      <View style={styles.labelRow}>
+        <Feather name="scissors" size={18} color={Colors.dark.text} />
+        <ThemedText style={styles.inputLabel}>{title}</ThemedText>
+      </View>
+      <ThemedText style={styles.inputHint}>{hint}</ThemedText>
+      {(["intro", "credits"] as const).map((segment) => (
+        <View key={segment} style={styles.rangeRow}>
+          <ThemedText style={styles.rangeLabel}>
+            {segment === "intro" ? "Intro" : "Credits"}
+          </ThemedText>
+          <TextInput
+            style={[styles.input, styles.rangeInput]}
+            value={values[`${segment}StartTime`]}
+            onChangeText={(value) => onChange(`${segment}StartTime`, value)}
+            placeholder="Start"
+            placeholderTextColor={Colors.dark.disabled}
+            keyboardType="numbers-and-punctuation"
+          />
+          <ThemedText style={styles.rangeLabel}>to</ThemedText>
+          <TextInput
+            style={[styles.input, styles.rangeInput]}
+            value={values[`${segment}EndTime`]}
+            onChangeText={(value) => onChange(`${segment}EndTime`, value)}
+            placeholder={segment === "credits" ? "End of video" : "End"}
+            placeholderTextColor={Colors.dark.disabled}
+            keyboardType="numbers-and-punctuation"
+          />
+        </View>
+      ))}
+    </View>
+  );
+}
+
 export default function SkipConfigurationScreen() {
   const navigation = useNavigation<SkipConfigScreenNavigationProp>();
+  const route = useRoute<SkipConfigScreenRouteProp>();
   const insets = useSafeAreaInsets();
   const headerHeight = useHeaderHeight();
   const { settings, updateSkipSettings } = useSettings();
@@ -34,8 +212,94 @@ export default function SkipConfigurationScreen() {
   const [creditsSeconds, setCreditsSeconds] = useState(
     settings.skip.globalCreditsSkipSeconds > 0 ? String(settings.skip.globalCreditsSkipSeconds) : ""
   );
+  const [leadIns, setLeadIns] = useState<Record<SkipType, string>>(() => {
+    const values = { ...settings.skip.leadInSeconds };
+    return {
+      intro: String(values.intro ?? 0),
+      recap: String(values.recap ?? 0),
+      credits: String(values.credits ?? 0),
+      preview: String(values.preview ?? 0),
+    };
+  });
+  const [episodeInputs, setEpisodeInputs] =
+    useState<RangeInputs>(EMPTY_RANGE_INPUTS);
+  const [showInputs, setShowInputs] = useState<RangeInputs>(EMPTY_RANGE_INPUTS);
   const [isSaving, setIsSaving] = useState(false);
 
+  const imdbId = route.params?.imdbId;
+  const showName = route.params?.showName || "this show";
+  const season = route.params?.season ?? 1;
+  const episode = route.params?.episode ?? 1;
+  const episodeLabel = `S${String(season).padStart(2, "0")}E${String(episode).padStart(2, "0")}`;
+
+  useEffect(() => {
+    async function loadRanges() {
+      if (!imdbId) return;
+      const [episodeData, showData] = await Promise.all([
+        loadManualSkipData(imdbId, season, episode),
+        loadShowSkipData(imdbId),
+      ]);
+      setEpisodeInputs(rangesToInputs(episodeData));
+      setShowInputs(rangesToInputs(showData));
+    }
+    loadRanges();
+  }, [imdbId, season, episode]);
+
+  const saveRanges = useCallback(
+    async (episodeRanges: ManualSkipRanges, showRanges: ManualSkipRanges) => {
+      if (!imdbId) return;
+      const existingEpisode = await loadManualSkipData(imdbId, season, episode);
+      if (
+        hasRanges(episodeRanges) ||
+        (existingEpisode?.introSkipSeconds ?? 0) > 0 ||
+        (existingEpisode?.creditsSkipSeconds ?? 0) > 0
+      ) {
+        await saveManualSkipData({
+          episodeId: getEpisodeId(imdbId, season, episode),
+          showName,
+          season,
+          episode,
+          introSkipSeconds: existingEpisode?.introSkipSeconds ?? 0,
+          creditsSkipSeconds: existingEpisode?.creditsSkipSeconds ?? 0,
+          lastUpdated: Date.now(),
+          ...episodeRanges,
+        });
+      } else if (existingEpisode) {
+        await clearManualSkipData(imdbId, season, episode);
+      }
+
+      if (hasRanges(showRanges)) {
+        await saveShowSkipData({
+          imdbId,
+          showName,
+          introSkipSeconds: 0,
+          creditsSkipSeconds: 0,
+          lastUpdated: Date.now(),
+          ...showRanges,
+        });
+      } else {
+        await clearShowSkipData(imdbId);
+      }
+    },
+    [imdbId, showName, season, episode],
+  );
+
+  const sourcePriority = normalizeSourcePriority(settings.skip.sourcePriority);
+
+  const handleMoveSource = useCallback(
+    (index: number, direction: -1 | 1) => {
+      const target = index + direction;
+      if (target < 0 || target >= sourcePriority.length) return;
+      const reordered = [...sourcePriority];
+      [reordered[index], reordered[target]] = [
+        reordered[target],
+        reordered[index],
+      ];
+      updateSkipSettings({ sourcePriority: reordered });
+    },
+    [sourcePriority, updateSkipSettings],
+  );
+
   const handleSave = useCallback(async () => {
     const introValue = parseInt(introSeconds, 10) || 0;
     const creditsValue = parseInt(creditsSeconds, 10) || 0;
@@ -45,19 +309,55 @@ export default function SkipConfigurationScreen() {
       return;
     }
 
+    const leadInSeconds = {
+      intro: Math.max(0, parseInt(leadIns.intro, 10) || 0),
+      recap: Math.max(0, parseInt(leadIns.recap, 10) || 0),
+      credits: Math.max(0, parseInt(leadIns.credits, 10) || 0),
+      preview: Math.max(0, parseInt(leadIns.preview, 10) || 0),
+    };
+
+    const episodeRanges = imdbId
+      ? inputsToRanges(episodeInputs, episodeLabel)
+      : {};
+    const showRanges = imdbId ? inputsToRanges(showInputs, "Show default") : {};
+    if (typeof episodeRanges === "string" || typeof showRanges === "string") {
+      Alert.alert(
+        "Invalid Input",
+        typeof episodeRanges === "string" ? episodeRanges : String(showRanges),
+      );
+      return;
+    }
+
     setIsSaving(true);
     
     await updateSkipSettings({
       globalIntroSkipSeconds: introValue,
       globalCreditsSkipSeconds: creditsValue,
+      leadInSeconds,
     });
-    
+    await saveRanges(episodeRanges, showRanges);
+
     setIsSaving(false);
-    
-    Alert.alert("Saved", "Global skip times have been saved.", [
-      { text: "OK", onPress: () => navigation.goBack() },
-    ]);
-  }, [introSeconds, creditsSeconds, updateSkipSettings, navigation]);
+
+    Alert.alert(
+      "Saved",
+      imdbId
+        ? "Skip times have been saved."
+        : "Global skip times have been saved.",
+      [{ text: "OK", onPress: () => navigation.goBack() }],
+    );
+  }, [
+    introSeconds,
+    creditsSeconds,
+    leadIns,
+    imdbId,
+    episodeInputs,
+    showInputs,
+    episodeLabel,
+    saveRanges,
+    updateSkipSettings,
+    navigation,
+  ]);
 
   const handleClear = useCallback(() => {
     Alert.alert(
@@ -92,46 +392,107 @@ export default function SkipConfigurationScreen() {
         behavior={Platform.OS === "ios" ? "padding" : "height"}
         keyboardVerticalOffset={headerHeight}
       >
-        <View style={[styles.content, { paddingTop: headerHeight + Spacing.xl, paddingBottom: insets.bottom + Spacing.xl }]}>
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={[
+            styles.content,
+            {
+              paddingTop: headerHeight + Spacing.xl,
+              paddingBottom: insets.bottom + Spacing.xl,
+            },
+          ]}
+          keyboardShouldPersistTaps="handled"
+        >
           <View style={styles.headerInfo}>
             <View style={styles.iconContainer}>
               <Feather name="shield" size={32} color={Colors.dark.accent} />
             </View>
             <ThemedText style={styles.title}>Fallback Skip Times</ThemedText>
             <ThemedText style={styles.subtitle}>
-              These times are used when chapter markers and audio fingerprinting are unavailable or disabled. They apply to ALL videos as a last resort.
+              These times are used when chapter and community skip markers are
+              unavailable or disabled. They apply to ALL videos as a last
+              resort.
             </ThemedText>
           </View>
 
           <View style={styles.priorityInfo}>
             <ThemedText style={styles.priorityTitle}>Skip Detection Priority:</ThemedText>
-            <View style={styles.priorityItem}>
-              <View style={[styles.priorityBadge, styles.tier1]}>
-                <ThemedText style={styles.priorityBadgeText}>1</ThemedText>
-              </View>
-              <ThemedText style={styles.priorityText}>Chapter Markers (most accurate)</ThemedText>
-            </View>
-            <View style={styles.priorityItem}>
-              <View style={[styles.priorityBadge, styles.tier2]}>
-                <ThemedText style={styles.priorityBadgeText}>2</ThemedText>
-              </View>
-              <ThemedText style={styles.priorityText}>Audio Fingerprinting</ThemedText>
-            </View>
-            <View style={styles.priorityItem}>
-              <View style={[styles.priorityBadge, styles.tier3]}>
-                <ThemedText style={styles.priorityBadgeText}>3</ThemedText>
-              </View>
-              <ThemedText style={styles.priorityText}>Community Skip Markers (IntroHater + Stremio)</ThemedText>
-            </View>
-            <View style={styles.priorityItem}>
-              <View style={[styles.priorityBadge, styles.tier4]}>
-                <ThemedText style={styles.priorityBadgeText}>4</ThemedText>
+            {sourcePriority.map((source, index) => (
+              <View key={source} style={styles.priorityItem}>
+                <View
+                  style={[
+                    styles.priorityBadge,
+                    TIER_STYLES[Math.min(index, TIER_STYLES.length - 1)],
+                  ]}
+                >
+                  <ThemedText style={styles.priorityBadgeText}>
+                    {index + 1}
+                  </ThemedText>
+                </View>
+                <ThemedText style={[styles.priorityText, styles.priorityLabel]}>
+                  {SOURCE_LABELS[source]}
+                </ThemedText>
+                <Pressable
+                  onPress={() => handleMoveSource(index, -1)}
+                  disabled={index === 0}
+                  style={({ pressed }) => [
+                    styles.priorityMove,
+                    { opacity: index === 0 ? 0.3 : pressed ? 0.6 : 1 },
+                  ]}
+                >
+                  <Feather
+                    name="chevron-up"
+                    size={18}
+                    color={Colors.dark.text}
+                  />
+                </Pressable>
+                <Pressable
+                  onPress={() => handleMoveSource(index, 1)}
+                  disabled={index === sourcePriority.length - 1}
+                  style={({ pressed }) => [
+                    styles.priorityMove,
+                    {
+                      opacity:
+                        index === sourcePriority.length - 1
+                          ? 0.3
+                          : pressed
+                            ? 0.6
+                            : 1,
+                    },
+                  ]}
+                >
+                  <Feather
+                    name="chevron-down"
+                    size={18}
+                    color={Colors.dark.text}
+                  />
+                </Pressable>
               </View>
-              <ThemedText style={styles.priorityText}>Manual Fallback (these settings)</ThemedText>
-            </View>
+            ))}
           </View>
 
           <View style={styles.inputSection}>
+            {imdbId ? (
+              <>
+                <SkipRangeEditor
+                  title={`This Episode (${episodeLabel})`}
+                  hint="Overrides the show default and fallback times for this episode only"
+                  values={episodeInputs}
+                  onChange={(field, value) =>
+                    setEpisodeInputs((prev) => ({ ...prev, [field]: value }))
+                  }
+                />
+                <SkipRangeEditor
+                  title={`All Episodes of ${showName}`}
+                  hint="Used for episodes of this show without their own times"
+                  values={showInputs}
+                  onChange={(field, value) =>
+                    setShowInputs((prev) => ({ ...prev, [field]: value }))
+                  }
+                />
+              </>
+            ) : null}
+
             <View style={styles.inputGroup}>
               <View style={styles.labelRow}>
                 <Feather name="skip-forward" size={18} color={Colors.dark.text} />
@@ -183,6 +544,35 @@ export default function SkipConfigurationScreen() {
                 </ThemedText>
               ) : null}
             </View>
+
+            <View style={styles.inputGroup}>
+              <View style={styles.labelRow}>
+                <Feather name="clock" size={18} color={Colors.dark.text} />
+                <ThemedText style={styles.inputLabel}>
+                  Skip Button Lead-In
+                </ThemedText>
+              </View>
+              <ThemedText style={styles.inputHint}>
+                Seconds before each segment starts to show the skip button
+              </ThemedText>
+              <View style={styles.leadInRow}>
+                {LEAD_IN_TYPES.map(({ type, label }) => (
+                  <View key={type} style={styles.leadInItem}>
+                    <ThemedText style={styles.leadInLabel}>{label}</ThemedText>
+                    <TextInput
+                      style={[styles.input, styles.leadInInput]}
+                      value={leadIns[type]}
+                      onChangeText={(value) =>
+                        setLeadIns((prev) => ({ ...prev, [type]: value }))
+                      }
+                      placeholder="0"
+                      placeholderTextColor={Colors.dark.disabled}
+                      keyboardType="number-pad"
+                    />
+                  </View>
+                ))}
+              </View>
+            </View>
           </View>
 
           <View style={styles.buttonContainer}>
@@ -191,9 +581,13 @@ export default function SkipConfigurationScreen() {
               disabled={isSaving}
               style={styles.saveButton}
             >
-              {isSaving ? "Saving..." : "Save Fallback Times"}
+              {isSaving
+                ? "Saving..."
+                : imdbId
+                  ? "Save Skip Times"
+                  : "Save Fallback Times"}
             </Button>
-            
+
             {hasValues ? (
               <Pressable
                 onPress={handleClear}
@@ -207,7 +601,7 @@ export default function SkipConfigurationScreen() {
               </Pressable>
             ) : null}
           </View>
-        </View>
+        </ScrollView>
       </KeyboardAvoidingView>
     </ThemedView>
   );
@@ -221,8 +615,11 @@ const styles = StyleSheet.create({
   keyboardView: {
     flex: 1,
   },
-  content: {
+  scrollView: {
     flex: 1,
+  },
+  content: {
+    flexGrow: 1,
     paddingHorizontal: Spacing.xl,
   },
   headerInfo: {
@@ -294,6 +691,45 @@ const styles = StyleSheet.create({
     ...Typography.body,
     color: Colors.dark.text,
   },
+  priorityLabel: {
+    flex: 1,
+  },
+  priorityMove: {
+    padding: Spacing.xs,
+    marginLeft: Spacing.xs,
+  },
+  leadInRow: {
+    flexDirection: "row",
+    gap: Spacing.md,
+  },
+  leadInItem: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  leadInLabel: {
+    ...Typography.small,
+    color: Colors.dark.disabled,
+  },
+  leadInInput: {
+    textAlign: "center",
+    paddingHorizontal: Spacing.sm,
+  },
+  rangeRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  rangeLabel: {
+    ...Typography.small,
+    color: Colors.dark.disabled,
+    minWidth: 20,
+  },
+  rangeInput: {
+    flex: 1,
+    textAlign: "center",
+    paddingHorizontal: Spacing.sm,
+  },
   inputSection: {
     gap: Spacing["2xl"],
   },
@@ -350,3 +786,5 @@ const styles = StyleSheet.create({
     color: Colors.dark.error,
   },
 });
+
+const TIER_STYLES = [styles.tier1, styles.tier2, styles.tier3, styles.tier4];
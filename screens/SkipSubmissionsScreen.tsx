@@ -0,0 +1,412 @@
+import React, { useState, useCallback, useEffect } from "react";
+import {
+  StyleSheet,
+  View,
+  TextInput,
+  Alert,
+  Pressable,
+  ScrollView,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedView } from "@/components/ThemedView";
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { useSettings } from "@/hooks/useSettings";
+import { skipSubmissionService } from "@/services/skipSubmissionService";
+import { SkipSubmission, SkipSubmissionOrigin } from "@/types";
+import { Colors, Spacing, BorderRadius, Typography } from "@/constants/theme";
+
+const ORIGIN_LABELS: Record<SkipSubmissionOrigin, string> = {
+  manual_mark: "Marked in player",
+  manual_skip: "Skipped manually",
+};
+
+function formatTime(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${String(secs).padStart(2, "0")}`;
+}
+
+function parseTime(value: string): number | null {
+  const trimmed = value.trim();
+  if (!/^\d+(\.\d+)?(:\d{1,2}(\.\d+)?)?$/.test(trimmed)) return null;
+  return trimmed
+    .split(":")
+    .reduce((total, part) => total * 60 + parseFloat(part), 0);
+}
+
+interface SubmissionCardProps {
+  submission: SkipSubmission;
+}
+
+function SubmissionCard({ submission }: SubmissionCardProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [startText, setStartText] = useState(formatTime(submission.startTime));
+  const [endText, setEndText] = useState(formatTime(submission.endTime));
+
+  const episodeLabel = `S${String(submission.season).padStart(2, "0")}E${String(submission.episode).padStart(2, "0")}`;
+  const segmentLabel =
+    submission.type.charAt(0).toUpperCase() + submission.type.slice(1);
+
+  const handleEdit = useCallback(() => {
+    setStartText(formatTime(submission.startTime));
+    setEndText(formatTime(submission.endTime));
+    setIsEditing(true);
+  }, [submission.startTime, submission.endTime]);
+
+  const handleSave = useCallback(async () => {
+    const startTime = parseTime(startText);
+    const endTime = parseTime(endText);
+    if (startTime === null || endTime === null || endTime <= startTime) {
+      Alert.alert(
+        "Invalid Input",
+        "Enter a start and end time (seconds or m:ss) with the end after the start.",
+      );
+      return;
+    }
+    await skipSubmissionService.update(submission.id, { startTime, endTime });
+    setIsEditing(false);
+  }, [startText, endText, submission.id]);
+
+  const handleDiscard = useCallback(() => {
+    Alert.alert(
+      "Discard Submission",
+      `Discard the ${submission.type} for ${submission.showName} ${episodeLabel}?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Discard",
+          style: "destructive",
+          onPress: () => skipSubmissionService.discard(submission.id),
+        },
+      ],
+    );
+  }, [submission, episodeLabel]);
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.cardHeader}>
+        <ThemedText style={styles.cardTitle} numberOfLines={1}>
+          {submission.showName} {episodeLabel} · {segmentLabel}
+        </ThemedText>
+        <ThemedText
+          style={[
+            styles.statusText,
+            submission.status === "failed" ? styles.statusFailed : null,
+          ]}
+        >
+          {submission.status === "failed" ? "Failed" : "Pending"}
+        </ThemedText>
+      </View>
+
+      {isEditing ? (
+        <View style={styles.editRow}>
+          <TextInput
+            style={styles.input}
+            value={startText}
+            onChangeText={setStartText}
+            placeholder="Start"
+            placeholderTextColor={Colors.dark.disabled}
+            keyboardType="numbers-and-punctuation"
+          />
+          <ThemedText style={styles.cardMeta}>to</ThemedText>
+          <TextInput
+            style={styles.input}
+            value={endText}
+            onChangeText={setEndText}
+            placeholder="End"
+            placeholderTextColor={Colors.dark.disabled}
+            keyboardType="numbers-and-punctuation"
+          />
+        </View>
+      ) : (
+        <ThemedText style={styles.cardRange}>
+          {formatTime(submission.startTime)} – {formatTime(submission.endTime)}
+        </ThemedText>
+      )}
+
+      <ThemedText style={styles.cardMeta}>
+        {ORIGIN_LABELS[submission.origin]} ·{" "}
+        {Math.round(submission.confidence * 100)}% confidence
+        {submission.attempts > 0
+          ? ` · ${submission.attempts} attempt${submission.attempts === 1 ? "" : "s"}`
+          : ""}
+      </ThemedText>
+      {submission.lastError ? (
+        <ThemedText style={styles.errorText}>
+          Last error: {submission.lastError}
+        </ThemedText>
+      ) : null}
+
+      <View style={styles.cardActions}>
+        {isEditing ? (
+          <>
+            <CardAction icon="check" label="Save" onPress={handleSave} />
+            <CardAction
+              icon="x"
+              label="Cancel"
+              onPress={() => setIsEditing(false)}
+            />
+          </>
+        ) : (
+          <>
+            <CardAction icon="edit-2" label="Edit" onPress={handleEdit} />
+            {submission.status === "failed" ? (
+              <CardAction
+                icon="refresh-cw"
+                label="Retry"
+                onPress={() => skipSubmissionService.retry(submission.id)}
+              />
+            ) : null}
+            <CardAction
+              icon="trash-2"
+              label="Discard"
+              onPress={handleDiscard}
+              danger
+            />
+          </>
+        )}
+      </View>
+    </View>
+  );
+}
+
+interface CardActionProps {
+  icon: keyof typeof Feather.glyphMap;
+  label: string;
+  onPress: () => void;
+  danger?: boolean;
+}
+
+function CardAction({ icon, label, onPress, danger }: CardActionProps) {
+  const color = danger ? Colors.dark.error : Colors.dark.text;
+  return (
+    <Pressable
+      onPress={onPress}
+      style={({ pressed }) => [
+        styles.cardAction,
+        { opacity: pressed ? 0.6 : 1 },
+      ]}
+    >
+      <Feather name={icon} size={16} color={color} />
+      <ThemedText style={[styles.cardActionText, { color }]}>
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+}
+
+export default function SkipSubmissionsScreen() {
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const { settings } = useSettings();
+  const [submissions, setSubmissions] = useState<SkipSubmission[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    skipSubmissionService.getQueue().then(setSubmissions);
+    return skipSubmissionService.subscribe(setSubmissions);
+  }, []);
+
+  const handleSubmitNow = useCallback(async () => {
+    setIsSubmitting(true);
+    await skipSubmissionService.flush(true);
+    setIsSubmitting(false);
+  }, []);
+
+  const handleDiscardAll = useCallback(() => {
+    Alert.alert("Discard All", "Discard every queued submission?", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Discard",
+        style: "destructive",
+        onPress: () => skipSubmissionService.clear(),
+      },
+    ]);
+  }, []);
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[
+          styles.content,
+          {
+            paddingTop: headerHeight + Spacing.xl,
+            paddingBottom: insets.bottom + Spacing.xl,
+          },
+        ]}
+        keyboardShouldPersistTaps="handled"
+      >
+        <ThemedText style={styles.subtitle}>
+          Skip times you mark or confirm are queued here and sent to the
+          community database. Failed submissions are retried automatically.
+        </ThemedText>
+        {!settings.skip.shareSkipSegments ? (
+          <ThemedText style={styles.warningText}>
+            Sharing is turned off, so no new submissions are being queued.
+          </ThemedText>
+        ) : null}
+
+        {submissions.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Feather name="inbox" size={32} color={Colors.dark.disabled} />
+            <ThemedText style={styles.emptyText}>
+              No pending submissions
+            </ThemedText>
+          </View>
+        ) : (
+          <>
+            {submissions.map((submission) => (
+              <SubmissionCard
+                key={`${submission.id}-${submission.startTime}-${submission.endTime}`}
+                submission={submission}
+              />
+            ))}
+            <View style={styles.buttonContainer}>
+              <Button
+                onPress={handleSubmitNow}
+                disabled={isSubmitting}
+                style={styles.submitButton}
+              >
+                {isSubmitting ? "Submitting..." : "Submit Now"}
+              </Button>
+              <Pressable
+                onPress={handleDiscardAll}
+                style={({ pressed }) => [
+                  styles.clearButton,
+                  { opacity: pressed ? 0.6 : 1 },
+                ]}
+              >
+                <Feather name="trash-2" size={18} color={Colors.dark.error} />
+                <ThemedText style={styles.clearButtonText}>
+                  Discard All
+                </ThemedText>
+              </Pressable>
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.dark.backgroundRoot,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    flexGrow: 1,
+    paddingHorizontal: Spacing.xl,
+    gap: Spacing.md,
+  },
+  subtitle: {
+    ...Typography.body,
+    color: Colors.dark.disabled,
+    lineHeight: 22,
+  },
+  warningText: {
+    ...Typography.small,
+    color: Colors.dark.warning,
+  },
+  emptyState: {
+    alignItems: "center",
+    gap: Spacing.md,
+    paddingVertical: Spacing["3xl"],
+  },
+  emptyText: {
+    ...Typography.body,
+    color: Colors.dark.disabled,
+  },
+  card: {
+    backgroundColor: Colors.dark.backgroundDefault,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+    gap: Spacing.xs,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  cardTitle: {
+    ...Typography.body,
+    fontWeight: "600",
+    color: Colors.dark.text,
+    flex: 1,
+  },
+  statusText: {
+    ...Typography.small,
+    color: Colors.dark.warning,
+  },
+  statusFailed: {
+    color: Colors.dark.error,
+  },
+  cardRange: {
+    ...Typography.h4,
+    color: Colors.dark.accent,
+  },
+  cardMeta: {
+    ...Typography.small,
+    color: Colors.dark.disabled,
+  },
+  errorText: {
+    ...Typography.small,
+    color: Colors.dark.error,
+  },
+  editRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  input: {
+    flex: 1,
+    height: Spacing.inputHeight,
+    backgroundColor: Colors.dark.backgroundSecondary,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.md,
+    ...Typography.body,
+    color: Colors.dark.text,
+    textAlign: "center",
+  },
+  cardActions: {
+    flexDirection: "row",
+    gap: Spacing.lg,
+    marginTop: Spacing.sm,
+  },
+  cardAction: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingVertical: Spacing.xs,
+  },
+  cardActionText: {
+    ...Typography.small,
+  },
+  buttonContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.lg,
+    marginTop: Spacing.xl,
+  },
+  submitButton: {
+    flex: 1,
+  },
+  clearButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    padding: Spacing.md,
+  },
+  clearButtonText: {
+    ...Typography.body,
+    color: Colors.dark.error,
+  },
+});
@@ -0,0 +1,369 @@
+import React, { useState, useCallback } from "react";
+import {
+  StyleSheet,
+  View,
+  TextInput,
+  Alert,
+  Pressable,
+  Switch,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedView } from "@/components/ThemedView";
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { SettingsRow, SettingsSectionHeader } from "@/components/SettingsRow";
+import { useSettings } from "@/hooks/useSettings";
+import { getAddonBaseUrl } from "@/services/streamSourceService";
+import { SourcePreferences, StreamAddonSetting } from "@/types";
+import { Colors, Spacing, BorderRadius, Typography } from "@/constants/theme";
+
+const RESOLUTION_OPTIONS: SourcePreferences["resolution"][] = [
+  "2160p",
+  "1080p",
+  "720p",
+  "480p",
+];
+const MAX_SIZE_OPTIONS = [0, 2, 5, 10, 20, 40];
+const CODEC_OPTIONS: SourcePreferences["codec"][] = [
+  "any",
+  "h265",
+  "h264",
+  "av1",
+];
+const CODEC_LABELS: Record<SourcePreferences["codec"], string> = {
+  any: "Any",
+  h265: "HEVC",
+  h264: "H.264",
+  av1: "AV1",
+};
+
+function nextOption<T>(options: T[], current: T): T {
+  return options[(options.indexOf(current) + 1) % options.length];
+}
+
+export default function SourceSettingsScreen() {
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const { settings, updateSourceSettings } = useSettings();
+  const [addonName, setAddonName] = useState("");
+  const [addonUrl, setAddonUrl] = useState("");
+
+  const { addons, preferences } = settings.sources;
+
+  const saveAddons = useCallback(
+    (nextAddons: StreamAddonSetting[]) => {
+      updateSourceSettings({ addons: nextAddons });
+    },
+    [updateSourceSettings],
+  );
+
+  const updatePreferences = useCallback(
+    (updates: Partial<SourcePreferences>) => {
+      updateSourceSettings({ preferences: { ...preferences, ...updates } });
+    },
+    [preferences, updateSourceSettings],
+  );
+
+  const handleToggle = useCallback(
+    (id: string, enabled: boolean) => {
+      saveAddons(
+        addons.map((addon) =>
+          addon.id === id ? { ...addon, enabled } : addon,
+        ),
+      );
+    },
+    [addons, saveAddons],
+  );
+
+  const handleRemove = useCallback(
+    (addon: StreamAddonSetting) => {
+      Alert.alert("Remove Addon", `Remove ${addon.name}?`, [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: () =>
+            saveAddons(addons.filter((item) => item.id !== addon.id)),
+        },
+      ]);
+    },
+    [addons, saveAddons],
+  );
+
+  const handleAdd = useCallback(() => {
+    const url = getAddonBaseUrl(addonUrl);
+    if (!/^https?:\/\/[^/]+/.test(url)) {
+      Alert.alert(
+        "Invalid URL",
+        "Enter the http(s) address of a Stremio addon, or its manifest.json URL.",
+      );
+      return;
+    }
+
+    const name =
+      addonName.trim() || url.replace(/^https?:\/\//, "").split("/")[0];
+    saveAddons([
+      ...addons,
+      {
+        id: `addon_${Date.now().toString(36)}`,
+        name,
+        url,
+        enabled: true,
+      },
+    ]);
+    setAddonName("");
+    setAddonUrl("");
+  }, [addonName, addonUrl, addons, saveAddons]);
+
+  return (
+    <ThemedView style={styles.container}>
+      <KeyboardAvoidingView
+        style={styles.keyboardView}
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        keyboardVerticalOffset={headerHeight}
+      >
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={[
+            styles.content,
+            {
+              paddingTop: headerHeight + Spacing.xl,
+              paddingBottom: insets.bottom + Spacing.xl,
+            },
+          ]}
+          keyboardShouldPersistTaps="handled"
+        >
+          <View>
+            <SettingsSectionHeader title="Preferences" />
+            <View style={styles.section}>
+              <SettingsRow
+                type="navigation"
+                label="Resolution"
+                icon="monitor"
+                value={preferences.resolution}
+                onPress={() =>
+                  updatePreferences({
+                    resolution: nextOption(
+                      RESOLUTION_OPTIONS,
+                      preferences.resolution,
+                    ),
+                  })
+                }
+              />
+              <View style={styles.separator} />
+              <SettingsRow
+                type="navigation"
+                label="Maximum Size"
+                icon="hard-drive"
+                value={
+                  preferences.maxSizeGb > 0
+                    ? `${preferences.maxSizeGb} GB`
+                    : "No limit"
+                }
+                onPress={() =>
+                  updatePreferences({
+                    maxSizeGb: nextOption(
+                      MAX_SIZE_OPTIONS,
+                      preferences.maxSizeGb,
+                    ),
+                  })
+                }
+              />
+              <View style={styles.separator} />
+              <SettingsRow
+                type="navigation"
+                label="Codec"
+                icon="cpu"
+                value={CODEC_LABELS[preferences.codec]}
+                onPress={() =>
+                  updatePreferences({
+                    codec: nextOption(CODEC_OPTIONS, preferences.codec),
+                  })
+                }
+              />
+              <View style={styles.separator} />
+              <SettingsRow
+                type="toggle"
+                label="Prefer HDR"
+                subtitle="Rank Dolby Vision and HDR10 releases higher"
+                icon="sun"
+                value={preferences.preferHdr}
+                onValueChange={(value) =>
+                  updatePreferences({ preferHdr: value })
+                }
+              />
+              <View style={styles.separator} />
+              <SettingsRow
+                type="toggle"
+                label="Cached Only"
+                subtitle="Hide torrents no debrid account has ready"
+                icon="zap"
+                value={preferences.cachedOnly}
+                onValueChange={(value) =>
+                  updatePreferences({ cachedOnly: value })
+                }
+              />
+            </View>
+          </View>
+
+          <View>
+            <SettingsSectionHeader title="Addons" />
+            {addons.length > 0 ? (
+              <View style={styles.section}>
+                {addons.map((addon, index) => (
+                  <View
+                    key={addon.id}
+                    style={[
+                      styles.addonRow,
+                      index > 0 ? styles.rowBorder : null,
+                    ]}
+                  >
+                    <View style={styles.addonInfo}>
+                      <ThemedText style={styles.addonName}>
+                        {addon.name}
+                      </ThemedText>
+                      <ThemedText style={styles.addonUrl} numberOfLines={1}>
+                        {addon.url}
+                      </ThemedText>
+                    </View>
+                    <Pressable onPress={() => handleRemove(addon)}>
+                      <Feather
+                        name="trash-2"
+                        size={16}
+                        color={Colors.dark.error}
+                      />
+                    </Pressable>
+                    <Switch
+                      value={addon.enabled}
+                      onValueChange={(value) => handleToggle(addon.id, value)}
+                      trackColor={{
+                        false: Colors.dark.backgroundSecondary,
+                        true: Colors.dark.accent,
+                      }}
+                      thumbColor={Colors.dark.text}
+                    />
+                  </View>
+                ))}
+              </View>
+            ) : (
+              <ThemedText style={styles.inputHint}>
+                No addons yet. Streams are only looked up through addons you add
+                here.
+              </ThemedText>
+            )}
+          </View>
+
+          <View style={styles.inputGroup}>
+            <ThemedText style={styles.inputLabel}>Add Addon</ThemedText>
+            <ThemedText style={styles.inputHint}>
+              Any addon that serves /stream/{"{type}"}/{"{id}"}.json works,
+              including one running on this network.
+            </ThemedText>
+            <TextInput
+              style={styles.input}
+              value={addonName}
+              onChangeText={setAddonName}
+              placeholder="Name (optional)"
+              placeholderTextColor={Colors.dark.disabled}
+            />
+            <TextInput
+              style={styles.input}
+              value={addonUrl}
+              onChangeText={setAddonUrl}
+              placeholder="https://example.com/manifest.json"
+              placeholderTextColor={Colors.dark.disabled}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+            <Button onPress={handleAdd} style={styles.addButton}>
+              Add Addon
+            </Button>
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.dark.backgroundRoot,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    flexGrow: 1,
+    paddingHorizontal: Spacing.xl,
+    gap: Spacing["2xl"],
+  },
+  section: {
+    backgroundColor: Colors.dark.backgroundDefault,
+    borderRadius: BorderRadius.md,
+    overflow: "hidden",
+  },
+  separator: {
+    height: 1,
+    backgroundColor: Colors.dark.backgroundSecondary,
+    marginLeft: Spacing.lg,
+  },
+  addonRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  rowBorder: {
+    borderTopWidth: 1,
+    borderTopColor: Colors.dark.backgroundSecondary,
+  },
+  addonInfo: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  addonName: {
+    ...Typography.body,
+    fontWeight: "600",
+    color: Colors.dark.text,
+  },
+  addonUrl: {
+    ...Typography.small,
+    color: Colors.dark.disabled,
+  },
+  inputGroup: {
+    gap: Spacing.sm,
+  },
+  inputLabel: {
+    ...Typography.body,
+    fontWeight: "600",
+    color: Colors.dark.text,
+  },
+  inputHint: {
+    ...Typography.small,
+    color: Colors.dark.disabled,
+  },
+  input: {
+    height: Spacing.inputHeight,
+    backgroundColor: Colors.dark.backgroundDefault,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.lg,
+    ...Typography.body,
+    color: Colors.dark.text,
+    borderWidth: 1,
+    borderColor: Colors.dark.backgroundSecondary,
+  },
+  addButton: {
+    marginTop: Spacing.sm,
+  },
+});
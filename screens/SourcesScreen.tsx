@@ -0,0 +1,366 @@
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import {
+  StyleSheet,
+  View,
+  Alert,
+  Pressable,
+  FlatList,
+  ActivityIndicator,
+} from "react-native";
+import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedView } from "@/components/ThemedView";
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { useSettings } from "@/hooks/useSettings";
+import { debridService } from "@/services/debridService";
+import { formatEpisode, getPlayerParams } from "@/services/libraryService";
+import {
+  rankSources,
+  streamSourceService,
+  StreamQuery,
+  StreamSource,
+} from "@/services/streamSourceService";
+import { RootStackParamList } from "@/types";
+import { Colors, Spacing, BorderRadius, Typography } from "@/constants/theme";
+
+type SourcesScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  "Sources"
+>;
+type SourcesScreenRouteProp = RouteProp<RootStackParamList, "Sources">;
+
+function formatSize(bytes: number): string {
+  const gb = bytes / 1024 ** 3;
+  return gb >= 1
+    ? `${gb.toFixed(1)} GB`
+    : `${Math.round(bytes / 1024 ** 2)} MB`;
+}
+
+function getBadges(source: StreamSource): string[] {
+  return [
+    source.resolution,
+    ...(source.hdr ?? []).map((format) => format.toUpperCase()),
+    source.codec?.toUpperCase(),
+    source.size !== undefined ? formatSize(source.size) : undefined,
+    source.seeders !== undefined ? `${source.seeders} seeders` : undefined,
+  ].filter((badge): badge is string => !!badge);
+}
+
+interface SourceRowProps {
+  source: StreamSource;
+  isResolving: boolean;
+  onPress: (source: StreamSource) => void;
+}
+
+function SourceRow({ source, isResolving, onPress }: SourceRowProps) {
+  const status = source.url
+    ? { icon: "link" as const, color: Colors.dark.success }
+    : source.cached
+      ? { icon: "zap" as const, color: Colors.dark.success }
+      : { icon: "download-cloud" as const, color: Colors.dark.disabled };
+
+  return (
+    <Pressable
+      onPress={() => onPress(source)}
+      style={({ pressed }) => [
+        styles.sourceRow,
+        { opacity: pressed ? 0.7 : 1 },
+      ]}
+    >
+      <Feather name={status.icon} size={18} color={status.color} />
+      <View style={styles.sourceInfo}>
+        <ThemedText style={styles.sourceName} numberOfLines={2}>
+          {source.name}
+        </ThemedText>
+        <View style={styles.badges}>
+          {getBadges(source).map((badge) => (
+            <View key={badge} style={styles.badge}>
+              <ThemedText style={styles.badgeText}>{badge}</ThemedText>
+            </View>
+          ))}
+        </View>
+        <ThemedText style={styles.sourceAddon}>{source.addon}</ThemedText>
+      </View>
+      {isResolving ? <ActivityIndicator color={Colors.dark.text} /> : null}
+    </Pressable>
+  );
+}
+
+export default function SourcesScreen() {
+  const navigation = useNavigation<SourcesScreenNavigationProp>();
+  const route = useRoute<SourcesScreenRouteProp>();
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const { settings, isLoading: settingsLoading } = useSettings();
+  const [sources, setSources] = useState<StreamSource[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCheckingCache, setIsCheckingCache] = useState(false);
+  const [resolvingKey, setResolvingKey] = useState<string | null>(null);
+  const isResolving = useRef(false);
+
+  const target = route.params;
+  const { addons, preferences } = settings.sources;
+  const hasAddons = addons.some((addon) => addon.enabled);
+
+  const query = useMemo<StreamQuery>(
+    () => ({
+      type:
+        target.season !== undefined && target.episode !== undefined
+          ? "series"
+          : "movie",
+      imdbId: target.imdbId,
+      season: target.season,
+      episode: target.episode,
+    }),
+    [target.imdbId, target.season, target.episode],
+  );
+
+  useEffect(() => {
+    if (settingsLoading) return;
+    if (!hasAddons) {
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    (async () => {
+      setIsLoading(true);
+      debridService.configure(settings.debrid);
+      const found = await streamSourceService.fetchStreams(addons, query);
+      if (cancelled) return;
+      setSources(found);
+      setIsLoading(false);
+
+      setIsCheckingCache(true);
+      const checked = await streamSourceService.checkCached(found);
+      if (cancelled) return;
+      setSources(checked);
+      setIsCheckingCache(false);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [settingsLoading, hasAddons, addons, settings.debrid, query]);
+
+  const ranked = useMemo(
+    () => rankSources(sources, preferences),
+    [sources, preferences],
+  );
+
+  const handlePlay = useCallback(
+    async (source: StreamSource) => {
+      if (isResolving.current) return;
+      if (source.infoHash && !debridService.isConfigured()) {
+        Alert.alert(
+          "No Debrid Account",
+          "Add a debrid account in Settings to play torrents.",
+        );
+        return;
+      }
+
+      isResolving.current = true;
+      setResolvingKey(source.key);
+      try {
+        const uri = await streamSourceService.resolve(source, query);
+        navigation.navigate(
+          "Player",
+          getPlayerParams(
+            {
+              title: target.title,
+              year: target.year,
+              ids: {
+                imdb: target.imdbId,
+                trakt: target.traktId,
+                tmdb: target.tmdbId,
+                tvdb: target.tvdbId,
+              },
+              season: target.season,
+              episode: target.episode,
+            },
+            uri,
+          ),
+        );
+      } catch (error) {
+        console.error("Failed to resolve stream source:", error);
+        Alert.alert(
+          "Can't Play",
+          error instanceof Error ? error.message : String(error),
+        );
+      } finally {
+        isResolving.current = false;
+        setResolvingKey(null);
+      }
+    },
+    [query, target, navigation],
+  );
+
+  const heading =
+    target.season !== undefined && target.episode !== undefined
+      ? `${target.title} ${formatEpisode(target.season, target.episode)}`
+      : target.year
+        ? `${target.title} (${target.year})`
+        : target.title;
+
+  const renderEmpty = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={Colors.dark.accent} />
+        </View>
+      );
+    }
+
+    if (!hasAddons) {
+      return (
+        <View style={styles.centered}>
+          <ThemedText style={styles.emptyText}>
+            Add a Stremio addon to look for streams.
+          </ThemedText>
+          <Button onPress={() => navigation.navigate("SourceSettings")}>
+            Set Up Sources
+          </Button>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.centered}>
+        <ThemedText style={styles.emptyText}>
+          {sources.length > 0
+            ? "None of the streams found are cached. Turn off Cached Only in source settings to see them all."
+            : "Your addons didn't return any streams for this title."}
+        </ThemedText>
+      </View>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <FlatList
+        data={isLoading ? [] : ranked}
+        keyExtractor={(item) => item.key}
+        renderItem={({ item }) => (
+          <SourceRow
+            source={item}
+            isResolving={resolvingKey === item.key}
+            onPress={handlePlay}
+          />
+        )}
+        ItemSeparatorComponent={() => <View style={styles.separator} />}
+        ListHeaderComponent={
+          <View style={styles.header}>
+            <ThemedText style={styles.heading} numberOfLines={2}>
+              {heading}
+            </ThemedText>
+            {isCheckingCache ? (
+              <ThemedText style={styles.hint}>
+                Checking debrid cache...
+              </ThemedText>
+            ) : null}
+            {ranked.length > 0 && !isLoading ? (
+              <Button
+                onPress={() => handlePlay(ranked[0])}
+                disabled={resolvingKey !== null}
+              >
+                Play Best Match
+              </Button>
+            ) : null}
+          </View>
+        }
+        ListEmptyComponent={renderEmpty}
+        contentContainerStyle={[
+          styles.content,
+          {
+            paddingTop: headerHeight + Spacing.xl,
+            paddingBottom: insets.bottom + Spacing.xl,
+          },
+        ]}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.dark.backgroundRoot,
+  },
+  content: {
+    flexGrow: 1,
+    paddingHorizontal: Spacing.xl,
+  },
+  header: {
+    gap: Spacing.md,
+    marginBottom: Spacing.xl,
+  },
+  heading: {
+    ...Typography.h4,
+    color: Colors.dark.text,
+  },
+  hint: {
+    ...Typography.small,
+    color: Colors.dark.disabled,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    gap: Spacing.xl,
+  },
+  emptyText: {
+    ...Typography.body,
+    color: Colors.dark.disabled,
+    textAlign: "center",
+    maxWidth: 420,
+  },
+  sourceRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    backgroundColor: Colors.dark.backgroundDefault,
+  },
+  sourceInfo: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  sourceName: {
+    ...Typography.body,
+    fontWeight: "600",
+    color: Colors.dark.text,
+  },
+  sourceAddon: {
+    ...Typography.small,
+    color: Colors.dark.disabled,
+  },
+  badges: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.xs,
+  },
+  badge: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.sm,
+    backgroundColor: Colors.dark.backgroundSecondary,
+  },
+  badgeText: {
+    ...Typography.small,
+    color: Colors.dark.text,
+  },
+  separator: {
+    height: Spacing.sm,
+  },
+});
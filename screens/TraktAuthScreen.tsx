@@ -13,6 +13,7 @@ import { ThemedText } from "@/components/ThemedText";
 import { Button } from "@/components/Button";
 import { useSettings } from "@/hooks/useSettings";
 import { traktService, DeviceCodeResponse } from "@/services/traktService";
+import { isAbortError } from "@/services/httpClient";
 import { RootStackParamList } from "@/types";
 import { Colors, Spacing, BorderRadius, Typography } from "@/constants/theme";
 
@@ -33,12 +34,15 @@ export default function TraktAuthScreen() {
   
   const pollingInterval = useRef<NodeJS.Timeout | null>(null);
   const maxPollAttempts = useRef(0);
+  const requestController = useRef(new AbortController());
 
   useEffect(() => {
+    const controller = requestController.current;
     return () => {
       if (pollingInterval.current) {
         clearInterval(pollingInterval.current);
       }
+      controller.abort();
     };
   }, []);
 
@@ -47,10 +51,13 @@ export default function TraktAuthScreen() {
     setError(null);
 
     try {
-      const codeResponse = await traktService.getDeviceCode();
+      const codeResponse = await traktService.getDeviceCode(
+        requestController.current.signal,
+      );
       setDeviceCode(codeResponse);
       maxPollAttempts.current = Math.floor(codeResponse.expires_in / codeResponse.interval);
     } catch (err) {
+      if (isAbortError(err)) return;
       setError("Failed to get device code. Please check your internet connection.");
       console.error("Device code error:", err);
     } finally {
@@ -86,7 +93,10 @@ export default function TraktAuthScreen() {
       });
 
       try {
-        const tokenResponse = await traktService.pollForToken(deviceCode.device_code);
+        const tokenResponse = await traktService.pollForToken(
+          deviceCode.device_code,
+          requestController.current.signal,
+        );
         
         if (tokenResponse) {
           if (pollingInterval.current) {
@@ -104,6 +114,7 @@ export default function TraktAuthScreen() {
           );
         }
       } catch (err: any) {
+        if (isAbortError(err)) return;
         if (pollingInterval.current) {
           clearInterval(pollingInterval.current);
         }
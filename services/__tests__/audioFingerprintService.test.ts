@@ -0,0 +1,181 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import {
+  audioFingerprintService,
+  createFingerprint,
+  detectSharedMarkers,
+  findSharedSegment,
+  PcmAudio,
+} from "@/services/audioFingerprintService";
+
+const SAMPLE_RATE = 11025;
+const NOTE_SECONDS = 0.5;
+
+// Deterministic so each "episode" gets the same filler on every run
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 2 ** 32;
+  };
+}
+
+// A sequence of random two-note chords, which gives the chroma fingerprint something to follow
+function melody(seed: number, seconds: number): Float32Array {
+  const random = createRandom(seed);
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  const noteLength = Math.round(NOTE_SECONDS * SAMPLE_RATE);
+  for (let start = 0; start < samples.length; start += noteLength) {
+    const frequencies = [0, 1].map(
+      () => 440 * 2 ** ((Math.floor(random() * 36) - 21) / 12),
+    );
+    const end = Math.min(samples.length, start + noteLength);
+    for (let i = start; i < end; i++) {
+      const t = i / SAMPLE_RATE;
+      samples[i] =
+        0.4 * Math.sin(2 * Math.PI * frequencies[0] * t) +
+        0.3 * Math.sin(2 * Math.PI * frequencies[1] * t);
+    }
+  }
+  return samples;
+}
+
+function concat(...parts: Float32Array[]): PcmAudio {
+  const samples = new Float32Array(
+    parts.reduce((total, part) => total + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    samples.set(part, offset);
+    offset += part.length;
+  }
+  return { samples, sampleRate: SAMPLE_RATE };
+}
+
+// Frames overlap by a few hundred milliseconds, so boundaries are only exact to within a frame
+function expectNear(actual: number | undefined, expected: number) {
+  expect(Math.abs((actual ?? NaN) - expected)).toBeLessThan(1);
+}
+
+const INTRO = melody(1, 30);
+const OUTRO = melody(2, 20);
+
+describe("createFingerprint", () => {
+  it("produces the same hashes for the same audio", () => {
+    const audio = concat(melody(3, 20));
+    const first = createFingerprint(audio);
+    const second = createFingerprint(audio);
+
+    expect(first.hashes.length).toBeGreaterThan(0);
+    expect(first.hashes).toEqual(second.hashes);
+    expect(first.hashes.length * first.frameDuration).toBeCloseTo(20, 0);
+  });
+
+  it("resamples audio at other rates to the same frame timing", () => {
+    const audio = { samples: new Float32Array(44100 * 10), sampleRate: 44100 };
+    const fingerprint = createFingerprint(audio);
+
+    expect(fingerprint.hashes.length * fingerprint.frameDuration).toBeCloseTo(
+      10,
+      0,
+    );
+  });
+});
+
+describe("findSharedSegment", () => {
+  it("finds an intro played at different offsets in two episodes", () => {
+    const a = createFingerprint(concat(melody(10, 20), INTRO, melody(11, 40)));
+    const b = createFingerprint(concat(melody(20, 55), INTRO, melody(21, 15)));
+
+    const shared = findSharedSegment(a, b, 15);
+
+    expect(shared).not.toBeNull();
+    expectNear(shared?.startA, 20);
+    expectNear(shared?.endA, 50);
+    expectNear(shared?.startB, 55);
+    expectNear(shared?.endB, 85);
+  });
+
+  it("finds nothing in unrelated audio", () => {
+    const a = createFingerprint(concat(melody(30, 60)));
+    const b = createFingerprint(concat(melody(31, 60)));
+
+    expect(findSharedSegment(a, b, 15)).toBeNull();
+  });
+
+  it("ignores shared audio shorter than the minimum", () => {
+    const jingle = melody(4, 8);
+    const a = createFingerprint(concat(melody(40, 20), jingle, melody(41, 30)));
+    const b = createFingerprint(concat(melody(42, 35), jingle, melody(43, 20)));
+
+    expect(findSharedSegment(a, b, 15)).toBeNull();
+  });
+});
+
+describe("detectSharedMarkers", () => {
+  it("returns intro and credits markers for both episodes", () => {
+    const current = {
+      head: createFingerprint(concat(melody(50, 10), INTRO, melody(51, 30))),
+      tail: createFingerprint(
+        concat(melody(52, 25), OUTRO, melody(53, 5)),
+        1200,
+      ),
+      analyzedAt: 0,
+    };
+    const other = {
+      head: createFingerprint(concat(INTRO, melody(60, 40))),
+      tail: createFingerprint(
+        concat(melody(62, 10), OUTRO, melody(63, 20)),
+        1500,
+      ),
+      analyzedAt: 0,
+    };
+
+    const markers = detectSharedMarkers(current, other);
+
+    expect(markers.current.map((m) => m.type)).toEqual(["intro", "credits"]);
+    expectNear(markers.current[0].startTime, 10);
+    expectNear(markers.current[1].startTime, 1225);
+    expectNear(markers.other[0].startTime, 0);
+    expectNear(markers.other[1].startTime, 1510);
+    expect(markers.current.every((m) => m.source === "fingerprint")).toBe(true);
+  });
+});
+
+describe("audioFingerprintService.analyzeEpisode", () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it("marks the intro in a new episode and the episode it was matched with", async () => {
+    const first = await audioFingerprintService.analyzeEpisode("tt1", 1, 1, {
+      head: concat(melody(70, 5), INTRO, melody(71, 40)),
+    });
+    expect(first).toEqual([]);
+
+    const second = await audioFingerprintService.analyzeEpisode("tt1", 1, 2, {
+      head: concat(melody(80, 45), INTRO, melody(81, 10)),
+    });
+
+    expect(second).toHaveLength(1);
+    expectNear(second[0].startTime, 45);
+    const backfilled = await audioFingerprintService.getMarkersForEpisode(
+      "tt1",
+      1,
+      1,
+    );
+    expect(backfilled).toHaveLength(1);
+    expectNear(backfilled[0].startTime, 5);
+  });
+
+  it("keeps seasons apart", async () => {
+    await audioFingerprintService.analyzeEpisode("tt1", 1, 1, {
+      head: concat(INTRO, melody(90, 30)),
+    });
+    const markers = await audioFingerprintService.analyzeEpisode("tt1", 2, 1, {
+      head: concat(INTRO, melody(91, 30)),
+    });
+
+    expect(markers).toEqual([]);
+  });
+});
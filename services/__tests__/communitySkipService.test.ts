@@ -0,0 +1,177 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { communitySkipService } from "@/services/communitySkipService";
+import { SkipProviderQuery } from "@/services/skipProviders";
+import { SkipMarker } from "@/types";
+
+const CACHE_KEY = "@streamplayer/community_skip_cache";
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const INTRO: SkipMarker = {
+  type: "intro",
+  startTime: 60,
+  endTime: 120,
+  source: "community",
+};
+
+// Lets background refreshes and cache writes finish
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+let now: number;
+let fetchMarkers: jest.Mock<
+  Promise<SkipMarker[]>,
+  [SkipProviderQuery, AbortSignal]
+>;
+
+function lookup(episode: number) {
+  return communitySkipService.getSkipMarkersForEpisode("tt0903747", 1, episode);
+}
+
+// One stub provider stands in for the built-in ones
+beforeEach(async () => {
+  now = Date.parse("2026-10-01T20:00:00Z");
+  jest.spyOn(Date, "now").mockImplementation(() => now);
+  jest.spyOn(console, "error").mockImplementation(() => {});
+  fetchMarkers = jest.fn(async (_query, _signal) => [INTRO]);
+  communitySkipService.registerProvider({
+    id: "introhater",
+    name: "Stub",
+    fetchMarkers,
+  });
+  communitySkipService.configureProviders([
+    { id: "introhater", name: "Stub", enabled: true, timeoutMs: 1000 },
+    { id: "stremio", name: "Stremio Skips", enabled: false, timeoutMs: 1000 },
+    { id: "aniskip", name: "AniSkip", enabled: false, timeoutMs: 1000 },
+  ]);
+  await communitySkipService.clearCache();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("the skip cache", () => {
+  it("answers repeat lookups from the cache and stores it", async () => {
+    await expect(lookup(1)).resolves.toEqual([INTRO]);
+    await expect(lookup(1)).resolves.toEqual([INTRO]);
+    await settle();
+
+    expect(fetchMarkers).toHaveBeenCalledTimes(1);
+    const stored = JSON.parse((await AsyncStorage.getItem(CACHE_KEY)) ?? "{}");
+    expect(stored.tt0903747_s01e01.markers).toEqual([INTRO]);
+  });
+
+  it("serves an expired entry while refreshing it in the background", async () => {
+    await lookup(1);
+    const updated = { ...INTRO, startTime: 62 };
+    fetchMarkers.mockResolvedValue([updated]);
+    now += 7 * DAY;
+    const onUpdate = jest.fn();
+
+    await expect(
+      communitySkipService.getSkipMarkersForEpisode("tt0903747", 1, 1, {
+        onUpdate,
+      }),
+    ).resolves.toEqual([INTRO]);
+    await settle();
+
+    expect(onUpdate).toHaveBeenCalledWith([updated]);
+    await expect(lookup(1)).resolves.toEqual([updated]);
+    expect(fetchMarkers).toHaveBeenCalledTimes(2);
+  });
+
+  it("fetches again once an entry is too old to serve", async () => {
+    await lookup(1);
+    fetchMarkers.mockResolvedValue([]);
+    now += 30 * DAY;
+
+    await expect(lookup(1)).resolves.toEqual([]);
+  });
+
+  it("remembers episodes without markers for a shorter time", async () => {
+    fetchMarkers.mockResolvedValue([]);
+    await lookup(1);
+
+    now += 6 * HOUR - 1;
+    await lookup(1);
+    await settle();
+    expect(fetchMarkers).toHaveBeenCalledTimes(1);
+
+    now += 1;
+    await lookup(1);
+    await settle();
+    expect(fetchMarkers).toHaveBeenCalledTimes(2);
+  });
+
+  it("doesn't remember a lookup no provider answered", async () => {
+    fetchMarkers.mockRejectedValueOnce(new Error("Network request failed"));
+
+    await expect(lookup(1)).resolves.toEqual([]);
+    await expect(lookup(1)).resolves.toEqual([INTRO]);
+    expect(fetchMarkers).toHaveBeenCalledTimes(2);
+  });
+
+  it("drops the least recently used entries past its limit", async () => {
+    for (let episode = 1; episode <= 300; episode++) {
+      await lookup(episode);
+      now += 1000;
+    }
+    // Looking episode 1 up again makes episode 2 the oldest
+    await lookup(1);
+    now += 1000;
+    await lookup(301);
+    await settle();
+    fetchMarkers.mockClear();
+
+    await lookup(1);
+    await lookup(2);
+
+    expect(fetchMarkers).toHaveBeenCalledTimes(1);
+    expect(fetchMarkers.mock.calls[0][0].episode).toBe(2);
+  });
+});
+
+describe("prefetch", () => {
+  it("looks up the next episodes", async () => {
+    await communitySkipService.prefetch("tt0903747", 1, 2);
+
+    expect(fetchMarkers.mock.calls.map(([query]) => query.episode)).toEqual([
+      2, 3, 4,
+    ]);
+  });
+
+  it("stops when the player cancels it", async () => {
+    const controller = new AbortController();
+    fetchMarkers.mockImplementationOnce(async () => {
+      controller.abort();
+      return [INTRO];
+    });
+
+    await communitySkipService.prefetch("tt0903747", 1, 2, controller.signal);
+
+    expect(fetchMarkers).toHaveBeenCalledTimes(1);
+  });
+
+  it("doesn't hand a cancelled lookup to the episode that starts playing", async () => {
+    const controller = new AbortController();
+    // The player stops the prefetch while it is waiting on episode 2
+    fetchMarkers.mockImplementationOnce((_query, signal) => {
+      const pending = new Promise<SkipMarker[]>((_resolve, reject) => {
+        signal.addEventListener("abort", () => reject(new Error("aborted")));
+      });
+      controller.abort();
+      return pending;
+    });
+
+    const prefetch = communitySkipService.prefetch(
+      "tt0903747",
+      1,
+      2,
+      controller.signal,
+    );
+
+    await expect(lookup(2)).resolves.toEqual([INTRO]);
+    await prefetch;
+    expect(fetchMarkers).toHaveBeenCalledTimes(2);
+  });
+});
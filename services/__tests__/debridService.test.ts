@@ -0,0 +1,826 @@
+/**
+ * @jest-environment node
+ */
+import { createServer, IncomingMessage, Server } from "http";
+import { AddressInfo } from "net";
+import {
+  createClient,
+  DebridClient,
+  DebridError,
+  debridService,
+  DebridServiceType,
+} from "@/services/debridService";
+
+const MAGNET = "magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567";
+const HASH = "0123456789abcdef0123456789abcdef01234567";
+
+interface StubResponse {
+  status?: number;
+  body?: unknown;
+}
+
+interface RecordedRequest {
+  method: string;
+  // Path and query, relative to the stub's root
+  url: string;
+  headers: IncomingMessage["headers"];
+  body: string;
+}
+
+// Keyed by "METHOD /path"; a list is served in order, repeating its last entry
+type Routes = Record<string, StubResponse | StubResponse[]>;
+
+let server: Server;
+let baseUrl: string;
+let routes: Routes = {};
+let requests: RecordedRequest[] = [];
+
+function serve(next: Routes) {
+  routes = next;
+}
+
+function requested(method: string, path: string): RecordedRequest[] {
+  return requests.filter(
+    (request) =>
+      request.method === method && request.url.split("?")[0] === path,
+  );
+}
+
+function client(service: DebridServiceType): DebridClient {
+  return createClient({ service, apiKey: "test-key" }, baseUrl);
+}
+
+async function rejection(promise: Promise<unknown>): Promise<DebridError> {
+  try {
+    await promise;
+  } catch (error) {
+    return error as DebridError;
+  }
+  throw new Error("Expected the promise to reject");
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk;
+    });
+    req.on("end", () => {
+      const url = req.url ?? "/";
+      requests.push({
+        method: req.method ?? "GET",
+        url,
+        headers: req.headers,
+        body,
+      });
+
+      const route = routes[`${req.method} ${url.split("?")[0]}`];
+      const response = Array.isArray(route)
+        ? route.length > 1
+          ? route.shift()
+          : route[0]
+        : route;
+      if (!response) {
+        res.writeHead(404, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "unknown_resource" }));
+        return;
+      }
+      res.writeHead(response.status ?? 200, {
+        "Content-Type": "application/json",
+      });
+      res.end(response.body === undefined ? "" : JSON.stringify(response.body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  routes = {};
+  requests = [];
+  jest.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("Real-Debrid", () => {
+  const files = [
+    {
+      id: 1,
+      path: "/Heat.1995.1080p/Sample/heat.sample.mkv",
+      bytes: 40_000_000,
+      selected: 0,
+    },
+    {
+      id: 2,
+      path: "/Heat.1995.1080p/Heat.1995.1080p.BluRay.x264.mkv",
+      bytes: 9_800_000_000,
+      selected: 0,
+    },
+    {
+      id: 3,
+      path: "/Heat.1995.1080p/Heat.1995.1080p.nfo",
+      bytes: 4_000,
+      selected: 0,
+    },
+  ];
+  const waiting = {
+    id: "RDT1",
+    filename: "Heat.1995.1080p",
+    bytes: 9_840_004_000,
+    progress: 0,
+    status: "waiting_files_selection",
+    files,
+    links: [],
+  };
+  const downloaded = {
+    ...waiting,
+    status: "downloaded",
+    progress: 100,
+    files: files.map((file) => ({ ...file, selected: file.id === 2 ? 1 : 0 })),
+    links: ["https://real-debrid.com/d/HEATLINK"],
+  };
+
+  it("selects the main feature and unrestricts its link", async () => {
+    serve({
+      "POST /torrents/addMagnet": {
+        status: 201,
+        body: {
+          id: "RDT1",
+          uri: "https://api.real-debrid.com/rest/1.0/torrents/info/RDT1",
+        },
+      },
+      "GET /torrents/info/RDT1": [{ body: waiting }, { body: downloaded }],
+      "POST /torrents/selectFiles/RDT1": { status: 204 },
+      "POST /unrestrict/link": {
+        body: {
+          id: "U1",
+          filename: "Heat.1995.1080p.BluRay.x264.mkv",
+          filesize: 9_800_000_000,
+          download: "https://download.real-debrid.com/d/U1/Heat.mkv",
+        },
+      },
+    });
+
+    const stream = await client("realdebrid").resolveTorrent(
+      MAGNET,
+      HASH,
+      {},
+      {},
+    );
+
+    expect(stream).toEqual({
+      url: "https://download.real-debrid.com/d/U1/Heat.mkv",
+      filename: "Heat.1995.1080p.BluRay.x264.mkv",
+      filesize: 9_800_000_000,
+      service: "realdebrid",
+    });
+    expect(requested("POST", "/torrents/selectFiles/RDT1")[0].body).toBe(
+      "files=2",
+    );
+    expect(requested("POST", "/unrestrict/link")[0].body).toBe(
+      `link=${encodeURIComponent("https://real-debrid.com/d/HEATLINK")}`,
+    );
+    expect(requests[0].headers.authorization).toBe("Bearer test-key");
+    expect(requested("DELETE", "/torrents/delete/RDT1")).toHaveLength(0);
+  });
+
+  it("removes a torrent the provider reports as dead", async () => {
+    serve({
+      "POST /torrents/addMagnet": { status: 201, body: { id: "RDT1" } },
+      "GET /torrents/info/RDT1": { body: { ...waiting, status: "dead" } },
+      "DELETE /torrents/delete/RDT1": { status: 204 },
+    });
+
+    const error = await rejection(
+      client("realdebrid").resolveTorrent(MAGNET, HASH, {}, {}),
+    );
+
+    expect(error.kind).toBe("provider");
+    expect(requested("DELETE", "/torrents/delete/RDT1")).toHaveLength(1);
+  });
+
+  it("maps a bad token to bad_key", async () => {
+    serve({
+      "GET /user": { status: 401, body: { error: "bad_token", error_code: 8 } },
+    });
+
+    const error = await rejection(client("realdebrid").getAccount());
+
+    expect(error.kind).toBe("bad_key");
+    expect(error.message).toBe("Real-Debrid: bad_token");
+  });
+
+  it("reads an empty torrent list from a 204", async () => {
+    serve({ "GET /torrents": { status: 204 } });
+
+    await expect(client("realdebrid").listTransfers()).resolves.toEqual([]);
+  });
+});
+
+describe("AllDebrid", () => {
+  const ready = {
+    id: 9001,
+    filename: "The.Wire.S01.1080p.BluRay",
+    size: 30_000_000_000,
+    status: "Ready",
+    statusCode: 4,
+    links: [
+      {
+        link: "https://alldebrid.com/f/E01",
+        filename: "The.Wire.S01E01.1080p.mkv",
+        size: 2_900_000_000,
+      },
+      {
+        link: "https://alldebrid.com/f/E02",
+        filename: "The.Wire.S01E02.1080p.mkv",
+        size: 3_100_000_000,
+      },
+    ],
+  };
+
+  it("picks the requested episode from a ready magnet", async () => {
+    serve({
+      "GET /magnet/upload": {
+        body: {
+          status: "success",
+          data: { magnets: [{ id: 9001, hash: HASH, ready: true }] },
+        },
+      },
+      "GET /magnet/status": {
+        body: { status: "success", data: { magnets: ready } },
+      },
+      "GET /link/unlock": {
+        body: {
+          status: "success",
+          data: {
+            link: "https://cdn.alldebrid.com/dl/E01.mkv",
+            filename: "The.Wire.S01E01.1080p.mkv",
+          },
+        },
+      },
+    });
+
+    const stream = await client("alldebrid").resolveTorrent(
+      MAGNET,
+      HASH,
+      { season: 1, episode: 1 },
+      {},
+    );
+
+    expect(stream.url).toBe("https://cdn.alldebrid.com/dl/E01.mkv");
+    expect(stream.filename).toBe("The.Wire.S01E01.1080p.mkv");
+    expect(requested("GET", "/link/unlock")[0].url).toContain(
+      `link=${encodeURIComponent("https://alldebrid.com/f/E01")}`,
+    );
+    expect(
+      requests.every((request) => request.url.includes("agent=StreamPlayer")),
+    ).toBe(true);
+    expect(requests.some((request) => request.url.includes("test-key"))).toBe(
+      false,
+    );
+  });
+
+  it("removes a magnet that isn't cached", async () => {
+    serve({
+      "GET /magnet/upload": {
+        body: {
+          status: "success",
+          data: { magnets: [{ id: 9001, hash: HASH, ready: false }] },
+        },
+      },
+      "GET /magnet/delete": {
+        body: {
+          status: "success",
+          data: { message: "Magnet was successfully deleted" },
+        },
+      },
+    });
+
+    const error = await rejection(
+      client("alldebrid").resolveTorrent(MAGNET, HASH, {}, {}),
+    );
+
+    expect(error.kind).toBe("not_cached");
+    expect(requested("GET", "/magnet/delete")[0].url).toContain("id=9001");
+  });
+
+  it("maps error codes to error kinds", async () => {
+    serve({
+      "GET /user": {
+        status: 401,
+        body: {
+          status: "error",
+          error: {
+            code: "AUTH_BAD_APIKEY",
+            message: "The auth apikey is invalid",
+          },
+        },
+      },
+    });
+
+    const error = await rejection(client("alldebrid").getAccount());
+
+    expect(error.kind).toBe("bad_key");
+    expect(error.message).toBe("AllDebrid: The auth apikey is invalid");
+  });
+});
+
+describe("Premiumize", () => {
+  const content = [
+    {
+      path: "Heat.1995.1080p/Heat.1995.1080p.BluRay.x264.mkv",
+      size: 9_800_000_000,
+      link: "https://cdn.premiumize.me/Heat.mkv",
+    },
+    {
+      path: "Heat.1995.1080p/Heat.1995.1080p.nfo",
+      size: 4_000,
+      link: "https://cdn.premiumize.me/Heat.nfo",
+    },
+  ];
+
+  it("streams cached content without starting a transfer", async () => {
+    serve({
+      "GET /cache/check": {
+        body: { status: "success", response: [true], transcoded: [false] },
+      },
+      "POST /transfer/directdl": { body: { status: "success", content } },
+    });
+
+    const stream = await client("premiumize").resolveTorrent(
+      MAGNET,
+      HASH,
+      {},
+      {},
+    );
+
+    expect(stream.url).toBe("https://cdn.premiumize.me/Heat.mkv");
+    expect(requested("POST", "/transfer/create")).toHaveLength(0);
+  });
+
+  it("removes a transfer that fails", async () => {
+    serve({
+      "GET /cache/check": { body: { status: "success", response: [false] } },
+      "POST /transfer/create": {
+        body: {
+          status: "success",
+          id: "PMT1",
+          name: "Heat.1995.1080p",
+          type: "torrent",
+        },
+      },
+      "GET /transfer/list": {
+        body: {
+          status: "success",
+          transfers: [
+            {
+              id: "PMT1",
+              name: "Heat.1995.1080p",
+              status: "error",
+              message: "Torrent has no seeders",
+            },
+          ],
+        },
+      },
+      "POST /transfer/delete": { body: { status: "success" } },
+    });
+
+    const error = await rejection(
+      client("premiumize").resolveTorrent(
+        MAGNET,
+        HASH,
+        {},
+        { allowUncached: true },
+      ),
+    );
+
+    expect(error.message).toBe("Premiumize: Torrent has no seeders");
+    expect(requested("POST", "/transfer/delete")[0].body).toBe("id=PMT1");
+  });
+
+  it("removes a finished transfer without a video file", async () => {
+    serve({
+      "GET /cache/check": { body: { status: "success", response: [false] } },
+      "POST /transfer/create": { body: { status: "success", id: "PMT1" } },
+      "GET /transfer/list": {
+        body: {
+          status: "success",
+          transfers: [
+            { id: "PMT1", name: "Heat.1995.1080p", status: "finished" },
+          ],
+        },
+      },
+      "POST /transfer/directdl": {
+        body: { status: "success", content: [content[1]] },
+      },
+      "POST /transfer/delete": { body: { status: "success" } },
+    });
+
+    const error = await rejection(
+      client("premiumize").resolveTorrent(
+        MAGNET,
+        HASH,
+        {},
+        { allowUncached: true },
+      ),
+    );
+
+    expect(error.kind).toBe("no_video");
+    expect(requested("POST", "/transfer/delete")).toHaveLength(1);
+  });
+
+  it("keeps a download the user opted into when it times out", async () => {
+    serve({
+      "GET /cache/check": { body: { status: "success", response: [false] } },
+      "POST /transfer/create": { body: { status: "success", id: "PMT1" } },
+      "GET /transfer/list": {
+        body: {
+          status: "success",
+          transfers: [
+            {
+              id: "PMT1",
+              name: "Heat.1995.1080p",
+              status: "running",
+              progress: 0.2,
+            },
+          ],
+        },
+      },
+    });
+
+    const error = await rejection(
+      client("premiumize").resolveTorrent(
+        MAGNET,
+        HASH,
+        {},
+        { allowUncached: true, timeoutMs: 1000 },
+      ),
+    );
+
+    expect(error.kind).toBe("timeout");
+    expect(requested("POST", "/transfer/delete")).toHaveLength(0);
+  });
+});
+
+describe("TorBox", () => {
+  const finished = {
+    id: 77,
+    name: "Heat.1995.1080p",
+    size: 9_800_004_000,
+    progress: 1,
+    download_state: "cached",
+    download_finished: true,
+    files: [
+      {
+        id: 0,
+        name: "Heat.1995.1080p/Heat.1995.1080p.BluRay.x264.mkv",
+        short_name: "Heat.1995.1080p.BluRay.x264.mkv",
+        size: 9_800_000_000,
+      },
+      {
+        id: 1,
+        name: "Heat.1995.1080p/Heat.1995.1080p.nfo",
+        short_name: "Heat.1995.1080p.nfo",
+        size: 4_000,
+      },
+    ],
+  };
+
+  it("requests a download link for the main feature", async () => {
+    serve({
+      "GET /torrents/checkcached": {
+        body: {
+          success: true,
+          detail: "Found cached torrent.",
+          data: { [HASH]: { name: "Heat.1995.1080p" } },
+        },
+      },
+      "POST /torrents/createtorrent": {
+        body: {
+          success: true,
+          detail: "Found Cached Torrent.",
+          data: { torrent_id: 77, hash: HASH },
+        },
+      },
+      "GET /torrents/mylist": { body: { success: true, data: finished } },
+      "GET /torrents/requestdl": {
+        body: { success: true, data: "https://store.torbox.app/dl/77/0" },
+      },
+    });
+
+    const stream = await client("torbox").resolveTorrent(MAGNET, HASH, {}, {});
+
+    expect(stream).toEqual({
+      url: "https://store.torbox.app/dl/77/0",
+      filename: "Heat.1995.1080p.BluRay.x264.mkv",
+      filesize: 9_800_000_000,
+      service: "torbox",
+    });
+    expect(requested("GET", "/torrents/requestdl")[0].url).toContain(
+      "torrent_id=77&file_id=0",
+    );
+    expect(
+      requested("GET", "/torrents/requestdl")[0].headers.authorization,
+    ).toBe("Bearer test-key");
+    expect(requests.some((request) => request.url.includes("test-key"))).toBe(
+      false,
+    );
+  });
+
+  it("keeps the key out of library stream URLs", async () => {
+    serve({
+      "GET /torrents/requestdl": {
+        body: { success: true, data: "https://store.torbox.app/dl/77/0" },
+      },
+    });
+
+    const url = await client("torbox").getStreamUrl({
+      id: "0",
+      filename: "Heat.1995.1080p.BluRay.x264.mkv",
+      filesize: 9_800_000_000,
+      link: "77:0",
+    });
+
+    expect(url).toBe("https://store.torbox.app/dl/77/0");
+    expect(requests[0].url).not.toContain("test-key");
+    expect(requests[0].headers.authorization).toBe("Bearer test-key");
+  });
+
+  it("removes a torrent without the requested episode", async () => {
+    serve({
+      "GET /torrents/checkcached": {
+        body: { success: true, data: { [HASH]: { name: "Heat.1995.1080p" } } },
+      },
+      "POST /torrents/createtorrent": {
+        body: { success: true, data: { torrent_id: 77 } },
+      },
+      "GET /torrents/mylist": { body: { success: true, data: finished } },
+      "POST /torrents/controltorrent": { body: { success: true, data: null } },
+    });
+
+    const error = await rejection(
+      client("torbox").resolveTorrent(
+        MAGNET,
+        HASH,
+        { season: 2, episode: 3 },
+        {},
+      ),
+    );
+
+    expect(error.kind).toBe("no_video");
+    expect(
+      JSON.parse(requested("POST", "/torrents/controltorrent")[0].body),
+    ).toEqual({ torrent_id: 77, operation: "delete" });
+  });
+
+  it("removes a torrent that isn't ready in time", async () => {
+    serve({
+      "GET /torrents/checkcached": {
+        body: { success: true, data: { [HASH]: { name: "Heat.1995.1080p" } } },
+      },
+      "POST /torrents/createtorrent": {
+        body: { success: true, data: { torrent_id: 77 } },
+      },
+      "GET /torrents/mylist": {
+        body: {
+          success: true,
+          data: {
+            ...finished,
+            download_state: "downloading",
+            download_finished: false,
+            progress: 0.4,
+          },
+        },
+      },
+      "POST /torrents/controltorrent": { body: { success: true, data: null } },
+    });
+
+    const error = await rejection(
+      client("torbox").resolveTorrent(MAGNET, HASH, {}, { timeoutMs: 1000 }),
+    );
+
+    expect(error.kind).toBe("timeout");
+    expect(requested("POST", "/torrents/controltorrent")).toHaveLength(1);
+  });
+
+  it("maps a plan restriction to not_premium", async () => {
+    serve({
+      "GET /user/me": {
+        status: 400,
+        body: {
+          success: false,
+          error: "PLAN_RESTRICTED_FEATURE",
+          detail: "Your plan does not allow this.",
+        },
+      },
+    });
+
+    const error = await rejection(client("torbox").getAccount());
+
+    expect(error.kind).toBe("not_premium");
+    expect(error.message).toBe("TorBox: Your plan does not allow this.");
+  });
+});
+
+describe("DebridService", () => {
+  const readyMagnet = {
+    id: 9001,
+    filename: "Heat.1995.1080p",
+    size: 9_800_000_000,
+    status: "Ready",
+    statusCode: 4,
+    links: [
+      {
+        link: "https://alldebrid.com/f/HEAT",
+        filename: "Heat.1995.1080p.BluRay.x264.mkv",
+        size: 9_800_000_000,
+      },
+    ],
+  };
+  const premiumizeContent = [
+    {
+      path: "Heat.1995.1080p/Heat.1995.1080p.BluRay.x264.mkv",
+      size: 9_800_000_000,
+      link: "https://cdn.premiumize.me/Heat.mkv",
+    },
+  ];
+
+  function instant(isCached: boolean) {
+    return {
+      body: {
+        status: "success",
+        data: { magnets: [{ hash: HASH, instant: isCached }] },
+      },
+    };
+  }
+
+  function premiumizeCache(isCached: boolean) {
+    return { body: { status: "success", response: [isCached] } };
+  }
+
+  // AllDebrid first, so any change in order comes from the cache check
+  beforeEach(() => {
+    debridService.configure(
+      {
+        accounts: [
+          {
+            id: "ad",
+            service: "alldebrid",
+            apiKey: "test-key",
+            enabled: true,
+            isConnected: true,
+          },
+          {
+            id: "pm",
+            service: "premiumize",
+            apiKey: "test-key",
+            enabled: true,
+            isConnected: true,
+          },
+        ],
+      },
+      baseUrl,
+    );
+  });
+
+  it("checks every account and reports which have the torrent", async () => {
+    serve({
+      "GET /magnet/instant": instant(false),
+      "GET /cache/check": premiumizeCache(true),
+    });
+
+    await expect(debridService.checkCache([HASH])).resolves.toEqual({
+      isCached: true,
+      hashes: [HASH],
+      accounts: ["pm"],
+      error: undefined,
+    });
+    expect(requested("GET", "/magnet/instant")[0].url).toContain(
+      encodeURIComponent(MAGNET),
+    );
+  });
+
+  it("reports the errors when no account could be asked", async () => {
+    serve({
+      "GET /magnet/instant": { status: 401 },
+      "GET /cache/check": { status: 403 },
+    });
+
+    const status = await debridService.checkCache([HASH]);
+
+    expect(status.isCached).toBe(false);
+    expect(status.error).toBe("API error: 401; API error: 403");
+  });
+
+  it("resolves through an account with the torrent cached first", async () => {
+    serve({
+      "GET /magnet/instant": instant(false),
+      "GET /cache/check": premiumizeCache(true),
+      "POST /transfer/directdl": {
+        body: { status: "success", content: premiumizeContent },
+      },
+    });
+
+    const stream = await debridService.resolve({ infoHash: HASH });
+
+    expect(stream).toMatchObject({
+      url: "https://cdn.premiumize.me/Heat.mkv",
+      service: "premiumize",
+    });
+    expect(requested("GET", "/magnet/upload")).toHaveLength(0);
+  });
+
+  it("removes a failed torrent and fails over to the next account", async () => {
+    serve({
+      "GET /magnet/instant": instant(true),
+      "GET /cache/check": premiumizeCache(true),
+      "GET /magnet/upload": {
+        body: {
+          status: "success",
+          data: { magnets: [{ id: 9001, hash: HASH, ready: true }] },
+        },
+      },
+      "GET /magnet/status": {
+        body: {
+          status: "success",
+          data: {
+            magnets: { ...readyMagnet, status: "Dead", statusCode: 8 },
+          },
+        },
+      },
+      "GET /magnet/delete": { body: { status: "success" } },
+      "POST /transfer/directdl": {
+        body: { status: "success", content: premiumizeContent },
+      },
+    });
+
+    const stream = await debridService.resolve({ infoHash: HASH });
+
+    expect(stream.service).toBe("premiumize");
+    expect(requested("GET", "/magnet/delete")[0].url).toContain("id=9001");
+  });
+
+  it("doesn't fail over when the torrent has no video to play", async () => {
+    serve({
+      "GET /magnet/instant": instant(true),
+      "GET /cache/check": premiumizeCache(true),
+      "GET /magnet/upload": {
+        body: {
+          status: "success",
+          data: { magnets: [{ id: 9001, hash: HASH, ready: true }] },
+        },
+      },
+      "GET /magnet/status": {
+        body: {
+          status: "success",
+          data: {
+            magnets: {
+              ...readyMagnet,
+              links: [
+                {
+                  link: "https://alldebrid.com/f/NFO",
+                  filename: "Heat.1995.1080p.nfo",
+                  size: 4_000,
+                },
+              ],
+            },
+          },
+        },
+      },
+      "GET /magnet/delete": { body: { status: "success" } },
+    });
+
+    const error = await rejection(debridService.resolve({ infoHash: HASH }));
+
+    expect(error.kind).toBe("no_video");
+    expect(requested("GET", "/magnet/delete")).toHaveLength(1);
+    expect(requested("POST", "/transfer/directdl")).toHaveLength(0);
+  });
+
+  it("reports not_cached when no account has the torrent", async () => {
+    serve({
+      "GET /magnet/instant": instant(false),
+      "GET /cache/check": premiumizeCache(false),
+      "GET /magnet/upload": {
+        body: {
+          status: "success",
+          data: { magnets: [{ id: 9001, hash: HASH, ready: false }] },
+        },
+      },
+      "GET /magnet/delete": { body: { status: "success" } },
+    });
+
+    const error = await rejection(debridService.resolve({ infoHash: HASH }));
+
+    expect(error.kind).toBe("not_cached");
+    expect(requested("GET", "/magnet/delete")).toHaveLength(1);
+    expect(requested("POST", "/transfer/create")).toHaveLength(0);
+  });
+});
@@ -0,0 +1,403 @@
+import { ParsedRelease, parseReleaseName } from "@/services/releaseNameParser";
+
+// Real release names as they show up in debrid libraries and addon results.
+// Only the listed fields are checked, so each row states what matters for it.
+const CORPUS: [string, Partial<ParsedRelease>][] = [
+  // Scene movies
+  [
+    "The.Matrix.1999.1080p.BluRay.x264-SPARKS",
+    {
+      title: "The Matrix",
+      year: 1999,
+      resolution: "1080p",
+      source: "bluray",
+      codec: "h264",
+      releaseGroup: "SPARKS",
+    },
+  ],
+  [
+    "Inception.2010.720p.BluRay.x264-REWARD",
+    {
+      title: "Inception",
+      year: 2010,
+      resolution: "720p",
+      source: "bluray",
+      releaseGroup: "REWARD",
+    },
+  ],
+  [
+    "Heat.1995.2160p.UHD.BluRay.REMUX.HDR.HEVC.Atmos-EPSiLON",
+    {
+      title: "Heat",
+      year: 1995,
+      resolution: "2160p",
+      source: "remux",
+      codec: "h265",
+      releaseGroup: "EPSiLON",
+    },
+  ],
+  [
+    "Dune.Part.Two.2024.2160p.WEB-DL.DDP5.1.Atmos.DV.HDR.H.265-FLUX",
+    {
+      title: "Dune Part Two",
+      year: 2024,
+      resolution: "2160p",
+      source: "web-dl",
+      codec: "h265",
+      hdr: ["dv", "hdr"],
+      releaseGroup: "FLUX",
+    },
+  ],
+  [
+    "Oppenheimer.2023.1080p.WEBRip.x265.10bit.AAC5.1-YTS",
+    {
+      title: "Oppenheimer",
+      year: 2023,
+      source: "webrip",
+      codec: "h265",
+      releaseGroup: "YTS",
+    },
+  ],
+  [
+    "Blade.Runner.2049.2017.1080p.BluRay.x264-SPARKS",
+    { title: "Blade Runner 2049", year: 2017 },
+  ],
+  [
+    "2001.A.Space.Odyssey.1968.1080p.BluRay.x264-AMIABLE",
+    { title: "2001 A Space Odyssey", year: 1968, releaseGroup: "AMIABLE" },
+  ],
+  ["1917.2019.1080p.BluRay.x264-SPARKS", { title: "1917", year: 2019 }],
+  [
+    "Spider-Man.No.Way.Home.2021.1080p.WEB-DL.DDP5.1.H.264-EVO",
+    {
+      title: "Spider-Man No Way Home",
+      year: 2021,
+      source: "web-dl",
+      codec: "h264",
+      releaseGroup: "EVO",
+    },
+  ],
+  [
+    "Mission.Impossible.Dead.Reckoning.Part.One.2023.1080p.AMZN.WEB-DL.DDP5.1.H.264-FLUX",
+    {
+      title: "Mission Impossible Dead Reckoning Part One",
+      year: 2023,
+      releaseGroup: "FLUX",
+    },
+  ],
+  [
+    "Alien.1979.REMASTERED.1080p.BluRay.x264-AMIABLE",
+    { title: "Alien", year: 1979 },
+  ],
+  [
+    "Apocalypse.Now.1979.Final.Cut.2160p.UHD.BluRay.x265.HDR10-WhiteRhino",
+    { year: 1979, resolution: "2160p", codec: "h265", hdr: ["hdr10"] },
+  ],
+  [
+    "Joker.2019.HDR10Plus.2160p.WEB-DL.H265-NTb",
+    { title: "Joker", year: 2019, hdr: ["hdr10+"], releaseGroup: "NTb" },
+  ],
+  [
+    "Avatar.The.Way.of.Water.2022.HDCAM.x264-NOGRP",
+    { title: "Avatar The Way of Water", source: "cam" },
+  ],
+  [
+    "Barbie.2023.HDTS.x264-CRYS",
+    { title: "Barbie", year: 2023, source: "telesync" },
+  ],
+  [
+    "Pulp.Fiction.1994.DVDRip.XviD-DoNE",
+    {
+      title: "Pulp Fiction",
+      year: 1994,
+      source: "dvd",
+      codec: "xvid",
+      releaseGroup: "DoNE",
+    },
+  ],
+  [
+    "The.Shawshank.Redemption.1994.1080p.BluRay.x264.DTS-FGT",
+    { title: "The Shawshank Redemption", year: 1994, releaseGroup: "FGT" },
+  ],
+  [
+    "Interstellar.2014.IMAX.2160p.WEB-DL.x265.HDR-GROUP",
+    { title: "Interstellar", year: 2014 },
+  ],
+  [
+    "Everything.Everywhere.All.at.Once.2022.1080p.WEBRip.x264-RARBG",
+    { title: "Everything Everywhere All at Once", year: 2022 },
+  ],
+  [
+    "Parasite.2019.KOREAN.1080p.BluRay.H264.AAC-VXT",
+    { year: 2019, codec: "h264", releaseGroup: "VXT" },
+  ],
+  [
+    "Gladiator.2000.EXTENDED.1080p.BluRay.x264-CtrlHD",
+    { title: "Gladiator", year: 2000 },
+  ],
+  [
+    "The.Lord.of.the.Rings.The.Fellowship.of.the.Ring.2001.EXTENDED.720p.BluRay.x264-SiNNERS",
+    { title: "The Lord of the Rings The Fellowship of the Ring", year: 2001 },
+  ],
+  [
+    "Top.Gun.Maverick.2022.1080p.AV1.10bit-MeGusta",
+    { title: "Top Gun Maverick", codec: "av1", releaseGroup: "MeGusta" },
+  ],
+  // P2P and spaced movie names
+  [
+    "Arrival (2016) [1080p] [BluRay] [5.1] [YTS.MX].mp4",
+    { title: "Arrival", year: 2016, resolution: "1080p", source: "bluray" },
+  ],
+  [
+    "The Godfather (1972) 1080p BrRip x264 - YIFY.mkv",
+    { title: "The Godfather", year: 1972, source: "bluray" },
+  ],
+  [
+    "Drive 2011 1080p BluRay x264 DTS-HDMA 5.1-HDS.mkv",
+    { title: "Drive", year: 2011 },
+  ],
+  [
+    "Fight Club (1999) 2160p UHD BluRay x265 HDR.mkv",
+    { title: "Fight Club", year: 1999, codec: "h265", hdr: ["hdr"] },
+  ],
+  [
+    "Amelie (2001) [1080p]",
+    { title: "Amelie", year: 2001, resolution: "1080p" },
+  ],
+  ["Up.2009.1080p.mkv", { title: "Up", year: 2009 }],
+  ["Se7en.1995.1080p.BluRay.x264-FilmHD", { title: "Se7en", year: 1995 }],
+  // TV episodes
+  [
+    "Breaking.Bad.S05E14.720p.HDTV.x264-EVOLVE",
+    {
+      title: "Breaking Bad",
+      season: 5,
+      episode: 14,
+      resolution: "720p",
+      source: "hdtv",
+      releaseGroup: "EVOLVE",
+    },
+  ],
+  [
+    "The.Office.US.S02E01.1080p.WEB-DL.DD5.1.H264-NTb",
+    { title: "The Office US", season: 2, episode: 1, releaseGroup: "NTb" },
+  ],
+  [
+    "Game.of.Thrones.S08E03.The.Long.Night.1080p.AMZN.WEB-DL.DDP5.1.H.264-GoT",
+    { title: "Game of Thrones", season: 8, episode: 3 },
+  ],
+  [
+    "Succession.S04E10.With.Open.Eyes.2160p.MAX.WEB-DL.DDP5.1.Atmos.DV.HDR.H.265-FLUX",
+    {
+      title: "Succession",
+      season: 4,
+      episode: 10,
+      resolution: "2160p",
+      hdr: ["dv", "hdr"],
+    },
+  ],
+  [
+    "the.last.of.us.s01e03.1080p.web.h264-cakes",
+    {
+      title: "the last of us",
+      season: 1,
+      episode: 3,
+      source: "web",
+      codec: "h264",
+      releaseGroup: "cakes",
+    },
+  ],
+  [
+    "Doctor.Who.2005.S13E01.1080p.iP.WEB-DL.AAC2.0.H.264-NTb",
+    { title: "Doctor Who", year: 2005, season: 13, episode: 1 },
+  ],
+  [
+    "Fargo.S05E01.720p.HDTV.x265-MiNX",
+    { title: "Fargo", season: 5, episode: 1, codec: "h265" },
+  ],
+  [
+    "Severance.S02E01.Hello.Ms.Cobel.2160p.ATVP.WEB-DL.DDP5.1.DV.H.265-NTb",
+    { title: "Severance", season: 2, episode: 1 },
+  ],
+  [
+    "The.Mandalorian.S03E08.Chapter.24.The.Return.1080p.DSNP.WEB-DL.DDP5.1.Atmos.H.264-FLUX",
+    { title: "The Mandalorian", season: 3, episode: 8 },
+  ],
+  [
+    "Shogun.2024.S01E01.Anjin.1080p.HULU.WEB-DL.DDP5.1.H.264-NTb",
+    { title: "Shogun", year: 2024, season: 1, episode: 1 },
+  ],
+  [
+    "Only.Murders.in.the.Building.S03E05.1080p.WEB.H264-SuccessfulCrab",
+    {
+      title: "Only Murders in the Building",
+      season: 3,
+      episode: 5,
+      releaseGroup: "SuccessfulCrab",
+    },
+  ],
+  [
+    "Better Call Saul S06E13 Saul Gone 1080p AMZN WEB-DL DDP5.1 H.264-NTb.mkv",
+    { title: "Better Call Saul", season: 6, episode: 13 },
+  ],
+  [
+    "Friends - S03E25 - The One at the Beach.mkv",
+    { title: "Friends", season: 3, episode: 25 },
+  ],
+  [
+    "Seinfeld S05 E12 The Stall.avi",
+    { title: "Seinfeld", season: 5, episode: 12 },
+  ],
+  [
+    "Lost.S01E01E02.Pilot.720p.BluRay.x264-SiNNERS",
+    { title: "Lost", season: 1, episode: 1, episodes: [1, 2] },
+  ],
+  [
+    "The.Simpsons.S10E01-E03.DVDRip.XviD",
+    {
+      title: "The Simpsons",
+      season: 10,
+      episode: 1,
+      episodes: [1, 2, 3],
+      source: "dvd",
+    },
+  ],
+  [
+    "Stargate.SG-1.S01E01.Children.of.the.Gods.1080p.BluRay.x264-SHORTBREHD",
+    { title: "Stargate SG-1", season: 1, episode: 1 },
+  ],
+  [
+    "Star.Trek.Deep.Space.Nine.1x01.Emissary.avi",
+    { title: "Star Trek Deep Space Nine", season: 1, episode: 1 },
+  ],
+  [
+    "The.Wire.3x11.Middle.Ground.DVDRip.XviD-SAiNTS",
+    { title: "The Wire", season: 3, episode: 11 },
+  ],
+  [
+    "Twin Peaks Season 2 Episode 9.mkv",
+    { title: "Twin Peaks", season: 2, episode: 9 },
+  ],
+  [
+    "Sherlock.S04E01.The.Six.Thatchers.1080p.BluRay.x264-SHORTBREHD",
+    { title: "Sherlock", season: 4, episode: 1 },
+  ],
+  [
+    "S.W.A.T.2017.S07E01.1080p.WEB.h264-ETHEL",
+    { year: 2017, season: 7, episode: 1, releaseGroup: "ETHEL" },
+  ],
+  [
+    "House.of.the.Dragon.S02E08.1080p.WEB.H264-SuccessfulCrab[EZTVx.to].mkv",
+    {
+      title: "House of the Dragon",
+      season: 2,
+      episode: 8,
+      releaseGroup: "SuccessfulCrab",
+    },
+  ],
+  [
+    "The.Boys.S04E06.REPACK.1080p.AMZN.WEB-DL.DDP5.1.H.264-NTb",
+    { title: "The Boys", season: 4, episode: 6 },
+  ],
+  [
+    "Slow.Horses.S04E01.HDR.2160p.WEB.h265-ETHEL",
+    { title: "Slow Horses", season: 4, episode: 1, hdr: ["hdr"] },
+  ],
+  [
+    "Band.of.Brothers.Part.01.Currahee.1080p.BluRay.x264",
+    { resolution: "1080p", source: "bluray" },
+  ],
+  // Season packs
+  [
+    "The.Expanse.S03.1080p.BluRay.x264-ROVERS",
+    { title: "The Expanse", season: 3, releaseGroup: "ROVERS" },
+  ],
+  [
+    "Chernobyl.S01.COMPLETE.2160p.WEB-DL.x265",
+    { title: "Chernobyl", season: 1, resolution: "2160p" },
+  ],
+  ["Dark Season 1 1080p NF WEB-DL", { title: "Dark", season: 1 }],
+  [
+    "Mr.Robot.Season.4.1080p.AMZN.WEB-DL.DD+5.1.H.264-AJP69",
+    { title: "Mr Robot", season: 4 },
+  ],
+  // Anime
+  [
+    "[SubsPlease] One Piece - 1071 (1080p) [C3D0A6D1].mkv",
+    {
+      title: "One Piece",
+      absoluteEpisode: 1071,
+      resolution: "1080p",
+      releaseGroup: "SubsPlease",
+    },
+  ],
+  [
+    "[Erai-raws] Jujutsu Kaisen - 24 [1080p][Multiple Subtitle].mkv",
+    { title: "Jujutsu Kaisen", absoluteEpisode: 24, releaseGroup: "Erai-raws" },
+  ],
+  [
+    "[HorribleSubs] Mob Psycho 100 - 12 [720p].mkv",
+    { title: "Mob Psycho 100", absoluteEpisode: 12, resolution: "720p" },
+  ],
+  [
+    "[Judas] Shingeki no Kyojin - S04E28 [1080p][HEVC x265 10bit].mkv",
+    {
+      title: "Shingeki no Kyojin",
+      season: 4,
+      episode: 28,
+      codec: "h265",
+      releaseGroup: "Judas",
+    },
+  ],
+  [
+    "[SubsPlease] Frieren - 05v2 (1080p) [ABCDEF12].mkv",
+    { title: "Frieren", absoluteEpisode: 5 },
+  ],
+  [
+    "[Anime Time] Naruto Shippuden - 500 [1080p][HEVC 10bit x265][AAC][Multi Sub].mkv",
+    { title: "Naruto Shippuden", absoluteEpisode: 500, codec: "h265" },
+  ],
+  ["Cowboy Bebop EP 05.mkv", { title: "Cowboy Bebop", absoluteEpisode: 5 }],
+  [
+    "[ASW] Solo Leveling - 12 [1080p HEVC][A1B2C3D4].mkv",
+    { title: "Solo Leveling", absoluteEpisode: 12, releaseGroup: "ASW" },
+  ],
+  // URLs and paths
+  [
+    "https://download.real-debrid.com/d/ABC123/The.Bear.S03E01.1080p.WEB.h264-ETHEL.mkv",
+    { title: "The Bear", season: 3, episode: 1, releaseGroup: "ETHEL" },
+  ],
+  [
+    "https://example.com/files/Arrival%20(2016)%20%5B1080p%5D.mp4?token=abc#t=10",
+    { title: "Arrival", year: 2016, resolution: "1080p" },
+  ],
+  [
+    "/storage/emulated/0/Movies/Heat.1995.1080p.BluRay.x264-AMIABLE.mkv",
+    { title: "Heat", year: 1995, releaseGroup: "AMIABLE" },
+  ],
+  [
+    "C:\\Videos\\TV\\Fargo.S02E03.720p.HDTV.x264-KILLERS.mkv",
+    { title: "Fargo", season: 2, episode: 3 },
+  ],
+];
+
+describe("parseReleaseName", () => {
+  it.each(CORPUS)("%s", (name, expected) => {
+    expect(parseReleaseName(name)).toMatchObject(expected);
+  });
+
+  it("leaves out what it doesn't recognise", () => {
+    expect(parseReleaseName("home_video.mp4")).toEqual({ title: "home video" });
+  });
+
+  it("doesn't take a year from the future", () => {
+    const nextYears = new Date().getFullYear() + 5;
+    expect(
+      parseReleaseName(`Future.${nextYears}.1080p.WEB`).year,
+    ).toBeUndefined();
+  });
+
+  it("falls back to the whole name when nothing precedes the tags", () => {
+    expect(parseReleaseName("1080p.WEB-DL.x264").title).not.toBe("");
+  });
+});
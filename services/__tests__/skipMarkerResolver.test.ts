@@ -0,0 +1,250 @@
+import {
+  buildManualSkipMarkers,
+  getActiveSkipMarker,
+  mergeSkipMarkers,
+  resolveManualSkip,
+  SkipResolverOptions,
+} from "@/services/skipMarkerResolver";
+import { SkipMarker, SkipSource, SkipType } from "@/types";
+
+const DURATION = 2700;
+
+function marker(
+  type: SkipType,
+  startTime: number,
+  endTime: number,
+  source: SkipSource = "chapter",
+): SkipMarker {
+  return { type, startTime, endTime, source };
+}
+
+function options(
+  overrides: Partial<SkipResolverOptions> = {},
+): SkipResolverOptions {
+  return {
+    priority: ["chapter", "community", "manual"],
+    leadInSeconds: { intro: 0, recap: 0, credits: 0, preview: 0 },
+    duration: DURATION,
+    ...overrides,
+  };
+}
+
+describe("mergeSkipMarkers", () => {
+  it("keeps the highest-priority source where sources overlap", () => {
+    const merged = mergeSkipMarkers(
+      {
+        community: [marker("intro", 58, 118, "community")],
+        chapter: [marker("intro", 60, 120, "chapter")],
+      },
+      ["chapter", "community"],
+    );
+
+    expect(merged).toEqual([marker("intro", 60, 120, "chapter")]);
+  });
+
+  it("follows the priority order rather than the order of the sources", () => {
+    const merged = mergeSkipMarkers(
+      {
+        chapter: [marker("intro", 60, 120, "chapter")],
+        manual: [marker("intro", 55, 115, "manual")],
+      },
+      ["manual", "chapter"],
+    );
+
+    expect(merged).toEqual([marker("intro", 55, 115, "manual")]);
+  });
+
+  it("lets lower-priority sources fill in what the others miss", () => {
+    const merged = mergeSkipMarkers(
+      {
+        chapter: [marker("intro", 60, 120, "chapter")],
+        community: [
+          marker("intro", 70, 110, "community"),
+          marker("credits", 2580, 2700, "community"),
+        ],
+      },
+      ["chapter", "community"],
+    );
+
+    expect(merged).toEqual([
+      marker("intro", 60, 120, "chapter"),
+      marker("credits", 2580, 2700, "community"),
+    ]);
+  });
+
+  it("keeps overlapping markers of different types", () => {
+    const merged = mergeSkipMarkers(
+      {
+        chapter: [marker("recap", 0, 90, "chapter")],
+        community: [marker("intro", 80, 140, "community")],
+      },
+      ["chapter", "community"],
+    );
+
+    expect(merged.map((m) => m.type)).toEqual(["recap", "intro"]);
+  });
+
+  it("joins touching and overlapping ranges from one source", () => {
+    const merged = mergeSkipMarkers(
+      {
+        community: [
+          marker("intro", 90, 130, "community"),
+          marker("intro", 60, 90, "community"),
+          marker("intro", 125, 140, "community"),
+        ],
+      },
+      ["community"],
+    );
+
+    expect(merged).toEqual([marker("intro", 60, 140, "community")]);
+  });
+
+  it("drops empty and invalid ranges and sources left out of the priority", () => {
+    const merged = mergeSkipMarkers(
+      {
+        chapter: [
+          marker("intro", 60, 60, "chapter"),
+          marker("intro", 80, 70, "chapter"),
+          marker("intro", NaN, 90, "chapter"),
+        ],
+        manual: [marker("intro", 60, 120, "manual")],
+      },
+      ["chapter"],
+    );
+
+    expect(merged).toEqual([]);
+  });
+});
+
+describe("getActiveSkipMarker", () => {
+  const intro = marker("intro", 60, 120);
+
+  it("is active from the start up to, but not at, the end", () => {
+    expect(getActiveSkipMarker([intro], 59.9, options())).toBeNull();
+    expect(getActiveSkipMarker([intro], 60, options())).toBe(intro);
+    expect(getActiveSkipMarker([intro], 119.9, options())).toBe(intro);
+    expect(getActiveSkipMarker([intro], 120, options())).toBeNull();
+  });
+
+  it("shows up the lead-in early, but never before the start of the video", () => {
+    const leadIn = options({
+      leadInSeconds: { intro: 5, recap: 0, credits: 0, preview: 0 },
+    });
+    const opening = marker("intro", 2, 30);
+
+    expect(getActiveSkipMarker([intro], 55, leadIn)).toBe(intro);
+    expect(getActiveSkipMarker([intro], 54.9, leadIn)).toBeNull();
+    expect(getActiveSkipMarker([opening], 0, leadIn)).toBe(opening);
+  });
+
+  it("stops offering a skip in the final seconds", () => {
+    const credits = marker("credits", 2580, DURATION);
+
+    expect(getActiveSkipMarker([credits], 2694.9, options())).toBe(credits);
+    expect(getActiveSkipMarker([credits], 2695, options())).toBeNull();
+    expect(getActiveSkipMarker([credits], 2697, options({ duration: 0 }))).toBe(
+      credits,
+    );
+  });
+
+  it("picks the highest-priority marker, then the earliest", () => {
+    const chapterRecap = marker("recap", 50, 100, "chapter");
+    const manualIntro = marker("intro", 40, 130, "manual");
+    const chapterIntro = marker("intro", 30, 120, "chapter");
+
+    expect(
+      getActiveSkipMarker([manualIntro, chapterRecap], 70, options()),
+    ).toBe(chapterRecap);
+    expect(
+      getActiveSkipMarker([chapterRecap, chapterIntro], 70, options()),
+    ).toBe(chapterIntro);
+  });
+
+  it("ignores sources that are switched off", () => {
+    const manual = marker("intro", 60, 120, "manual");
+
+    expect(
+      getActiveSkipMarker([manual], 90, options({ priority: ["chapter"] })),
+    ).toBeNull();
+  });
+});
+
+describe("resolveManualSkip", () => {
+  it("takes intro and credits from the most specific layer that sets them", () => {
+    const resolved = resolveManualSkip([
+      { introStartTime: 30, introEndTime: 95 },
+      null,
+      { introSkipSeconds: 60, creditsStartTime: 2600 },
+      { creditsSkipSeconds: 90 },
+    ]);
+
+    expect(resolved).toEqual({
+      introStartTime: 30,
+      introEndTime: 95,
+      introSkipSeconds: undefined,
+      creditsStartTime: 2600,
+      creditsEndTime: undefined,
+      creditsSkipSeconds: undefined,
+    });
+  });
+
+  it("passes over layers that only hold zeroes", () => {
+    const resolved = resolveManualSkip([
+      { introSkipSeconds: 0, creditsSkipSeconds: 0 },
+      { introSkipSeconds: 45, creditsSkipSeconds: 120 },
+    ]);
+
+    expect(resolved.introSkipSeconds).toBe(45);
+    expect(resolved.creditsSkipSeconds).toBe(120);
+  });
+});
+
+describe("buildManualSkipMarkers", () => {
+  it("uses marked ranges", () => {
+    expect(
+      buildManualSkipMarkers(
+        {
+          introStartTime: 30,
+          introEndTime: 95,
+          creditsStartTime: 2600,
+          creditsEndTime: 2650,
+        },
+        DURATION,
+      ),
+    ).toEqual([
+      marker("intro", 30, 95, "manual"),
+      marker("credits", 2600, 2650, "manual"),
+    ]);
+  });
+
+  it("runs open-ended credits to the end of the video", () => {
+    expect(
+      buildManualSkipMarkers({ creditsStartTime: 2600 }, DURATION),
+    ).toEqual([marker("credits", 2600, DURATION, "manual")]);
+  });
+
+  it("counts skip seconds from the start and back from the end", () => {
+    expect(
+      buildManualSkipMarkers(
+        { introSkipSeconds: 45, creditsSkipSeconds: 120 },
+        DURATION,
+      ),
+    ).toEqual([
+      marker("intro", 0, 45, "manual"),
+      marker("credits", 2580, DURATION, "manual"),
+    ]);
+  });
+
+  it("leaves out credits it can't place", () => {
+    expect(buildManualSkipMarkers({ creditsSkipSeconds: 120 }, 0)).toEqual([]);
+    expect(buildManualSkipMarkers({ creditsSkipSeconds: 120 }, 100)).toEqual(
+      [],
+    );
+    expect(
+      buildManualSkipMarkers(
+        { creditsStartTime: 2600, creditsEndTime: 2500 },
+        DURATION,
+      ),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * @jest-environment node
+ */
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import {
+  SkipSubmissionInput,
+  skipSubmissionService,
+} from "@/services/skipSubmissionService";
+
+const INTRO: SkipSubmissionInput = {
+  imdbId: "tt0903747",
+  showName: "Breaking Bad",
+  season: 1,
+  episode: 2,
+  type: "intro",
+  startTime: 12.34,
+  endTime: 71.06,
+  duration: 2880,
+  origin: "manual_mark",
+};
+
+// Each request takes the next status; null holds the response back until the test ends
+let statuses: (number | null)[] = [];
+let bodies: Record<string, unknown>[] = [];
+let server: Server;
+
+function respondWith(...next: (number | null)[]) {
+  statuses = next;
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk;
+    });
+    req.on("end", () => {
+      bodies.push(JSON.parse(body));
+      const status = statuses.length > 1 ? statuses.shift() : statuses[0];
+      if (status === null) return;
+      res.writeHead(status ?? 201, { "Content-Type": "application/json" });
+      res.end("{}");
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  skipSubmissionService.configure({
+    endpoint: `http://127.0.0.1:${port}/v1/submissions`,
+    timeoutMs: 200,
+  });
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  statuses = [201];
+  bodies = [];
+});
+
+// Flushing an empty queue also cancels the retry timer a failure leaves behind
+afterEach(async () => {
+  await skipSubmissionService.clear();
+  await skipSubmissionService.flush();
+  jest.restoreAllMocks();
+});
+
+describe("enqueue", () => {
+  it("sends the segment and takes it off the queue once accepted", async () => {
+    await skipSubmissionService.enqueue(INTRO);
+    await skipSubmissionService.flush();
+
+    expect(bodies).toEqual([
+      {
+        imdb_id: "tt0903747",
+        season: 1,
+        episode: 2,
+        type: "intro",
+        start: 12.3,
+        end: 71.1,
+        duration: 2880,
+        confidence: 0.9,
+        origin: "manual_mark",
+        source: "streamplayer",
+      },
+    ]);
+    await expect(skipSubmissionService.getQueue()).resolves.toEqual([]);
+  });
+
+  it("rejects segments that end before they start", async () => {
+    await expect(
+      skipSubmissionService.enqueue({ ...INTRO, startTime: 80, endTime: 70 }),
+    ).resolves.toBeNull();
+    expect(bodies).toEqual([]);
+  });
+
+  it("keeps a marked segment over a lower-confidence one", async () => {
+    respondWith(503);
+    const marked = await skipSubmissionService.enqueue(INTRO);
+    await skipSubmissionService.flush();
+
+    const skipped = await skipSubmissionService.enqueue({
+      ...INTRO,
+      startTime: 20,
+      origin: "manual_skip",
+    });
+
+    expect(skipped?.id).toBe(marked?.id);
+    const queue = await skipSubmissionService.getQueue();
+    expect(queue).toHaveLength(1);
+    expect(queue[0]).toMatchObject({ startTime: 12.3, origin: "manual_mark" });
+  });
+});
+
+describe("flush", () => {
+  it("backs off after each retryable failure", async () => {
+    respondWith(503, 503, 201);
+    const now = Date.now();
+    jest.spyOn(Date, "now").mockReturnValue(now);
+
+    await skipSubmissionService.enqueue(INTRO);
+    await skipSubmissionService.flush();
+    let [submission] = await skipSubmissionService.getQueue();
+    expect(submission).toMatchObject({
+      status: "pending",
+      attempts: 1,
+      lastError: "HTTP 503",
+      nextAttemptAt: now + 60 * 1000,
+    });
+
+    // Not due yet, so nothing is sent
+    await skipSubmissionService.flush();
+    expect(bodies).toHaveLength(1);
+
+    await skipSubmissionService.flush(true);
+    [submission] = await skipSubmissionService.getQueue();
+    expect(submission).toMatchObject({
+      attempts: 2,
+      nextAttemptAt: now + 2 * 60 * 1000,
+    });
+
+    await skipSubmissionService.flush(true);
+    expect(bodies).toHaveLength(3);
+    await expect(skipSubmissionService.getQueue()).resolves.toEqual([]);
+  });
+
+  it("stops sending after a client error", async () => {
+    respondWith(400);
+
+    await skipSubmissionService.enqueue(INTRO);
+    await skipSubmissionService.flush();
+    await skipSubmissionService.flush(true);
+
+    expect(bodies).toHaveLength(1);
+    const [submission] = await skipSubmissionService.getQueue();
+    expect(submission).toMatchObject({
+      status: "failed",
+      attempts: 1,
+      lastError: "HTTP 400",
+    });
+  });
+
+  it("retries rate limits", async () => {
+    respondWith(429);
+
+    await skipSubmissionService.enqueue(INTRO);
+    await skipSubmissionService.flush();
+
+    const [submission] = await skipSubmissionService.getQueue();
+    expect(submission.status).toBe("pending");
+  });
+
+  it("gives up on a request that never answers", async () => {
+    respondWith(null);
+
+    await skipSubmissionService.enqueue(INTRO);
+    await skipSubmissionService.flush();
+
+    const [submission] = await skipSubmissionService.getQueue();
+    expect(submission).toMatchObject({ status: "pending", attempts: 1 });
+    expect(submission.lastError).toMatch(/timed out/);
+  });
+});
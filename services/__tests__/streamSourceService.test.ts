@@ -0,0 +1,381 @@
+/**
+ * @jest-environment node
+ */
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { debridService } from "@/services/debridService";
+import {
+  parseStream,
+  rankSources,
+  scoreSource,
+  StreamSource,
+  streamSourceService,
+} from "@/services/streamSourceService";
+import { SourcePreferences } from "@/types";
+
+const GB = 1024 ** 3;
+const HASH = "0123456789abcdef0123456789abcdef01234567";
+
+const PREFERENCES: SourcePreferences = {
+  resolution: "1080p",
+  maxSizeGb: 0,
+  codec: "any",
+  preferHdr: false,
+  cachedOnly: false,
+};
+
+interface StubResponse {
+  status?: number;
+  body?: unknown;
+}
+
+// Keyed by "METHOD /path"; a list is served in order, repeating its last entry
+type Routes = Record<string, StubResponse | StubResponse[]>;
+
+let server: Server;
+let baseUrl: string;
+let routes: Routes = {};
+let requests: string[] = [];
+
+function serve(next: Routes) {
+  routes = next;
+}
+
+function requested(path: string): string[] {
+  return requests.filter((url) => url.split("?")[0] === path);
+}
+
+function source(overrides: Partial<StreamSource>): StreamSource {
+  return {
+    key: overrides.name ?? "source",
+    addon: "Torrentio",
+    name: "source",
+    ...overrides,
+  };
+}
+
+function hashFor(index: number): string {
+  return index.toString(16).padStart(40, "0");
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const url = req.url ?? "/";
+    requests.push(url);
+    const route = routes[`${req.method} ${url.split("?")[0]}`];
+    const response = Array.isArray(route)
+      ? route.length > 1
+        ? route.shift()
+        : route[0]
+      : route;
+    if (!response) {
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "unknown_resource" }));
+      return;
+    }
+    res.writeHead(response.status ?? 200, {
+      "Content-Type": "application/json",
+    });
+    res.end(response.body === undefined ? "" : JSON.stringify(response.body));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  routes = {};
+  requests = [];
+  jest.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  debridService.configure({ accounts: [] });
+  jest.restoreAllMocks();
+});
+
+describe("parseStream", () => {
+  it("reads the release, size and seeders from a Torrentio description", () => {
+    const parsed = parseStream(
+      {
+        name: "Torrentio\n4k DV",
+        title:
+          "Dune.Part.Two.2024.2160p.WEB-DL.DDP5.1.Atmos.DV.HDR.H.265-FLUX\n👤 120 💾 1,234.5 GB ⚙️ ThePirateBay",
+        infoHash: HASH.toUpperCase(),
+        fileIdx: 0,
+      },
+      "Torrentio",
+    );
+
+    expect(parsed).toMatchObject({
+      key: `${HASH}:0`,
+      addon: "Torrentio",
+      name: "Dune.Part.Two.2024.2160p.WEB-DL.DDP5.1.Atmos.DV.HDR.H.265-FLUX",
+      infoHash: HASH,
+      resolution: "2160p",
+      codec: "h265",
+      source: "web-dl",
+      size: Math.round(1234.5 * GB),
+      seeders: 120,
+    });
+    expect(parsed?.url).toBeUndefined();
+  });
+
+  it("reads a decimal comma", () => {
+    const parsed = parseStream(
+      { infoHash: HASH, title: "Heat.1995.1080p.BluRay.x264\n💾 9,8 GB" },
+      "Torrentio",
+    );
+
+    expect(parsed?.size).toBe(Math.round(9.8 * GB));
+  });
+
+  it("takes the resolution from the stream's name when the release has none", () => {
+    const parsed = parseStream(
+      { name: "Torrentio\n4k", title: "Heat 1995 BluRay", infoHash: HASH },
+      "Torrentio",
+    );
+
+    expect(parsed?.resolution).toBe("2160p");
+  });
+
+  it("prefers the addon's filename and file size", () => {
+    const parsed = parseStream(
+      {
+        url: "https://cdn.example.com/Heat.mkv",
+        title: "Heat\n💾 9.8 GB",
+        behaviorHints: {
+          filename: "Heat.1995.1080p.BluRay.x264.mkv",
+          videoSize: 9_800_000_000,
+        },
+      },
+      "Comet",
+    );
+
+    expect(parsed).toMatchObject({
+      key: "https://cdn.example.com/Heat.mkv",
+      url: "https://cdn.example.com/Heat.mkv",
+      name: "Heat.1995.1080p.BluRay.x264.mkv",
+      size: 9_800_000_000,
+    });
+  });
+
+  it("skips streams with neither a hash nor a URL", () => {
+    expect(parseStream({ title: "Heat.1995.1080p" }, "Torrentio")).toBeNull();
+  });
+});
+
+describe("scoreSource", () => {
+  it("ranks cached torrents above anything uncached", () => {
+    const cached = source({ cached: true, resolution: "480p" });
+    const uncached = source({
+      cached: false,
+      resolution: "1080p",
+      seeders: 500,
+    });
+
+    expect(scoreSource(cached, PREFERENCES)).toBeGreaterThan(
+      scoreSource(uncached, PREFERENCES),
+    );
+  });
+
+  it("ranks resolutions by how far they are from the preferred one", () => {
+    const scores = (["1080p", "2160p", "720p", "480p"] as const).map(
+      (resolution) => scoreSource(source({ resolution }), PREFERENCES),
+    );
+
+    expect(scores).toEqual([1000, 750, 750, 250]);
+  });
+
+  it("ranks down cams and files over the size limit", () => {
+    const preferences = { ...PREFERENCES, maxSizeGb: 10 };
+    const base = scoreSource(source({ size: 8 * GB }), preferences);
+
+    expect(
+      scoreSource(source({ size: 8 * GB, source: "cam" }), preferences),
+    ).toBe(base - 3000);
+    expect(scoreSource(source({ size: 12 * GB }), preferences)).toBe(
+      base - 2000,
+    );
+  });
+
+  it("adds the preferred codec and HDR", () => {
+    const preferences: SourcePreferences = {
+      ...PREFERENCES,
+      codec: "h265",
+      preferHdr: true,
+    };
+
+    expect(
+      scoreSource(source({ codec: "h265", hdr: ["dv"] }), preferences),
+    ).toBe(350);
+    expect(scoreSource(source({ hdr: ["dv"] }), PREFERENCES)).toBe(-50);
+  });
+
+  it("caps what seeders can add", () => {
+    expect(scoreSource(source({ seeders: 40 }), PREFERENCES)).toBe(40);
+    expect(scoreSource(source({ seeders: 4000 }), PREFERENCES)).toBe(100);
+  });
+});
+
+describe("rankSources", () => {
+  const sources = [
+    source({ name: "uncached", resolution: "1080p", cached: false }),
+    source({ name: "cached", resolution: "720p", cached: true }),
+    source({ name: "direct", resolution: "480p", url: "https://cdn/x.mkv" }),
+  ];
+
+  it("orders sources by score", () => {
+    expect(
+      rankSources(sources, PREFERENCES).map((ranked) => ranked.name),
+    ).toEqual(["cached", "direct", "uncached"]);
+  });
+
+  it("leaves out uncached torrents when only cached ones are wanted", () => {
+    expect(
+      rankSources(sources, { ...PREFERENCES, cachedOnly: true }).map(
+        (ranked) => ranked.name,
+      ),
+    ).toEqual(["cached", "direct"]);
+  });
+});
+
+describe("fetchStreams", () => {
+  const stream = {
+    name: "Torrentio\n1080p",
+    title: "Breaking.Bad.S01E02.1080p.BluRay.x264-ROVERS\n👤 42 💾 2.1 GB",
+    infoHash: HASH,
+    fileIdx: 1,
+  };
+
+  it("merges enabled addons, dropping torrents listed twice", async () => {
+    serve({
+      "GET /torrentio/stream/series/tt0903747%3A1%3A2.json": {
+        body: { streams: [stream, { ...stream, infoHash: hashFor(1) }] },
+      },
+      "GET /mediafusion/stream/series/tt0903747%3A1%3A2.json": {
+        body: {
+          streams: [{ ...stream, name: "MediaFusion" }, { title: "no hash" }],
+        },
+      },
+    });
+
+    const sources = await streamSourceService.fetchStreams(
+      [
+        {
+          id: "1",
+          name: "Torrentio",
+          url: `${baseUrl}/torrentio/manifest.json`,
+          enabled: true,
+        },
+        {
+          id: "2",
+          name: "MediaFusion",
+          url: `${baseUrl}/mediafusion/`,
+          enabled: true,
+        },
+        {
+          id: "3",
+          name: "Disabled",
+          url: `${baseUrl}/disabled`,
+          enabled: false,
+        },
+      ],
+      { type: "series", imdbId: "tt0903747", season: 1, episode: 2 },
+    );
+
+    expect(sources.map((found) => [found.addon, found.infoHash])).toEqual([
+      ["Torrentio", HASH],
+      ["Torrentio", hashFor(1)],
+    ]);
+    expect(requests.some((url) => url.startsWith("/disabled"))).toBe(false);
+  });
+
+  it("leaves out an addon that fails", async () => {
+    serve({
+      "GET /torrentio/stream/movie/tt0113277.json": {
+        body: { streams: [stream] },
+      },
+    });
+
+    const sources = await streamSourceService.fetchStreams(
+      [
+        {
+          id: "1",
+          name: "Broken",
+          url: `${baseUrl}/broken`,
+          enabled: true,
+        },
+        {
+          id: "2",
+          name: "Torrentio",
+          url: `${baseUrl}/torrentio`,
+          enabled: true,
+        },
+      ],
+      { type: "movie", imdbId: "tt0113277" },
+    );
+
+    expect(sources.map((found) => found.addon)).toEqual(["Torrentio"]);
+  });
+});
+
+describe("checkCached", () => {
+  beforeEach(() => {
+    debridService.configure(
+      {
+        accounts: [
+          {
+            id: "pm",
+            service: "premiumize",
+            apiKey: "test-key",
+            enabled: true,
+            isConnected: true,
+          },
+        ],
+      },
+      baseUrl,
+    );
+  });
+
+  it("asks about the hashes in batches", async () => {
+    const sources = Array.from({ length: 45 }, (_, index) =>
+      source({ name: `source ${index}`, infoHash: hashFor(index) }),
+    );
+    // The first batch has its first hash cached, the second its second
+    serve({
+      "GET /cache/check": [
+        { body: { status: "success", response: [true] } },
+        { body: { status: "success", response: [false, true] } },
+      ],
+    });
+
+    const checked = await streamSourceService.checkCached([
+      ...sources,
+      source({ name: "duplicate", infoHash: hashFor(0) }),
+      source({ name: "direct", url: "https://cdn/x.mkv" }),
+    ]);
+
+    const batches = requested("/cache/check").map(
+      (url) => new URLSearchParams(url.split("?")[1]),
+    );
+    expect(batches.map((params) => [...params.keys()].length)).toEqual([40, 5]);
+    expect(
+      checked.filter((found) => found.cached).map((found) => found.name),
+    ).toEqual(["source 0", "source 41", "duplicate"]);
+    expect(checked[checked.length - 1].cached).toBeUndefined();
+  });
+
+  it("leaves sources unchecked without a debrid account", async () => {
+    debridService.configure({ accounts: [] });
+    const sources = [source({ infoHash: HASH })];
+
+    await expect(streamSourceService.checkCached(sources)).resolves.toBe(
+      sources,
+    );
+    expect(requests).toEqual([]);
+  });
+});
@@ -0,0 +1,198 @@
+import {
+  getScrobbleTransition,
+  ScrobbleApi,
+  ScrobbleEvent,
+  ScrobbleState,
+  TraktScrobbler,
+} from "@/services/traktScrobbler";
+import { ScrobbleAction, ScrobbleData } from "@/services/traktService";
+
+const MOVIE = {
+  movie: { title: "Heat", year: 1995, ids: { imdb: "tt0113277" } },
+};
+
+// Lets queued promise chains run before checking what reached the API
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+interface Call {
+  action: ScrobbleAction;
+  data: ScrobbleData;
+}
+
+// Stands in for the Trakt API; each call can be held back to check ordering
+function createApi(result = true) {
+  const calls: Call[] = [];
+  const held: (() => void)[] = [];
+  let holding = false;
+  const api: ScrobbleApi = {
+    scrobble: jest.fn((action: ScrobbleAction, data: ScrobbleData) => {
+      calls.push({ action, data });
+      if (!holding) return Promise.resolve(result);
+      return new Promise<boolean>((resolve) => {
+        held.push(() => resolve(result));
+      });
+    }),
+  };
+  return {
+    api,
+    calls,
+    hold: () => {
+      holding = true;
+    },
+    release: () => {
+      holding = false;
+      held.splice(0).forEach((resolve) => resolve());
+    },
+  };
+}
+
+describe("getScrobbleTransition", () => {
+  const cases: [
+    ScrobbleState,
+    ScrobbleEvent,
+    ScrobbleState,
+    ScrobbleAction | null,
+  ][] = [
+    ["idle", "play", "playing", "start"],
+    ["idle", "pause", "idle", null],
+    ["idle", "seek", "idle", null],
+    ["idle", "stop", "stopped", null],
+    ["playing", "play", "playing", null],
+    ["playing", "pause", "paused", "pause"],
+    ["playing", "seek", "playing", "start"],
+    ["playing", "stop", "stopped", "stop"],
+    ["paused", "play", "playing", "start"],
+    ["paused", "pause", "paused", null],
+    ["paused", "seek", "paused", "pause"],
+    ["paused", "stop", "stopped", "stop"],
+    ["stopped", "play", "playing", "start"],
+    ["stopped", "pause", "stopped", null],
+    ["stopped", "seek", "stopped", null],
+    ["stopped", "stop", "stopped", null],
+  ];
+
+  it.each(cases)("%s + %s -> %s (%s)", (state, event, next, action) => {
+    expect(getScrobbleTransition(state, event)).toEqual({
+      state: next,
+      action,
+    });
+  });
+});
+
+describe("TraktScrobbler", () => {
+  it("sends start, pause and stop with the current progress", async () => {
+    const { api, calls } = createApi();
+    const scrobbler = new TraktScrobbler(MOVIE, api);
+
+    await scrobbler.dispatch("play", 10);
+    await scrobbler.dispatch("pause", 25.5);
+    await scrobbler.dispatch("play", 25.5);
+    await scrobbler.dispatch("stop", 92);
+
+    expect(calls.map((call) => call.action)).toEqual([
+      "start",
+      "pause",
+      "start",
+      "stop",
+    ]);
+    expect(calls.map((call) => call.data.progress)).toEqual([
+      10, 25.5, 25.5, 92,
+    ]);
+    expect(calls[0].data.movie).toEqual(MOVIE.movie);
+    expect(scrobbler.getState()).toBe("stopped");
+  });
+
+  it("doesn't call the API for events that don't change anything", async () => {
+    const { api } = createApi();
+    const scrobbler = new TraktScrobbler(MOVIE, api);
+
+    await expect(scrobbler.dispatch("pause", 5)).resolves.toBe(true);
+    await scrobbler.dispatch("stop", 5);
+
+    expect(api.scrobble).not.toHaveBeenCalled();
+  });
+
+  it("re-sends the current state after a seek", async () => {
+    const { api, calls } = createApi();
+    const scrobbler = new TraktScrobbler(MOVIE, api);
+
+    await scrobbler.dispatch("play", 0);
+    await scrobbler.dispatch("seek", 40);
+    await scrobbler.dispatch("pause", 41);
+    await scrobbler.dispatch("seek", 60);
+
+    expect(calls.map((call) => [call.action, call.data.progress])).toEqual([
+      ["start", 0],
+      ["start", 40],
+      ["pause", 41],
+      ["pause", 60],
+    ]);
+  });
+
+  it("clamps progress to 0-100", async () => {
+    const { api, calls } = createApi();
+    const scrobbler = new TraktScrobbler(MOVIE, api);
+
+    await scrobbler.dispatch("play", -3);
+    await scrobbler.dispatch("stop", 104);
+
+    expect(calls.map((call) => call.data.progress)).toEqual([0, 100]);
+  });
+
+  it("sends requests one at a time, in order", async () => {
+    const { api, calls, hold, release } = createApi();
+    const scrobbler = new TraktScrobbler(MOVIE, api);
+
+    hold();
+    const start = scrobbler.dispatch("play", 1);
+    const stop = scrobbler.dispatch("stop", 90);
+    await settle();
+
+    expect(calls.map((call) => call.action)).toEqual(["start"]);
+    release();
+    await start;
+    await stop;
+    expect(calls.map((call) => call.action)).toEqual(["start", "stop"]);
+  });
+
+  it("waits for the identity to resolve before scrobbling", async () => {
+    const { api, calls } = createApi();
+    let identify: (media: typeof MOVIE) => void = () => {};
+    const identity = new Promise<typeof MOVIE>((resolve) => {
+      identify = resolve;
+    });
+    const scrobbler = new TraktScrobbler(identity, api);
+
+    const request = scrobbler.dispatch("play", 3);
+    await settle();
+    expect(calls).toHaveLength(0);
+
+    identify(MOVIE);
+    await expect(request).resolves.toBe(true);
+    expect(calls[0].data.movie?.ids?.imdb).toBe("tt0113277");
+  });
+
+  it("drops requests when the title couldn't be identified", async () => {
+    const { api } = createApi();
+    const scrobbler = new TraktScrobbler(Promise.resolve(null), api);
+
+    await expect(scrobbler.dispatch("play", 3)).resolves.toBe(false);
+    await expect(scrobbler.dispatch("stop", 80)).resolves.toBe(false);
+    expect(api.scrobble).not.toHaveBeenCalled();
+  });
+
+  it("reports API failures without blocking later requests", async () => {
+    const api: ScrobbleApi = {
+      scrobble: jest
+        .fn()
+        .mockRejectedValueOnce(new Error("offline"))
+        .mockResolvedValue(true),
+    };
+    const scrobbler = new TraktScrobbler(MOVIE, api);
+
+    await expect(scrobbler.dispatch("play", 1)).rejects.toThrow("offline");
+    await expect(scrobbler.dispatch("pause", 2)).resolves.toBe(true);
+    await scrobbler.flush();
+    expect(api.scrobble).toHaveBeenCalledTimes(2);
+  });
+});
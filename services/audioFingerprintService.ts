@@ -0,0 +1,602 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { SkipMarker } from "@/types";
+
+export interface PcmAudio {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+export interface AudioFingerprint {
+  hashes: number[];
+  frameDuration: number;
+  startTime: number;
+}
+
+export interface EpisodeFingerprints {
+  head: AudioFingerprint;
+  tail?: AudioFingerprint;
+  analyzedAt: number;
+}
+
+export interface SharedSegment {
+  startA: number;
+  endA: number;
+  startB: number;
+  endB: number;
+}
+
+export interface EpisodeAudio {
+  head: PcmAudio;
+  tail?: PcmAudio;
+  tailStartTime?: number;
+}
+
+// Not a skip source until the app can decode audio for the analyser
+export type FingerprintMarker = Omit<SkipMarker, "source"> & {
+  source: "fingerprint";
+};
+
+export type PcmDecoder = (
+  uri: string,
+  startTime: number,
+  duration: number,
+) => Promise<PcmAudio | null>;
+
+const TARGET_SAMPLE_RATE = 11025;
+const FRAME_SIZE = 4096;
+const HOP_SIZE = 1365;
+const MIN_FREQUENCY = 28;
+const MAX_FREQUENCY = 3520;
+const MATCH_BIT_THRESHOLD = 6;
+const MAX_GAP_FRAMES = 5;
+const MIN_INTRO_SECONDS = 15;
+const MAX_INTRO_SECONDS = 180;
+const MIN_OUTRO_SECONDS = 15;
+const MAX_STORED_EPISODES = 8;
+const CANDIDATE_OFFSETS = 16;
+// Bits 0-11 and 24-31 depend only on the frame itself, so they survive a shifted alignment
+const ALIGNMENT_MASK = 0xff000fff;
+const MAX_BUCKET_SIZE = 64;
+
+const STORAGE_KEYS = {
+  FINGERPRINT_PREFIX: "@streamplayer/fingerprint_",
+  MARKERS_PREFIX: "@streamplayer/fingerprint_markers_",
+  INDEX_PREFIX: "@streamplayer/fingerprint_index_",
+};
+
+function getEpisodeKey(
+  imdbId: string,
+  season: number,
+  episode: number,
+): string {
+  return `${imdbId}_s${String(season).padStart(2, "0")}e${String(episode).padStart(2, "0")}`;
+}
+
+function getSeasonKey(imdbId: string, season: number): string {
+  return `${imdbId}_s${String(season).padStart(2, "0")}`;
+}
+
+function resample(audio: PcmAudio): Float32Array {
+  if (audio.sampleRate === TARGET_SAMPLE_RATE) {
+    return audio.samples;
+  }
+
+  // Box-filter each output sample over its input span so downsampling doesn't alias
+  const ratio = audio.sampleRate / TARGET_SAMPLE_RATE;
+  const length = Math.floor(audio.samples.length / ratio);
+  const output = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const start = Math.floor(i * ratio);
+    const end = Math.min(
+      audio.samples.length,
+      Math.max(start + 1, Math.floor((i + 1) * ratio)),
+    );
+    let sum = 0;
+    for (let j = start; j < end; j++) {
+      sum += audio.samples[j];
+    }
+    output[i] = sum / (end - start);
+  }
+  return output;
+}
+
+function fft(real: Float64Array, imag: Float64Array): void {
+  const n = real.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const stepReal = Math.cos(angle);
+    const stepImag = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let wReal = 1;
+      let wImag = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tReal = real[b] * wReal - imag[b] * wImag;
+        const tImag = real[b] * wImag + imag[b] * wReal;
+        real[b] = real[a] - tReal;
+        imag[b] = imag[a] - tImag;
+        real[a] += tReal;
+        imag[a] += tImag;
+        const nextReal = wReal * stepReal - wImag * stepImag;
+        wImag = wReal * stepImag + wImag * stepReal;
+        wReal = nextReal;
+      }
+    }
+  }
+}
+
+function buildChromaBins(): Int8Array {
+  const bins = new Int8Array(FRAME_SIZE / 2).fill(-1);
+  for (let i = 1; i < FRAME_SIZE / 2; i++) {
+    const frequency = (i * TARGET_SAMPLE_RATE) / FRAME_SIZE;
+    if (frequency < MIN_FREQUENCY || frequency > MAX_FREQUENCY) continue;
+    const note = 12 * Math.log2(frequency / 440) + 69;
+    bins[i] = ((Math.round(note) % 12) + 12) % 12;
+  }
+  return bins;
+}
+
+const CHROMA_BINS = buildChromaBins();
+const HANN_WINDOW = Float64Array.from(
+  { length: FRAME_SIZE },
+  (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1)),
+);
+
+function computeChroma(samples: Float32Array, offset: number): Float64Array {
+  const real = new Float64Array(FRAME_SIZE);
+  const imag = new Float64Array(FRAME_SIZE);
+  for (let i = 0; i < FRAME_SIZE; i++) {
+    real[i] = (samples[offset + i] ?? 0) * HANN_WINDOW[i];
+  }
+  fft(real, imag);
+
+  const chroma = new Float64Array(12);
+  for (let i = 1; i < FRAME_SIZE / 2; i++) {
+    const bin = CHROMA_BINS[i];
+    if (bin >= 0) {
+      chroma[bin] += real[i] * real[i] + imag[i] * imag[i];
+    }
+  }
+
+  let norm = 0;
+  for (let i = 0; i < 12; i++) norm += chroma[i] * chroma[i];
+  norm = Math.sqrt(norm);
+  if (norm > 1e-9) {
+    for (let i = 0; i < 12; i++) chroma[i] /= norm;
+  }
+  return chroma;
+}
+
+// Each frame hash packs 32 comparisons between chroma bins and against the previous frame,
+// so the same music yields the same bits regardless of overall loudness
+function hashChroma(chroma: Float64Array, previous: Float64Array): number {
+  let hash = 0;
+  for (let i = 0; i < 12; i++) {
+    if (chroma[i] > chroma[(i + 1) % 12]) hash |= 1 << i;
+    if (chroma[i] > previous[i]) hash |= 1 << (12 + i);
+  }
+  for (let i = 0; i < 8; i++) {
+    if (chroma[i] > chroma[(i + 6) % 12]) hash |= 1 << (24 + i);
+  }
+  return hash >>> 0;
+}
+
+function popcount(value: number): number {
+  let v = value - ((value >>> 1) & 0x55555555);
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+export function createFingerprint(
+  audio: PcmAudio,
+  startTime = 0,
+): AudioFingerprint {
+  const samples = resample(audio);
+  const hashes: number[] = [];
+  let previous: Float64Array = new Float64Array(12);
+
+  for (
+    let offset = 0;
+    offset + FRAME_SIZE <= samples.length;
+    offset += HOP_SIZE
+  ) {
+    const chroma = computeChroma(samples, offset);
+    hashes.push(hashChroma(chroma, previous));
+    previous = chroma;
+  }
+
+  return {
+    hashes,
+    frameDuration: HOP_SIZE / TARGET_SAMPLE_RATE,
+    startTime,
+  };
+}
+
+export function findSharedSegment(
+  a: AudioFingerprint,
+  b: AudioFingerprint,
+  minSeconds: number,
+): SharedSegment | null {
+  const minFrames = Math.ceil(minSeconds / a.frameDuration);
+  if (a.hashes.length < minFrames || b.hashes.length < minFrames) {
+    return null;
+  }
+
+  // Vote for alignments using exact matches on the frame-local bits, then only scan the best ones
+  const positions = new Map<number, number[]>();
+  b.hashes.forEach((hash, index) => {
+    const key = hash & ALIGNMENT_MASK;
+    const list = positions.get(key);
+    if (list) list.push(index);
+    else positions.set(key, [index]);
+  });
+
+  const votes = new Map<number, number>();
+  a.hashes.forEach((hash, index) => {
+    const bucket = positions.get(hash & ALIGNMENT_MASK) ?? [];
+    // Very common hashes (silence, steady tones) say nothing about alignment
+    if (bucket.length > MAX_BUCKET_SIZE) return;
+    for (const bIndex of bucket) {
+      const offset = index - bIndex;
+      votes.set(offset, (votes.get(offset) ?? 0) + 1);
+    }
+  });
+
+  const candidates = [...votes.entries()]
+    .sort((x, y) => y[1] - x[1])
+    .slice(0, CANDIDATE_OFFSETS)
+    .map(([offset]) => offset);
+
+  let best: { offset: number; start: number; end: number } | null = null;
+
+  for (const offset of candidates) {
+    const from = Math.max(0, offset);
+    const to = Math.min(a.hashes.length, b.hashes.length + offset);
+    if (to - from < minFrames) continue;
+
+    let runStart = -1;
+    let lastMatch = -1;
+    for (let i = from; i < to; i++) {
+      const errors = popcount(a.hashes[i] ^ b.hashes[i - offset]);
+      if (errors > MATCH_BIT_THRESHOLD) {
+        if (runStart >= 0 && i - lastMatch > MAX_GAP_FRAMES) {
+          if (!best || lastMatch - runStart > best.end - best.start) {
+            best = { offset, start: runStart, end: lastMatch };
+          }
+          runStart = -1;
+        }
+        continue;
+      }
+      if (runStart < 0) runStart = i;
+      lastMatch = i;
+    }
+    if (
+      runStart >= 0 &&
+      (!best || lastMatch - runStart > best.end - best.start)
+    ) {
+      best = { offset, start: runStart, end: lastMatch };
+    }
+  }
+
+  if (!best || best.end - best.start + 1 < minFrames) {
+    return null;
+  }
+
+  return {
+    startA: a.startTime + best.start * a.frameDuration,
+    endA: a.startTime + (best.end + 1) * a.frameDuration,
+    startB: b.startTime + (best.start - best.offset) * b.frameDuration,
+    endB: b.startTime + (best.end + 1 - best.offset) * b.frameDuration,
+  };
+}
+
+export function detectSharedMarkers(
+  current: EpisodeFingerprints,
+  other: EpisodeFingerprints,
+): { current: FingerprintMarker[]; other: FingerprintMarker[] } {
+  const result: { current: FingerprintMarker[]; other: FingerprintMarker[] } = {
+    current: [],
+    other: [],
+  };
+
+  const intro = findSharedSegment(current.head, other.head, MIN_INTRO_SECONDS);
+  if (intro && intro.endA - intro.startA <= MAX_INTRO_SECONDS) {
+    result.current.push({
+      type: "intro",
+      startTime: intro.startA,
+      endTime: intro.endA,
+      source: "fingerprint",
+    });
+    result.other.push({
+      type: "intro",
+      startTime: intro.startB,
+      endTime: intro.endB,
+      source: "fingerprint",
+    });
+  }
+
+  if (current.tail && other.tail) {
+    const outro = findSharedSegment(
+      current.tail,
+      other.tail,
+      MIN_OUTRO_SECONDS,
+    );
+    if (outro) {
+      result.current.push({
+        type: "credits",
+        startTime: outro.startA,
+        endTime: outro.endA,
+        source: "fingerprint",
+      });
+      result.other.push({
+        type: "credits",
+        startTime: outro.startB,
+        endTime: outro.endB,
+        source: "fingerprint",
+      });
+    }
+  }
+
+  return result;
+}
+
+class AudioFingerprintService {
+  private decoder: PcmDecoder | null = null;
+  private inFlight: Map<string, Promise<FingerprintMarker[]>> = new Map();
+
+  readonly introWindowSeconds = 10 * 60;
+  readonly outroWindowSeconds = 5 * 60;
+
+  // Decoding needs a native module the app doesn't ship yet, so the player doesn't run the analyser
+  setPcmDecoder(decoder: PcmDecoder | null): void {
+    this.decoder = decoder;
+  }
+
+  hasPcmDecoder(): boolean {
+    return this.decoder !== null;
+  }
+
+  async getMarkersForEpisode(
+    imdbId: string,
+    season: number,
+    episode: number,
+  ): Promise<FingerprintMarker[]> {
+    try {
+      const data = await AsyncStorage.getItem(
+        `${STORAGE_KEYS.MARKERS_PREFIX}${getEpisodeKey(imdbId, season, episode)}`,
+      );
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error("Failed to load fingerprint markers:", error);
+      return [];
+    }
+  }
+
+  async analyzeFromUri(
+    uri: string,
+    imdbId: string,
+    season: number,
+    episode: number,
+    duration: number,
+  ): Promise<FingerprintMarker[]> {
+    const decoder = this.decoder;
+    if (!decoder) {
+      return [];
+    }
+
+    const key = getEpisodeKey(imdbId, season, episode);
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const task = (async () => {
+      const existing = await this.loadFingerprints(imdbId, season, episode);
+      if (existing) {
+        return this.getMarkersForEpisode(imdbId, season, episode);
+      }
+
+      const head = await decoder(uri, 0, this.introWindowSeconds);
+      if (!head) {
+        return [];
+      }
+
+      let tail: PcmAudio | null = null;
+      let tailStartTime: number | undefined;
+      if (duration > this.introWindowSeconds + this.outroWindowSeconds) {
+        tailStartTime = duration - this.outroWindowSeconds;
+        tail = await decoder(uri, tailStartTime, this.outroWindowSeconds);
+      }
+
+      return this.analyzeEpisode(imdbId, season, episode, {
+        head,
+        tail: tail ?? undefined,
+        tailStartTime,
+      });
+    })();
+
+    this.inFlight.set(key, task);
+    try {
+      return await task;
+    } catch (error) {
+      console.error("Failed to analyze episode audio:", error);
+      return [];
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  async analyzeEpisode(
+    imdbId: string,
+    season: number,
+    episode: number,
+    audio: EpisodeAudio,
+  ): Promise<FingerprintMarker[]> {
+    const fingerprints: EpisodeFingerprints = {
+      head: createFingerprint(audio.head, 0),
+      tail: audio.tail
+        ? createFingerprint(audio.tail, audio.tailStartTime ?? 0)
+        : undefined,
+      analyzedAt: Date.now(),
+    };
+    await this.saveFingerprints(imdbId, season, episode, fingerprints);
+
+    const others = (await this.loadSeasonIndex(imdbId, season)).filter(
+      (e) => e !== episode,
+    );
+
+    let markers: FingerprintMarker[] = [];
+    for (const otherEpisode of others) {
+      const other = await this.loadFingerprints(imdbId, season, otherEpisode);
+      if (!other) continue;
+
+      const shared = detectSharedMarkers(fingerprints, other);
+      if (shared.current.length === 0) continue;
+
+      markers = mergeByType(markers, shared.current);
+
+      const otherMarkers = await this.getMarkersForEpisode(
+        imdbId,
+        season,
+        otherEpisode,
+      );
+      await this.saveMarkers(
+        imdbId,
+        season,
+        otherEpisode,
+        mergeByType(otherMarkers, shared.other),
+      );
+
+      if (
+        markers.some((m) => m.type === "intro") &&
+        (!fingerprints.tail || markers.some((m) => m.type === "credits"))
+      ) {
+        break;
+      }
+    }
+
+    await this.saveMarkers(imdbId, season, episode, markers);
+    return markers;
+  }
+
+  async clearSeason(imdbId: string, season: number): Promise<void> {
+    try {
+      const episodes = await this.loadSeasonIndex(imdbId, season);
+      await AsyncStorage.multiRemove([
+        `${STORAGE_KEYS.INDEX_PREFIX}${getSeasonKey(imdbId, season)}`,
+        ...episodes.flatMap((episode) => [
+          `${STORAGE_KEYS.FINGERPRINT_PREFIX}${getEpisodeKey(imdbId, season, episode)}`,
+          `${STORAGE_KEYS.MARKERS_PREFIX}${getEpisodeKey(imdbId, season, episode)}`,
+        ]),
+      ]);
+    } catch (error) {
+      console.error("Failed to clear fingerprints:", error);
+    }
+  }
+
+  private async loadSeasonIndex(
+    imdbId: string,
+    season: number,
+  ): Promise<number[]> {
+    try {
+      const data = await AsyncStorage.getItem(
+        `${STORAGE_KEYS.INDEX_PREFIX}${getSeasonKey(imdbId, season)}`,
+      );
+      return data ? JSON.parse(data) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private async loadFingerprints(
+    imdbId: string,
+    season: number,
+    episode: number,
+  ): Promise<EpisodeFingerprints | null> {
+    try {
+      const data = await AsyncStorage.getItem(
+        `${STORAGE_KEYS.FINGERPRINT_PREFIX}${getEpisodeKey(imdbId, season, episode)}`,
+      );
+      return data ? JSON.parse(data) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async saveFingerprints(
+    imdbId: string,
+    season: number,
+    episode: number,
+    fingerprints: EpisodeFingerprints,
+  ): Promise<void> {
+    try {
+      await AsyncStorage.setItem(
+        `${STORAGE_KEYS.FINGERPRINT_PREFIX}${getEpisodeKey(imdbId, season, episode)}`,
+        JSON.stringify(fingerprints),
+      );
+
+      // Keep only the most recently analysed episodes of a season to bound storage
+      const index = [
+        episode,
+        ...(await this.loadSeasonIndex(imdbId, season)).filter(
+          (e) => e !== episode,
+        ),
+      ];
+      const evicted = index.slice(MAX_STORED_EPISODES);
+      await AsyncStorage.setItem(
+        `${STORAGE_KEYS.INDEX_PREFIX}${getSeasonKey(imdbId, season)}`,
+        JSON.stringify(index.slice(0, MAX_STORED_EPISODES)),
+      );
+      if (evicted.length > 0) {
+        await AsyncStorage.multiRemove(
+          evicted.map(
+            (e) =>
+              `${STORAGE_KEYS.FINGERPRINT_PREFIX}${getEpisodeKey(imdbId, season, e)}`,
+          ),
+        );
+      }
+    } catch (error) {
+      console.error("Failed to save fingerprints:", error);
+    }
+  }
+
+  private async saveMarkers(
+    imdbId: string,
+    season: number,
+    episode: number,
+    markers: FingerprintMarker[],
+  ): Promise<void> {
+    try {
+      await AsyncStorage.setItem(
+        `${STORAGE_KEYS.MARKERS_PREFIX}${getEpisodeKey(imdbId, season, episode)}`,
+        JSON.stringify(markers),
+      );
+    } catch (error) {
+      console.error("Failed to save fingerprint markers:", error);
+    }
+  }
+}
+
+function mergeByType(
+  existing: FingerprintMarker[],
+  incoming: FingerprintMarker[],
+): FingerprintMarker[] {
+  const types = new Set(existing.map((m) => m.type));
+  return [...existing, ...incoming.filter((m) => !types.has(m.type))];
+}
+
+export const audioFingerprintService = new AudioFingerprintService();
@@ -0,0 +1,460 @@
+import { File, Paths } from "expo-file-system";
+import * as DocumentPicker from "expo-document-picker";
+import * as Sharing from "expo-sharing";
+import { getRandomBytes } from "expo-crypto";
+import { gcm } from "@noble/ciphers/aes";
+import { bytesToUtf8, utf8ToBytes } from "@noble/ciphers/utils";
+import { scryptAsync } from "@noble/hashes/scrypt";
+
+import { httpClient } from "@/services/httpClient";
+import { traktService } from "@/services/traktService";
+import { progressRepository } from "@/services/progressRepository";
+import {
+  clearStoredData,
+  loadDebridSettings,
+  loadSettingsSections,
+  loadStoredData,
+  loadTraktCredentials,
+  normalizeSettingsDocument,
+  saveDebridSettings,
+  saveSettingsSections,
+  saveStoredData,
+  saveTraktCredentials,
+  StoredDataKind,
+} from "@/storage/settingsStorage";
+import { CURRENT_SETTINGS_VERSION } from "@/storage/settingsMigrations";
+import { SettingsSections } from "@/storage/settingsSchema";
+import { DebridAccountSetting } from "@/types";
+
+const BACKUP_FORMAT = "streamplayer-backup";
+const BACKUP_VERSION = 1;
+const STORED_DATA_KINDS: StoredDataKind[] = [
+  "manualSkips",
+  "showSkips",
+  "positions",
+  "progress",
+];
+// Written into each backup so the cost can be raised later without breaking old files
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const NONCE_LENGTH = 12;
+
+export type ImportMode = "merge" | "replace";
+
+export type BackupErrorKind = "invalid" | "unsupported" | "wrong_passphrase";
+
+export class BackupError extends Error {
+  readonly kind: BackupErrorKind;
+
+  constructor(kind: BackupErrorKind, message: string) {
+    super(message);
+    this.name = "BackupError";
+    this.kind = kind;
+  }
+}
+
+export function isBackupError(
+  error: unknown,
+  kind?: BackupErrorKind,
+): error is BackupError {
+  return (
+    error instanceof BackupError && (kind === undefined || error.kind === kind)
+  );
+}
+
+interface BackupSecrets {
+  traktAccessToken: string | null;
+  traktRefreshToken: string | null;
+  // By debrid account id
+  debridApiKeys: Record<string, string>;
+}
+
+interface EncryptedSecrets {
+  kdf: "scrypt";
+  N: number;
+  r: number;
+  p: number;
+  salt: string;
+  nonce: string;
+  // AES-256-GCM ciphertext of the JSON encoded BackupSecrets
+  data: string;
+}
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  settingsVersion: number;
+  // Never holds secrets; those are only in the encrypted block
+  // Checked against the schema on import, once migrated from settingsVersion
+  settings: Partial<SettingsSections>;
+  data: Record<StoredDataKind, Record<string, unknown>>;
+  secrets?: EncryptedSecrets;
+}
+
+export interface ImportSummary {
+  entries: number;
+  secrets: "restored" | "skipped" | "none";
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+}
+
+async function encryptSecrets(
+  secrets: BackupSecrets,
+  passphrase: string,
+): Promise<EncryptedSecrets> {
+  const salt = getRandomBytes(SALT_LENGTH);
+  const nonce = getRandomBytes(NONCE_LENGTH);
+  const key = await scryptAsync(passphrase, salt, {
+    ...SCRYPT_PARAMS,
+    dkLen: KEY_LENGTH,
+  });
+  const data = gcm(key, nonce, utf8ToBytes(BACKUP_FORMAT)).encrypt(
+    utf8ToBytes(JSON.stringify(secrets)),
+  );
+  return {
+    kdf: "scrypt",
+    ...SCRYPT_PARAMS,
+    salt: toBase64(salt),
+    nonce: toBase64(nonce),
+    data: toBase64(data),
+  };
+}
+
+async function decryptSecrets(
+  encrypted: EncryptedSecrets,
+  passphrase: string,
+): Promise<BackupSecrets> {
+  // Parameters come from the file, so absurd ones are refused rather than left to exhaust memory
+  if (
+    encrypted.kdf !== "scrypt" ||
+    !(encrypted.N >= 2 ** 10 && encrypted.N <= 2 ** 20) ||
+    !(encrypted.r >= 1 && encrypted.r <= 16) ||
+    !(encrypted.p >= 1 && encrypted.p <= 4)
+  ) {
+    throw new BackupError(
+      "unsupported",
+      "The secrets in this backup are encrypted in a way this version can't read.",
+    );
+  }
+
+  const key = await scryptAsync(passphrase, fromBase64(encrypted.salt), {
+    N: encrypted.N,
+    r: encrypted.r,
+    p: encrypted.p,
+    dkLen: KEY_LENGTH,
+  });
+
+  let plaintext: Uint8Array;
+  try {
+    plaintext = gcm(
+      key,
+      fromBase64(encrypted.nonce),
+      utf8ToBytes(BACKUP_FORMAT),
+    ).decrypt(fromBase64(encrypted.data));
+  } catch {
+    throw new BackupError(
+      "wrong_passphrase",
+      "The passphrase doesn't match the one this backup was made with.",
+    );
+  }
+
+  const secrets: unknown = JSON.parse(bytesToUtf8(plaintext));
+  if (!isRecord(secrets)) {
+    throw new BackupError("invalid", "The secrets in this backup are damaged.");
+  }
+  return {
+    traktAccessToken:
+      typeof secrets.traktAccessToken === "string"
+        ? secrets.traktAccessToken
+        : null,
+    traktRefreshToken:
+      typeof secrets.traktRefreshToken === "string"
+        ? secrets.traktRefreshToken
+        : null,
+    debridApiKeys: isRecord(secrets.debridApiKeys)
+      ? Object.fromEntries(
+          Object.entries(secrets.debridApiKeys).filter(
+            (entry): entry is [string, string] => typeof entry[1] === "string",
+          ),
+        )
+      : {},
+  };
+}
+
+// The key derivation parameters are checked when decrypting, where a mismatch reads as unsupported
+function isEncryptedSecrets(value: unknown): value is EncryptedSecrets {
+  return (
+    isRecord(value) &&
+    typeof value.salt === "string" &&
+    typeof value.nonce === "string" &&
+    typeof value.data === "string"
+  );
+}
+
+export function parseBackup(value: unknown): BackupFile {
+  if (!isRecord(value) || value.format !== BACKUP_FORMAT) {
+    throw new BackupError("invalid", "This isn't a StreamPlayer backup.");
+  }
+  if (typeof value.version !== "number" || value.version > BACKUP_VERSION) {
+    throw new BackupError(
+      "unsupported",
+      "This backup was made by a newer version of StreamPlayer.",
+    );
+  }
+
+  const data = isRecord(value.data) ? value.data : {};
+  return {
+    format: BACKUP_FORMAT,
+    version: value.version,
+    createdAt: typeof value.createdAt === "number" ? value.createdAt : 0,
+    settingsVersion:
+      typeof value.settingsVersion === "number" ? value.settingsVersion : 0,
+    settings: isRecord(value.settings) ? value.settings : {},
+    data: Object.fromEntries(
+      STORED_DATA_KINDS.map((kind) => [
+        kind,
+        isRecord(data[kind]) ? data[kind] : {},
+      ]),
+    ) as BackupFile["data"],
+    secrets: isEncryptedSecrets(value.secrets) ? value.secrets : undefined,
+  };
+}
+
+// Positions are bare numbers; everything else is a record with its own timestamp
+function isValidEntry(kind: StoredDataKind, value: unknown): boolean {
+  return kind === "positions"
+    ? typeof value === "number" && Number.isFinite(value)
+    : isRecord(value);
+}
+
+function getUpdatedAt(value: unknown): number {
+  if (!isRecord(value)) return 0;
+  const updatedAt = value.lastUpdated ?? value.updatedAt;
+  return typeof updatedAt === "number" ? updatedAt : 0;
+}
+
+function mergeById<T extends { id: string }>(local: T[], imported: T[]): T[] {
+  return [
+    ...local,
+    ...imported.filter((item) => !local.some((own) => own.id === item.id)),
+  ];
+}
+
+// Local settings win; lists keyed by id gain the entries from the backup they lack
+function mergeSettings(
+  local: SettingsSections,
+  imported: SettingsSections,
+): SettingsSections {
+  return {
+    ...local,
+    skip: {
+      ...local.skip,
+      communityProviders: mergeById(
+        local.skip.communityProviders,
+        imported.skip.communityProviders,
+      ),
+    },
+    sources: {
+      ...local.sources,
+      addons: mergeById(local.sources.addons, imported.sources.addons),
+    },
+  };
+}
+
+function getBackupFileName(createdAt: number): string {
+  return `streamplayer-backup-${new Date(createdAt).toISOString().slice(0, 10)}.json`;
+}
+
+class BackupService {
+  // Secrets are only included, encrypted, when a passphrase is given
+  async createBackup(passphrase?: string): Promise<BackupFile> {
+    await progressRepository.flush();
+    const [settings, trakt, debrid, ...data] = await Promise.all([
+      loadSettingsSections(),
+      loadTraktCredentials(),
+      loadDebridSettings(),
+      ...STORED_DATA_KINDS.map((kind) => loadStoredData(kind)),
+    ]);
+
+    const backup: BackupFile = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: Date.now(),
+      settingsVersion: CURRENT_SETTINGS_VERSION,
+      settings,
+      data: Object.fromEntries(
+        STORED_DATA_KINDS.map((kind, index) => [kind, data[index]]),
+      ) as BackupFile["data"],
+    };
+
+    if (passphrase) {
+      backup.secrets = await encryptSecrets(
+        {
+          traktAccessToken: trakt.accessToken,
+          traktRefreshToken: trakt.refreshToken,
+          debridApiKeys: Object.fromEntries(
+            debrid.accounts
+              .filter((account) => account.apiKey)
+              .map((account) => [account.id, account.apiKey]),
+          ),
+        },
+        passphrase,
+      );
+    }
+    return backup;
+  }
+
+  // Writes the backup to a JSON file and opens the share sheet for it
+  async exportToFile(passphrase?: string): Promise<void> {
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error("Sharing files isn't available on this device.");
+    }
+
+    const backup = await this.createBackup(passphrase);
+    const file = new File(Paths.cache, getBackupFileName(backup.createdAt));
+    file.create({ overwrite: true });
+    file.write(JSON.stringify(backup));
+    await Sharing.shareAsync(file.uri, {
+      mimeType: "application/json",
+      dialogTitle: "Export StreamPlayer Backup",
+      UTI: "public.json",
+    });
+  }
+
+  // Resolves to null when the picker is dismissed
+  async pickBackupFile(): Promise<BackupFile | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+      // File managers on TV boxes rarely label JSON files as such
+      type: "*/*",
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled || result.assets.length === 0) {
+      return null;
+    }
+
+    const text = await new File(result.assets[0].uri).text();
+    try {
+      return parseBackup(JSON.parse(text));
+    } catch (error) {
+      if (isBackupError(error)) throw error;
+      throw new BackupError("invalid", "This file isn't valid JSON.");
+    }
+  }
+
+  // For TV boxes without a file browser, the box pulls the exported file from any device on the
+  // network that serves it. Showing a QR code and having the box receive a pushed file are out of
+  // scope: a backup with skips and progress is far larger than a QR code holds, and accepting a
+  // push would need a native socket server module this app doesn't ship
+  async fetchBackup(url: string): Promise<BackupFile> {
+    const data = await httpClient.requestJson<unknown>(url.trim(), {
+      timeoutMs: 20000,
+      retries: 1,
+    });
+    return parseBackup(data);
+  }
+
+  async importBackup(
+    backup: BackupFile,
+    mode: ImportMode,
+    passphrase?: string,
+  ): Promise<ImportSummary> {
+    // Decrypted first, so a wrong passphrase leaves everything untouched
+    const secrets =
+      backup.secrets && passphrase
+        ? await decryptSecrets(backup.secrets, passphrase)
+        : null;
+
+    const [imported, local, trakt, debrid] = await Promise.all([
+      normalizeSettingsDocument({
+        ...backup.settings,
+        version: backup.settingsVersion,
+      }),
+      loadSettingsSections(),
+      loadTraktCredentials(),
+      loadDebridSettings(),
+    ]);
+
+    const sections =
+      mode === "replace" ? imported : mergeSettings(local, imported);
+    await saveSettingsSections({
+      ...sections,
+      trakt: local.trakt,
+      debrid: local.debrid,
+    });
+
+    // Accounts keep the key already on this device when the backup has none for them
+    const localKeys = new Map(
+      debrid.accounts.map((account) => [account.id, account.apiKey]),
+    );
+    const withKey = (account: DebridAccountSetting): DebridAccountSetting => {
+      const apiKey =
+        secrets?.debridApiKeys[account.id] ?? localKeys.get(account.id) ?? "";
+      return {
+        ...account,
+        apiKey,
+        isConnected: account.isConnected && !!apiKey,
+      };
+    };
+    await saveDebridSettings({
+      accounts:
+        mode === "replace"
+          ? imported.debrid.accounts.map(withKey)
+          : mergeById(debrid.accounts, imported.debrid.accounts.map(withKey)),
+    });
+
+    if (
+      secrets?.traktAccessToken &&
+      (mode === "replace" || !trakt.accessToken)
+    ) {
+      await saveTraktCredentials({
+        ...imported.trakt,
+        accessToken: secrets.traktAccessToken,
+        refreshToken: secrets.traktRefreshToken,
+      });
+      await traktService.reloadCredentials();
+    }
+
+    // Positions still waiting to be written would otherwise land on top of the imported ones
+    await progressRepository.flush();
+    let entries = 0;
+    for (const kind of STORED_DATA_KINDS) {
+      const incoming = Object.entries(backup.data[kind]).filter(([, value]) =>
+        isValidEntry(kind, value),
+      );
+      const existing = mode === "merge" ? await loadStoredData(kind) : {};
+      const accepted = incoming.filter(
+        ([id, value]) =>
+          !(id in existing) || getUpdatedAt(value) > getUpdatedAt(existing[id]),
+      );
+
+      if (mode === "replace") {
+        await clearStoredData(kind);
+      }
+      await saveStoredData(kind, Object.fromEntries(accepted));
+      entries += accepted.length;
+    }
+
+    return {
+      entries,
+      secrets: secrets ? "restored" : backup.secrets ? "skipped" : "none",
+    };
+  }
+}
+
+export const backupService = new BackupService();
@@ -0,0 +1,834 @@
+import { ChapterData, SkipMarker, SkipType } from "@/types";
+
+const EBML_MAGIC = 0x1a45dfa3;
+
+const EBML_IDS = {
+  SEGMENT: 0x18538067,
+  SEEK_HEAD: 0x114d9b74,
+  SEEK: 0x4dbb,
+  SEEK_ID: 0x53ab,
+  SEEK_POSITION: 0x53ac,
+  INFO: 0x1549a966,
+  TIMECODE_SCALE: 0x2ad7b1,
+  DURATION: 0x4489,
+  CHAPTERS: 0x1043a770,
+  EDITION_ENTRY: 0x45b9,
+  EDITION_FLAG_DEFAULT: 0x45db,
+  CHAPTER_ATOM: 0xb6,
+  CHAPTER_TIME_START: 0x91,
+  CHAPTER_TIME_END: 0x92,
+  CHAPTER_FLAG_HIDDEN: 0x98,
+  CHAPTER_FLAG_ENABLED: 0x4598,
+  CHAPTER_DISPLAY: 0x80,
+  CHAP_STRING: 0x85,
+  CLUSTER: 0x1f43b675,
+};
+
+const HEAD_READ_SIZE = 64 * 1024;
+const MAX_ELEMENT_READ_SIZE = 32 * 1024 * 1024;
+const MAX_CHAPTER_SAMPLES = 512;
+
+const CHAPTER_TITLE_PATTERNS: { type: SkipType; pattern: RegExp }[] = [
+  {
+    type: "recap",
+    pattern:
+      /^(recap|previously( on( .*)?)?|last time( on( .*)?)?|story so far)$/,
+  },
+  {
+    type: "intro",
+    pattern:
+      /^(opening|op|intro|introduction|title sequence|main titles?|opening (theme|song|credits|titles?))( ?\d+)?$/,
+  },
+  {
+    type: "credits",
+    pattern:
+      /^(ending|ed|credits|end credits|closing credits|outro|ending (theme|song|credits))( ?\d+)?$/,
+  },
+  {
+    type: "preview",
+    pattern:
+      /^(preview|next episode( preview)?|next time( on( .*)?)?|trailer)$/,
+  },
+];
+
+interface ByteRange {
+  data: DataView;
+  start: number;
+  totalSize: number | null;
+}
+
+interface EbmlElement {
+  id: number;
+  dataStart: number;
+  size: number | null;
+  headerSize: number;
+}
+
+interface Mp4Box {
+  type: string;
+  start: number;
+  dataStart: number;
+  end: number;
+}
+
+export function classifyChapterTitle(title: string): SkipType | null {
+  const normalized = title
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  for (const { type, pattern } of CHAPTER_TITLE_PATTERNS) {
+    if (pattern.test(normalized)) {
+      return type;
+    }
+  }
+  return null;
+}
+
+export function chaptersToSkipMarkers(chapters: ChapterData[]): SkipMarker[] {
+  const markers: SkipMarker[] = [];
+
+  for (const chapter of chapters) {
+    const type = classifyChapterTitle(chapter.title);
+    if (!type || chapter.endTime <= chapter.startTime) {
+      continue;
+    }
+
+    // Consecutive chapters of the same kind (e.g. "OP" + "OP 2") become one marker
+    const previous = markers[markers.length - 1];
+    if (
+      previous &&
+      previous.type === type &&
+      Math.abs(previous.endTime - chapter.startTime) < 1
+    ) {
+      previous.endTime = chapter.endTime;
+      continue;
+    }
+
+    markers.push({
+      type,
+      startTime: chapter.startTime,
+      endTime: chapter.endTime,
+      source: "chapter",
+    });
+  }
+
+  return markers;
+}
+
+function fillChapterEndTimes(
+  chapters: { title: string; startTime: number; endTime?: number }[],
+  duration: number,
+): ChapterData[] {
+  const sorted = [...chapters].sort((a, b) => a.startTime - b.startTime);
+  return sorted.map((chapter, index) => {
+    const next = sorted[index + 1];
+    const endTime =
+      chapter.endTime && chapter.endTime > chapter.startTime
+        ? chapter.endTime
+        : next
+          ? next.startTime
+          : duration;
+    return {
+      title: chapter.title,
+      startTime: chapter.startTime,
+      endTime: Math.max(chapter.startTime, endTime),
+    };
+  });
+}
+
+function readVint(
+  view: DataView,
+  offset: number,
+  keepMarker: boolean,
+): { value: number | null; length: number } | null {
+  if (offset >= view.byteLength) return null;
+  const first = view.getUint8(offset);
+  let length = 1;
+  let mask = 0x80;
+  while (length <= 8 && !(first & mask)) {
+    length++;
+    mask >>= 1;
+  }
+  if (length > 8 || offset + length > view.byteLength) return null;
+
+  let value = keepMarker ? first : first & (mask - 1);
+  let allOnes = (first & (mask - 1)) === mask - 1;
+  for (let i = 1; i < length; i++) {
+    const byte = view.getUint8(offset + i);
+    if (byte !== 0xff) allOnes = false;
+    value = value * 256 + byte;
+  }
+
+  // An all-ones size means "unknown size" (live streams, unfinalised segments)
+  return { value: !keepMarker && allOnes ? null : value, length };
+}
+
+function readEbmlElement(view: DataView, offset: number): EbmlElement | null {
+  const id = readVint(view, offset, true);
+  if (!id || id.value === null) return null;
+  const size = readVint(view, offset + id.length, false);
+  if (!size) return null;
+  return {
+    id: id.value,
+    dataStart: offset + id.length + size.length,
+    size: size.value,
+    headerSize: id.length + size.length,
+  };
+}
+
+function readUint(view: DataView, offset: number, size: number): number {
+  let value = 0;
+  for (let i = 0; i < size; i++) {
+    value = value * 256 + view.getUint8(offset + i);
+  }
+  return value;
+}
+
+function readFloat(view: DataView, offset: number, size: number): number {
+  if (size === 4) return view.getFloat32(offset);
+  if (size === 8) return view.getFloat64(offset);
+  return 0;
+}
+
+function readUtf8(view: DataView, offset: number, size: number): string {
+  // Hermes has no TextDecoder, so titles are decoded by hand
+  let result = "";
+  let i = offset;
+  const end = offset + size;
+  while (i < end) {
+    const byte = view.getUint8(i);
+    let codePoint = byte;
+    let extra = 0;
+    if (byte >= 0xf0) {
+      codePoint = byte & 0x07;
+      extra = 3;
+    } else if (byte >= 0xe0) {
+      codePoint = byte & 0x0f;
+      extra = 2;
+    } else if (byte >= 0xc0) {
+      codePoint = byte & 0x1f;
+      extra = 1;
+    }
+    for (let j = 1; j <= extra && i + j < end; j++) {
+      codePoint = (codePoint << 6) | (view.getUint8(i + j) & 0x3f);
+    }
+    result += String.fromCodePoint(codePoint);
+    i += extra + 1;
+  }
+  return result.replace(/\0+$/, "");
+}
+
+function forEachEbmlChild(
+  view: DataView,
+  start: number,
+  end: number,
+  callback: (element: EbmlElement) => void,
+): void {
+  let offset = start;
+  while (offset < end) {
+    const element = readEbmlElement(view, offset);
+    if (!element || element.size === null) return;
+    callback(element);
+    offset = element.dataStart + element.size;
+  }
+}
+
+function parseMatroskaChapters(
+  view: DataView,
+  element: EbmlElement,
+): { title: string; startTime: number; endTime?: number }[] {
+  const end = element.dataStart + (element.size ?? 0);
+  const editions: {
+    isDefault: boolean;
+    chapters: { title: string; startTime: number; endTime?: number }[];
+  }[] = [];
+
+  forEachEbmlChild(view, element.dataStart, end, (edition) => {
+    if (edition.id !== EBML_IDS.EDITION_ENTRY || edition.size === null) return;
+    const parsed: (typeof editions)[number] = {
+      isDefault: false,
+      chapters: [],
+    };
+
+    forEachEbmlChild(
+      view,
+      edition.dataStart,
+      edition.dataStart + edition.size,
+      (child) => {
+        if (child.size === null) return;
+        if (child.id === EBML_IDS.EDITION_FLAG_DEFAULT) {
+          parsed.isDefault = readUint(view, child.dataStart, child.size) === 1;
+          return;
+        }
+        if (child.id !== EBML_IDS.CHAPTER_ATOM) return;
+
+        let startTime = 0;
+        let endTime: number | undefined;
+        let title = "";
+        let hidden = false;
+        let enabled = true;
+
+        forEachEbmlChild(
+          view,
+          child.dataStart,
+          child.dataStart + child.size,
+          (field) => {
+            if (field.size === null) return;
+            switch (field.id) {
+              case EBML_IDS.CHAPTER_TIME_START:
+                startTime = readUint(view, field.dataStart, field.size) / 1e9;
+                break;
+              case EBML_IDS.CHAPTER_TIME_END:
+                endTime = readUint(view, field.dataStart, field.size) / 1e9;
+                break;
+              case EBML_IDS.CHAPTER_FLAG_HIDDEN:
+                hidden = readUint(view, field.dataStart, field.size) === 1;
+                break;
+              case EBML_IDS.CHAPTER_FLAG_ENABLED:
+                enabled = readUint(view, field.dataStart, field.size) === 1;
+                break;
+              case EBML_IDS.CHAPTER_DISPLAY:
+                forEachEbmlChild(
+                  view,
+                  field.dataStart,
+                  field.dataStart + field.size,
+                  (display) => {
+                    if (
+                      !title &&
+                      display.id === EBML_IDS.CHAP_STRING &&
+                      display.size !== null
+                    ) {
+                      title = readUtf8(view, display.dataStart, display.size);
+                    }
+                  },
+                );
+                break;
+            }
+          },
+        );
+
+        if (!hidden && enabled) {
+          parsed.chapters.push({ title, startTime, endTime });
+        }
+      },
+    );
+
+    editions.push(parsed);
+  });
+
+  const edition = editions.find((e) => e.isDefault) ?? editions[0];
+  return edition?.chapters ?? [];
+}
+
+function parseMatroskaDuration(view: DataView, element: EbmlElement): number {
+  let timecodeScale = 1000000;
+  let duration = 0;
+  forEachEbmlChild(
+    view,
+    element.dataStart,
+    element.dataStart + (element.size ?? 0),
+    (child) => {
+      if (child.size === null) return;
+      if (child.id === EBML_IDS.TIMECODE_SCALE) {
+        timecodeScale = readUint(view, child.dataStart, child.size);
+      } else if (child.id === EBML_IDS.DURATION) {
+        duration = readFloat(view, child.dataStart, child.size);
+      }
+    },
+  );
+  return (duration * timecodeScale) / 1e9;
+}
+
+function readMp4BoxHeader(
+  view: DataView,
+  offset: number,
+  limit: number,
+): Mp4Box | null {
+  if (offset + 8 > view.byteLength) return null;
+  let size = view.getUint32(offset);
+  const type = String.fromCharCode(
+    view.getUint8(offset + 4),
+    view.getUint8(offset + 5),
+    view.getUint8(offset + 6),
+    view.getUint8(offset + 7),
+  );
+  let headerSize = 8;
+  if (size === 1) {
+    if (offset + 16 > view.byteLength) return null;
+    size =
+      view.getUint32(offset + 8) * 0x100000000 + view.getUint32(offset + 12);
+    headerSize = 16;
+  } else if (size === 0) {
+    size = limit - offset;
+  }
+  if (size < headerSize) return null;
+  return {
+    type,
+    start: offset,
+    dataStart: offset + headerSize,
+    end: offset + size,
+  };
+}
+
+function findMp4Children(view: DataView, start: number, end: number): Mp4Box[] {
+  const boxes: Mp4Box[] = [];
+  let offset = start;
+  while (offset < end) {
+    const box = readMp4BoxHeader(view, offset, end);
+    if (!box || box.end > end) break;
+    boxes.push(box);
+    offset = box.end;
+  }
+  return boxes;
+}
+
+function findMp4Path(
+  view: DataView,
+  parent: Mp4Box,
+  path: string[],
+): Mp4Box | null {
+  let current: Mp4Box | null = parent;
+  for (const type of path) {
+    if (!current) return null;
+    const children = findMp4Children(view, current.dataStart, current.end);
+    current = children.find((child) => child.type === type) ?? null;
+  }
+  return current;
+}
+
+function parseMvhdDuration(view: DataView, moov: Mp4Box): number {
+  const mvhd = findMp4Path(view, moov, ["mvhd"]);
+  if (!mvhd) return 0;
+  const version = view.getUint8(mvhd.dataStart);
+  if (version === 1) {
+    const timescale = view.getUint32(mvhd.dataStart + 20);
+    const duration =
+      view.getUint32(mvhd.dataStart + 24) * 0x100000000 +
+      view.getUint32(mvhd.dataStart + 28);
+    return timescale ? duration / timescale : 0;
+  }
+  const timescale = view.getUint32(mvhd.dataStart + 12);
+  const duration = view.getUint32(mvhd.dataStart + 16);
+  return timescale ? duration / timescale : 0;
+}
+
+// Nero-style chapter list (moov/udta/chpl), written by mp4v2, ffmpeg and mkvtoolnix
+function parseNeroChapters(
+  view: DataView,
+  moov: Mp4Box,
+): { title: string; startTime: number }[] {
+  const chpl = findMp4Path(view, moov, ["udta", "chpl"]);
+  if (!chpl) return [];
+
+  let offset = chpl.dataStart;
+  const version = view.getUint8(offset);
+  offset += 4;
+  if (version > 0) offset += 4;
+  const count = view.getUint8(offset);
+  offset += 1;
+
+  const chapters: { title: string; startTime: number }[] = [];
+  for (let i = 0; i < count && offset + 9 <= chpl.end; i++) {
+    const start =
+      view.getUint32(offset) * 0x100000000 + view.getUint32(offset + 4);
+    const titleLength = view.getUint8(offset + 8);
+    offset += 9;
+    if (offset + titleLength > chpl.end) break;
+    chapters.push({
+      title: readUtf8(view, offset, titleLength),
+      startTime: start / 1e7,
+    });
+    offset += titleLength;
+  }
+  return chapters;
+}
+
+interface QuickTimeChapterTrack {
+  timescale: number;
+  sampleDurations: number[];
+  sampleSizes: number[];
+  sampleOffsets: number[];
+}
+
+// QuickTime chapter tracks (tref/chap -> text track), written by HandBrake and Apple tools
+function findQuickTimeChapterTrack(
+  view: DataView,
+  moov: Mp4Box,
+): QuickTimeChapterTrack | null {
+  const traks = findMp4Children(view, moov.dataStart, moov.end).filter(
+    (box) => box.type === "trak",
+  );
+
+  let chapterTrackId: number | null = null;
+  for (const trak of traks) {
+    const chap = findMp4Path(view, trak, ["tref", "chap"]);
+    if (chap && chap.end - chap.dataStart >= 4) {
+      chapterTrackId = view.getUint32(chap.dataStart);
+      break;
+    }
+  }
+  if (chapterTrackId === null) return null;
+
+  for (const trak of traks) {
+    const tkhd = findMp4Path(view, trak, ["tkhd"]);
+    if (!tkhd) continue;
+    const trackId = view.getUint32(
+      tkhd.dataStart + (view.getUint8(tkhd.dataStart) === 1 ? 20 : 12),
+    );
+    if (trackId !== chapterTrackId) continue;
+
+    const mdhd = findMp4Path(view, trak, ["mdia", "mdhd"]);
+    const stbl = findMp4Path(view, trak, ["mdia", "minf", "stbl"]);
+    if (!mdhd || !stbl) return null;
+
+    const timescale = view.getUint32(
+      mdhd.dataStart + (view.getUint8(mdhd.dataStart) === 1 ? 20 : 12),
+    );
+    const children = findMp4Children(view, stbl.dataStart, stbl.end);
+    const stts = children.find((box) => box.type === "stts");
+    const stsz = children.find((box) => box.type === "stsz");
+    const stsc = children.find((box) => box.type === "stsc");
+    const stco = children.find(
+      (box) => box.type === "stco" || box.type === "co64",
+    );
+    if (!stts || !stsz || !stsc || !stco) return null;
+
+    const sampleDurations: number[] = [];
+    const sttsCount = view.getUint32(stts.dataStart + 4);
+    for (let i = 0; i < sttsCount; i++) {
+      const sampleCount = view.getUint32(stts.dataStart + 8 + i * 8);
+      const delta = view.getUint32(stts.dataStart + 12 + i * 8);
+      for (
+        let j = 0;
+        j < sampleCount && sampleDurations.length < MAX_CHAPTER_SAMPLES;
+        j++
+      ) {
+        sampleDurations.push(delta);
+      }
+    }
+
+    const uniformSize = view.getUint32(stsz.dataStart + 4);
+    const sampleCount = Math.min(
+      view.getUint32(stsz.dataStart + 8),
+      MAX_CHAPTER_SAMPLES,
+    );
+    const sampleSizes: number[] = [];
+    for (let i = 0; i < sampleCount; i++) {
+      sampleSizes.push(
+        uniformSize || view.getUint32(stsz.dataStart + 12 + i * 4),
+      );
+    }
+
+    const chunkOffsets: number[] = [];
+    const chunkCount = view.getUint32(stco.dataStart + 4);
+    for (let i = 0; i < chunkCount; i++) {
+      chunkOffsets.push(
+        stco.type === "co64"
+          ? view.getUint32(stco.dataStart + 8 + i * 8) * 0x100000000 +
+              view.getUint32(stco.dataStart + 12 + i * 8)
+          : view.getUint32(stco.dataStart + 8 + i * 4),
+      );
+    }
+
+    const stscEntries: { firstChunk: number; samplesPerChunk: number }[] = [];
+    const stscCount = view.getUint32(stsc.dataStart + 4);
+    for (let i = 0; i < stscCount; i++) {
+      stscEntries.push({
+        firstChunk: view.getUint32(stsc.dataStart + 8 + i * 12),
+        samplesPerChunk: view.getUint32(stsc.dataStart + 12 + i * 12),
+      });
+    }
+
+    const sampleOffsets: number[] = [];
+    let sampleIndex = 0;
+    for (
+      let chunk = 0;
+      chunk < chunkOffsets.length && sampleIndex < sampleCount;
+      chunk++
+    ) {
+      const entry = [...stscEntries]
+        .reverse()
+        .find((e) => e.firstChunk <= chunk + 1);
+      let offset = chunkOffsets[chunk];
+      for (
+        let i = 0;
+        i < (entry?.samplesPerChunk ?? 1) && sampleIndex < sampleCount;
+        i++
+      ) {
+        sampleOffsets.push(offset);
+        offset += sampleSizes[sampleIndex];
+        sampleIndex++;
+      }
+    }
+
+    return { timescale, sampleDurations, sampleSizes, sampleOffsets };
+  }
+
+  return null;
+}
+
+class ChapterService {
+  private cache: Map<string, ChapterData[]> = new Map();
+
+  async getChapters(uri: string): Promise<ChapterData[]> {
+    const cached = this.cache.get(uri);
+    if (cached) {
+      return cached;
+    }
+
+    // Chapters are read with HTTP range requests; local files and HLS manifests are skipped
+    if (!/^https?:\/\//i.test(uri) || /\.m3u8(\?|$)/i.test(uri)) {
+      return [];
+    }
+
+    try {
+      const head = await this.readRange(uri, 0, HEAD_READ_SIZE - 1);
+      if (!head) {
+        return [];
+      }
+
+      let chapters: ChapterData[] = [];
+      if (head.data.byteLength >= 4 && head.data.getUint32(0) === EBML_MAGIC) {
+        chapters = await this.readMatroskaChapters(uri, head);
+      } else if (
+        head.data.byteLength >= 8 &&
+        readUtf8(head.data, 4, 4) === "ftyp"
+      ) {
+        chapters = await this.readMp4Chapters(uri, head);
+      }
+
+      this.cache.set(uri, chapters);
+      return chapters;
+    } catch (error) {
+      console.error("Failed to read chapters:", error);
+      return [];
+    }
+  }
+
+  private async readRange(
+    uri: string,
+    start: number,
+    end: number,
+  ): Promise<ByteRange | null> {
+    const controller = new AbortController();
+    const response = await fetch(uri, {
+      headers: { Range: `bytes=${start}-${end}` },
+      signal: controller.signal,
+    });
+
+    // A server that ignores Range would stream the whole file; bail out instead
+    if (response.status !== 206) {
+      controller.abort();
+      return null;
+    }
+
+    const contentRange = response.headers.get("Content-Range");
+    const total = contentRange?.match(/\/(\d+)$/);
+    const buffer = await response.arrayBuffer();
+    return {
+      data: new DataView(buffer),
+      start,
+      totalSize: total ? parseInt(total[1], 10) : null,
+    };
+  }
+
+  private async readElementAt(
+    uri: string,
+    offset: number,
+    readHeader: (
+      view: DataView,
+    ) => { headerSize: number; size: number | null } | null,
+  ): Promise<DataView | null> {
+    const header = await this.readRange(uri, offset, offset + 15);
+    if (!header) return null;
+    const parsed = readHeader(header.data);
+    if (!parsed || parsed.size === null) return null;
+
+    const total = parsed.headerSize + parsed.size;
+    if (total > MAX_ELEMENT_READ_SIZE) return null;
+    const body = await this.readRange(uri, offset, offset + total - 1);
+    return body?.data ?? null;
+  }
+
+  private async readMatroskaChapters(
+    uri: string,
+    head: ByteRange,
+  ): Promise<ChapterData[]> {
+    const view = head.data;
+    const ebml = readEbmlElement(view, 0);
+    if (!ebml || ebml.size === null) return [];
+
+    const segment = readEbmlElement(view, ebml.dataStart + ebml.size);
+    if (!segment || segment.id !== EBML_IDS.SEGMENT) return [];
+    const segmentStart = segment.dataStart;
+
+    let infoPosition: number | null = null;
+    let chaptersPosition: number | null = null;
+
+    // Walk the top-level elements present in the head buffer, stopping at the first cluster
+    let offset = segmentStart;
+    while (offset < view.byteLength) {
+      const element = readEbmlElement(view, offset);
+      if (!element || element.size === null || element.id === EBML_IDS.CLUSTER)
+        break;
+
+      if (
+        element.id === EBML_IDS.SEEK_HEAD &&
+        element.dataStart + element.size <= view.byteLength
+      ) {
+        forEachEbmlChild(
+          view,
+          element.dataStart,
+          element.dataStart + element.size,
+          (seek) => {
+            if (seek.id !== EBML_IDS.SEEK || seek.size === null) return;
+            const entry: { id?: number; position?: number } = {};
+            forEachEbmlChild(
+              view,
+              seek.dataStart,
+              seek.dataStart + seek.size,
+              (field) => {
+                if (field.size === null) return;
+                if (field.id === EBML_IDS.SEEK_ID)
+                  entry.id = readUint(view, field.dataStart, field.size);
+                if (field.id === EBML_IDS.SEEK_POSITION) {
+                  entry.position = readUint(view, field.dataStart, field.size);
+                }
+              },
+            );
+            if (entry.position === undefined) return;
+            if (entry.id === EBML_IDS.INFO)
+              infoPosition ??= segmentStart + entry.position;
+            if (entry.id === EBML_IDS.CHAPTERS)
+              chaptersPosition ??= segmentStart + entry.position;
+          },
+        );
+      } else if (element.id === EBML_IDS.INFO) {
+        infoPosition = offset;
+      } else if (element.id === EBML_IDS.CHAPTERS) {
+        chaptersPosition = offset;
+      }
+
+      offset = element.dataStart + element.size;
+    }
+
+    if (chaptersPosition === null) return [];
+
+    const chaptersView = await this.readElementAt(uri, chaptersPosition, (v) =>
+      readEbmlElement(v, 0),
+    );
+    const chaptersElement = chaptersView
+      ? readEbmlElement(chaptersView, 0)
+      : null;
+    if (
+      !chaptersView ||
+      !chaptersElement ||
+      chaptersElement.id !== EBML_IDS.CHAPTERS
+    )
+      return [];
+
+    let duration = 0;
+    if (infoPosition !== null) {
+      const infoView = await this.readElementAt(uri, infoPosition, (v) =>
+        readEbmlElement(v, 0),
+      );
+      const infoElement = infoView ? readEbmlElement(infoView, 0) : null;
+      if (infoView && infoElement && infoElement.id === EBML_IDS.INFO) {
+        duration = parseMatroskaDuration(infoView, infoElement);
+      }
+    }
+
+    return fillChapterEndTimes(
+      parseMatroskaChapters(chaptersView, chaptersElement),
+      duration,
+    );
+  }
+
+  private async readMp4Chapters(
+    uri: string,
+    head: ByteRange,
+  ): Promise<ChapterData[]> {
+    const fileSize = head.totalSize;
+    let moovOffset: number | null = null;
+
+    // Top-level boxes are walked by header only so a trailing moov never pulls in mdat
+    let offset = 0;
+    while (fileSize === null || offset < fileSize) {
+      const headerView =
+        offset + 16 <= head.data.byteLength
+          ? new DataView(head.data.buffer, offset, 16)
+          : (await this.readRange(uri, offset, offset + 15))?.data;
+      if (!headerView) break;
+      const box = readMp4BoxHeader(
+        headerView,
+        0,
+        (fileSize ?? Number.MAX_SAFE_INTEGER) - offset,
+      );
+      if (!box) break;
+      if (box.type === "moov") {
+        moovOffset = offset;
+        break;
+      }
+      offset += box.end;
+    }
+
+    if (moovOffset === null) return [];
+
+    const moovView = await this.readElementAt(uri, moovOffset, (v) => {
+      const box = readMp4BoxHeader(v, 0, Number.MAX_SAFE_INTEGER);
+      return box
+        ? { headerSize: box.dataStart, size: box.end - box.dataStart }
+        : null;
+    });
+    const moov = moovView
+      ? readMp4BoxHeader(moovView, 0, moovView.byteLength)
+      : null;
+    if (!moovView || !moov) return [];
+
+    const duration = parseMvhdDuration(moovView, moov);
+
+    const neroChapters = parseNeroChapters(moovView, moov);
+    if (neroChapters.length > 0) {
+      return fillChapterEndTimes(neroChapters, duration);
+    }
+
+    const track = findQuickTimeChapterTrack(moovView, moov);
+    if (!track || track.timescale === 0) return [];
+
+    const chapters: { title: string; startTime: number; endTime: number }[] =
+      [];
+    let time = 0;
+    for (let i = 0; i < track.sampleOffsets.length; i++) {
+      const sampleDuration = track.sampleDurations[i] ?? 0;
+      const sample = await this.readRange(
+        uri,
+        track.sampleOffsets[i],
+        track.sampleOffsets[i] + track.sampleSizes[i] - 1,
+      );
+      let title = "";
+      if (sample && sample.data.byteLength >= 2) {
+        const length = Math.min(
+          sample.data.getUint16(0),
+          sample.data.byteLength - 2,
+        );
+        title = readUtf8(sample.data, 2, length);
+      }
+      chapters.push({
+        title,
+        startTime: time / track.timescale,
+        endTime: (time + sampleDuration) / track.timescale,
+      });
+      time += sampleDuration;
+    }
+
+    return fillChapterEndTimes(chapters, duration);
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+}
+
+export const chapterService = new ChapterService();
@@ -1,165 +1,325 @@
-import { SkipMarker } from "@/types";
-
-export interface IntroHaterResponse {
-  intro?: {
-    start: number;
-    end: number;
-  };
-  outro?: {
-    start: number;
-    end: number;
-  };
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  BUILT_IN_PROVIDERS,
+  SkipProvider,
+  SkipProviderQuery,
+  createCustomJsonProvider,
+  normalizeProviderSettings,
+} from "@/services/skipProviders";
+import { isAbortError } from "@/services/httpClient";
+import { SkipMarker, SkipProviderSetting } from "@/types";
+
+const CACHE_STORAGE_KEY = "@streamplayer/community_skip_cache";
+
+interface CacheEntry {
+  markers: SkipMarker[];
+  fetchedAt: number;
+  lastAccess: number;
+  // Which providers produced the entry; a different provider setup makes it a miss
+  signature: string;
+}
+
+interface PendingRefresh {
+  request: Promise<SkipMarker[] | null>;
+  signal?: AbortSignal;
+}
+
+interface ActiveProvider {
+  setting: SkipProviderSetting;
+  provider: SkipProvider;
+}
+
+export interface SkipLookupOptions {
+  duration?: number;
+  // Cancels the lookup, e.g. when the player moves to another episode
+  signal?: AbortSignal;
+  // Called when a stale cached result has been refreshed in the background
+  onUpdate?: (markers: SkipMarker[]) => void;
 }
 
-export interface StremioSkipResponse {
-  intro?: {
-    start: number;
-    end: number;
-  };
-  outro?: {
-    start: number;
-    end: number;
-  };
-  s?: number;
-  e?: number;
+function getEpisodeKey(
+  imdbId: string,
+  season: number,
+  episode: number,
+): string {
+  return `${imdbId}_s${String(season).padStart(2, "0")}e${String(episode).padStart(2, "0")}`;
 }
 
 class CommunitySkipService {
-  private readonly INTRO_HATER_API = "https://api.intros.ai";
-  private readonly STREMIO_SKIP_API = "https://skips.stremio.ml";
-  
-  private cache: Map<string, SkipMarker[]> = new Map();
-  private cacheTTL = 24 * 60 * 60 * 1000; // 24 hours
-  private lastFetchTime: Map<string, number> = new Map();
+  private providers: Map<string, SkipProvider> = new Map(
+    BUILT_IN_PROVIDERS.map((provider) => [provider.id, provider]),
+  );
+  private providerSettings: SkipProviderSetting[] =
+    normalizeProviderSettings(undefined);
 
-  async getSkipMarkersForEpisode(
-    imdbId: string,
-    season: number,
-    episode: number
-  ): Promise<SkipMarker[]> {
-    const cacheKey = `${imdbId}_s${String(season).padStart(2, "0")}e${String(episode).padStart(2, "0")}`;
-    const lastFetch = this.lastFetchTime.get(cacheKey);
-    const cached = this.cache.get(cacheKey);
+  private cache: Map<string, CacheEntry> = new Map();
+  private cacheLoaded: Promise<void> | null = null;
+  private inFlight: Map<string, PendingRefresh> = new Map();
+  // Bumped by clearCache so refreshes started before it don't write their results back
+  private generation = 0;
+  private cacheTTL = 7 * 24 * 60 * 60 * 1000; // 7 days
+  private negativeCacheTTL = 6 * 60 * 60 * 1000; // 6 hours
+  private maxStaleAge = 30 * 24 * 60 * 60 * 1000; // 30 days
+  private maxEntries = 300;
 
-    if (cached && lastFetch && Date.now() - lastFetch < this.cacheTTL) {
-      return cached;
-    }
+  registerProvider(provider: SkipProvider): void {
+    this.providers.set(provider.id, provider);
+  }
 
-    try {
-      // Fetch from both sources in parallel
-      const [introHaterMarkers, stremioMarkers] = await Promise.all([
-        this.getIntroHaterMarkers(imdbId, season, episode),
-        this.getStremioSkipMarkers(imdbId, season, episode),
-      ]);
-
-      // Merge results, preferring IntroHater if both have data
-      const allMarkers = [...introHaterMarkers];
-      
-      // Add Stremio markers if not already covered
-      for (const marker of stremioMarkers) {
-        const exists = allMarkers.some(
-          m => m.type === marker.type && Math.abs(m.startTime - marker.startTime) < 2
-        );
-        if (!exists) {
-          allMarkers.push(marker);
-        }
-      }
+  unregisterProvider(id: string): void {
+    this.providers.delete(id);
+  }
 
-      // Cache the merged result
-      this.cache.set(cacheKey, allMarkers);
-      this.lastFetchTime.set(cacheKey, Date.now());
+  getProviders(): SkipProvider[] {
+    return [...this.providers.values()];
+  }
 
-      return allMarkers;
-    } catch (error) {
-      console.error("Failed to fetch community skip markers:", error);
-      return [];
+  // Applies the enabled/order/timeout choices from Settings and registers custom JSON endpoints
+  configureProviders(settings: SkipProviderSetting[] | undefined): void {
+    const normalized = normalizeProviderSettings(settings);
+
+    for (const previous of this.providerSettings) {
+      if (
+        previous.url &&
+        !normalized.some((setting) => setting.id === previous.id)
+      ) {
+        this.providers.delete(previous.id);
+      }
     }
+    for (const setting of normalized) {
+      if (setting.url) {
+        this.providers.set(
+          setting.id,
+          createCustomJsonProvider(setting.id, setting.name, setting.url),
+        );
+      }
+    }
+    this.providerSettings = normalized;
   }
 
-  private async getIntroHaterMarkers(
+  async getSkipMarkersForEpisode(
     imdbId: string,
     season: number,
-    episode: number
+    episode: number,
+    options: SkipLookupOptions = {},
   ): Promise<SkipMarker[]> {
-    try {
-      const episodeId = `${imdbId}_s${String(season).padStart(2, "0")}e${String(episode).padStart(2, "0")}`;
-      const response = await fetch(
-        `${this.INTRO_HATER_API}/v1/episodes?tvdb_id=${episodeId}`,
-        { 
-          headers: { "Accept": "application/json" },
-          timeout: 5000,
-        }
-      );
+    await this.loadCache();
 
-      if (!response.ok) {
-        return [];
-      }
+    const cacheKey = getEpisodeKey(imdbId, season, episode);
+    const query: SkipProviderQuery = {
+      imdbId,
+      season,
+      episode,
+      duration: options.duration,
+    };
+    const active = this.getActiveProviders();
+    const signature = this.getSignature(active);
+    const entry = this.cache.get(cacheKey);
 
-      const data: IntroHaterResponse = await response.json();
-      return this.convertToSkipMarkers(data, "IntroHater");
-    } catch (error) {
-      console.error("Failed to fetch IntroHater markers:", error);
-      return [];
+    if (
+      entry &&
+      entry.signature === signature &&
+      Date.now() - entry.fetchedAt < this.maxStaleAge
+    ) {
+      const ttl =
+        entry.markers.length > 0 ? this.cacheTTL : this.negativeCacheTTL;
+      // Saved with the next insert rather than rewriting the whole cache on every hit
+      entry.lastAccess = Date.now();
+
+      // Serve the stale copy straight away and refresh it in the background
+      if (Date.now() - entry.fetchedAt >= ttl) {
+        this.refresh(cacheKey, active, signature, query).then((markers) => {
+          if (markers && options.onUpdate) {
+            options.onUpdate(markers);
+          }
+        });
+      }
+      return entry.markers;
     }
+
+    const markers = await this.refresh(
+      cacheKey,
+      active,
+      signature,
+      query,
+      options.signal,
+    );
+    return markers ?? [];
   }
 
-  private async getStremioSkipMarkers(
+  // Warms the cache for the episodes after the one being watched; signal stops it with the player
+  async prefetch(
     imdbId: string,
     season: number,
-    episode: number
-  ): Promise<SkipMarker[]> {
+    fromEpisode: number,
+    signal?: AbortSignal,
+    count = 3,
+  ): Promise<void> {
+    for (let episode = fromEpisode; episode < fromEpisode + count; episode++) {
+      if (signal?.aborted) return;
+      await this.getSkipMarkersForEpisode(imdbId, season, episode, { signal });
+    }
+  }
+
+  async clearCache(): Promise<void> {
+    await this.loadCache();
+    this.cache.clear();
+    this.inFlight.clear();
+    this.generation++;
     try {
-      // Stremio skip button API format
-      const response = await fetch(
-        `${this.STREMIO_SKIP_API}/api/episodes/${imdbId}/${season}/${episode}`,
-        { 
-          headers: { "Accept": "application/json" },
-          timeout: 5000,
+      await AsyncStorage.removeItem(CACHE_STORAGE_KEY);
+    } catch (error) {
+      console.error("Failed to clear community skip cache:", error);
+    }
+  }
+
+  private refresh(
+    cacheKey: string,
+    active: ActiveProvider[],
+    signature: string,
+    query: SkipProviderQuery,
+    signal?: AbortSignal,
+  ): Promise<SkipMarker[] | null> {
+    // A cancelled request would answer null, e.g. a prefetch stopped as its episode starts playing
+    const existing = this.inFlight.get(cacheKey);
+    if (existing && !existing.signal?.aborted) {
+      return existing.request;
+    }
+
+    const generation = this.generation;
+    const request = this.fetchFromProviders(active, query, signal)
+      .then((markers) => {
+        // Only cache when at least one provider answered, so outages aren't remembered as "no data"
+        if (markers && generation === this.generation) {
+          this.cache.set(cacheKey, {
+            markers,
+            fetchedAt: Date.now(),
+            lastAccess: Date.now(),
+            signature,
+          });
+          this.evict();
+          this.persistCache();
+        }
+        return markers;
+      })
+      .finally(() => {
+        if (this.inFlight.get(cacheKey)?.request === request) {
+          this.inFlight.delete(cacheKey);
         }
+      });
+
+    this.inFlight.set(cacheKey, { request, signal });
+    return request;
+  }
+
+  private async fetchFromProviders(
+    active: ActiveProvider[],
+    query: SkipProviderQuery,
+    signal?: AbortSignal,
+  ): Promise<SkipMarker[] | null> {
+    try {
+      // Query every provider in parallel; results are merged in the configured order
+      const results = await Promise.all(
+        active.map(({ setting, provider }) =>
+          this.fetchWithTimeout(provider, query, setting.timeoutMs, signal),
+        ),
       );
+      if (results.every((markers) => markers === null)) {
+        return null;
+      }
 
-      if (!response.ok) {
-        return [];
+      const allMarkers: SkipMarker[] = [];
+      for (const markers of results) {
+        for (const marker of markers ?? []) {
+          const exists = allMarkers.some(
+            (m) =>
+              m.type === marker.type &&
+              Math.abs(m.startTime - marker.startTime) < 2,
+          );
+          if (!exists) {
+            allMarkers.push(marker);
+          }
+        }
       }
 
-      const data: StremioSkipResponse = await response.json();
-      return this.convertToSkipMarkers(data, "Stremio");
+      return allMarkers;
     } catch (error) {
-      console.error("Failed to fetch Stremio skip markers:", error);
-      return [];
+      console.error("Failed to fetch community skip markers:", error);
+      return null;
     }
   }
 
-  private convertToSkipMarkers(
-    data: IntroHaterResponse | StremioSkipResponse,
-    source: "IntroHater" | "Stremio"
-  ): SkipMarker[] {
-    const markers: SkipMarker[] = [];
-
-    if (data.intro?.start !== undefined && data.intro?.end !== undefined) {
-      markers.push({
-        type: "intro",
-        startTime: data.intro.start,
-        endTime: data.intro.end,
-        source: "fingerprint",
-      });
+  private async fetchWithTimeout(
+    provider: SkipProvider,
+    query: SkipProviderQuery,
+    timeoutMs: number,
+    signal?: AbortSignal,
+  ): Promise<SkipMarker[] | null> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    try {
+      return await provider.fetchMarkers(query, controller.signal);
+    } catch (error) {
+      if (!isAbortError(error) || !signal?.aborted) {
+        console.error(`Failed to fetch ${provider.name} markers:`, error);
+      }
+      return null;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
     }
+  }
 
-    if (data.outro?.start !== undefined && data.outro?.end !== undefined) {
-      markers.push({
-        type: "credits",
-        startTime: data.outro.start,
-        endTime: data.outro.end,
-        source: "fingerprint",
-      });
+  private getActiveProviders(): ActiveProvider[] {
+    return this.providerSettings
+      .filter((setting) => setting.enabled)
+      .map((setting) => ({ setting, provider: this.providers.get(setting.id) }))
+      .filter((entry): entry is ActiveProvider => !!entry.provider);
+  }
+
+  private getSignature(active: ActiveProvider[]): string {
+    return active.map(({ setting }) => setting.url ?? setting.id).join("|");
+  }
+
+  private evict(): void {
+    if (this.cache.size <= this.maxEntries) return;
+
+    const byAccess = [...this.cache.entries()].sort(
+      (a, b) => a[1].lastAccess - b[1].lastAccess,
+    );
+    for (const [key] of byAccess.slice(0, this.cache.size - this.maxEntries)) {
+      this.cache.delete(key);
     }
+  }
 
-    return markers;
+  private loadCache(): Promise<void> {
+    if (!this.cacheLoaded) {
+      this.cacheLoaded = (async () => {
+        try {
+          const data = await AsyncStorage.getItem(CACHE_STORAGE_KEY);
+          if (data) {
+            const stored: Record<string, CacheEntry> = JSON.parse(data);
+            this.cache = new Map(Object.entries(stored));
+          }
+        } catch (error) {
+          console.error("Failed to load community skip cache:", error);
+        }
+      })();
+    }
+    return this.cacheLoaded;
   }
 
-  clearCache(): void {
-    this.cache.clear();
-    this.lastFetchTime.clear();
+  private async persistCache(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(
+        CACHE_STORAGE_KEY,
+        JSON.stringify(Object.fromEntries(this.cache)),
+      );
+    } catch (error) {
+      console.error("Failed to save community skip cache:", error);
+    }
   }
 }
 
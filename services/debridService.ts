@@ -1,9 +1,21 @@
-import { DebridSettings } from "@/types";
+import { DebridAccountSetting, DebridSettings } from "@/types";
+import {
+  httpClient,
+  HttpError,
+  HttpRequestOptions,
+  isAbortError,
+} from "@/services/httpClient";
 
-export type DebridServiceType = "realdebrid" | "alldebrid" | "premiumize" | "torbox";
+export type DebridServiceType =
+  | "realdebrid"
+  | "alldebrid"
+  | "premiumize"
+  | "torbox";
 
 export interface CacheStatus {
   isCached: boolean;
+  // Lower-cased info hashes of the torrents that are cached
+  hashes?: string[];
   files?: CachedFile[];
   error?: string;
 }
@@ -27,7 +39,287 @@ export interface UnrestrictedLink {
   streamable: number;
 }
 
-const API_ENDPOINTS = {
+export interface DebridLibraryFile {
+  id: string;
+  filename: string;
+  filesize: number;
+  // Whatever the provider needs to produce a stream URL for this file
+  link: string;
+}
+
+export interface DebridLibraryTorrent {
+  id: string;
+  name: string;
+  // Left out when the provider needs a separate request for the file list
+  files?: DebridLibraryFile[];
+}
+
+export interface LibraryQuery {
+  title: string;
+  year?: number;
+  season?: number;
+  episode?: number;
+}
+
+export interface DebridAccount {
+  service: DebridServiceType;
+  username?: string;
+  isPremium: boolean;
+  // Epoch milliseconds; left out for free accounts
+  premiumUntil?: number;
+  // Real-Debrid and AllDebrid fidelity points
+  points?: number;
+  // Percentage of the Premiumize fair-use allowance still available
+  fairUseLeft?: number;
+}
+
+export interface DebridTransfer {
+  id: string;
+  name: string;
+  // 0 to 100
+  progress: number;
+  status: string;
+  isFinished: boolean;
+  size?: number;
+  // Bytes per second while downloading
+  speed?: number;
+  seeders?: number;
+}
+
+const VIDEO_EXTENSIONS = /\.(mkv|mp4|m4v|avi|mov|webm|ts)$/i;
+
+function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function matchesTitle(name: string, query: LibraryQuery): boolean {
+  const normalized = ` ${normalizeName(name)} `;
+  return normalized.includes(` ${normalizeName(query.title)} `);
+}
+
+function matchesEpisode(
+  filename: string,
+  season?: number,
+  episode?: number,
+): boolean {
+  if (season === undefined || episode === undefined) {
+    return true;
+  }
+  const match =
+    filename.match(/s(\d{1,2})[ ._-]?e(\d{1,3})/i) ??
+    filename.match(/\b(\d{1,2})x(\d{2,3})\b/i);
+  return (
+    !!match &&
+    parseInt(match[1], 10) === season &&
+    parseInt(match[2], 10) === episode
+  );
+}
+
+function basename(path: string): string {
+  return path.split("/").pop() || path;
+}
+
+export type DebridErrorKind =
+  | "not_configured"
+  | "invalid_magnet"
+  | "bad_key"
+  | "not_premium"
+  | "quota_exceeded"
+  | "not_cached"
+  | "no_video"
+  | "timeout"
+  | "provider";
+
+export class DebridError extends Error {
+  readonly kind: DebridErrorKind;
+  readonly service?: DebridServiceType;
+
+  constructor(
+    kind: DebridErrorKind,
+    message: string,
+    service?: DebridServiceType,
+  ) {
+    super(message);
+    this.name = "DebridError";
+    this.kind = kind;
+    this.service = service;
+  }
+}
+
+export function isDebridError(
+  error: unknown,
+  kind?: DebridErrorKind,
+): error is DebridError {
+  return (
+    error instanceof DebridError && (kind === undefined || error.kind === kind)
+  );
+}
+
+export interface ResolveRequest {
+  // Either a full magnet link or a bare info hash
+  magnet?: string;
+  infoHash?: string;
+  season?: number;
+  episode?: number;
+}
+
+export interface ResolveOptions {
+  // Start a download for content the provider doesn't have yet and wait for it
+  allowUncached?: boolean;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+export interface ResolvedStream {
+  url: string;
+  filename: string;
+  filesize: number;
+  service: DebridServiceType;
+}
+
+const RESOLVE_TIMEOUT_MS = 60 * 1000;
+const POLL_INTERVAL_MS = 2000;
+const FORM_HEADERS = { "Content-Type": "application/x-www-form-urlencoded" };
+
+export function getInfoHash(magnetOrHash: string): string | null {
+  const value = magnetOrHash.trim();
+  const hash = value.startsWith("magnet:")
+    ? value.match(/xt=urn:btih:([a-z0-9]+)/i)?.[1]
+    : value;
+  if (!hash || !/^([a-f0-9]{40}|[a-z2-7]{32})$/i.test(hash)) {
+    return null;
+  }
+  return hash.toLowerCase();
+}
+
+export function toMagnet(infoHash: string): string {
+  return `magnet:?xt=urn:btih:${infoHash}`;
+}
+
+// Picks the episode asked for, or the main feature: the largest video that isn't a sample
+export function selectVideoFile<T extends CachedFile>(
+  files: T[],
+  request: Pick<ResolveRequest, "season" | "episode">,
+): T | null {
+  const videos = files
+    .filter(
+      (file) =>
+        VIDEO_EXTENSIONS.test(file.filename) &&
+        !/\bsample\b/i.test(file.filename),
+    )
+    .filter((file) =>
+      matchesEpisode(file.filename, request.season, request.episode),
+    )
+    .sort((a, b) => b.filesize - a.filesize);
+  return videos[0] ?? null;
+}
+
+// Whole days of premium left, or null when the provider didn't report an expiry
+export function getPremiumDaysLeft(
+  account: DebridAccount,
+  now: number = Date.now(),
+): number | null {
+  if (account.premiumUntil === undefined) {
+    return null;
+  }
+  return Math.max(
+    0,
+    Math.floor((account.premiumUntil - now) / (24 * 60 * 60 * 1000)),
+  );
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new HttpError("aborted", "", "Request was cancelled"));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new HttpError("aborted", "", "Request was cancelled"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Calls check until it returns a value, giving up once the resolve timeout has passed
+async function pollUntil<T>(
+  check: () => Promise<T | null>,
+  options: ResolveOptions,
+  service: DebridServiceType,
+): Promise<T> {
+  const deadline = Date.now() + (options.timeoutMs ?? RESOLVE_TIMEOUT_MS);
+  for (;;) {
+    const result = await check();
+    if (result !== null) {
+      return result;
+    }
+    if (Date.now() + POLL_INTERVAL_MS > deadline) {
+      throw new DebridError(
+        "timeout",
+        "The torrent wasn't ready in time",
+        service,
+      );
+    }
+    await delay(POLL_INTERVAL_MS, options.signal);
+  }
+}
+
+// Error responses aren't always JSON, so an unreadable body comes back as null
+async function readJson<T>(response: Response): Promise<T | null> {
+  try {
+    return await response.json();
+  } catch {
+    return null;
+  }
+}
+
+function noVideoError(
+  service: DebridServiceType,
+  request: ResolveRequest,
+): DebridError {
+  const target =
+    request.season !== undefined && request.episode !== undefined
+      ? `S${String(request.season).padStart(2, "0")}E${String(request.episode).padStart(2, "0")}`
+      : "a video file";
+  return new DebridError(
+    "no_video",
+    `The torrent doesn't contain ${target}`,
+    service,
+  );
+}
+
+function notCachedError(service: DebridServiceType): DebridError {
+  return new DebridError(
+    "not_cached",
+    "This torrent isn't cached yet",
+    service,
+  );
+}
+
+// Network failures and unexpected responses surface as DebridErrors; cancellations pass through untouched
+function toDebridError(error: unknown, service: DebridServiceType): unknown {
+  if (isDebridError(error) || isAbortError(error)) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new DebridError(
+    error instanceof HttpError && error.kind === "timeout"
+      ? "timeout"
+      : "provider",
+    message,
+    service,
+  );
+}
+
+export const API_ENDPOINTS = {
   realdebrid: {
     base: "https://api.real-debrid.com/rest/1.0",
     cache: "/torrents/instantAvailability",
@@ -54,12 +346,49 @@ const API_ENDPOINTS = {
   },
 };
 
-class RealDebridClient {
+interface RealDebridErrorBody {
+  error?: string;
+  error_code?: number;
+}
+
+interface RealDebridFile {
+  id: number;
+  path: string;
+  bytes: number;
+  selected: number;
+}
+
+interface RealDebridTorrent {
+  id: string;
+  filename: string;
+  bytes: number;
+  progress: number;
+  status: string;
+  speed?: number;
+  seeders?: number;
+}
+
+interface RealDebridTorrentInfo extends RealDebridTorrent {
+  files: RealDebridFile[];
+  // Line up with the selected files, in order
+  links: string[];
+}
+
+interface RealDebridUser {
+  username: string;
+  type: string;
+  expiration?: string;
+  points?: number;
+}
+
+export class RealDebridClient {
   private apiKey: string;
-  private baseUrl = API_ENDPOINTS.realdebrid.base;
+  private baseUrl: string;
 
-  constructor(apiKey: string) {
+  // Tests can point the client at a local stub serving recorded responses
+  constructor(apiKey: string, baseUrl: string = API_ENDPOINTS.realdebrid.base) {
     this.apiKey = apiKey;
+    this.baseUrl = baseUrl;
   }
 
   private getHeaders(): Record<string, string> {
@@ -70,9 +399,12 @@ class RealDebridClient {
 
   async testConnection(): Promise<boolean> {
     try {
-      const response = await fetch(`${this.baseUrl}${API_ENDPOINTS.realdebrid.user}`, {
-        headers: this.getHeaders(),
-      });
+      const response = await httpClient.request(
+        `${this.baseUrl}${API_ENDPOINTS.realdebrid.user}`,
+        {
+          headers: this.getHeaders(),
+        },
+      );
       return response.ok;
     } catch {
       return false;
@@ -82,7 +414,7 @@ class RealDebridClient {
   async checkCache(hashes: string[]): Promise<CacheStatus> {
     try {
       const hashList = hashes.join("/");
-      const response = await fetch(
+      const response = await httpClient.request(
         `${this.baseUrl}${API_ENDPOINTS.realdebrid.cache}/${hashList}`,
         { headers: this.getHeaders() }
       );
@@ -92,25 +424,82 @@ class RealDebridClient {
       }
 
       const data = await response.json();
-      const hasCache = Object.keys(data).length > 0 && 
-        Object.values(data).some((item: any) => Object.keys(item.rd || {}).length > 0);
+      const cached = Object.keys(data).filter(
+        (hash) => Object.keys(data[hash]?.rd || {}).length > 0,
+      );
 
-      return { isCached: hasCache };
+      return {
+        isCached: cached.length > 0,
+        hashes: cached.map((hash) => hash.toLowerCase()),
+      };
     } catch (error) {
       return { isCached: false, error: String(error) };
     }
   }
 
+  async listLibrary(): Promise<DebridLibraryTorrent[]> {
+    const response = await httpClient.request(
+      `${this.baseUrl}/torrents?limit=100`,
+      {
+        headers: this.getHeaders(),
+      },
+    );
+    if (!response.ok) {
+      return [];
+    }
+
+    const data: { id: string; filename: string; status: string }[] =
+      await response.json();
+    return data
+      .filter((torrent) => torrent.status === "downloaded")
+      .map((torrent) => ({ id: torrent.id, name: torrent.filename }));
+  }
+
+  async getTorrentFiles(torrentId: string): Promise<DebridLibraryFile[]> {
+    const response = await httpClient.request(
+      `${this.baseUrl}/torrents/info/${torrentId}`,
+      {
+        headers: this.getHeaders(),
+      },
+    );
+    if (!response.ok) {
+      return [];
+    }
+
+    // links line up with the selected files, in order
+    const data: {
+      files: { id: number; path: string; bytes: number; selected: number }[];
+      links: string[];
+    } = await response.json();
+    return data.files
+      .filter((file) => file.selected === 1)
+      .map((file, index) => ({
+        id: String(file.id),
+        filename: basename(file.path),
+        filesize: file.bytes,
+        link: data.links[index],
+      }))
+      .filter((file) => !!file.link);
+  }
+
+  async getStreamUrl(file: DebridLibraryFile): Promise<string | null> {
+    const unrestricted = await this.unrestrictLink(file.link);
+    return unrestricted?.download ?? null;
+  }
+
   async unrestrictLink(link: string): Promise<UnrestrictedLink | null> {
     try {
-      const response = await fetch(`${this.baseUrl}${API_ENDPOINTS.realdebrid.unrestrict}`, {
-        method: "POST",
-        headers: {
-          ...this.getHeaders(),
-          "Content-Type": "application/x-www-form-urlencoded",
+      const response = await httpClient.request(
+        `${this.baseUrl}${API_ENDPOINTS.realdebrid.unrestrict}`,
+        {
+          method: "POST",
+          headers: {
+            ...this.getHeaders(),
+            "Content-Type": "application/x-www-form-urlencoded",
+          },
+          body: `link=${encodeURIComponent(link)}`,
         },
-        body: `link=${encodeURIComponent(link)}`,
-      });
+      );
 
       if (!response.ok) {
         return null;
@@ -121,23 +510,295 @@ class RealDebridClient {
       return null;
     }
   }
+
+  async resolveTorrent(
+    magnet: string,
+    hash: string,
+    request: ResolveRequest,
+    options: ResolveOptions,
+  ): Promise<ResolvedStream> {
+    const { signal } = options;
+    const added = await this.request<{ id: string }>("/torrents/addMagnet", {
+      method: "POST",
+      headers: FORM_HEADERS,
+      body: `magnet=${encodeURIComponent(magnet)}`,
+      signal,
+    });
+    const torrentId = added.id;
+
+    try {
+      const info = await pollUntil(
+        async () => {
+          const current = await this.request<RealDebridTorrentInfo>(
+            `/torrents/info/${torrentId}`,
+            { signal },
+          );
+          return current.status === "magnet_conversion" ? null : current;
+        },
+        options,
+        "realdebrid",
+      );
+
+      if (info.status === "waiting_files_selection") {
+        const files: CachedFile[] = info.files.map((file) => ({
+          id: String(file.id),
+          filename: basename(file.path),
+          filesize: file.bytes,
+        }));
+        const selected = selectVideoFile(files, request);
+        if (!selected) {
+          throw noVideoError("realdebrid", request);
+        }
+        await this.request(`/torrents/selectFiles/${torrentId}`, {
+          method: "POST",
+          headers: FORM_HEADERS,
+          body: `files=${selected.id}`,
+          signal,
+        });
+      }
+
+      const ready = await pollUntil(
+        async () => {
+          const current = await this.request<RealDebridTorrentInfo>(
+            `/torrents/info/${torrentId}`,
+            { signal },
+          );
+          if (current.status === "downloaded") {
+            return current;
+          }
+          if (
+            ["magnet_error", "error", "virus", "dead"].includes(current.status)
+          ) {
+            throw new DebridError(
+              "provider",
+              `Real-Debrid reported the torrent as ${current.status}`,
+              "realdebrid",
+            );
+          }
+          // Cached torrents finish as soon as their files are selected
+          if (
+            !options.allowUncached &&
+            ["queued", "downloading", "compressing", "uploading"].includes(
+              current.status,
+            )
+          ) {
+            throw notCachedError("realdebrid");
+          }
+          return null;
+        },
+        options,
+        "realdebrid",
+      );
+
+      const selectedFiles: CachedFile[] = ready.files
+        .filter((file) => file.selected === 1)
+        .map((file, index) => ({
+          id: String(file.id),
+          filename: basename(file.path),
+          filesize: file.bytes,
+          link: ready.links[index],
+        }));
+      const file = selectVideoFile(selectedFiles, request);
+      if (!file?.link) {
+        throw noVideoError("realdebrid", request);
+      }
+
+      const unrestricted = await this.request<UnrestrictedLink>(
+        API_ENDPOINTS.realdebrid.unrestrict,
+        {
+          method: "POST",
+          headers: FORM_HEADERS,
+          body: `link=${encodeURIComponent(file.link)}`,
+          signal,
+        },
+      );
+      return {
+        url: unrestricted.download,
+        filename: file.filename,
+        filesize: file.filesize,
+        service: "realdebrid",
+      };
+    } catch (error) {
+      // A download the user opted into keeps going after a timeout; anything else is cleaned up
+      if (!options.allowUncached || !isDebridError(error, "timeout")) {
+        await this.deleteTorrent(torrentId);
+      }
+      throw error;
+    }
+  }
+
+  async getAccount(): Promise<DebridAccount> {
+    const user = await this.request<RealDebridUser>(
+      API_ENDPOINTS.realdebrid.user,
+    );
+    const isPremium = user.type === "premium";
+    return {
+      service: "realdebrid",
+      username: user.username,
+      isPremium,
+      premiumUntil:
+        isPremium && user.expiration ? Date.parse(user.expiration) : undefined,
+      points: user.points,
+    };
+  }
+
+  async listTransfers(): Promise<DebridTransfer[]> {
+    // An empty account answers with 204 and no body
+    const torrents =
+      (await this.request<RealDebridTorrent[] | null>("/torrents?limit=100")) ??
+      [];
+    return torrents.map((torrent) => ({
+      id: torrent.id,
+      name: torrent.filename,
+      progress: torrent.progress,
+      status: torrent.status,
+      isFinished: torrent.status === "downloaded",
+      size: torrent.bytes,
+      speed: torrent.speed,
+      seeders: torrent.seeders,
+    }));
+  }
+
+  async deleteTransfer(torrentId: string): Promise<void> {
+    await this.request<null>(`/torrents/delete/${torrentId}`, {
+      method: "DELETE",
+    });
+  }
+
+  private async deleteTorrent(torrentId: string): Promise<void> {
+    try {
+      await this.deleteTransfer(torrentId);
+    } catch (error) {
+      console.error("Failed to remove Real-Debrid torrent:", error);
+    }
+  }
+
+  private async request<T>(
+    path: string,
+    init: HttpRequestOptions = {},
+  ): Promise<T> {
+    const response = await httpClient.request(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        ...this.getHeaders(),
+        ...(init.headers as Record<string, string> | undefined),
+      },
+    });
+    const data =
+      response.status === 204
+        ? null
+        : await readJson<T & RealDebridErrorBody>(response);
+    if (!response.ok) {
+      const code = data?.error_code;
+      const message = data?.error
+        ? `Real-Debrid: ${data.error}`
+        : `Real-Debrid returned ${response.status}`;
+      if (response.status === 401 || code === 8) {
+        throw new DebridError("bad_key", message, "realdebrid");
+      }
+      // 21: too many active downloads, 36: fair usage limit
+      if (response.status === 429 || code === 21 || code === 36) {
+        throw new DebridError("quota_exceeded", message, "realdebrid");
+      }
+      if (response.status === 403) {
+        throw new DebridError("not_premium", message, "realdebrid");
+      }
+      throw new DebridError("provider", message, "realdebrid");
+    }
+    return data as T;
+  }
+}
+
+interface AllDebridErrorBody {
+  code?: string;
+  message?: string;
+}
+
+interface AllDebridResponse<T> {
+  status: "success" | "error";
+  data?: T;
+  error?: AllDebridErrorBody;
+}
+
+interface AllDebridLink {
+  link: string;
+  filename: string;
+  size: number;
+}
+
+interface AllDebridMagnet {
+  id: number;
+  filename: string;
+  size: number;
+  status: string;
+  statusCode: number;
+  downloaded?: number;
+  downloadSpeed?: number;
+  seeders?: number;
+  links?: AllDebridLink[];
 }
 
-class AllDebridClient {
+interface AllDebridUpload {
+  magnets?: { id: number; ready?: boolean; error?: AllDebridErrorBody }[];
+}
+
+interface AllDebridInstant {
+  magnets?: { hash: string; instant: boolean }[];
+}
+
+interface AllDebridUser {
+  user: {
+    username: string;
+    isPremium: boolean;
+    premiumUntil?: number;
+    fidelityPoints?: number;
+  };
+}
+
+function allDebridError(
+  error: AllDebridErrorBody | undefined,
+  status?: number,
+): DebridError {
+  const code = error?.code ?? "";
+  const message = error?.message
+    ? `AllDebrid: ${error.message}`
+    : `AllDebrid returned ${status ?? "an error"}`;
+  if (code.startsWith("AUTH_")) {
+    return new DebridError("bad_key", message, "alldebrid");
+  }
+  if (code.endsWith("MUST_BE_PREMIUM")) {
+    return new DebridError("not_premium", message, "alldebrid");
+  }
+  if (code.includes("TOO_MANY") || code.includes("LIMIT")) {
+    return new DebridError("quota_exceeded", message, "alldebrid");
+  }
+  return new DebridError("provider", message, "alldebrid");
+}
+
+export class AllDebridClient {
   private apiKey: string;
-  private baseUrl = API_ENDPOINTS.alldebrid.base;
+  private baseUrl: string;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, baseUrl: string = API_ENDPOINTS.alldebrid.base) {
     this.apiKey = apiKey;
+    this.baseUrl = baseUrl;
   }
 
   private getUrl(endpoint: string): string {
-    return `${this.baseUrl}${endpoint}?agent=StreamPlayer&apikey=${this.apiKey}`;
+    return `${this.baseUrl}${endpoint}?agent=StreamPlayer`;
+  }
+
+  // The key goes in a header rather than the query string, which ends up in error messages and logs
+  private getHeaders(): Record<string, string> {
+    return { Authorization: `Bearer ${this.apiKey}` };
   }
 
   async testConnection(): Promise<boolean> {
     try {
-      const response = await fetch(this.getUrl(API_ENDPOINTS.alldebrid.user));
+      const response = await httpClient.request(
+        this.getUrl(API_ENDPOINTS.alldebrid.user),
+        { headers: this.getHeaders() },
+      );
       const data = await response.json();
       return data.status === "success";
     } catch {
@@ -147,27 +808,74 @@ class AllDebridClient {
 
   async checkCache(magnets: string[]): Promise<CacheStatus> {
     try {
-      const magnetParams = magnets.map((m, i) => `magnets[${i}]=${encodeURIComponent(m)}`).join("&");
-      const response = await fetch(`${this.getUrl(API_ENDPOINTS.alldebrid.cache)}&${magnetParams}`);
-      
+      const magnetParams = magnets
+        .map((m, i) => `magnets[${i}]=${encodeURIComponent(m)}`)
+        .join("&");
+      const response = await httpClient.request(
+        `${this.getUrl(API_ENDPOINTS.alldebrid.cache)}&${magnetParams}`,
+        {
+          headers: this.getHeaders(),
+        },
+      );
+
       if (!response.ok) {
         return { isCached: false, error: `API error: ${response.status}` };
       }
 
-      const data = await response.json();
-      const hasCache = data.status === "success" && 
-        data.data?.magnets?.some((m: any) => m.instant === true);
+      const data: AllDebridResponse<AllDebridInstant> = await response.json();
+      const cached =
+        data.status === "success"
+          ? (data.data?.magnets ?? [])
+              .filter((m) => m.instant === true)
+              .map((m) => String(m.hash).toLowerCase())
+          : [];
 
-      return { isCached: hasCache };
+      return { isCached: cached.length > 0, hashes: cached };
     } catch (error) {
       return { isCached: false, error: String(error) };
     }
   }
 
+  async listLibrary(): Promise<DebridLibraryTorrent[]> {
+    const response = await httpClient.request(this.getUrl("/magnet/status"), {
+      headers: this.getHeaders(),
+    });
+    if (!response.ok) {
+      return [];
+    }
+
+    const data = await response.json();
+    const magnets: {
+      id: number;
+      filename: string;
+      statusCode: number;
+      links?: { link: string; filename: string; size: number }[];
+    }[] = data.data?.magnets ?? [];
+    // Status code 4 means the magnet is ready
+    return magnets
+      .filter((magnet) => magnet.statusCode === 4)
+      .map((magnet) => ({
+        id: String(magnet.id),
+        name: magnet.filename,
+        files: (magnet.links ?? []).map((file, index) => ({
+          id: `${magnet.id}_${index}`,
+          filename: file.filename,
+          filesize: file.size,
+          link: file.link,
+        })),
+      }));
+  }
+
+  async getStreamUrl(file: DebridLibraryFile): Promise<string | null> {
+    const unlocked = await this.unrestrictLink(file.link);
+    return unlocked?.link ?? null;
+  }
+
   async unrestrictLink(link: string): Promise<{ link: string } | null> {
     try {
-      const response = await fetch(
-        `${this.getUrl(API_ENDPOINTS.alldebrid.unrestrict)}&link=${encodeURIComponent(link)}`
+      const response = await httpClient.request(
+        `${this.getUrl(API_ENDPOINTS.alldebrid.unrestrict)}&link=${encodeURIComponent(link)}`,
+        { headers: this.getHeaders() },
       );
 
       if (!response.ok) {
@@ -183,14 +891,190 @@ class AllDebridClient {
       return null;
     }
   }
+
+  async resolveTorrent(
+    magnet: string,
+    hash: string,
+    request: ResolveRequest,
+    options: ResolveOptions,
+  ): Promise<ResolvedStream> {
+    const { signal } = options;
+    const uploaded = await this.request<AllDebridUpload>(
+      "/magnet/upload",
+      `magnets[]=${encodeURIComponent(magnet)}`,
+      signal,
+    );
+    const magnetInfo = uploaded.magnets?.[0];
+    if (!magnetInfo || magnetInfo.error) {
+      throw allDebridError(magnetInfo?.error);
+    }
+    const magnetId = magnetInfo.id;
+
+    try {
+      if (!magnetInfo.ready && !options.allowUncached) {
+        throw notCachedError("alldebrid");
+      }
+
+      const ready = await pollUntil(
+        async () => {
+          // Asking for a single id returns that magnet on its own rather than a list
+          const status = await this.request<{ magnets: AllDebridMagnet }>(
+            "/magnet/status",
+            `id=${magnetId}`,
+            signal,
+          );
+          const current = status.magnets;
+          if (current.statusCode === 4) {
+            return current;
+          }
+          // Codes above 4 are failures such as dead or oversized torrents
+          if (current.statusCode > 4) {
+            throw new DebridError(
+              "provider",
+              `AllDebrid: ${current.status}`,
+              "alldebrid",
+            );
+          }
+          return null;
+        },
+        options,
+        "alldebrid",
+      );
+
+      const files: CachedFile[] = (ready.links ?? []).map((file, index) => ({
+        id: `${magnetId}_${index}`,
+        filename: file.filename,
+        filesize: file.size,
+        link: file.link,
+      }));
+      const file = selectVideoFile(files, request);
+      if (!file?.link) {
+        throw noVideoError("alldebrid", request);
+      }
+
+      const unlocked = await this.request<{ link: string }>(
+        API_ENDPOINTS.alldebrid.unrestrict,
+        `link=${encodeURIComponent(file.link)}`,
+        signal,
+      );
+      return {
+        url: unlocked.link,
+        filename: file.filename,
+        filesize: file.filesize,
+        service: "alldebrid",
+      };
+    } catch (error) {
+      if (!options.allowUncached || !isDebridError(error, "timeout")) {
+        await this.deleteMagnet(magnetId);
+      }
+      throw error;
+    }
+  }
+
+  async getAccount(): Promise<DebridAccount> {
+    const { user } = await this.request<AllDebridUser>(
+      API_ENDPOINTS.alldebrid.user,
+      "",
+    );
+    return {
+      service: "alldebrid",
+      username: user.username,
+      isPremium: user.isPremium === true,
+      // Seconds since the epoch, 0 when the account isn't premium
+      premiumUntil: user.premiumUntil ? user.premiumUntil * 1000 : undefined,
+      points: user.fidelityPoints,
+    };
+  }
+
+  async listTransfers(): Promise<DebridTransfer[]> {
+    const data = await this.request<{ magnets?: AllDebridMagnet[] }>(
+      "/magnet/status",
+      "",
+    );
+    const magnets = data.magnets ?? [];
+    return magnets.map((magnet) => {
+      const isFinished = magnet.statusCode === 4;
+      return {
+        id: String(magnet.id),
+        name: magnet.filename,
+        progress: isFinished
+          ? 100
+          : magnet.size > 0
+            ? ((magnet.downloaded ?? 0) / magnet.size) * 100
+            : 0,
+        status: magnet.status,
+        isFinished,
+        size: magnet.size,
+        speed: magnet.downloadSpeed,
+        seeders: magnet.seeders,
+      };
+    });
+  }
+
+  async deleteTransfer(magnetId: string): Promise<void> {
+    await this.request<unknown>(
+      "/magnet/delete",
+      `id=${encodeURIComponent(magnetId)}`,
+    );
+  }
+
+  private async deleteMagnet(magnetId: number): Promise<void> {
+    try {
+      await this.deleteTransfer(String(magnetId));
+    } catch (error) {
+      console.error("Failed to remove AllDebrid magnet:", error);
+    }
+  }
+
+  private async request<T>(
+    endpoint: string,
+    query: string,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const response = await httpClient.request(
+      `${this.getUrl(endpoint)}&${query}`,
+      { headers: this.getHeaders(), signal },
+    );
+    const data = await readJson<AllDebridResponse<T>>(response);
+    if (data?.status !== "success") {
+      throw allDebridError(data?.error, response.status);
+    }
+    return data.data as T;
+  }
+}
+
+// Every Premiumize answer carries a status next to its own fields
+interface PremiumizeStatus {
+  status: "success" | "error";
+  message?: string;
+}
+
+interface PremiumizeTransfer {
+  id: string;
+  name: string;
+  status: string;
+  progress?: number | null;
+  message?: string;
+}
+
+interface PremiumizeDirectDl {
+  content?: { path: string; size: number; link: string }[];
+}
+
+interface PremiumizeAccountInfo {
+  customer_id?: number | string;
+  // Seconds since the epoch
+  premium_until?: number | false;
+  limit_used?: number;
 }
 
-class PremiumizeClient {
+export class PremiumizeClient {
   private apiKey: string;
-  private baseUrl = API_ENDPOINTS.premiumize.base;
+  private baseUrl: string;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, baseUrl: string = API_ENDPOINTS.premiumize.base) {
     this.apiKey = apiKey;
+    this.baseUrl = baseUrl;
   }
 
   private getHeaders(): Record<string, string> {
@@ -201,9 +1085,12 @@ class PremiumizeClient {
 
   async testConnection(): Promise<boolean> {
     try {
-      const response = await fetch(`${this.baseUrl}${API_ENDPOINTS.premiumize.user}`, {
-        headers: this.getHeaders(),
-      });
+      const response = await httpClient.request(
+        `${this.baseUrl}${API_ENDPOINTS.premiumize.user}`,
+        {
+          headers: this.getHeaders(),
+        },
+      );
       const data = await response.json();
       return data.status === "success";
     } catch {
@@ -214,34 +1101,87 @@ class PremiumizeClient {
   async checkCache(hashes: string[]): Promise<CacheStatus> {
     try {
       const params = hashes.map((h, i) => `items[${i}]=${h}`).join("&");
-      const response = await fetch(`${this.baseUrl}${API_ENDPOINTS.premiumize.cache}?${params}`, {
-        headers: this.getHeaders(),
-      });
+      const response = await httpClient.request(
+        `${this.baseUrl}${API_ENDPOINTS.premiumize.cache}?${params}`,
+        {
+          headers: this.getHeaders(),
+        },
+      );
 
       if (!response.ok) {
         return { isCached: false, error: `API error: ${response.status}` };
       }
 
       const data = await response.json();
-      const hasCache = data.status === "success" && 
-        data.response?.some((cached: boolean) => cached === true);
+      // Answers come back in the order the hashes were sent
+      const cached =
+        data.status === "success"
+          ? hashes.filter((_, index) => data.response?.[index] === true)
+          : [];
 
-      return { isCached: hasCache };
+      return {
+        isCached: cached.length > 0,
+        hashes: cached.map((hash) => hash.toLowerCase()),
+      };
     } catch (error) {
       return { isCached: false, error: String(error) };
     }
   }
 
+  // Premiumize keeps a flat file cloud rather than torrents, so each file is listed on its own
+  async listLibrary(): Promise<DebridLibraryTorrent[]> {
+    const response = await httpClient.request(`${this.baseUrl}/item/listall`, {
+      headers: this.getHeaders(),
+    });
+    if (!response.ok) {
+      return [];
+    }
+
+    const data = await response.json();
+    const files: { id: string; name: string; size: number; path?: string }[] =
+      data.files ?? [];
+    return files.map((file) => ({
+      id: file.id,
+      name: file.path ?? file.name,
+      files: [
+        {
+          id: file.id,
+          filename: file.name,
+          filesize: file.size,
+          link: file.id,
+        },
+      ],
+    }));
+  }
+
+  async getStreamUrl(file: DebridLibraryFile): Promise<string | null> {
+    const response = await httpClient.request(
+      `${this.baseUrl}/item/details?id=${encodeURIComponent(file.link)}`,
+      {
+        headers: this.getHeaders(),
+      },
+    );
+    if (!response.ok) {
+      return null;
+    }
+
+    const data = await response.json();
+    return data.stream_link || data.link || null;
+  }
+
   async unrestrictLink(link: string): Promise<{ link: string } | null> {
     try {
-      const response = await fetch(`${this.baseUrl}${API_ENDPOINTS.premiumize.unrestrict}`, {
-        method: "POST",
-        headers: {
-          ...this.getHeaders(),
-          "Content-Type": "application/x-www-form-urlencoded",
+      const response = await httpClient.request(
+        `${this.baseUrl}${API_ENDPOINTS.premiumize.unrestrict}`,
+        {
+          method: "POST",
+          headers: {
+            ...this.getHeaders(),
+            "Content-Type": "application/x-www-form-urlencoded",
+          },
+          body: `src=${encodeURIComponent(link)}`,
         },
-        body: `src=${encodeURIComponent(link)}`,
-      });
+      );
 
       if (!response.ok) {
         return null;
@@ -256,14 +1196,246 @@ class PremiumizeClient {
       return null;
     }
   }
+
+  async resolveTorrent(
+    magnet: string,
+    hash: string,
+    request: ResolveRequest,
+    options: ResolveOptions,
+  ): Promise<ResolvedStream> {
+    const { signal } = options;
+    const cache = await this.request<{ response?: boolean[] }>(
+      `${API_ENDPOINTS.premiumize.cache}?items[]=${hash}`,
+      { signal },
+    );
+    let transferId: string | null = null;
+
+    try {
+      if (cache.response?.[0] !== true) {
+        if (!options.allowUncached) {
+          throw notCachedError("premiumize");
+        }
+        const transfer = await this.request<{ id: string }>(
+          "/transfer/create",
+          {
+            method: "POST",
+            headers: FORM_HEADERS,
+            body: `src=${encodeURIComponent(magnet)}`,
+            signal,
+          },
+        );
+        transferId = transfer.id;
+        await pollUntil(
+          async () => {
+            const list = await this.request<{
+              transfers?: PremiumizeTransfer[];
+            }>("/transfer/list", { signal });
+            const current = (list.transfers ?? []).find(
+              (item) => item.id === transfer.id,
+            );
+            if (
+              current?.status === "finished" ||
+              current?.status === "seeding"
+            ) {
+              return current;
+            }
+            if (
+              !current ||
+              current.status === "error" ||
+              current.status === "deleted"
+            ) {
+              throw new DebridError(
+                "provider",
+                `Premiumize: ${current?.message ?? "transfer failed"}`,
+                "premiumize",
+              );
+            }
+            return null;
+          },
+          options,
+          "premiumize",
+        );
+      }
+
+      const direct = await this.request<PremiumizeDirectDl>(
+        API_ENDPOINTS.premiumize.unrestrict,
+        {
+          method: "POST",
+          headers: FORM_HEADERS,
+          body: `src=${encodeURIComponent(magnet)}`,
+          signal,
+        },
+      );
+      const files: CachedFile[] = (direct.content ?? []).map((file, index) => ({
+        id: String(index),
+        filename: basename(file.path),
+        filesize: file.size,
+        link: file.link,
+      }));
+      const file = selectVideoFile(files, request);
+      if (!file?.link) {
+        throw noVideoError("premiumize", request);
+      }
+      return {
+        url: file.link,
+        filename: file.filename,
+        filesize: file.filesize,
+        service: "premiumize",
+      };
+    } catch (error) {
+      // Only a transfer started here is removed; cached content was never added to the account
+      if (
+        transferId &&
+        (!options.allowUncached || !isDebridError(error, "timeout"))
+      ) {
+        await this.removeTransfer(transferId);
+      }
+      throw error;
+    }
+  }
+
+  async getAccount(): Promise<DebridAccount> {
+    const info = await this.request<PremiumizeAccountInfo>(
+      API_ENDPOINTS.premiumize.user,
+    );
+    const premiumUntil =
+      typeof info.premium_until === "number" && info.premium_until > 0
+        ? info.premium_until * 1000
+        : undefined;
+    return {
+      service: "premiumize",
+      username:
+        info.customer_id !== undefined ? String(info.customer_id) : undefined,
+      isPremium: premiumUntil !== undefined && premiumUntil > Date.now(),
+      premiumUntil,
+      // limit_used is the share of the fair-use allowance spent, from 0 to 1
+      fairUseLeft:
+        typeof info.limit_used === "number"
+          ? Math.max(0, (1 - info.limit_used) * 100)
+          : undefined,
+    };
+  }
+
+  async listTransfers(): Promise<DebridTransfer[]> {
+    const data = await this.request<{ transfers?: PremiumizeTransfer[] }>(
+      "/transfer/list",
+    );
+    const transfers = data.transfers ?? [];
+    return transfers.map((transfer) => {
+      const isFinished =
+        transfer.status === "finished" || transfer.status === "seeding";
+      return {
+        id: transfer.id,
+        name: transfer.name,
+        progress: isFinished ? 100 : (transfer.progress ?? 0) * 100,
+        status: transfer.message || transfer.status,
+        isFinished,
+      };
+    });
+  }
+
+  async deleteTransfer(transferId: string): Promise<void> {
+    await this.request<unknown>("/transfer/delete", {
+      method: "POST",
+      headers: FORM_HEADERS,
+      body: `id=${encodeURIComponent(transferId)}`,
+    });
+  }
+
+  private async removeTransfer(transferId: string): Promise<void> {
+    try {
+      await this.deleteTransfer(transferId);
+    } catch (error) {
+      console.error("Failed to remove Premiumize transfer:", error);
+    }
+  }
+
+  private async request<T>(
+    path: string,
+    init: HttpRequestOptions = {},
+  ): Promise<T & PremiumizeStatus> {
+    const response = await httpClient.request(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        ...this.getHeaders(),
+        ...(init.headers as Record<string, string> | undefined),
+      },
+    });
+    const data = await readJson<T & PremiumizeStatus>(response);
+    if (response.ok && data?.status === "success") {
+      return data;
+    }
+
+    const message = data?.message
+      ? `Premiumize: ${data.message}`
+      : `Premiumize returned ${response.status}`;
+    const text = String(data?.message ?? "").toLowerCase();
+    if (
+      response.status === 401 ||
+      text.includes("auth") ||
+      text.includes("api key")
+    ) {
+      throw new DebridError("bad_key", message, "premiumize");
+    }
+    if (text.includes("premium")) {
+      throw new DebridError("not_premium", message, "premiumize");
+    }
+    if (
+      response.status === 429 ||
+      text.includes("limit") ||
+      text.includes("fair use")
+    ) {
+      throw new DebridError("quota_exceeded", message, "premiumize");
+    }
+    throw new DebridError("provider", message, "premiumize");
+  }
+}
+
+interface TorBoxResponse<T> {
+  success: boolean;
+  error?: string;
+  detail?: string;
+  data: T;
+}
+
+interface TorBoxFile {
+  id: number;
+  name: string;
+  short_name?: string;
+  size: number;
+}
+
+interface TorBoxTorrent {
+  id: number;
+  name: string;
+  size: number;
+  // 0 to 1
+  progress: number;
+  download_state: string;
+  download_finished: boolean;
+  download_speed?: number;
+  seeds?: number;
+  files?: TorBoxFile[];
+}
+
+interface TorBoxWebDownload {
+  download_finished: boolean;
+  files?: { id: number }[];
+}
+
+interface TorBoxUser {
+  email: string;
+  plan: number;
+  premium_expires_at?: string;
 }
 
-class TorBoxClient {
+export class TorBoxClient {
   private apiKey: string;
-  private baseUrl = API_ENDPOINTS.torbox.base;
+  private baseUrl: string;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, baseUrl: string = API_ENDPOINTS.torbox.base) {
     this.apiKey = apiKey;
+    this.baseUrl = baseUrl;
   }
 
   private getHeaders(): Record<string, string> {
@@ -274,9 +1446,12 @@ class TorBoxClient {
 
   async testConnection(): Promise<boolean> {
     try {
-      const response = await fetch(`${this.baseUrl}${API_ENDPOINTS.torbox.user}`, {
-        headers: this.getHeaders(),
-      });
+      const response = await httpClient.request(
+        `${this.baseUrl}${API_ENDPOINTS.torbox.user}`,
+        {
+          headers: this.getHeaders(),
+        },
+      );
       const data = await response.json();
       return data.success === true;
     } catch {
@@ -287,7 +1462,7 @@ class TorBoxClient {
   async checkCache(hashes: string[]): Promise<CacheStatus> {
     try {
       const hashParam = hashes.join(",");
-      const response = await fetch(
+      const response = await httpClient.request(
         `${this.baseUrl}${API_ENDPOINTS.torbox.cache}?hash=${hashParam}`,
         { headers: this.getHeaders() }
       );
@@ -297,76 +1472,582 @@ class TorBoxClient {
       }
 
       const data = await response.json();
-      const hasCache = data.success === true && 
-        Object.values(data.data || {}).some((cached: any) => cached === true);
+      const cached =
+        data.success === true
+          ? Object.keys(data.data || {}).filter((hash) => !!data.data[hash])
+          : [];
 
-      return { isCached: hasCache };
+      return {
+        isCached: cached.length > 0,
+        hashes: cached.map((hash) => hash.toLowerCase()),
+      };
     } catch (error) {
       return { isCached: false, error: String(error) };
     }
   }
+
+  async listLibrary(): Promise<DebridLibraryTorrent[]> {
+    const response = await httpClient.request(
+      `${this.baseUrl}/torrents/mylist`,
+      {
+        headers: this.getHeaders(),
+      },
+    );
+    if (!response.ok) {
+      return [];
+    }
+
+    const data = await response.json();
+    const torrents: {
+      id: number;
+      name: string;
+      download_finished: boolean;
+      files?: { id: number; name: string; short_name?: string; size: number }[];
+    }[] = data.data ?? [];
+    return torrents
+      .filter((torrent) => torrent.download_finished)
+      .map((torrent) => ({
+        id: String(torrent.id),
+        name: torrent.name,
+        files: (torrent.files ?? []).map((file) => ({
+          id: String(file.id),
+          filename: file.short_name ?? basename(file.name),
+          filesize: file.size,
+          link: `${torrent.id}:${file.id}`,
+        })),
+      }));
+  }
+
+  async getStreamUrl(file: DebridLibraryFile): Promise<string | null> {
+    const [torrentId, fileId] = file.link.split(":");
+    const response = await httpClient.request(
+      `${this.baseUrl}${API_ENDPOINTS.torbox.unrestrict}?torrent_id=${torrentId}&file_id=${fileId}`,
+      { headers: this.getHeaders() },
+    );
+    if (!response.ok) {
+      return null;
+    }
+
+    const data = await response.json();
+    return data.success && typeof data.data === "string" ? data.data : null;
+  }
+
+  async resolveTorrent(
+    magnet: string,
+    hash: string,
+    request: ResolveRequest,
+    options: ResolveOptions,
+  ): Promise<ResolvedStream> {
+    const { signal } = options;
+    const cache = await this.request<Record<string, unknown> | null>(
+      `${API_ENDPOINTS.torbox.cache}?hash=${hash}&format=object&list_files=false`,
+      { signal },
+    );
+    if (!cache.data?.[hash] && !options.allowUncached) {
+      throw notCachedError("torbox");
+    }
+
+    const form = new FormData();
+    form.append("magnet", magnet);
+    const created = await this.request<{ torrent_id: number }>(
+      "/torrents/createtorrent",
+      { method: "POST", body: form, signal },
+    );
+    const torrentId = created.data.torrent_id;
+
+    try {
+      const ready = await pollUntil(
+        async () => {
+          const current = (
+            await this.request<TorBoxTorrent | null>(
+              `/torrents/mylist?id=${torrentId}&bypass_cache=true`,
+              { signal },
+            )
+          ).data;
+          if (current?.download_finished) {
+            return current;
+          }
+          if (
+            typeof current?.download_state === "string" &&
+            current.download_state.startsWith("failed")
+          ) {
+            throw new DebridError(
+              "provider",
+              `TorBox reported the torrent as ${current.download_state}`,
+              "torbox",
+            );
+          }
+          return null;
+        },
+        options,
+        "torbox",
+      );
+
+      const files: CachedFile[] = (ready.files ?? []).map((file) => ({
+        id: String(file.id),
+        filename: file.short_name ?? basename(file.name),
+        filesize: file.size,
+        link: `${torrentId}:${file.id}`,
+      }));
+      const file = selectVideoFile(files, request);
+      if (!file) {
+        throw noVideoError("torbox", request);
+      }
+
+      const download = await this.request<string>(
+        `${API_ENDPOINTS.torbox.unrestrict}?torrent_id=${torrentId}&file_id=${file.id}`,
+        { signal },
+      );
+      return {
+        url: download.data,
+        filename: file.filename,
+        filesize: file.filesize,
+        service: "torbox",
+      };
+    } catch (error) {
+      if (!options.allowUncached || !isDebridError(error, "timeout")) {
+        await this.removeTorrent(torrentId);
+      }
+      throw error;
+    }
+  }
+
+  // Hoster links go through TorBox's web downloads, which finish almost immediately for supported hosts
+  async unrestrictLink(link: string): Promise<{ link: string } | null> {
+    try {
+      const form = new FormData();
+      form.append("link", link);
+      const created = await this.request<{ webdownload_id: number }>(
+        "/webdl/createwebdownload",
+        { method: "POST", body: form },
+      );
+      const webId = created.data.webdownload_id;
+
+      const ready = await pollUntil(
+        async () => {
+          const current = (
+            await this.request<TorBoxWebDownload | null>(
+              `/webdl/mylist?id=${webId}&bypass_cache=true`,
+            )
+          ).data;
+          return current?.download_finished ? current : null;
+        },
+        {},
+        "torbox",
+      );
+
+      const fileId = ready.files?.[0]?.id;
+      if (fileId === undefined) {
+        return null;
+      }
+      const download = await this.request<string>(
+        `/webdl/requestdl?web_id=${webId}&file_id=${fileId}`,
+      );
+      return { link: download.data };
+    } catch {
+      return null;
+    }
+  }
+
+  async getAccount(): Promise<DebridAccount> {
+    const { data: user } = await this.request<TorBoxUser>(
+      API_ENDPOINTS.torbox.user,
+    );
+    // Plan 0 is the free tier
+    const isPremium = typeof user.plan === "number" && user.plan > 0;
+    return {
+      service: "torbox",
+      username: user.email,
+      isPremium,
+      premiumUntil:
+        isPremium && user.premium_expires_at
+          ? Date.parse(user.premium_expires_at)
+          : undefined,
+    };
+  }
+
+  async listTransfers(): Promise<DebridTransfer[]> {
+    const data = await this.request<TorBoxTorrent[] | null>(
+      "/torrents/mylist?bypass_cache=true",
+    );
+    const torrents = data.data ?? [];
+    return torrents.map((torrent) => ({
+      id: String(torrent.id),
+      name: torrent.name,
+      progress: torrent.download_finished ? 100 : torrent.progress * 100,
+      status: torrent.download_state,
+      isFinished: torrent.download_finished,
+      size: torrent.size,
+      speed: torrent.download_speed,
+      seeders: torrent.seeds,
+    }));
+  }
+
+  async deleteTransfer(torrentId: string): Promise<void> {
+    await this.request<unknown>("/torrents/controltorrent", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        torrent_id: Number(torrentId),
+        operation: "delete",
+      }),
+    });
+  }
+
+  private async removeTorrent(torrentId: number): Promise<void> {
+    try {
+      await this.deleteTransfer(String(torrentId));
+    } catch (error) {
+      console.error("Failed to remove TorBox torrent:", error);
+    }
+  }
+
+  private async request<T>(
+    path: string,
+    init: HttpRequestOptions = {},
+  ): Promise<TorBoxResponse<T>> {
+    const response = await httpClient.request(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        ...this.getHeaders(),
+        ...(init.headers as Record<string, string> | undefined),
+      },
+    });
+    const data = await readJson<TorBoxResponse<T>>(response);
+    if (response.ok && data?.success === true) {
+      return data;
+    }
+
+    const code = data?.error ?? "";
+    const message = data?.detail
+      ? `TorBox: ${data.detail}`
+      : `TorBox returned ${response.status}`;
+    if (
+      response.status === 401 ||
+      response.status === 403 ||
+      ["BAD_TOKEN", "NO_AUTH", "AUTH_ERROR"].includes(code)
+    ) {
+      throw new DebridError("bad_key", message, "torbox");
+    }
+    if (code === "PLAN_RESTRICTED_FEATURE") {
+      throw new DebridError("not_premium", message, "torbox");
+    }
+    if (response.status === 429 || code.endsWith("_LIMIT")) {
+      throw new DebridError("quota_exceeded", message, "torbox");
+    }
+    throw new DebridError("provider", message, "torbox");
+  }
+}
+
+export type DebridClient =
+  | RealDebridClient
+  | AllDebridClient
+  | PremiumizeClient
+  | TorBoxClient;
+
+interface ConfiguredAccount {
+  id: string;
+  service: DebridServiceType;
+  client: DebridClient;
+}
+
+export const DEBRID_SERVICE_NAMES: Record<DebridServiceType, string> = {
+  realdebrid: "Real-Debrid",
+  alldebrid: "AllDebrid",
+  premiumize: "Premiumize",
+  torbox: "TorBox",
+};
+
+// baseUrl replaces the provider's API root, e.g. with a local stub in tests
+export function createClient(
+  account: Pick<DebridAccountSetting, "service" | "apiKey">,
+  baseUrl?: string,
+): DebridClient {
+  switch (account.service) {
+    case "realdebrid":
+      return new RealDebridClient(account.apiKey, baseUrl);
+    case "alldebrid":
+      return new AllDebridClient(account.apiKey, baseUrl);
+    case "premiumize":
+      return new PremiumizeClient(account.apiKey, baseUrl);
+    case "torbox":
+      return new TorBoxClient(account.apiKey, baseUrl);
+  }
+}
+
+// AllDebrid looks up magnets, the others bare info hashes
+function toCacheKeys(
+  service: DebridServiceType,
+  hashesOrMagnets: string[],
+): string[] {
+  return hashesOrMagnets.map((item) => {
+    const hash = getInfoHash(item);
+    if (!hash) {
+      return item;
+    }
+    return service === "alldebrid"
+      ? item.startsWith("magnet:")
+        ? item
+        : toMagnet(hash)
+      : hash;
+  });
+}
+
+// Problems with one account, such as a bad key or a spent quota, say nothing about the others
+function shouldFailOver(error: unknown): boolean {
+  return (
+    isDebridError(error) &&
+    error.kind !== "no_video" &&
+    error.kind !== "invalid_magnet"
+  );
 }
 
 class DebridService {
-  private currentClient: RealDebridClient | AllDebridClient | PremiumizeClient | TorBoxClient | null = null;
-  private currentService: DebridServiceType | null = null;
+  private accounts: ConfiguredAccount[] = [];
 
-  configure(settings: DebridSettings): void {
-    if (settings.service === "none" || !settings.apiKey) {
-      this.currentClient = null;
-      this.currentService = null;
-      return;
+  // baseUrl is passed on to every account's client, as with createClient
+  configure(settings: DebridSettings, baseUrl?: string): void {
+    this.accounts = settings.accounts
+      .filter((account) => account.enabled && account.apiKey)
+      .map((account) => ({
+        id: account.id,
+        service: account.service,
+        client: createClient(account, baseUrl),
+      }));
+  }
+
+  async testConnection(): Promise<boolean> {
+    const results = await Promise.all(
+      this.accounts.map((account) => account.client.testConnection()),
+    );
+    return results.length > 0 && results.every(Boolean);
+  }
+
+  // Asks every account at once; accounts lists the ones that have the content
+  async checkCache(
+    hashesOrMagnets: string[],
+  ): Promise<CacheStatus & { accounts?: string[] }> {
+    if (this.accounts.length === 0) {
+      return { isCached: false, error: "No debrid service configured" };
     }
 
-    this.currentService = settings.service;
+    const results = await Promise.all(
+      this.accounts.map((account) =>
+        account.client.checkCache(
+          toCacheKeys(account.service, hashesOrMagnets),
+        ),
+      ),
+    );
+    const accounts = this.accounts
+      .filter((_, index) => results[index].isCached)
+      .map((account) => account.id);
+    const errors = results
+      .filter((result) => result.error)
+      .map((result) => result.error);
+    return {
+      isCached: accounts.length > 0,
+      hashes: [...new Set(results.flatMap((result) => result.hashes ?? []))],
+      accounts,
+      error:
+        accounts.length === 0 && errors.length === results.length
+          ? errors.join("; ")
+          : undefined,
+    };
+  }
 
-    switch (settings.service) {
-      case "realdebrid":
-        this.currentClient = new RealDebridClient(settings.apiKey);
-        break;
-      case "alldebrid":
-        this.currentClient = new AllDebridClient(settings.apiKey);
-        break;
-      case "premiumize":
-        this.currentClient = new PremiumizeClient(settings.apiKey);
-        break;
-      case "torbox":
-        this.currentClient = new TorBoxClient(settings.apiKey);
-        break;
+  // Adds the torrent, picks the right video file and returns a direct URL for it. Accounts reporting
+  // the torrent cached go first; any account that fails hands over to the next one
+  async resolve(
+    request: ResolveRequest,
+    options: ResolveOptions = {},
+  ): Promise<ResolvedStream> {
+    if (this.accounts.length === 0) {
+      throw new DebridError("not_configured", "No debrid service configured");
     }
+
+    const hash = getInfoHash(request.magnet ?? request.infoHash ?? "");
+    if (!hash) {
+      throw new DebridError(
+        "invalid_magnet",
+        "Not a valid magnet link or info hash",
+      );
+    }
+    const magnet = request.magnet ?? toMagnet(hash);
+
+    const cached = new Set((await this.checkCache([hash])).accounts);
+    const ordered = [
+      ...this.accounts.filter((account) => cached.has(account.id)),
+      ...this.accounts.filter((account) => !cached.has(account.id)),
+    ];
+
+    const errors: DebridError[] = [];
+    const uncached: ConfiguredAccount[] = [];
+    for (const account of ordered) {
+      try {
+        return await this.attempt(account, magnet, hash, request, {
+          ...options,
+          allowUncached: false,
+        });
+      } catch (error) {
+        if (!shouldFailOver(error)) {
+          throw error;
+        }
+        if (isDebridError(error, "not_cached")) {
+          uncached.push(account);
+        } else {
+          errors.push(error as DebridError);
+        }
+      }
+    }
+
+    // Nobody had it cached, so start a download on the highest-priority account that will take one
+    if (options.allowUncached) {
+      for (const account of uncached) {
+        try {
+          return await this.attempt(account, magnet, hash, request, options);
+        } catch (error) {
+          if (!shouldFailOver(error)) {
+            throw error;
+          }
+          errors.push(error as DebridError);
+        }
+      }
+    }
+
+    throw errors[0] ?? notCachedError(uncached[0].service);
   }
 
-  async testConnection(): Promise<boolean> {
-    if (!this.currentClient) {
-      return false;
+  // Plan, expiry and remaining allowance, read from the provider's user endpoint
+  async getAccount(
+    account: Pick<DebridAccountSetting, "service" | "apiKey">,
+  ): Promise<DebridAccount> {
+    return this.withClient(account, (client) => client.getAccount());
+  }
+
+  async listTransfers(
+    account: Pick<DebridAccountSetting, "service" | "apiKey">,
+  ): Promise<DebridTransfer[]> {
+    return this.withClient(account, (client) => client.listTransfers());
+  }
+
+  async deleteTransfer(
+    account: Pick<DebridAccountSetting, "service" | "apiKey">,
+    transferId: string,
+  ): Promise<void> {
+    return this.withClient(account, (client) =>
+      client.deleteTransfer(transferId),
+    );
+  }
+
+  // Turns a hoster link into a direct download through the first account that accepts it
+  async unrestrictLink(link: string): Promise<string | null> {
+    for (const { client } of this.accounts) {
+      // Real-Debrid echoes the hoster link back as link and puts the direct one in download
+      const direct =
+        client instanceof RealDebridClient
+          ? (await client.unrestrictLink(link))?.download
+          : (await client.unrestrictLink(link))?.link;
+      if (direct) {
+        return direct;
+      }
     }
-    return this.currentClient.testConnection();
+    return null;
   }
 
-  async checkCache(hashesOrMagnets: string[]): Promise<CacheStatus> {
-    if (!this.currentClient) {
-      return { isCached: false, error: "No debrid service configured" };
+  // Looks through files already in each account's debrid cloud for one matching the title
+  async findLibraryStream(query: LibraryQuery): Promise<string | null> {
+    for (const { client } of this.accounts) {
+      try {
+        const torrents = (await client.listLibrary()).filter((torrent) =>
+          matchesTitle(torrent.name, query),
+        );
+
+        for (const torrent of torrents) {
+          const files =
+            torrent.files ??
+            ("getTorrentFiles" in client
+              ? await client.getTorrentFiles(torrent.id)
+              : []);
+          const candidates = files
+            .filter(
+              (file) =>
+                VIDEO_EXTENSIONS.test(file.filename) &&
+                matchesEpisode(file.filename, query.season, query.episode),
+            )
+            .sort((a, b) => b.filesize - a.filesize);
+
+          // Remakes share a title, so prefer the release carrying the right year
+          const match =
+            candidates.find(
+              (file) =>
+                query.year !== undefined &&
+                `${torrent.name} ${file.filename}`.includes(String(query.year)),
+            ) ?? candidates[0];
+          if (match) {
+            return await client.getStreamUrl(match);
+          }
+        }
+      } catch (error) {
+        console.error("Failed to search debrid library:", error);
+      }
     }
-    return this.currentClient.checkCache(hashesOrMagnets);
+    return null;
   }
 
+  // "Real-Debrid", or "Real-Debrid or TorBox" with several accounts configured
   getServiceName(): string {
-    switch (this.currentService) {
-      case "realdebrid":
-        return "Real-Debrid";
-      case "alldebrid":
-        return "AllDebrid";
-      case "premiumize":
-        return "Premiumize";
-      case "torbox":
-        return "TorBox";
-      default:
-        return "None";
+    const names = [
+      ...new Set(
+        this.accounts.map((account) => DEBRID_SERVICE_NAMES[account.service]),
+      ),
+    ];
+    if (names.length === 0) {
+      return "None";
     }
+    return names.length === 1
+      ? names[0]
+      : `${names.slice(0, -1).join(", ")} or ${names[names.length - 1]}`;
   }
 
   isConfigured(): boolean {
-    return this.currentClient !== null;
+    return this.accounts.length > 0;
+  }
+
+  private async attempt(
+    account: ConfiguredAccount,
+    magnet: string,
+    hash: string,
+    request: ResolveRequest,
+    options: ResolveOptions,
+  ): Promise<ResolvedStream> {
+    try {
+      return await account.client.resolveTorrent(
+        magnet,
+        hash,
+        request,
+        options,
+      );
+    } catch (error) {
+      throw toDebridError(error, account.service);
+    }
+  }
+
+  private async withClient<T>(
+    account: Pick<DebridAccountSetting, "service" | "apiKey">,
+    action: (client: DebridClient) => Promise<T>,
+  ): Promise<T> {
+    if (!account.apiKey) {
+      throw new DebridError(
+        "not_configured",
+        "No API key entered",
+        account.service,
+      );
+    }
+    try {
+      return await action(createClient(account));
+    } catch (error) {
+      throw toDebridError(error, account.service);
+    }
   }
 }
 
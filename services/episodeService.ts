@@ -0,0 +1,130 @@
+import {
+  formatEpisode,
+  libraryService,
+  PlayerParams,
+  StreamResolution,
+} from "@/services/libraryService";
+import { TraktEpisode, traktService } from "@/services/traktService";
+
+export interface EpisodeRef {
+  season?: number;
+  episode?: number;
+  title: string;
+  // Playlist entries already carry a stream; Trakt episodes are looked up in the debrid cloud
+  params?: PlayerParams;
+}
+
+export interface EpisodeNeighbours {
+  previous: EpisodeRef | null;
+  next: EpisodeRef | null;
+}
+
+const NO_NEIGHBOURS: EpisodeNeighbours = { previous: null, next: null };
+
+function hasAired(episode: TraktEpisode, now: number): boolean {
+  // Seasons fetched without air dates are assumed to be out
+  if (episode.first_aired === undefined) return true;
+  return episode.first_aired !== null && Date.parse(episode.first_aired) <= now;
+}
+
+function playlistRef(current: PlayerParams, index: number): EpisodeRef | null {
+  const item = current.playlist?.[index];
+  if (!item) return null;
+  return {
+    season: item.season,
+    episode: item.episode,
+    title: item.title ?? item.uri.split("/").pop() ?? item.uri,
+    params: { ...item, playlist: current.playlist },
+  };
+}
+
+// Finds the episodes either side of the one playing, from a supplied playlist or the show's Trakt seasons
+class EpisodeService {
+  private episodes: Map<string, TraktEpisode[]> = new Map();
+
+  async getNeighbours(current: PlayerParams): Promise<EpisodeNeighbours> {
+    if (current.playlist?.length) {
+      const index = current.playlist.findIndex(
+        (item) => item.uri === current.uri,
+      );
+      if (index === -1) return NO_NEIGHBOURS;
+      return {
+        previous: playlistRef(current, index - 1),
+        next: playlistRef(current, index + 1),
+      };
+    }
+
+    const { season, episode } = current;
+    const showId = current.traktId ?? current.imdbId;
+    if (!showId || season === undefined || episode === undefined) {
+      return NO_NEIGHBOURS;
+    }
+
+    const episodes = await this.getEpisodes(showId);
+    const index = episodes.findIndex(
+      (item) => item.season === season && item.number === episode,
+    );
+    if (index === -1) return NO_NEIGHBOURS;
+
+    const showName = current.showName ?? current.title ?? "";
+    const toRef = (item?: TraktEpisode): EpisodeRef | null =>
+      item
+        ? {
+            season: item.season,
+            episode: item.number,
+            title: item.title
+              ? `${formatEpisode(item.season, item.number)} · ${item.title}`
+              : `${showName} ${formatEpisode(item.season, item.number)}`,
+          }
+        : null;
+
+    return {
+      previous: toRef(episodes[index - 1]),
+      next: toRef(episodes[index + 1]),
+    };
+  }
+
+  async resolve(
+    ref: EpisodeRef,
+    current: PlayerParams,
+  ): Promise<StreamResolution> {
+    if (ref.params) {
+      return { ok: true, params: ref.params };
+    }
+    return libraryService.resolveTitle({
+      title: current.showName ?? current.title ?? "",
+      ids: {
+        imdb: current.imdbId,
+        trakt: current.traktId,
+        tmdb: current.tmdbId,
+        tvdb: current.tvdbId,
+      },
+      season: ref.season,
+      episode: ref.episode,
+    });
+  }
+
+  private async getEpisodes(showId: string | number): Promise<TraktEpisode[]> {
+    const cached = this.episodes.get(String(showId));
+    if (cached) return cached;
+
+    await traktService.initialize();
+    const seasons = await traktService.getSeasons(showId);
+    if (!seasons) return [];
+
+    const now = Date.now();
+    // Specials sit outside the normal running order
+    const episodes = seasons
+      .filter((season) => season.number > 0)
+      .sort((a, b) => a.number - b.number)
+      .flatMap((season) =>
+        [...(season.episodes ?? [])].sort((a, b) => a.number - b.number),
+      )
+      .filter((episode) => hasAired(episode, now));
+
+    this.episodes.set(String(showId), episodes);
+    return episodes;
+  }
+}
+
+export const episodeService = new EpisodeService();
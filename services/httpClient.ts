@@ -0,0 +1,249 @@
+export type HttpErrorKind =
+  | "timeout"
+  | "aborted"
+  | "network"
+  | "http"
+  | "parse";
+
+export class HttpError extends Error {
+  readonly kind: HttpErrorKind;
+  readonly url: string;
+  readonly status?: number;
+
+  constructor(
+    kind: HttpErrorKind,
+    url: string,
+    message: string,
+    status?: number,
+  ) {
+    super(message);
+    this.name = "HttpError";
+    this.kind = kind;
+    this.url = url;
+    this.status = status;
+  }
+}
+
+export interface HttpRequestOptions extends Omit<RequestInit, "signal"> {
+  // Per-attempt timeout; 0 disables it
+  timeoutMs?: number;
+  // Extra attempts after a 5xx, 429 or network failure. Defaults to none for POST and PATCH,
+  // where a request that timed out may still have gone through
+  retries?: number;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_RETRIES = 2;
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+const BASE_BACKOFF_MS = 500;
+const MAX_RETRY_DELAY_MS = 30000;
+
+export function isHttpError(
+  error: unknown,
+  kind?: HttpErrorKind,
+): error is HttpError {
+  return (
+    error instanceof HttpError && (kind === undefined || error.kind === kind)
+  );
+}
+
+export function isAbortError(error: unknown): boolean {
+  return (
+    isHttpError(error, "aborted") ||
+    (error instanceof Error && error.name === "AbortError")
+  );
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 429;
+}
+
+interface AttemptResult {
+  response: Response;
+  body?: string;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error("aborted"));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error("aborted"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+class HttpClient {
+  async request(
+    url: string,
+    options: HttpRequestOptions = {},
+  ): Promise<Response> {
+    return (await this.send(url, options, false)).response;
+  }
+
+  async requestJson<T>(
+    url: string,
+    options: HttpRequestOptions = {},
+  ): Promise<T> {
+    const { response, body } = await this.send(
+      url,
+      {
+        ...options,
+        headers: {
+          Accept: "application/json",
+          ...(options.headers as Record<string, string> | undefined),
+        },
+      },
+      true,
+    );
+
+    if (!response.ok) {
+      throw new HttpError(
+        "http",
+        url,
+        `Request failed with status ${response.status}`,
+        response.status,
+      );
+    }
+
+    try {
+      return JSON.parse(body ?? "");
+    } catch (error) {
+      throw new HttpError(
+        "parse",
+        url,
+        `Invalid JSON response: ${String(error)}`,
+        response.status,
+      );
+    }
+  }
+
+  private async send(
+    url: string,
+    options: HttpRequestOptions,
+    readBody: boolean,
+  ): Promise<AttemptResult> {
+    const isIdempotent = IDEMPOTENT_METHODS.includes(
+      (options.method ?? "GET").toUpperCase(),
+    );
+    const {
+      timeoutMs = DEFAULT_TIMEOUT_MS,
+      retries = isIdempotent ? DEFAULT_RETRIES : 0,
+      signal,
+      ...init
+    } = options;
+
+    for (let attempt = 0; ; attempt++) {
+      let result: AttemptResult | null = null;
+      let failure: HttpError | null = null;
+
+      try {
+        result = await this.attempt(url, init, timeoutMs, readBody, signal);
+      } catch (error) {
+        if (!isHttpError(error) || error.kind === "aborted") {
+          throw error;
+        }
+        failure = error;
+      }
+
+      const canRetry =
+        attempt < retries &&
+        (failure !== null ||
+          (result !== null && isRetryableStatus(result.response.status)));
+      if (!canRetry) {
+        if (failure) throw failure;
+        return result as AttemptResult;
+      }
+
+      const retryAfter = result
+        ? parseRetryAfter(result.response.headers.get("Retry-After"))
+        : null;
+      // A server asking us to wait longer than we're willing to gets its response back as-is
+      if (result && retryAfter !== null && retryAfter > MAX_RETRY_DELAY_MS) {
+        return result;
+      }
+
+      const backoff =
+        BASE_BACKOFF_MS * Math.pow(2, attempt) * (0.75 + Math.random() * 0.5);
+      try {
+        await wait(retryAfter ?? Math.min(backoff, MAX_RETRY_DELAY_MS), signal);
+      } catch {
+        throw new HttpError("aborted", url, "Request was cancelled");
+      }
+    }
+  }
+
+  // With readBody the timeout also covers the body, so a stalled download can't hang the caller
+  private async attempt(
+    url: string,
+    init: RequestInit,
+    timeoutMs: number,
+    readBody: boolean,
+    signal?: AbortSignal,
+  ): Promise<AttemptResult> {
+    if (signal?.aborted) {
+      throw new HttpError("aborted", url, "Request was cancelled");
+    }
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer =
+      timeoutMs > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeoutMs)
+        : null;
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      const response = await fetch(url, { ...init, signal: controller.signal });
+      return {
+        response,
+        body: readBody ? await response.text() : undefined,
+      };
+    } catch (error) {
+      if (timedOut) {
+        throw new HttpError(
+          "timeout",
+          url,
+          `Request timed out after ${timeoutMs}ms`,
+        );
+      }
+      if (signal?.aborted) {
+        throw new HttpError("aborted", url, "Request was cancelled");
+      }
+      throw new HttpError(
+        "network",
+        url,
+        error instanceof Error ? error.message : String(error),
+      );
+    } finally {
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+}
+
+export const httpClient = new HttpClient();
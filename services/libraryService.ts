@@ -0,0 +1,279 @@
+import { debridService } from "@/services/debridService";
+import {
+  TraktEpisode,
+  TraktIds,
+  TraktImages,
+  TraktListItem,
+  TraktMovie,
+  TraktShow,
+  traktService,
+} from "@/services/traktService";
+import { RootStackParamList } from "@/types";
+
+const UP_NEXT_SHOW_LIMIT = 10;
+const CUSTOM_LIST_LIMIT = 5;
+
+export type LibraryItemKind = "movie" | "show" | "episode";
+
+export interface LibraryItem {
+  key: string;
+  kind: LibraryItemKind;
+  title: string;
+  subtitle?: string;
+  posterUrl?: string;
+  year?: number;
+  // The movie's or show's ids; episodes are addressed by season and number
+  ids: TraktIds;
+  season?: number;
+  episode?: number;
+}
+
+export interface LibrarySection {
+  id: string;
+  title: string;
+  items: LibraryItem[];
+}
+
+export type PlayerParams = NonNullable<RootStackParamList["Player"]>;
+
+export interface TitleTarget {
+  title: string;
+  year?: number;
+  ids?: Partial<TraktIds>;
+  season?: number;
+  episode?: number;
+}
+
+export type StreamResolution =
+  | { ok: true; params: PlayerParams }
+  // target is the movie or episode that was looked for, so callers can search elsewhere
+  | { ok: false; error: string; target?: TitleTarget };
+
+function getPosterUrl(
+  ...images: (TraktImages | undefined)[]
+): string | undefined {
+  for (const set of images) {
+    const path = set?.poster?.[0] ?? set?.thumb?.[0];
+    if (path) {
+      return path.startsWith("http") ? path : `https://${path}`;
+    }
+  }
+  return undefined;
+}
+
+export function formatEpisode(season: number, episode: number): string {
+  return `S${String(season).padStart(2, "0")}E${String(episode).padStart(2, "0")}`;
+}
+
+export function getPlayerParams(
+  target: TitleTarget,
+  uri: string,
+): PlayerParams {
+  const { title, season, episode } = target;
+  const episodeLabel =
+    season !== undefined && episode !== undefined
+      ? formatEpisode(season, episode)
+      : null;
+  return {
+    uri,
+    title: episodeLabel ? `${title} - ${episodeLabel}` : title,
+    showName: episodeLabel ? title : undefined,
+    imdbId: target.ids?.imdb,
+    traktId: target.ids?.trakt,
+    tmdbId: target.ids?.tmdb,
+    tvdbId: target.ids?.tvdb,
+    season,
+    episode,
+  };
+}
+
+function movieItem(movie: TraktMovie, subtitle?: string): LibraryItem {
+  return {
+    key: `movie_${movie.ids.trakt}`,
+    kind: "movie",
+    title: movie.title,
+    subtitle: subtitle ?? (movie.year ? String(movie.year) : undefined),
+    posterUrl: getPosterUrl(movie.images),
+    year: movie.year,
+    ids: movie.ids,
+  };
+}
+
+function showItem(show: TraktShow): LibraryItem {
+  return {
+    key: `show_${show.ids.trakt}`,
+    kind: "show",
+    title: show.title,
+    subtitle: show.year ? String(show.year) : undefined,
+    posterUrl: getPosterUrl(show.images),
+    year: show.year,
+    ids: show.ids,
+  };
+}
+
+function episodeItem(
+  show: TraktShow,
+  episode: TraktEpisode,
+  detail?: string,
+): LibraryItem {
+  const label = formatEpisode(episode.season, episode.number);
+  return {
+    key: `episode_${show.ids.trakt}_${episode.season}_${episode.number}`,
+    kind: "episode",
+    title: show.title,
+    subtitle: detail ? `${label} · ${detail}` : label,
+    posterUrl: getPosterUrl(show.images, episode.images),
+    year: show.year,
+    ids: show.ids,
+    season: episode.season,
+    episode: episode.number,
+  };
+}
+
+function listItemToLibraryItem(item: TraktListItem): LibraryItem | null {
+  if (item.type === "movie" && item.movie) {
+    return movieItem(item.movie);
+  }
+  if (item.type === "show" && item.show) {
+    return showItem(item.show);
+  }
+  if (item.type === "episode" && item.show && item.episode) {
+    return episodeItem(item.show, item.episode, item.episode.title);
+  }
+  return null;
+}
+
+// Builds the Trakt-backed browse sections and turns a chosen item into Player params
+class LibraryService {
+  async getSections(): Promise<LibrarySection[]> {
+    await traktService.initialize();
+
+    const [continueWatching, upNext, watchlist, lists] = await Promise.all([
+      this.getContinueWatching(),
+      this.getUpNext(),
+      this.getWatchlist(),
+      this.getCustomLists(),
+    ]);
+
+    return [continueWatching, upNext, watchlist, ...lists].filter(
+      (section) => section.items.length > 0,
+    );
+  }
+
+  async resolveStream(item: LibraryItem): Promise<StreamResolution> {
+    let season = item.season;
+    let episode = item.episode;
+    if (item.kind === "show") {
+      // A show from a list starts wherever the user is up to
+      const progress = await traktService.getShowProgress(item.ids.trakt);
+      season = progress?.next_episode?.season ?? 1;
+      episode = progress?.next_episode?.number ?? 1;
+    }
+
+    return this.resolveTitle({
+      title: item.title,
+      year: item.year,
+      ids: item.ids,
+      season,
+      episode,
+    });
+  }
+
+  // Looks a movie or episode up in the debrid cloud by name
+  async resolveTitle(target: TitleTarget): Promise<StreamResolution> {
+    if (!debridService.isConfigured()) {
+      return {
+        ok: false,
+        error:
+          "Set up a debrid service in Settings to play titles from your library.",
+        target,
+      };
+    }
+
+    const { title, season, episode } = target;
+    const episodeLabel =
+      season !== undefined && episode !== undefined
+        ? formatEpisode(season, episode)
+        : null;
+    const uri = await debridService.findLibraryStream({
+      title,
+      year: target.year,
+      season,
+      episode,
+    });
+    if (!uri) {
+      const label = episodeLabel ? `${title} ${episodeLabel}` : title;
+      return {
+        ok: false,
+        error: `${label} wasn't found in your ${debridService.getServiceName()} library.`,
+        target,
+      };
+    }
+
+    return { ok: true, params: getPlayerParams(target, uri) };
+  }
+
+  private async getContinueWatching(): Promise<LibrarySection> {
+    const playback = (await traktService.getPlaybackProgress()) ?? [];
+    const items = playback
+      .map((entry) => {
+        const watched = `${Math.round(entry.progress)}%`;
+        if (entry.type === "movie" && entry.movie) {
+          return movieItem(entry.movie, `${watched} watched`);
+        }
+        if (entry.show && entry.episode) {
+          return episodeItem(entry.show, entry.episode, watched);
+        }
+        return null;
+      })
+      .filter((item): item is LibraryItem => item !== null);
+
+    return { id: "continue", title: "Continue Watching", items };
+  }
+
+  private async getUpNext(): Promise<LibrarySection> {
+    const watched = ((await traktService.getWatchedShows()) ?? [])
+      .sort((a, b) => b.last_watched_at.localeCompare(a.last_watched_at))
+      .slice(0, UP_NEXT_SHOW_LIMIT);
+
+    const progress = await Promise.all(
+      watched.map((entry) =>
+        traktService.getShowProgress(entry.show.ids.trakt),
+      ),
+    );
+    const items = watched
+      .map((entry, index) => {
+        const next = progress[index]?.next_episode;
+        return next ? episodeItem(entry.show, next, next.title) : null;
+      })
+      .filter((item): item is LibraryItem => item !== null);
+
+    return { id: "upnext", title: "Up Next", items };
+  }
+
+  private async getWatchlist(): Promise<LibrarySection> {
+    const items = ((await traktService.getWatchlist()) ?? [])
+      .map(listItemToLibraryItem)
+      .filter((item): item is LibraryItem => item !== null);
+
+    return { id: "watchlist", title: "Watchlist", items };
+  }
+
+  private async getCustomLists(): Promise<LibrarySection[]> {
+    const lists = ((await traktService.getLists()) ?? []).slice(
+      0,
+      CUSTOM_LIST_LIMIT,
+    );
+
+    return Promise.all(
+      lists.map(async (list) => {
+        const items = ((await traktService.getListItems(list.ids.trakt)) ?? [])
+          .map(listItemToLibraryItem)
+          .filter((item): item is LibraryItem => item !== null);
+        return { id: `list_${list.ids.trakt}`, title: list.name, items };
+      }),
+    );
+  }
+}
+
+export const libraryService = new LibraryService();
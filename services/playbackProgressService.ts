@@ -0,0 +1,200 @@
+import { getProgressId } from "@/storage/settingsStorage";
+import { TraktPlaybackItem, traktService } from "@/services/traktService";
+import {
+  progressRepository,
+  WATCHED_PROGRESS,
+} from "@/services/progressRepository";
+
+// Don't offer to resume a few seconds in, or a title that is all but finished
+const MIN_RESUME_SECONDS = 30;
+const REMOTE_REFRESH_MS = 60 * 1000;
+
+export interface ProgressTarget {
+  imdbId: string;
+  season?: number;
+  episode?: number;
+}
+
+// Shown in the recently watched list
+export interface ProgressDetails {
+  title?: string;
+  showName?: string;
+  uri?: string;
+}
+
+export interface ResumePoint {
+  // Seconds when known locally; Trakt only reports a percentage
+  position?: number;
+  progress: number;
+  updatedAt: number;
+  source: "local" | "trakt";
+  traktPlaybackId?: number;
+}
+
+function getTraktProgressId(item: TraktPlaybackItem): string | null {
+  if (item.type === "movie") {
+    return item.movie?.ids.imdb ?? null;
+  }
+  const imdbId = item.show?.ids.imdb;
+  return imdbId && item.episode
+    ? getProgressId(imdbId, item.episode.season, item.episode.number)
+    : null;
+}
+
+// Converts a resume point to seconds once the duration is known, or null when it isn't worth resuming
+export function getResumePosition(
+  point: ResumePoint,
+  duration: number,
+): number | null {
+  const position = point.position ?? (point.progress / 100) * duration;
+  if (position < MIN_RESUME_SECONDS) {
+    return null;
+  }
+  if (duration > 0 && (position / duration) * 100 >= WATCHED_PROGRESS) {
+    return null;
+  }
+  return position;
+}
+
+// Keyed by title rather than stream URI, since debrid links change between plays.
+// Progress reaches Trakt through pause/stop scrobbles and is read back from /sync/playback
+class PlaybackProgressService {
+  private remote: Map<string, TraktPlaybackItem> = new Map();
+  private remoteFetchedAt = 0;
+  private remoteRequest: Promise<void> | null = null;
+
+  async getResumePoint(target: ProgressTarget): Promise<ResumePoint | null> {
+    const progressId = getProgressId(
+      target.imdbId,
+      target.season,
+      target.episode,
+    );
+    const [local] = await Promise.all([
+      progressRepository.get(progressId),
+      this.refreshRemote(),
+    ]);
+    const remote = this.remote.get(progressId);
+    const remotePoint: ResumePoint | null = remote
+      ? {
+          progress: remote.progress,
+          updatedAt: Date.parse(remote.paused_at) || 0,
+          source: "trakt",
+          traktPlaybackId: remote.id,
+        }
+      : null;
+
+    // A title finished here is only resumed if another device has played it since
+    if (local?.watched) {
+      return remotePoint && remotePoint.updatedAt > local.updatedAt
+        ? remotePoint
+        : null;
+    }
+
+    const localPoint: ResumePoint | null = local
+      ? {
+          position: local.position,
+          progress:
+            local.duration > 0 ? (local.position / local.duration) * 100 : 0,
+          updatedAt: local.updatedAt,
+          source: "local",
+        }
+      : null;
+
+    // Whichever device paused most recently wins
+    if (localPoint && remotePoint) {
+      return remotePoint.updatedAt > localPoint.updatedAt
+        ? remotePoint
+        : { ...localPoint, traktPlaybackId: remotePoint.traktPlaybackId };
+    }
+    return localPoint ?? remotePoint;
+  }
+
+  // Batched by the progress repository, which the player flushes when playback pauses or stops
+  saveProgress(
+    target: ProgressTarget,
+    position: number,
+    duration: number,
+    details: ProgressDetails = {},
+  ): void {
+    progressRepository.record({
+      ...details,
+      progressId: getProgressId(target.imdbId, target.season, target.episode),
+      imdbId: target.imdbId,
+      season: target.season,
+      episode: target.episode,
+      position,
+      duration,
+    });
+  }
+
+  // Keeps the title in the watch history, and drops its Trakt playback item so other devices stop offering to resume
+  async markWatched(
+    target: ProgressTarget,
+    duration: number,
+    details: ProgressDetails = {},
+  ): Promise<void> {
+    const progressId = getProgressId(
+      target.imdbId,
+      target.season,
+      target.episode,
+    );
+    await progressRepository.markWatched({
+      ...details,
+      progressId,
+      imdbId: target.imdbId,
+      season: target.season,
+      episode: target.episode,
+      position: duration,
+      duration,
+    });
+    await this.removeRemote(progressId);
+  }
+
+  // Forgets the position here and on Trakt so other devices stop offering to resume
+  async clearProgress(target: ProgressTarget): Promise<void> {
+    const progressId = getProgressId(
+      target.imdbId,
+      target.season,
+      target.episode,
+    );
+    await progressRepository.remove(progressId);
+    await this.removeRemote(progressId);
+  }
+
+  private async removeRemote(progressId: string): Promise<void> {
+    const remote = this.remote.get(progressId);
+    this.remote.delete(progressId);
+    if (remote) {
+      await traktService.removePlaybackProgress(remote.id);
+    }
+  }
+
+  private refreshRemote(): Promise<void> {
+    if (Date.now() - this.remoteFetchedAt < REMOTE_REFRESH_MS) {
+      return Promise.resolve();
+    }
+    if (!this.remoteRequest) {
+      this.remoteRequest = (async () => {
+        await traktService.initialize();
+        if (!traktService.isAuthenticated()) return;
+
+        const items = await traktService.getPlaybackProgress();
+        if (!items) return;
+
+        this.remote = new Map();
+        for (const item of items) {
+          const progressId = getTraktProgressId(item);
+          if (progressId) {
+            this.remote.set(progressId, item);
+          }
+        }
+        this.remoteFetchedAt = Date.now();
+      })().finally(() => {
+        this.remoteRequest = null;
+      });
+    }
+    return this.remoteRequest;
+  }
+}
+
+export const playbackProgressService = new PlaybackProgressService();
@@ -0,0 +1,189 @@
+import {
+  clearPlaybackProgress,
+  clearStoredData,
+  loadPlaybackProgress,
+  loadStoredData,
+  removeStoredData,
+  saveStoredData,
+} from "@/storage/settingsStorage";
+import { PlaybackProgress } from "@/types";
+
+// The player reports progress twice a second; entries are written at most this often
+const WRITE_INTERVAL_MS = 10 * 1000;
+export const WATCHED_PROGRESS = 95;
+const RETENTION_MS = 180 * 24 * 60 * 60 * 1000;
+const MAX_ENTRIES = 500;
+
+export type ProgressUpdate = Omit<PlaybackProgress, "updatedAt" | "watched">;
+
+export interface RecentlyWatchedOptions {
+  limit?: number;
+  // Finished titles are left out unless asked for
+  includeWatched?: boolean;
+}
+
+export function getUriProgressId(uri: string): string {
+  return `uri_${encodeURIComponent(uri)}`;
+}
+
+function isProgressEntry(value: unknown): value is PlaybackProgress {
+  const entry = value as PlaybackProgress;
+  return (
+    typeof entry === "object" &&
+    entry !== null &&
+    typeof entry.progressId === "string" &&
+    typeof entry.position === "number" &&
+    typeof entry.updatedAt === "number"
+  );
+}
+
+// Holds the latest position of each title in memory and writes them in batches
+class ProgressRepository {
+  private pending: Map<string, PlaybackProgress> = new Map();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private pruneRequest: Promise<void> | null = null;
+
+  async get(progressId: string): Promise<PlaybackProgress | null> {
+    await this.prune();
+    return this.pending.get(progressId) ?? loadPlaybackProgress(progressId);
+  }
+
+  record(update: ProgressUpdate): void {
+    const watched =
+      update.duration > 0 &&
+      (update.position / update.duration) * 100 >= WATCHED_PROGRESS;
+    this.pending.set(update.progressId, {
+      ...update,
+      position: Math.floor(update.position),
+      duration: Math.floor(update.duration),
+      updatedAt: Date.now(),
+      watched,
+    });
+
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flush();
+      }, WRITE_INTERVAL_MS);
+    }
+  }
+
+  // For titles that reached their end without passing the watched threshold, as when credits are cut short
+  async markWatched(update: ProgressUpdate): Promise<void> {
+    this.record(update);
+    const entry = this.pending.get(update.progressId);
+    if (entry) {
+      entry.watched = true;
+    }
+    await this.flush();
+  }
+
+  async remove(progressId: string): Promise<void> {
+    this.pending.delete(progressId);
+    await clearPlaybackProgress(progressId);
+  }
+
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.pending.size === 0) return;
+
+    const entries = Object.fromEntries(this.pending);
+    this.pending.clear();
+    try {
+      await saveStoredData("progress", entries);
+    } catch (error) {
+      console.error("Failed to save playback progress:", error);
+      // Retried with the next batch unless a newer position has replaced it
+      Object.values(entries).forEach((entry) => {
+        if (!this.pending.has(entry.progressId)) {
+          this.pending.set(entry.progressId, entry);
+        }
+      });
+    }
+  }
+
+  // Most recently watched first
+  async getRecentlyWatched({
+    limit = 20,
+    includeWatched = false,
+  }: RecentlyWatchedOptions = {}): Promise<PlaybackProgress[]> {
+    await this.prune();
+    const stored = await loadStoredData("progress");
+    const entries = new Map(
+      Object.values(stored)
+        .filter(isProgressEntry)
+        .map((entry) => [entry.progressId, entry]),
+    );
+    this.pending.forEach((entry, progressId) => entries.set(progressId, entry));
+
+    return [...entries.values()]
+      .filter((entry) => includeWatched || !entry.watched)
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .slice(0, limit);
+  }
+
+  // Runs once per session: drops entries past the retention window or over the cap
+  private prune(): Promise<void> {
+    if (!this.pruneRequest) {
+      this.pruneRequest = this.runPrune().catch((error) => {
+        console.error("Failed to prune playback progress:", error);
+      });
+    }
+    return this.pruneRequest;
+  }
+
+  private async runPrune(): Promise<void> {
+    await this.migrateLegacyPositions();
+
+    const stored = await loadStoredData("progress");
+    const cutoff = Date.now() - RETENTION_MS;
+    const kept: PlaybackProgress[] = [];
+    const expired: string[] = [];
+    Object.entries(stored).forEach(([id, entry]) => {
+      if (isProgressEntry(entry) && entry.updatedAt >= cutoff) {
+        kept.push(entry);
+      } else {
+        expired.push(id);
+      }
+    });
+
+    const overflow = kept
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .slice(MAX_ENTRIES)
+      .map((entry) => entry.progressId);
+    const removed = [...expired, ...overflow];
+    if (removed.length > 0) {
+      await removeStoredData("progress", removed);
+    }
+  }
+
+  // Videos without ids used to keep a bare position per URI, with no timestamp to expire them by
+  private async migrateLegacyPositions(): Promise<void> {
+    const positions = await loadStoredData("positions");
+    const uris = Object.keys(positions);
+    if (uris.length === 0) return;
+
+    const now = Date.now();
+    const entries: Record<string, PlaybackProgress> = {};
+    uris.forEach((encodedUri) => {
+      const position = positions[encodedUri];
+      if (typeof position !== "number" || position <= 0) return;
+      const uri = decodeURIComponent(encodedUri);
+      const progressId = getUriProgressId(uri);
+      entries[progressId] = {
+        progressId,
+        uri,
+        position,
+        duration: 0,
+        updatedAt: now,
+      };
+    });
+
+    await saveStoredData("progress", entries);
+    await clearStoredData("positions");
+  }
+}
+
+export const progressRepository = new ProgressRepository();
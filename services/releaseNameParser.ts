@@ -0,0 +1,286 @@
+export type ReleaseResolution = "2160p" | "1080p" | "720p" | "576p" | "480p";
+
+export type ReleaseSource =
+  | "remux"
+  | "bluray"
+  | "web-dl"
+  | "webrip"
+  | "web"
+  | "hdtv"
+  | "dvd"
+  | "telesync"
+  | "cam";
+
+export type ReleaseCodec = "h264" | "h265" | "av1" | "vp9" | "xvid";
+
+export type ReleaseHdr = "dv" | "hdr10+" | "hdr10" | "hdr";
+
+export interface ParsedRelease {
+  title: string;
+  year?: number;
+  season?: number;
+  // First episode of the release; multi-episode files list the rest in episodes
+  episode?: number;
+  episodes?: number[];
+  // Anime releases usually number episodes across the whole series
+  absoluteEpisode?: number;
+  resolution?: ReleaseResolution;
+  source?: ReleaseSource;
+  codec?: ReleaseCodec;
+  hdr?: ReleaseHdr[];
+  releaseGroup?: string;
+}
+
+interface Marker {
+  index: number;
+}
+
+const VIDEO_EXTENSION =
+  /\.(mkv|mp4|avi|m4v|mov|wmv|webm|ts|m2ts|mpg|mpeg|flv)$/i;
+
+const RESOLUTIONS: [RegExp, ReleaseResolution][] = [
+  [/\b(2160p|4k|uhd)\b/i, "2160p"],
+  [/\b1080[pi]\b/i, "1080p"],
+  [/\b720p\b/i, "720p"],
+  [/\b576p\b/i, "576p"],
+  [/\b480p\b/i, "480p"],
+];
+
+// Checked in order, so a REMUX isn't reported as a plain BluRay and WEB-DL wins over WEB
+const SOURCES: [RegExp, ReleaseSource][] = [
+  [/\bremux\b/i, "remux"],
+  [/\b(blu-?ray|bdrip|brrip|bdremux|bd)\b/i, "bluray"],
+  [/\bweb-?dl\b/i, "web-dl"],
+  [/\bweb-?rip\b/i, "webrip"],
+  [/\bweb\b/i, "web"],
+  [/\b(hdtv|pdtv|dsr)\b/i, "hdtv"],
+  [/\b(dvd-?rip|dvd-?r|dvd5|dvd9|dvd)\b/i, "dvd"],
+  [/\b(telesync|hdts|ts-?rip)\b/i, "telesync"],
+  [/\b(cam-?rip|hdcam|cam)\b/i, "cam"],
+];
+
+const CODECS: [RegExp, ReleaseCodec][] = [
+  [/\b(x265|h\.?265|hevc)\b/i, "h265"],
+  [/\b(x264|h\.?264|avc)\b/i, "h264"],
+  [/\bav1\b/i, "av1"],
+  [/\bvp9\b/i, "vp9"],
+  [/\bxvid\b/i, "xvid"],
+];
+
+const HDR_FORMATS: [RegExp, ReleaseHdr][] = [
+  [/\b(dv|dovi|dolby[ .]?vision)\b/i, "dv"],
+  [/\bhdr10(\+|plus)/i, "hdr10+"],
+  [/\bhdr10(?!\+|plus)\b/i, "hdr10"],
+  [/\bhdr(?!10)\b/i, "hdr"],
+];
+
+// Other tags that only ever appear after the title
+const TITLE_TERMINATORS =
+  /\b(proper|repack|internal|limited|extended|unrated|remastered|imax|multi|dual[ .-]?audio|complete|10bit|8bit|aac\d?(\.\d)?|ac3|dts(-?hd)?|ddp?\d?(\.\d)?|eac3|truehd|atmos|amzn|nf|dsnp|hmax|atvp|hulu)\b/i;
+
+const EPISODE_PATTERNS: RegExp[] = [
+  // S01E01, S01E01E02, S01E01-E03, S01 E01
+  /\bS(\d{1,2})[ ._-]?E(\d{1,4})((?:[ ._-]?-?[ ._-]?E\d{1,4})*)(?!\d)/i,
+  // 1x01, 01x01-02
+  /\b(\d{1,2})x(\d{2,3})((?:-\d{2,3})*)\b/i,
+  // Season 1 Episode 1
+  /\bseason[ ._-]?(\d{1,2})[ ._-]?episode[ ._-]?(\d{1,4})()/i,
+];
+
+const SEASON_PATTERNS: RegExp[] = [
+  /\bS(\d{1,2})\b(?![ ._-]?E\d)/i,
+  /\bseason[ ._-]?(\d{1,2})\b/i,
+];
+
+// "[Group] Title - 1071 (1080p)", "Title - 12v2", "Title EP 12"
+const ABSOLUTE_EPISODE_PATTERNS: RegExp[] = [
+  /[ ._]-[ ._](\d{1,4})(?:v\d)?(?=[ ._]|$|\[|\()/i,
+  /\bep?[ ._]?(\d{1,4})(?:v\d)?\b/i,
+];
+
+// Tags that show a trailing hyphen separates the release group rather than part of the title
+const RELEASE_TAG =
+  /[ ._](\d{3,4}p|x26[45]|h\.?26[45]|hevc|xvid|web|bluray|b[dr]rip|remux|hdtv|dvd|hdcam|hdts|aac|ac3|dts|ddp?\d)/i;
+
+function findFirst<T>(
+  name: string,
+  table: [RegExp, T][],
+): { value: T; index: number } | null {
+  for (const [pattern, value] of table) {
+    const match = pattern.exec(name);
+    if (match) {
+      return { value, index: match.index };
+    }
+  }
+  return null;
+}
+
+function getBasename(input: string): string {
+  const path = input.split(/[?#]/)[0];
+  let name = path.split(/[\\/]/).pop() ?? path;
+  try {
+    name = decodeURIComponent(name);
+  } catch {
+    // Leave malformed escapes as they are
+  }
+  return name.replace(VIDEO_EXTENSION, "").trim();
+}
+
+function extractReleaseGroup(name: string): {
+  name: string;
+  releaseGroup?: string;
+} {
+  // Anime groups lead with [Group]
+  const leading = /^\[([^\]]+)\]\s*/.exec(name);
+  if (leading) {
+    return {
+      name: name.slice(leading[0].length),
+      releaseGroup: leading[1].trim(),
+    };
+  }
+
+  // Scene groups trail after the last hyphen, optionally followed by a [tag]
+  const trailing = /-([A-Za-z0-9]+)(?:\[[^\]]*\])?$/.exec(name);
+  if (trailing && !/^(dl|rip|\d+)$/i.test(trailing[1])) {
+    const before = name.slice(0, trailing.index);
+    // Hyphens inside titles ("Spider-Man") have no tags before them
+    if (RELEASE_TAG.test(before) || /[ ._]\d{4}$/.test(before)) {
+      return { name: before, releaseGroup: trailing[1] };
+    }
+  }
+  return { name };
+}
+
+function parseEpisodeRange(first: string, rest: string): number[] {
+  const episodes = [Number(first)];
+  for (const match of rest.matchAll(/\d{1,4}/g)) {
+    const value = Number(match[0]);
+    const previous = episodes[episodes.length - 1];
+    // "E01-E03" means the whole range, "E01E02" just both
+    if (rest.includes("-") && value > previous + 1) {
+      for (let episode = previous + 1; episode < value; episode++) {
+        episodes.push(episode);
+      }
+    }
+    episodes.push(value);
+  }
+  return episodes;
+}
+
+function findYear(name: string): { value: number; index: number } | null {
+  const pattern = /(?:^|[ ._(\[])((?:19|20)\d{2})(?=$|[ ._)\]-])/g;
+  let found: { value: number; index: number } | null = null;
+  for (const match of name.matchAll(pattern)) {
+    const index = (match.index ?? 0) + match[0].indexOf(match[1]);
+    // A year at the very start is part of the title, as in "2001 A Space Odyssey 1968"
+    if (index === 0) continue;
+    const value = Number(match[1]);
+    if (value > new Date().getFullYear() + 1) continue;
+    found = { value, index };
+  }
+  return found;
+}
+
+function cleanTitle(raw: string): string {
+  return raw
+    .replace(/\[[^\]]*\]|\([^)]*\)/g, " ")
+    .replace(/[._]+/g, " ")
+    .replace(/\s+-\s*$/, "")
+    .replace(/[\s\-[(]+$/, "")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+}
+
+// Pulls what it can out of a scene, P2P or anime release name; anything unrecognised is left out
+export function parseReleaseName(input: string): ParsedRelease {
+  const { name, releaseGroup } = extractReleaseGroup(getBasename(input));
+  const markers: Marker[] = [];
+  const result: ParsedRelease = { title: "" };
+
+  for (const pattern of EPISODE_PATTERNS) {
+    const match = pattern.exec(name);
+    if (match) {
+      const episodes = parseEpisodeRange(match[2], match[3] ?? "");
+      result.season = Number(match[1]);
+      result.episode = episodes[0];
+      if (episodes.length > 1) {
+        result.episodes = episodes;
+      }
+      markers.push({ index: match.index });
+      break;
+    }
+  }
+
+  if (result.season === undefined) {
+    for (const pattern of SEASON_PATTERNS) {
+      const match = pattern.exec(name);
+      if (match) {
+        result.season = Number(match[1]);
+        markers.push({ index: match.index });
+        break;
+      }
+    }
+  }
+
+  const year = findYear(name);
+  if (year) {
+    result.year = year.value;
+    markers.push(year);
+  }
+
+  const resolution = findFirst(name, RESOLUTIONS);
+  if (resolution) {
+    result.resolution = resolution.value;
+    markers.push(resolution);
+  }
+
+  const source = findFirst(name, SOURCES);
+  if (source) {
+    result.source = source.value;
+    markers.push(source);
+  }
+
+  const codec = findFirst(name, CODECS);
+  if (codec) {
+    result.codec = codec.value;
+    markers.push(codec);
+  }
+
+  const hdr = HDR_FORMATS.filter(([pattern]) => pattern.test(name)).map(
+    ([, value]) => value,
+  );
+  if (hdr.length > 0) {
+    result.hdr = hdr;
+    const index = Math.min(
+      ...HDR_FORMATS.map(([pattern]) => pattern.exec(name)?.index ?? Infinity),
+    );
+    markers.push({ index });
+  }
+
+  const terminator = TITLE_TERMINATORS.exec(name);
+  if (terminator) {
+    markers.push({ index: terminator.index });
+  }
+
+  let titleEnd = markers.reduce(
+    (end, marker) => (marker.index > 0 ? Math.min(end, marker.index) : end),
+    name.length,
+  );
+
+  if (result.episode === undefined) {
+    for (const pattern of ABSOLUTE_EPISODE_PATTERNS) {
+      const match = pattern.exec(name.slice(0, titleEnd));
+      if (match && match.index > 0) {
+        result.absoluteEpisode = Number(match[1]);
+        titleEnd = match.index;
+        break;
+      }
+    }
+  }
+
+  result.title = cleanTitle(name.slice(0, titleEnd)) || cleanTitle(name);
+  if (releaseGroup) {
+    result.releaseGroup = releaseGroup;
+  }
+  return result;
+}
@@ -0,0 +1,246 @@
+import {
+  DEFAULT_SKIP_SETTINGS,
+  ManualSkipLayer,
+  SkipMarker,
+  SkipSettings,
+  SkipSource,
+  SkipType,
+} from "@/types";
+
+export type SkipMarkerSources = Partial<Record<SkipSource, SkipMarker[]>>;
+
+export interface SkipResolverOptions {
+  priority: SkipSource[];
+  leadInSeconds: Record<SkipType, number>;
+  duration: number;
+}
+
+// Markers that run to the very end stop offering a skip in the final seconds,
+// otherwise the button would flash up just as playback finishes
+const END_GUARD_SECONDS = 5;
+
+const SOURCE_TOGGLES: Record<SkipSource, keyof SkipSettings> = {
+  chapter: "enabledChapterSkip",
+  community: "enabledCommunitySkip",
+  manual: "enabledManualSkip",
+};
+
+export function normalizeSourcePriority(
+  priority: SkipSource[] | undefined,
+): SkipSource[] {
+  const known = DEFAULT_SKIP_SETTINGS.sourcePriority;
+  const ordered = (priority ?? []).filter(
+    (source, index, list) =>
+      known.includes(source) && list.indexOf(source) === index,
+  );
+  return [...ordered, ...known.filter((source) => !ordered.includes(source))];
+}
+
+export function getSkipResolverOptions(
+  settings: SkipSettings,
+  duration: number,
+): SkipResolverOptions {
+  return {
+    priority: normalizeSourcePriority(settings.sourcePriority).filter(
+      (source) => settings[SOURCE_TOGGLES[source]] === true,
+    ),
+    leadInSeconds: {
+      ...DEFAULT_SKIP_SETTINGS.leadInSeconds,
+      ...settings.leadInSeconds,
+    },
+    duration,
+  };
+}
+
+function hasIntro(layer: ManualSkipLayer): boolean {
+  return (
+    (layer.introEndTime ?? 0) > (layer.introStartTime ?? 0) ||
+    (layer.introSkipSeconds ?? 0) > 0
+  );
+}
+
+function hasCredits(layer: ManualSkipLayer): boolean {
+  return (
+    layer.creditsStartTime !== undefined || (layer.creditsSkipSeconds ?? 0) > 0
+  );
+}
+
+// Layers are ordered most specific first (episode, show, global); intro and credits
+// are resolved independently so an episode can override just one of them
+export function resolveManualSkip(
+  layers: (ManualSkipLayer | null | undefined)[],
+): ManualSkipLayer {
+  const defined = layers.filter((layer): layer is ManualSkipLayer => !!layer);
+  const intro = defined.find(hasIntro);
+  const credits = defined.find(hasCredits);
+
+  return {
+    introStartTime: intro?.introStartTime,
+    introEndTime: intro?.introEndTime,
+    introSkipSeconds: intro?.introSkipSeconds,
+    creditsStartTime: credits?.creditsStartTime,
+    creditsEndTime: credits?.creditsEndTime,
+    creditsSkipSeconds: credits?.creditsSkipSeconds,
+  };
+}
+
+export function buildManualSkipMarkers(
+  manual: ManualSkipLayer,
+  duration: number,
+): SkipMarker[] {
+  const markers: SkipMarker[] = [];
+
+  if ((manual.introEndTime ?? 0) > (manual.introStartTime ?? 0)) {
+    markers.push({
+      type: "intro",
+      startTime: manual.introStartTime ?? 0,
+      endTime: manual.introEndTime ?? 0,
+      source: "manual",
+    });
+  } else if ((manual.introSkipSeconds ?? 0) > 0) {
+    markers.push({
+      type: "intro",
+      startTime: 0,
+      endTime: manual.introSkipSeconds ?? 0,
+      source: "manual",
+    });
+  }
+
+  // Credits are either an absolute range or "seconds before the end", which needs the duration
+  if (manual.creditsStartTime !== undefined) {
+    const endTime = manual.creditsEndTime ?? duration;
+    if (endTime > manual.creditsStartTime) {
+      markers.push({
+        type: "credits",
+        startTime: manual.creditsStartTime,
+        endTime,
+        source: "manual",
+      });
+    }
+  } else {
+    const creditsSeconds = manual.creditsSkipSeconds ?? 0;
+    if (creditsSeconds > 0 && duration > creditsSeconds) {
+      markers.push({
+        type: "credits",
+        startTime: duration - creditsSeconds,
+        endTime: duration,
+        source: "manual",
+      });
+    }
+  }
+
+  return markers;
+}
+
+function overlaps(a: SkipMarker, b: SkipMarker): boolean {
+  return a.startTime < b.endTime && b.startTime < a.endTime;
+}
+
+function unionWithinSource(markers: SkipMarker[]): SkipMarker[] {
+  const sorted = markers
+    .filter(
+      (m) =>
+        Number.isFinite(m.startTime) &&
+        Number.isFinite(m.endTime) &&
+        m.endTime > m.startTime,
+    )
+    .sort((a, b) => a.startTime - b.startTime);
+
+  const merged: SkipMarker[] = [];
+  for (const marker of sorted) {
+    const existing = merged.find(
+      (m) =>
+        m.type === marker.type &&
+        m.startTime <= marker.endTime &&
+        marker.startTime <= m.endTime,
+    );
+    if (existing) {
+      existing.startTime = Math.min(existing.startTime, marker.startTime);
+      existing.endTime = Math.max(existing.endTime, marker.endTime);
+    } else {
+      merged.push({ ...marker });
+    }
+  }
+  return merged;
+}
+
+export function mergeSkipMarkers(
+  sources: SkipMarkerSources,
+  priority: SkipSource[],
+): SkipMarker[] {
+  const accepted: SkipMarker[] = [];
+
+  // Overlapping ranges of one type collapse into the highest-priority source's range
+  for (const source of priority) {
+    for (const marker of unionWithinSource(sources[source] ?? [])) {
+      const shadowed = accepted.some(
+        (m) => m.type === marker.type && overlaps(m, marker),
+      );
+      if (!shadowed) {
+        accepted.push({ ...marker, source });
+      }
+    }
+  }
+
+  return accepted.sort((a, b) => a.startTime - b.startTime);
+}
+
+export function getActiveSkipMarker(
+  markers: SkipMarker[],
+  position: number,
+  options: SkipResolverOptions,
+): SkipMarker | null {
+  let active: SkipMarker | null = null;
+  let activeRank = Infinity;
+
+  for (const marker of markers) {
+    const rank = options.priority.indexOf(marker.source);
+    if (rank < 0) continue;
+
+    const start = Math.max(
+      0,
+      marker.startTime - (options.leadInSeconds[marker.type] ?? 0),
+    );
+    let end = marker.endTime;
+    if (options.duration > 0 && end >= options.duration - END_GUARD_SECONDS) {
+      end = Math.min(end, options.duration - END_GUARD_SECONDS);
+    }
+    if (position < start || position >= end) continue;
+
+    if (
+      rank < activeRank ||
+      (rank === activeRank && active && marker.startTime < active.startTime)
+    ) {
+      active = marker;
+      activeRank = rank;
+    }
+  }
+
+  return active;
+}
+
+export function resolveActiveSkipMarker(
+  sources: SkipMarkerSources,
+  position: number,
+  options: SkipResolverOptions,
+): SkipMarker | null {
+  return getActiveSkipMarker(
+    mergeSkipMarkers(sources, options.priority),
+    position,
+    options,
+  );
+}
+
+export function isSameSkipMarker(
+  a: SkipMarker | null,
+  b: SkipMarker | null,
+): boolean {
+  if (a === b) return true;
+  if (!a || !b) return false;
+  return (
+    a.type === b.type &&
+    a.source === b.source &&
+    a.startTime === b.startTime &&
+    a.endTime === b.endTime
+  );
+}
@@ -0,0 +1,303 @@
+import { classifyChapterTitle } from "@/services/chapterService";
+import { httpClient, HttpError } from "@/services/httpClient";
+import { SkipMarker, SkipProviderSetting, SkipType } from "@/types";
+
+export interface SkipProviderQuery {
+  imdbId: string;
+  season: number;
+  episode: number;
+  duration?: number;
+}
+
+export interface SkipProvider {
+  id: string;
+  name: string;
+  fetchMarkers(
+    query: SkipProviderQuery,
+    signal: AbortSignal,
+  ): Promise<SkipMarker[]>;
+}
+
+interface TimeRange {
+  start: number;
+  end: number;
+}
+
+export interface IntroHaterResponse {
+  intro?: TimeRange;
+  outro?: TimeRange;
+  recap?: TimeRange;
+  preview?: TimeRange;
+}
+
+export interface StremioSkipResponse extends IntroHaterResponse {
+  s?: number;
+  e?: number;
+}
+
+interface AniSkipResult {
+  interval: { startTime: number; endTime: number };
+  skipType: string;
+  skipId: string;
+  episodeLength: number;
+}
+
+interface AniSkipResponse {
+  found: boolean;
+  results?: AniSkipResult[];
+}
+
+interface ArmMapping {
+  myanimelist?: number | null;
+}
+
+const INTRO_HATER_API = "https://api.intros.ai";
+const STREMIO_SKIP_API = "https://skips.stremio.ml";
+const ANISKIP_API = "https://api.aniskip.com/v2";
+const ARM_API = "https://arm.haglund.dev/api/v2";
+
+const SEGMENT_TYPE_ALIASES: Record<string, SkipType> = {
+  intro: "intro",
+  op: "intro",
+  opening: "intro",
+  "mixed-op": "intro",
+  recap: "recap",
+  summary: "recap",
+  outro: "credits",
+  credits: "credits",
+  ed: "credits",
+  ending: "credits",
+  "mixed-ed": "credits",
+  preview: "preview",
+  "next-preview": "preview",
+};
+
+export const DEFAULT_PROVIDER_TIMEOUT_MS = 5000;
+
+export function normalizeSegmentType(raw: string): SkipType | null {
+  const key = raw
+    .trim()
+    .toLowerCase()
+    .replace(/[_\s]+/g, "-");
+  return SEGMENT_TYPE_ALIASES[key] ?? classifyChapterTitle(raw);
+}
+
+function toMarker(
+  type: SkipType | null,
+  start: unknown,
+  end: unknown,
+): SkipMarker | null {
+  if (
+    !type ||
+    typeof start !== "number" ||
+    typeof end !== "number" ||
+    !Number.isFinite(start) ||
+    !Number.isFinite(end) ||
+    end <= start
+  ) {
+    return null;
+  }
+  return { type, startTime: start, endTime: end, source: "community" };
+}
+
+// Accepts the keyed shape ({ intro: { start, end } }) used by IntroHater and Stremio skips,
+// as well as a list of { type, start, end } segments, optionally wrapped in `segments`
+export function normalizeSkipResponse(data: unknown): SkipMarker[] {
+  if (!data || typeof data !== "object") {
+    return [];
+  }
+
+  const list = Array.isArray(data)
+    ? data
+    : Array.isArray((data as { segments?: unknown }).segments)
+      ? (data as { segments: unknown[] }).segments
+      : null;
+
+  if (list) {
+    return list
+      .map((item) => {
+        if (!item || typeof item !== "object") return null;
+        const segment = item as Record<string, unknown>;
+        const rawType = segment.type ?? segment.skipType ?? segment.category;
+        return toMarker(
+          typeof rawType === "string" ? normalizeSegmentType(rawType) : null,
+          segment.start ?? segment.startTime,
+          segment.end ?? segment.endTime,
+        );
+      })
+      .filter((marker): marker is SkipMarker => marker !== null);
+  }
+
+  return Object.entries(data as Record<string, unknown>)
+    .map(([key, value]) => {
+      if (!value || typeof value !== "object") return null;
+      const range = value as Record<string, unknown>;
+      return toMarker(normalizeSegmentType(key), range.start, range.end);
+    })
+    .filter((marker): marker is SkipMarker => marker !== null);
+}
+
+// The registry enforces each provider's overall timeout through the signal
+async function fetchJson<T>(
+  url: string,
+  signal: AbortSignal,
+): Promise<T | null> {
+  const response = await httpClient.request(url, {
+    headers: { Accept: "application/json" },
+    signal,
+    timeoutMs: 0,
+    retries: 1,
+  });
+  if (!response.ok) {
+    return null;
+  }
+  return response.json();
+}
+
+function formatEpisodeId(query: SkipProviderQuery): string {
+  return `${query.imdbId}_s${String(query.season).padStart(2, "0")}e${String(query.episode).padStart(2, "0")}`;
+}
+
+export const introHaterProvider: SkipProvider = {
+  id: "introhater",
+  name: "IntroHater",
+  async fetchMarkers(query, signal) {
+    const data = await fetchJson<IntroHaterResponse>(
+      `${INTRO_HATER_API}/v1/episodes?tvdb_id=${formatEpisodeId(query)}`,
+      signal,
+    );
+    return normalizeSkipResponse(data);
+  },
+};
+
+export const stremioSkipProvider: SkipProvider = {
+  id: "stremio",
+  name: "Stremio Skips",
+  async fetchMarkers(query, signal) {
+    const data = await fetchJson<StremioSkipResponse>(
+      `${STREMIO_SKIP_API}/api/episodes/${query.imdbId}/${query.season}/${query.episode}`,
+      signal,
+    );
+    return normalizeSkipResponse(data);
+  },
+};
+
+class AniSkipProvider implements SkipProvider {
+  readonly id = "aniskip";
+  readonly name = "AniSkip";
+  private malIds: Map<string, number[]> = new Map();
+
+  async fetchMarkers(
+    query: SkipProviderQuery,
+    signal: AbortSignal,
+  ): Promise<SkipMarker[]> {
+    const malId = await this.getMalId(query, signal);
+    if (!malId) {
+      return [];
+    }
+
+    const types = ["op", "ed", "mixed-op", "mixed-ed", "recap"]
+      .map((type) => `types[]=${type}`)
+      .join("&");
+    const data = await fetchJson<AniSkipResponse>(
+      `${ANISKIP_API}/skip-times/${malId}/${query.episode}?${types}&episodeLength=${Math.floor(query.duration ?? 0)}`,
+      signal,
+    );
+    if (!data?.found || !data.results) {
+      return [];
+    }
+
+    return data.results
+      .map((result) =>
+        toMarker(
+          normalizeSegmentType(result.skipType),
+          result.interval.startTime,
+          result.interval.endTime,
+        ),
+      )
+      .filter((marker): marker is SkipMarker => marker !== null);
+  }
+
+  private async getMalId(
+    query: SkipProviderQuery,
+    signal: AbortSignal,
+  ): Promise<number | null> {
+    let ids = this.malIds.get(query.imdbId);
+    if (!ids) {
+      const url = `${ARM_API}/imdb?id=${query.imdbId}`;
+      const response = await httpClient.request(url, {
+        headers: { Accept: "application/json" },
+        signal,
+        timeoutMs: 0,
+        retries: 1,
+      });
+      // Only a real answer is remembered; outages and server errors fail the lookup and are asked again next time
+      if (!response.ok && response.status !== 404) {
+        throw new HttpError(
+          "http",
+          url,
+          `Request failed with status ${response.status}`,
+          response.status,
+        );
+      }
+      const mappings: ArmMapping[] = response.ok ? await response.json() : [];
+      ids = (Array.isArray(mappings) ? mappings : [])
+        .map((mapping) => mapping.myanimelist)
+        .filter((id): id is number => typeof id === "number")
+        .sort((a, b) => a - b);
+      this.malIds.set(query.imdbId, ids);
+    }
+
+    // MAL lists each anime season as its own entry, and later seasons get higher ids
+    return ids[query.season - 1] ?? ids[0] ?? null;
+  }
+}
+
+export const aniSkipProvider: SkipProvider = new AniSkipProvider();
+
+// URL templates may use {imdb}, {season} and {episode}
+export function createCustomJsonProvider(
+  id: string,
+  name: string,
+  urlTemplate: string,
+): SkipProvider {
+  return {
+    id,
+    name,
+    async fetchMarkers(query, signal) {
+      const url = urlTemplate
+        .replace(/\{imdb\}/g, encodeURIComponent(query.imdbId))
+        .replace(/\{season\}/g, String(query.season))
+        .replace(/\{episode\}/g, String(query.episode));
+      const data = await fetchJson<unknown>(url, signal);
+      return normalizeSkipResponse(data);
+    },
+  };
+}
+
+export const BUILT_IN_PROVIDERS: SkipProvider[] = [
+  introHaterProvider,
+  stremioSkipProvider,
+  aniSkipProvider,
+];
+
+// Keeps the user's order and adds any built-in provider missing from older saved settings
+export function normalizeProviderSettings(
+  settings: SkipProviderSetting[] | undefined,
+): SkipProviderSetting[] {
+  const saved = (settings ?? []).filter(
+    (setting, index, list) =>
+      (setting.url ||
+        BUILT_IN_PROVIDERS.some((provider) => provider.id === setting.id)) &&
+      list.findIndex((other) => other.id === setting.id) === index,
+  );
+  const missing = BUILT_IN_PROVIDERS.filter(
+    (provider) => !saved.some((setting) => setting.id === provider.id),
+  ).map((provider) => ({
+    id: provider.id,
+    name: provider.name,
+    enabled: true,
+    timeoutMs: DEFAULT_PROVIDER_TIMEOUT_MS,
+  }));
+  return [...saved, ...missing];
+}
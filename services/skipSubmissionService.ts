@@ -0,0 +1,322 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { httpClient } from "@/services/httpClient";
+import { SkipSubmission, SkipSubmissionOrigin, SkipType } from "@/types";
+
+const QUEUE_KEY = "@streamplayer/skip_submissions";
+const DEFAULT_ENDPOINT = "https://api.intros.ai/v1/submissions";
+const MAX_ATTEMPTS = 6;
+const BASE_RETRY_MS = 60 * 1000;
+const MAX_RETRY_MS = 6 * 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 15000;
+
+// How much a submission should be trusted, by how the segment was produced
+export const SUBMISSION_CONFIDENCE: Record<SkipSubmissionOrigin, number> = {
+  manual_mark: 0.9,
+  manual_skip: 0.6,
+};
+
+export interface SkipSubmissionInput {
+  imdbId: string;
+  showName: string;
+  season: number;
+  episode: number;
+  type: SkipType;
+  startTime: number;
+  endTime: number;
+  duration: number;
+  origin: SkipSubmissionOrigin;
+}
+
+export interface SkipSubmissionConfig {
+  endpoint?: string;
+  timeoutMs?: number;
+}
+
+type QueueListener = (queue: SkipSubmission[]) => void;
+
+function roundTime(seconds: number): number {
+  return Math.round(seconds * 10) / 10;
+}
+
+function isSameSegment(
+  a: Pick<SkipSubmission, "imdbId" | "season" | "episode" | "type">,
+  b: Pick<SkipSubmission, "imdbId" | "season" | "episode" | "type">,
+): boolean {
+  return (
+    a.imdbId === b.imdbId &&
+    a.season === b.season &&
+    a.episode === b.episode &&
+    a.type === b.type
+  );
+}
+
+class SkipSubmissionService {
+  private endpoint = DEFAULT_ENDPOINT;
+  private timeoutMs = REQUEST_TIMEOUT_MS;
+  private queue: SkipSubmission[] = [];
+  private loaded: Promise<void> | null = null;
+  private flushing: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners: Set<QueueListener> = new Set();
+
+  configure(config: SkipSubmissionConfig): void {
+    if (config.endpoint) {
+      this.endpoint = config.endpoint;
+    }
+    if (config.timeoutMs !== undefined) {
+      this.timeoutMs = config.timeoutMs;
+    }
+  }
+
+  getEndpoint(): string {
+    return this.endpoint;
+  }
+
+  subscribe(listener: QueueListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async getQueue(): Promise<SkipSubmission[]> {
+    await this.load();
+    return [...this.queue];
+  }
+
+  async enqueue(input: SkipSubmissionInput): Promise<SkipSubmission | null> {
+    if (
+      !Number.isFinite(input.startTime) ||
+      !Number.isFinite(input.endTime) ||
+      input.endTime <= input.startTime ||
+      input.startTime < 0
+    ) {
+      return null;
+    }
+
+    await this.load();
+
+    const confidence = SUBMISSION_CONFIDENCE[input.origin];
+    const existing = this.queue.find((item) => isSameSegment(item, input));
+
+    // A lower-confidence signal never overwrites a segment the user marked precisely
+    if (existing && existing.confidence > confidence) {
+      return existing;
+    }
+
+    const submission: SkipSubmission = {
+      id:
+        existing?.id ??
+        `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+      imdbId: input.imdbId,
+      showName: input.showName,
+      season: input.season,
+      episode: input.episode,
+      type: input.type,
+      startTime: roundTime(input.startTime),
+      endTime: roundTime(input.endTime),
+      duration: roundTime(input.duration),
+      confidence,
+      origin: input.origin,
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      createdAt: existing?.createdAt ?? Date.now(),
+    };
+
+    this.queue = existing
+      ? this.queue.map((item) => (item.id === existing.id ? submission : item))
+      : [...this.queue, submission];
+    await this.persist();
+    this.flush();
+    return submission;
+  }
+
+  async update(
+    id: string,
+    changes: Partial<Pick<SkipSubmission, "type" | "startTime" | "endTime">>,
+  ): Promise<void> {
+    await this.load();
+    this.queue = this.queue.map((item) =>
+      item.id === id
+        ? {
+            ...item,
+            ...changes,
+            status: "pending",
+            attempts: 0,
+            nextAttemptAt: Date.now(),
+            lastError: undefined,
+          }
+        : item,
+    );
+    await this.persist();
+  }
+
+  async retry(id: string): Promise<void> {
+    await this.update(id, {});
+    await this.flush();
+  }
+
+  async discard(id: string): Promise<void> {
+    await this.load();
+    this.queue = this.queue.filter((item) => item.id !== id);
+    await this.persist();
+  }
+
+  async clear(): Promise<void> {
+    await this.load();
+    this.queue = [];
+    await this.persist();
+  }
+
+  // force sends pending items even if they are still backing off
+  flush(force = false): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.flushDue(force).finally(() => {
+        this.flushing = null;
+        this.scheduleRetry();
+      });
+    }
+    return this.flushing;
+  }
+
+  private async flushDue(force: boolean): Promise<void> {
+    await this.load();
+    const now = Date.now();
+    const due = this.queue.filter(
+      (item) =>
+        item.status === "pending" && (force || item.nextAttemptAt <= now),
+    );
+
+    for (const submission of due) {
+      const result = await this.send(submission);
+      const current = this.queue.find((item) => item.id === submission.id);
+      // Skip results for items that were edited or discarded while the request was in flight
+      if (
+        !current ||
+        current.startTime !== submission.startTime ||
+        current.endTime !== submission.endTime
+      ) {
+        continue;
+      }
+
+      if (result.ok) {
+        this.queue = this.queue.filter((item) => item.id !== submission.id);
+        continue;
+      }
+
+      const attempts = current.attempts + 1;
+      const retryable = result.retryable && attempts < MAX_ATTEMPTS;
+      const updated: SkipSubmission = {
+        ...current,
+        attempts,
+        status: retryable ? "pending" : "failed",
+        lastError: result.error,
+        nextAttemptAt:
+          Date.now() +
+          Math.min(MAX_RETRY_MS, BASE_RETRY_MS * Math.pow(2, attempts - 1)),
+      };
+      this.queue = this.queue.map((item) =>
+        item.id === submission.id ? updated : item,
+      );
+    }
+
+    if (due.length > 0) {
+      await this.persist();
+    }
+  }
+
+  private async send(
+    submission: SkipSubmission,
+  ): Promise<{ ok: boolean; retryable: boolean; error?: string }> {
+    try {
+      // A request that never settles would hold up every flush after it
+      const response = await httpClient.request(this.endpoint, {
+        method: "POST",
+        timeoutMs: this.timeoutMs,
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json",
+        },
+        body: JSON.stringify({
+          imdb_id: submission.imdbId,
+          season: submission.season,
+          episode: submission.episode,
+          type: submission.type,
+          start: submission.startTime,
+          end: submission.endTime,
+          duration: submission.duration,
+          confidence: submission.confidence,
+          origin: submission.origin,
+          source: "streamplayer",
+        }),
+      });
+
+      if (response.ok) {
+        return { ok: true, retryable: false };
+      }
+
+      // Client errors other than timeouts and rate limits won't succeed on a resend
+      const retryable =
+        response.status >= 500 ||
+        response.status === 408 ||
+        response.status === 429;
+      return { ok: false, retryable, error: `HTTP ${response.status}` };
+    } catch (error) {
+      return {
+        ok: false,
+        retryable: true,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    const pending = this.queue.filter((item) => item.status === "pending");
+    if (pending.length === 0) return;
+
+    const nextAttemptAt = Math.min(
+      ...pending.map((item) => item.nextAttemptAt),
+    );
+    this.retryTimer = setTimeout(
+      () => {
+        this.retryTimer = null;
+        this.flush();
+      },
+      Math.max(1000, nextAttemptAt - Date.now()),
+    );
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          const data = await AsyncStorage.getItem(QUEUE_KEY);
+          if (data) {
+            this.queue = JSON.parse(data);
+          }
+        } catch (error) {
+          console.error("Failed to load skip submissions:", error);
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  private async persist(): Promise<void> {
+    const snapshot = [...this.queue];
+    this.listeners.forEach((listener) => listener(snapshot));
+    try {
+      await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(snapshot));
+    } catch (error) {
+      console.error("Failed to save skip submissions:", error);
+    }
+  }
+}
+
+export const skipSubmissionService = new SkipSubmissionService();
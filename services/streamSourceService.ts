@@ -0,0 +1,278 @@
+import { httpClient } from "@/services/httpClient";
+import { debridService } from "@/services/debridService";
+import {
+  parseReleaseName,
+  ReleaseCodec,
+  ReleaseHdr,
+  ReleaseResolution,
+  ReleaseSource,
+} from "@/services/releaseNameParser";
+import { SourcePreferences, StreamAddonSetting } from "@/types";
+
+const ADDON_TIMEOUT_MS = 15000;
+const CACHE_CHECK_BATCH_SIZE = 40;
+
+export type StreamType = "movie" | "series";
+
+export interface StreamQuery {
+  type: StreamType;
+  imdbId: string;
+  season?: number;
+  episode?: number;
+}
+
+export interface StreamSource {
+  key: string;
+  addon: string;
+  // Release name of the torrent or file
+  name: string;
+  infoHash?: string;
+  fileIdx?: number;
+  // Addons that resolve debrid links themselves hand out playable URLs instead of hashes
+  url?: string;
+  resolution?: ReleaseResolution;
+  hdr?: ReleaseHdr[];
+  codec?: ReleaseCodec;
+  source?: ReleaseSource;
+  size?: number;
+  seeders?: number;
+  // Unknown until the debrid accounts have been asked
+  cached?: boolean;
+}
+
+interface StremioStream {
+  name?: string;
+  title?: string;
+  description?: string;
+  infoHash?: string;
+  fileIdx?: number;
+  url?: string;
+  behaviorHints?: {
+    filename?: string;
+    videoSize?: number;
+  };
+}
+
+const SIZE_UNITS: Record<string, number> = {
+  tb: 1024 ** 4,
+  tib: 1024 ** 4,
+  gb: 1024 ** 3,
+  gib: 1024 ** 3,
+  mb: 1024 ** 2,
+  mib: 1024 ** 2,
+};
+
+const RESOLUTION_ORDER: ReleaseResolution[] = [
+  "2160p",
+  "1080p",
+  "720p",
+  "576p",
+  "480p",
+];
+
+// Accepts either the addon's base URL or its manifest URL
+export function getAddonBaseUrl(url: string): string {
+  return url
+    .trim()
+    .replace(/\/manifest\.json$/i, "")
+    .replace(/\/+$/, "");
+}
+
+export function getStreamUrl(addonUrl: string, query: StreamQuery): string {
+  const id =
+    query.type === "series"
+      ? `${query.imdbId}:${query.season ?? 1}:${query.episode ?? 1}`
+      : query.imdbId;
+  return `${getAddonBaseUrl(addonUrl)}/stream/${query.type}/${encodeURIComponent(id)}.json`;
+}
+
+function parseSize(text: string): number | undefined {
+  const match = /([\d.,]+)\s*(TB|TiB|GB|GiB|MB|MiB)\b/i.exec(text);
+  if (!match) return undefined;
+  // A comma before a dot separates thousands, as in "1,234.5"; on its own it is a decimal comma
+  const digits = match[1].includes(".")
+    ? match[1].replace(/,/g, "")
+    : match[1].replace(",", ".");
+  const value = parseFloat(digits);
+  return Number.isFinite(value)
+    ? Math.round(value * SIZE_UNITS[match[2].toLowerCase()])
+    : undefined;
+}
+
+function parseSeeders(text: string): number | undefined {
+  const match =
+    /👤\s*(\d+)/u.exec(text) ?? /\bseed(?:er)?s?\W{0,3}(\d+)/i.exec(text);
+  return match ? Number(match[1]) : undefined;
+}
+
+// Addons put the release name, size and seeders in a free-form, multi-line description
+export function parseStream(
+  stream: StremioStream,
+  addon: string,
+): StreamSource | null {
+  const infoHash = stream.infoHash?.toLowerCase();
+  if (!infoHash && !stream.url) return null;
+
+  const description = stream.description ?? stream.title ?? "";
+  const name =
+    stream.behaviorHints?.filename ||
+    description.split("\n")[0].trim() ||
+    (stream.name ?? "").replace(/\n/g, " ");
+  const release = parseReleaseName(name);
+  // Torrentio-style addons only put the resolution in the stream's name, as in "Torrentio\n4k"
+  const label = parseReleaseName(stream.name ?? "");
+
+  return {
+    key: infoHash ? `${infoHash}:${stream.fileIdx ?? ""}` : stream.url!,
+    addon,
+    name,
+    infoHash,
+    fileIdx: stream.fileIdx,
+    url: infoHash ? undefined : stream.url,
+    resolution: release.resolution ?? label.resolution,
+    hdr: release.hdr,
+    codec: release.codec,
+    source: release.source,
+    size: stream.behaviorHints?.videoSize ?? parseSize(description),
+    seeders: parseSeeders(description),
+  };
+}
+
+// Higher is better. Cached torrents always beat uncached ones; the rest of the profile orders within those
+export function scoreSource(
+  source: StreamSource,
+  preferences: SourcePreferences,
+): number {
+  let score = 0;
+
+  if (source.cached || source.url) {
+    score += 10000;
+  }
+
+  if (source.resolution) {
+    const distance = Math.abs(
+      RESOLUTION_ORDER.indexOf(source.resolution) -
+        RESOLUTION_ORDER.indexOf(preferences.resolution),
+    );
+    score += 1000 - distance * 250;
+  }
+
+  if (source.source === "cam" || source.source === "telesync") {
+    score -= 3000;
+  }
+
+  if (
+    preferences.maxSizeGb > 0 &&
+    source.size !== undefined &&
+    source.size > preferences.maxSizeGb * SIZE_UNITS.gb
+  ) {
+    score -= 2000;
+  }
+
+  if (preferences.codec !== "any" && source.codec === preferences.codec) {
+    score += 200;
+  }
+
+  if (source.hdr?.length) {
+    score += preferences.preferHdr ? 150 : -50;
+  }
+
+  // Only breaks ties, and mostly matters for uncached torrents
+  score += Math.min(source.seeders ?? 0, 100);
+
+  return score;
+}
+
+export function rankSources(
+  sources: StreamSource[],
+  preferences: SourcePreferences,
+): StreamSource[] {
+  return sources
+    .filter(
+      (source) => !preferences.cachedOnly || source.cached || !!source.url,
+    )
+    .map((source) => ({ source, score: scoreSource(source, preferences) }))
+    .sort((a, b) => b.score - a.score)
+    .map(({ source }) => source);
+}
+
+class StreamSourceService {
+  // Queries every enabled addon at once; an addon that fails or times out is left out
+  async fetchStreams(
+    addons: StreamAddonSetting[],
+    query: StreamQuery,
+  ): Promise<StreamSource[]> {
+    const results = await Promise.all(
+      addons
+        .filter((addon) => addon.enabled)
+        .map(async (addon) => {
+          try {
+            const data = await httpClient.requestJson<{
+              streams?: StremioStream[];
+            }>(getStreamUrl(addon.url, query), {
+              timeoutMs: ADDON_TIMEOUT_MS,
+              retries: 1,
+            });
+            return (data.streams ?? [])
+              .map((stream) => parseStream(stream, addon.name))
+              .filter((source): source is StreamSource => source !== null);
+          } catch (error) {
+            console.error(`Failed to load streams from ${addon.name}:`, error);
+            return [];
+          }
+        }),
+    );
+
+    // Several addons often list the same torrent; the first one listed wins
+    const seen = new Set<string>();
+    return results.flat().filter((source) => {
+      if (seen.has(source.key)) return false;
+      seen.add(source.key);
+      return true;
+    });
+  }
+
+  // Providers cap how many hashes one request can carry, so they are sent in batches
+  async checkCached(sources: StreamSource[]): Promise<StreamSource[]> {
+    if (!debridService.isConfigured()) return sources;
+
+    const hashes = [
+      ...new Set(
+        sources
+          .map((source) => source.infoHash)
+          .filter((hash): hash is string => !!hash),
+      ),
+    ];
+    const cached = new Set<string>();
+    for (
+      let index = 0;
+      index < hashes.length;
+      index += CACHE_CHECK_BATCH_SIZE
+    ) {
+      const status = await debridService.checkCache(
+        hashes.slice(index, index + CACHE_CHECK_BATCH_SIZE),
+      );
+      status.hashes?.forEach((hash) => cached.add(hash));
+    }
+
+    return sources.map((source) =>
+      source.infoHash
+        ? { ...source, cached: cached.has(source.infoHash) }
+        : source,
+    );
+  }
+
+  // Returns a URL the player can open directly
+  async resolve(source: StreamSource, query: StreamQuery): Promise<string> {
+    if (source.url) return source.url;
+
+    const stream = await debridService.resolve({
+      infoHash: source.infoHash,
+      season: query.season,
+      episode: query.episode,
+    });
+    return stream.url;
+  }
+}
+
+export const streamSourceService = new StreamSourceService();
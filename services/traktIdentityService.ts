@@ -0,0 +1,244 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  TraktEpisode,
+  TraktIdType,
+  TraktMediaData,
+  TraktMovie,
+  TraktSearchResult,
+  TraktShow,
+  traktService,
+} from "@/services/traktService";
+import { parseReleaseName } from "@/services/releaseNameParser";
+
+const CACHE_STORAGE_KEY = "@streamplayer/trakt_identity_cache";
+const MAX_CACHE_ENTRIES = 500;
+// Titles Trakt doesn't know are retried after this long, in case they were added since
+const UNRESOLVED_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface MediaIdentityQuery {
+  imdbId?: string;
+  tmdbId?: number;
+  tvdbId?: number;
+  traktId?: number;
+  title?: string;
+  year?: number;
+  season?: number;
+  episode?: number;
+  // A file name or URL to fall back on when nothing else identifies the video
+  filename?: string;
+}
+
+interface CacheEntry {
+  media: TraktMediaData | null;
+  resolvedAt: number;
+  lastAccess: number;
+}
+
+function getCacheKey(query: MediaIdentityQuery): string | null {
+  const episodeKey =
+    query.season !== undefined && query.episode !== undefined
+      ? `:${query.season}:${query.episode}`
+      : "";
+  if (query.traktId) return `trakt:${query.traktId}${episodeKey}`;
+  if (query.imdbId) return `imdb:${query.imdbId}${episodeKey}`;
+  if (query.tmdbId) return `tmdb:${query.tmdbId}${episodeKey}`;
+  if (query.tvdbId) return `tvdb:${query.tvdbId}${episodeKey}`;
+  if (query.title) {
+    return `title:${query.title.toLowerCase()}:${query.year ?? ""}${episodeKey}`;
+  }
+  return query.filename ? `file:${query.filename}` : null;
+}
+
+function movieMedia(movie: TraktMovie): TraktMediaData {
+  return { movie: { title: movie.title, year: movie.year, ids: movie.ids } };
+}
+
+function episodeMedia(show: TraktShow, episode: TraktEpisode): TraktMediaData {
+  return {
+    show: { title: show.title, year: show.year, ids: show.ids },
+    episode: {
+      season: episode.season,
+      number: episode.number,
+      title: episode.title,
+      ids: episode.ids,
+    },
+  };
+}
+
+// Works out which Trakt movie or episode is playing. Episode ids are kept on the
+// episode and show ids on the show; nothing is sent for titles that can't be matched
+class TraktIdentityService {
+  private cache: Map<string, CacheEntry> = new Map();
+  private cacheLoaded: Promise<void> | null = null;
+  private pending: Map<string, Promise<TraktMediaData | null>> = new Map();
+
+  async resolve(query: MediaIdentityQuery): Promise<TraktMediaData | null> {
+    const parsed =
+      !query.title && query.filename ? parseReleaseName(query.filename) : null;
+    const resolved: MediaIdentityQuery = parsed
+      ? {
+          ...query,
+          title: parsed.title,
+          year: query.year ?? parsed.year,
+          season: query.season ?? parsed.season,
+          episode: query.episode ?? parsed.episode,
+        }
+      : query;
+
+    const cacheKey = getCacheKey(resolved);
+    if (!cacheKey) return null;
+
+    await this.loadCache();
+    const entry = this.cache.get(cacheKey);
+    if (
+      entry &&
+      (entry.media || Date.now() - entry.resolvedAt < UNRESOLVED_TTL_MS)
+    ) {
+      entry.lastAccess = Date.now();
+      return entry.media;
+    }
+
+    let request = this.pending.get(cacheKey);
+    if (!request) {
+      request = this.lookup(resolved)
+        .then((result) => {
+          // Lookups that failed outright are retried next time rather than remembered
+          if (result !== undefined) {
+            this.store(cacheKey, result);
+          }
+          return result ?? null;
+        })
+        .finally(() => {
+          this.pending.delete(cacheKey);
+        });
+      this.pending.set(cacheKey, request);
+    }
+    return request;
+  }
+
+  async clearCache(): Promise<void> {
+    await this.loadCache();
+    this.cache.clear();
+    try {
+      await AsyncStorage.removeItem(CACHE_STORAGE_KEY);
+    } catch (error) {
+      console.error("Failed to clear Trakt identity cache:", error);
+    }
+  }
+
+  // Resolves to null when Trakt has no match and undefined when it couldn't be asked
+  private async lookup(
+    query: MediaIdentityQuery,
+  ): Promise<TraktMediaData | null | undefined> {
+    await traktService.initialize();
+    if (!traktService.isAuthenticated()) return undefined;
+
+    const { season, episode } = query;
+    const isEpisode = season !== undefined && episode !== undefined;
+    const ids: [TraktIdType, string | number | undefined][] = [
+      ["trakt", query.traktId],
+      ["imdb", query.imdbId],
+      ["tmdb", query.tmdbId],
+      ["tvdb", query.tvdbId],
+    ];
+
+    let results: TraktSearchResult[] | null;
+    const idEntry = ids.find(
+      (entry): entry is [TraktIdType, string | number] =>
+        entry[1] !== undefined,
+    );
+    if (idEntry) {
+      // An id given alongside season and episode may belong to the show or to the episode itself
+      results = await traktService.searchById(
+        idEntry[0],
+        idEntry[1],
+        isEpisode ? ["show", "episode"] : ["movie"],
+      );
+    } else if (query.title && (isEpisode || query.year !== undefined)) {
+      // A bare title like "video" is too vague; it would match something random
+      results = await traktService.searchByText(
+        query.title,
+        isEpisode ? ["show"] : ["movie"],
+        isEpisode ? undefined : query.year,
+      );
+    } else {
+      return null;
+    }
+    if (!results) return undefined;
+
+    const match = results[0];
+    if (!match) return null;
+
+    if (match.type === "movie" && match.movie) {
+      return movieMedia(match.movie);
+    }
+    if (match.type === "episode" && match.show && match.episode) {
+      return episodeMedia(match.show, match.episode);
+    }
+    if (
+      match.type === "show" &&
+      match.show &&
+      season !== undefined &&
+      episode !== undefined
+    ) {
+      const found = await traktService.getEpisode(
+        match.show.ids.trakt,
+        season,
+        episode,
+      );
+      return found ? episodeMedia(match.show, found) : undefined;
+    }
+    return null;
+  }
+
+  private store(cacheKey: string, media: TraktMediaData | null): void {
+    const now = Date.now();
+    this.cache.set(cacheKey, { media, resolvedAt: now, lastAccess: now });
+    this.evict();
+    this.persistCache();
+  }
+
+  private evict(): void {
+    if (this.cache.size <= MAX_CACHE_ENTRIES) return;
+
+    const byAccess = [...this.cache.entries()].sort(
+      (a, b) => a[1].lastAccess - b[1].lastAccess,
+    );
+    for (const [key] of byAccess.slice(
+      0,
+      this.cache.size - MAX_CACHE_ENTRIES,
+    )) {
+      this.cache.delete(key);
+    }
+  }
+
+  private loadCache(): Promise<void> {
+    if (!this.cacheLoaded) {
+      this.cacheLoaded = (async () => {
+        try {
+          const data = await AsyncStorage.getItem(CACHE_STORAGE_KEY);
+          if (data) {
+            const stored: Record<string, CacheEntry> = JSON.parse(data);
+            this.cache = new Map(Object.entries(stored));
+          }
+        } catch (error) {
+          console.error("Failed to load Trakt identity cache:", error);
+        }
+      })();
+    }
+    return this.cacheLoaded;
+  }
+
+  private async persistCache(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(
+        CACHE_STORAGE_KEY,
+        JSON.stringify(Object.fromEntries(this.cache)),
+      );
+    } catch (error) {
+      console.error("Failed to save Trakt identity cache:", error);
+    }
+  }
+}
+
+export const traktIdentityService = new TraktIdentityService();
@@ -0,0 +1,270 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  ScrobbleAction,
+  ScrobbleData,
+  TraktHistoryRequest,
+  TraktSendResult,
+  isWatchedProgress,
+  traktService,
+} from "@/services/traktService";
+
+const OUTBOX_KEY = "@streamplayer/trakt_outbox";
+// Past this age a scrobble no longer describes what is playing right now, and is replayed as a pause or history
+const STALE_SCROBBLE_MS = 5 * 60 * 1000;
+const BASE_RETRY_MS = 30 * 1000;
+const MAX_RETRY_MS = 60 * 60 * 1000;
+
+export type TraktOutboxKind = "scrobble" | "history";
+
+export interface TraktOutboxEvent {
+  id: string;
+  kind: TraktOutboxKind;
+  action?: ScrobbleAction;
+  data: ScrobbleData;
+  // When the event happened, which becomes watched_at if it has to be sent as history
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+type OutboxListener = (queue: TraktOutboxEvent[]) => void;
+
+function getItemKey(data: ScrobbleData): string {
+  const ids = data.movie?.ids ?? data.show?.ids;
+  const item = ids?.imdb ?? data.movie?.title ?? data.show?.title ?? "";
+  return data.episode
+    ? `${item}_s${data.episode.season}e${data.episode.number}`
+    : item;
+}
+
+export function createHistoryRequest(
+  data: ScrobbleData,
+  watchedAt: number,
+): TraktHistoryRequest {
+  const watched_at = new Date(watchedAt).toISOString();
+
+  if (data.show && data.episode) {
+    return {
+      shows: [
+        {
+          title: data.show.title,
+          ids: data.show.ids,
+          seasons: [
+            {
+              number: data.episode.season,
+              episodes: [{ number: data.episode.number, watched_at }],
+            },
+          ],
+        },
+      ],
+    };
+  }
+
+  return {
+    movies: [
+      {
+        title: data.movie?.title ?? "",
+        ids: data.movie?.ids,
+        watched_at,
+      },
+    ],
+  };
+}
+
+// Scrobbles and history entries are written here first and replayed in order,
+// so a watch made without connectivity still reaches Trakt later
+class TraktOutbox {
+  private queue: TraktOutboxEvent[] = [];
+  private loaded: Promise<void> | null = null;
+  private flushing: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners: Set<OutboxListener> = new Set();
+
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async getQueue(): Promise<TraktOutboxEvent[]> {
+    await this.load();
+    return [...this.queue];
+  }
+
+  // Resolves true when the event reached Trakt straight away rather than staying queued
+  async scrobble(action: ScrobbleAction, data: ScrobbleData): Promise<boolean> {
+    const event = await this.enqueue("scrobble", data, action);
+    await this.flush();
+    return !this.queue.some((item) => item.id === event.id);
+  }
+
+  async addToHistory(
+    data: ScrobbleData,
+    watchedAt = Date.now(),
+  ): Promise<void> {
+    await this.enqueue("history", data, undefined, watchedAt);
+    this.flush();
+  }
+
+  async clear(): Promise<void> {
+    await this.load();
+    this.queue = [];
+    await this.persist();
+  }
+
+  // force ignores the backoff, e.g. for a manual "Sync Now"
+  flush(force = false): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.flushQueue(force).finally(() => {
+        this.flushing = null;
+        this.scheduleRetry();
+      });
+    }
+    return this.flushing;
+  }
+
+  private async enqueue(
+    kind: TraktOutboxKind,
+    data: ScrobbleData,
+    action?: ScrobbleAction,
+    createdAt = Date.now(),
+  ): Promise<TraktOutboxEvent> {
+    await this.load();
+    const event: TraktOutboxEvent = {
+      id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+      kind,
+      action,
+      data,
+      createdAt,
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+    };
+    this.queue = [...this.queue, event];
+    await this.persist();
+    return event;
+  }
+
+  private async flushQueue(force: boolean): Promise<void> {
+    await this.load();
+    await traktService.initialize();
+
+    // Events go out strictly in order, so a failure holds back everything behind it
+    while (this.queue.length > 0) {
+      const event = this.queue[0];
+      if (!force && event.nextAttemptAt > Date.now()) {
+        break;
+      }
+
+      const result = await this.send(event);
+      if (result.ok) {
+        this.queue = this.queue.filter((item) => item.id !== event.id);
+      } else if (!result.retryable) {
+        console.error("Failed to sync Trakt event:", result.error);
+        this.queue = this.queue.filter((item) => item.id !== event.id);
+      } else {
+        const attempts = event.attempts + 1;
+        this.queue = this.queue.map((item) =>
+          item.id === event.id
+            ? {
+                ...item,
+                attempts,
+                lastError: result.error,
+                nextAttemptAt:
+                  Date.now() +
+                  Math.min(
+                    MAX_RETRY_MS,
+                    BASE_RETRY_MS * Math.pow(2, attempts - 1),
+                  ),
+              }
+            : item,
+        );
+      }
+      await this.persist();
+
+      if (!result.ok && result.retryable) {
+        break;
+      }
+    }
+  }
+
+  private async send(event: TraktOutboxEvent): Promise<TraktSendResult> {
+    if (event.kind === "history") {
+      return traktService.sendHistory(
+        createHistoryRequest(event.data, event.createdAt),
+      );
+    }
+
+    if (Date.now() - event.createdAt < STALE_SCROBBLE_MS && event.action) {
+      return traktService.sendScrobble(event.action, event.data);
+    }
+
+    // A later queued scrobble of the same item that got further makes this one redundant
+    const key = getItemKey(event.data);
+    const superseded = this.queue.some(
+      (item) =>
+        item.id !== event.id &&
+        item.kind === "scrobble" &&
+        item.createdAt >= event.createdAt &&
+        getItemKey(item.data) === key &&
+        item.data.progress >= event.data.progress,
+    );
+    if (superseded) {
+      return { ok: true, retryable: false };
+    }
+    // Trakt keeps a pause as playback progress, so a partial watch can still be resumed elsewhere
+    if (!isWatchedProgress(event.data.progress)) {
+      return traktService.sendScrobble("pause", event.data);
+    }
+
+    // Replaying a stale scrobble would stamp it with the current time, so record the watch as history instead
+    return traktService.sendHistory(
+      createHistoryRequest(event.data, event.createdAt),
+    );
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.queue.length === 0) return;
+
+    this.retryTimer = setTimeout(
+      () => {
+        this.retryTimer = null;
+        this.flush();
+      },
+      Math.max(1000, this.queue[0].nextAttemptAt - Date.now()),
+    );
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          const data = await AsyncStorage.getItem(OUTBOX_KEY);
+          if (data) {
+            this.queue = JSON.parse(data);
+          }
+        } catch (error) {
+          console.error("Failed to load Trakt outbox:", error);
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  private async persist(): Promise<void> {
+    const snapshot = [...this.queue];
+    this.listeners.forEach((listener) => listener(snapshot));
+    try {
+      await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(snapshot));
+    } catch (error) {
+      console.error("Failed to save Trakt outbox:", error);
+    }
+  }
+}
+
+export const traktOutbox = new TraktOutbox();
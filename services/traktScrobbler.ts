@@ -0,0 +1,83 @@
+import {
+  ScrobbleAction,
+  ScrobbleData,
+  TraktMediaData,
+  createScrobbleData,
+} from "@/services/traktService";
+import { traktOutbox } from "@/services/traktOutbox";
+
+export type ScrobbleState = "idle" | "playing" | "paused" | "stopped";
+
+export type ScrobbleEvent = "play" | "pause" | "seek" | "stop";
+
+export interface ScrobbleApi {
+  scrobble(action: ScrobbleAction, data: ScrobbleData): Promise<boolean>;
+}
+
+interface ScrobbleTransition {
+  state: ScrobbleState;
+  action: ScrobbleAction | null;
+}
+
+// Seeking while playing re-sends start so Trakt picks up the new position,
+// and seeking while paused re-sends pause for the same reason
+export function getScrobbleTransition(
+  state: ScrobbleState,
+  event: ScrobbleEvent,
+): ScrobbleTransition {
+  switch (event) {
+    case "play":
+      return state === "playing"
+        ? { state, action: null }
+        : { state: "playing", action: "start" };
+    case "pause":
+      return state === "playing"
+        ? { state: "paused", action: "pause" }
+        : { state, action: null };
+    case "seek":
+      if (state === "playing") return { state, action: "start" };
+      if (state === "paused") return { state, action: "pause" };
+      return { state, action: null };
+    case "stop":
+      return state === "playing" || state === "paused"
+        ? { state: "stopped", action: "stop" }
+        : { state: "stopped", action: null };
+  }
+}
+
+export class TraktScrobbler {
+  private state: ScrobbleState = "idle";
+  // Requests go out one at a time so a stop can never overtake its start
+  private queue: Promise<unknown> = Promise.resolve();
+
+  // The identity may still be resolving; requests wait for it, and are dropped if it never resolves
+  constructor(
+    private identity: Promise<TraktMediaData | null> | TraktMediaData | null,
+    private api: ScrobbleApi = traktOutbox,
+  ) {}
+
+  getState(): ScrobbleState {
+    return this.state;
+  }
+
+  dispatch(event: ScrobbleEvent, progress: number): Promise<boolean> {
+    const { state, action } = getScrobbleTransition(this.state, event);
+    this.state = state;
+    if (!action) {
+      return Promise.resolve(true);
+    }
+
+    const request = this.queue.then(async () => {
+      const media = await this.identity;
+      if (!media) return false;
+      return this.api.scrobble(action, createScrobbleData(media, progress));
+    });
+    this.queue = request.catch(() => undefined);
+    return request;
+  }
+
+  // Resolves once every request dispatched so far has settled
+  flush(): Promise<unknown> {
+    return this.queue;
+  }
+}
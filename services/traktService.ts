@@ -1,5 +1,7 @@
+import Constants from "expo-constants";
 import { TraktCredentials } from "@/types";
 import { saveTraktCredentials, loadTraktCredentials } from "@/storage/settingsStorage";
+import { httpClient } from "@/services/httpClient";
 
 const TRAKT_API_BASE = "https://api.trakt.tv";
 const TRAKT_CLIENT_ID = process.env.EXPO_PUBLIC_TRAKT_CLIENT_ID || "YOUR_TRAKT_CLIENT_ID";
@@ -37,29 +39,18 @@ export interface ScrobbleData {
   movie?: {
     title: string;
     year?: number;
-    ids?: {
-      imdb?: string;
-      tmdb?: number;
-      slug?: string;
-    };
+    ids?: Partial<TraktIds>;
   };
   show?: {
     title: string;
     year?: number;
-    ids?: {
-      imdb?: string;
-      tmdb?: number;
-      slug?: string;
-    };
+    ids?: Partial<TraktIds>;
   };
   episode?: {
     season: number;
     number: number;
     title?: string;
-    ids?: {
-      imdb?: string;
-      tmdb?: number;
-    };
+    ids?: Partial<TraktIds>;
   };
   progress: number;
   app_version?: string;
@@ -68,6 +59,148 @@ export interface ScrobbleData {
 
 export type ScrobbleAction = "start" | "pause" | "stop";
 
+export type TraktMediaData = Pick<ScrobbleData, "movie" | "show" | "episode">;
+
+export type TraktCheckinData = TraktMediaData & {
+  app_version?: string;
+  app_date?: string;
+};
+
+export interface TraktRatingsRequest {
+  movies?: {
+    title: string;
+    ids?: Partial<TraktIds>;
+    rating: number;
+    rated_at: string;
+  }[];
+  shows?: {
+    title: string;
+    ids?: Partial<TraktIds>;
+    seasons: {
+      number: number;
+      episodes: { number: number; rating: number; rated_at: string }[];
+    }[];
+  }[];
+}
+
+export interface TraktHistoryRequest {
+  movies?: {
+    title: string;
+    ids?: Partial<TraktIds>;
+    watched_at: string;
+  }[];
+  shows?: {
+    title: string;
+    ids?: Partial<TraktIds>;
+    seasons: {
+      number: number;
+      episodes: { number: number; watched_at: string }[];
+    }[];
+  }[];
+}
+
+export interface TraktIds {
+  trakt: number;
+  slug?: string;
+  imdb?: string;
+  tmdb?: number;
+  tvdb?: number;
+}
+
+// Image paths come without a scheme, e.g. "media.trakt.tv/images/..."
+export interface TraktImages {
+  poster?: string[];
+  fanart?: string[];
+  thumb?: string[];
+  screenshot?: string[];
+}
+
+export interface TraktMovie {
+  title: string;
+  year?: number;
+  ids: TraktIds;
+  images?: TraktImages;
+}
+
+export interface TraktShow {
+  title: string;
+  year?: number;
+  ids: TraktIds;
+  images?: TraktImages;
+}
+
+export interface TraktEpisode {
+  season: number;
+  number: number;
+  title?: string;
+  ids?: TraktIds;
+  images?: TraktImages;
+  first_aired?: string | null;
+}
+
+export interface TraktPlaybackItem {
+  id: number;
+  progress: number;
+  paused_at: string;
+  type: "movie" | "episode";
+  movie?: TraktMovie;
+  episode?: TraktEpisode;
+  show?: TraktShow;
+}
+
+export interface TraktWatchedShow {
+  plays: number;
+  last_watched_at: string;
+  show: TraktShow;
+}
+
+export interface TraktShowProgress {
+  aired: number;
+  completed: number;
+  last_watched_at?: string;
+  next_episode: TraktEpisode | null;
+}
+
+export type TraktIdType = "trakt" | "imdb" | "tmdb" | "tvdb";
+
+export type TraktSearchType = "movie" | "show" | "episode";
+
+export interface TraktSearchResult {
+  type: TraktSearchType;
+  score?: number;
+  movie?: TraktMovie;
+  show?: TraktShow;
+  episode?: TraktEpisode;
+}
+
+export interface TraktSeason {
+  number: number;
+  episodes?: TraktEpisode[];
+}
+
+export interface TraktListItem {
+  rank?: number;
+  listed_at: string;
+  type: "movie" | "show" | "season" | "episode";
+  movie?: TraktMovie;
+  show?: TraktShow;
+  episode?: TraktEpisode;
+}
+
+export interface TraktList {
+  name: string;
+  description?: string;
+  item_count: number;
+  ids: TraktIds;
+}
+
+export interface TraktSendResult {
+  ok: boolean;
+  // false when resending the same request can never succeed
+  retryable: boolean;
+  error?: string;
+}
+
 class TraktService {
   private credentials: TraktCredentials | null = null;
   private isInitialized = false;
@@ -97,14 +230,24 @@ class TraktService {
     }
   }
 
-  async getDeviceCode(): Promise<DeviceCodeResponse> {
-    const response = await fetch(`${TRAKT_API_BASE}/oauth/device/code`, {
-      method: "POST",
-      headers: this.getHeaders(false),
-      body: JSON.stringify({
-        client_id: TRAKT_CLIENT_ID,
-      }),
-    });
+  // Picks up credentials written outside the service, such as by a backup import
+  async reloadCredentials(): Promise<void> {
+    this.credentials = await loadTraktCredentials();
+    this.isInitialized = true;
+  }
+
+  async getDeviceCode(signal?: AbortSignal): Promise<DeviceCodeResponse> {
+    const response = await httpClient.request(
+      `${TRAKT_API_BASE}/oauth/device/code`,
+      {
+        method: "POST",
+        headers: this.getHeaders(false),
+        body: JSON.stringify({
+          client_id: TRAKT_CLIENT_ID,
+        }),
+        signal,
+      },
+    );
 
     if (!response.ok) {
       throw new Error(`Failed to get device code: ${response.status}`);
@@ -113,16 +256,25 @@ class TraktService {
     return response.json();
   }
 
-  async pollForToken(deviceCode: string): Promise<TokenResponse | null> {
-    const response = await fetch(`${TRAKT_API_BASE}/oauth/device/token`, {
-      method: "POST",
-      headers: this.getHeaders(false),
-      body: JSON.stringify({
-        code: deviceCode,
-        client_id: TRAKT_CLIENT_ID,
-        client_secret: TRAKT_CLIENT_SECRET,
-      }),
-    });
+  async pollForToken(
+    deviceCode: string,
+    signal?: AbortSignal,
+  ): Promise<TokenResponse | null> {
+    const response = await httpClient.request(
+      `${TRAKT_API_BASE}/oauth/device/token`,
+      {
+        method: "POST",
+        headers: this.getHeaders(false),
+        body: JSON.stringify({
+          code: deviceCode,
+          client_id: TRAKT_CLIENT_ID,
+          client_secret: TRAKT_CLIENT_SECRET,
+        }),
+        // Polling status codes (400 pending, 429 slow down) are handled below, not retried
+        retries: 0,
+        signal,
+      },
+    );
 
     if (response.status === 400) {
       return null;
@@ -153,17 +305,20 @@ class TraktService {
     }
 
     try {
-      const response = await fetch(`${TRAKT_API_BASE}/oauth/token`, {
-        method: "POST",
-        headers: this.getHeaders(false),
-        body: JSON.stringify({
-          refresh_token: this.credentials.refreshToken,
-          client_id: TRAKT_CLIENT_ID,
-          client_secret: TRAKT_CLIENT_SECRET,
-          redirect_uri: "urn:ietf:wg:oauth:2.0:oob",
-          grant_type: "refresh_token",
-        }),
-      });
+      const response = await httpClient.request(
+        `${TRAKT_API_BASE}/oauth/token`,
+        {
+          method: "POST",
+          headers: this.getHeaders(false),
+          body: JSON.stringify({
+            refresh_token: this.credentials.refreshToken,
+            client_id: TRAKT_CLIENT_ID,
+            client_secret: TRAKT_CLIENT_SECRET,
+            redirect_uri: "urn:ietf:wg:oauth:2.0:oob",
+            grant_type: "refresh_token",
+          }),
+        },
+      );
 
       if (!response.ok) {
         return false;
@@ -192,7 +347,7 @@ class TraktService {
     await this.ensureValidToken();
 
     try {
-      const response = await fetch(`${TRAKT_API_BASE}/users/me`, {
+      const response = await httpClient.request(`${TRAKT_API_BASE}/users/me`, {
         method: "GET",
         headers: this.getHeaders(),
       });
@@ -201,7 +356,7 @@ class TraktService {
         return null;
       }
 
-      return response.json();
+      return await response.json();
     } catch (error) {
       console.error("Failed to get user profile:", error);
       return null;
@@ -226,7 +381,7 @@ class TraktService {
 
   private async getUserProfileWithToken(accessToken: string): Promise<TraktUser | null> {
     try {
-      const response = await fetch(`${TRAKT_API_BASE}/users/me`, {
+      const response = await httpClient.request(`${TRAKT_API_BASE}/users/me`, {
         method: "GET",
         headers: {
           ...this.getHeaders(false),
@@ -238,7 +393,7 @@ class TraktService {
         return null;
       }
 
-      return response.json();
+      return await response.json();
     } catch (error) {
       return null;
     }
@@ -256,28 +411,209 @@ class TraktService {
     return true;
   }
 
-  async scrobble(action: ScrobbleAction, data: ScrobbleData): Promise<boolean> {
+  private async post(path: string, body: unknown): Promise<TraktSendResult> {
     const isValid = await this.ensureValidToken();
     if (!isValid) {
-      console.warn("No valid Trakt token for scrobbling");
-      return false;
+      // A refresh fails while offline too, so the caller should try again later
+      return { ok: false, retryable: true, error: "No valid Trakt token" };
     }
 
     try {
-      const response = await fetch(`${TRAKT_API_BASE}/scrobble/${action}`, {
+      const response = await httpClient.request(`${TRAKT_API_BASE}${path}`, {
         method: "POST",
         headers: this.getHeaders(),
-        body: JSON.stringify(data),
+        body: JSON.stringify(body),
+      });
+
+      // 409 means Trakt already recorded this scrobble recently
+      if (response.ok || response.status === 409) {
+        return { ok: true, retryable: false };
+      }
+
+      const retryable =
+        response.status >= 500 ||
+        response.status === 401 ||
+        response.status === 408 ||
+        response.status === 429;
+      return { ok: false, retryable, error: `HTTP ${response.status}` };
+    } catch (error) {
+      return {
+        ok: false,
+        retryable: true,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  async sendScrobble(
+    action: ScrobbleAction,
+    data: ScrobbleData,
+  ): Promise<TraktSendResult> {
+    return this.post(`/scrobble/${action}`, data);
+  }
+
+  async sendHistory(request: TraktHistoryRequest): Promise<TraktSendResult> {
+    return this.post("/sync/history", request);
+  }
+
+  async rate(request: TraktRatingsRequest): Promise<boolean> {
+    const result = await this.post("/sync/ratings", request);
+    if (!result.ok) {
+      console.error("Failed to rate on Trakt:", result.error);
+    }
+    return result.ok;
+  }
+
+  async checkin(data: TraktCheckinData): Promise<boolean> {
+    // Trakt refuses a check-in while another one is running, such as the previous episode's
+    await this.cancelCheckin();
+    const result = await this.post("/checkin", data);
+    if (!result.ok) {
+      console.error("Failed to check in on Trakt:", result.error);
+    }
+    return result.ok;
+  }
+
+  async cancelCheckin(): Promise<boolean> {
+    const isValid = await this.ensureValidToken();
+    if (!isValid) {
+      return false;
+    }
+
+    try {
+      const response = await httpClient.request(`${TRAKT_API_BASE}/checkin`, {
+        method: "DELETE",
+        headers: this.getHeaders(),
+      });
+
+      return response.ok;
+    } catch (error) {
+      console.error("Failed to cancel Trakt check-in:", error);
+      return false;
+    }
+  }
+
+  async scrobble(action: ScrobbleAction, data: ScrobbleData): Promise<boolean> {
+    const result = await this.sendScrobble(action, data);
+    if (!result.ok) {
+      console.error(`Scrobble ${action} failed:`, result.error);
+    }
+    return result.ok;
+  }
+
+  private async get<T>(path: string): Promise<T | null> {
+    const isValid = await this.ensureValidToken();
+    if (!isValid) {
+      return null;
+    }
+
+    try {
+      const response = await httpClient.request(`${TRAKT_API_BASE}${path}`, {
+        method: "GET",
+        headers: this.getHeaders(),
       });
 
       if (!response.ok) {
-        console.error(`Scrobble ${action} failed: ${response.status}`);
-        return false;
+        return null;
       }
 
-      return true;
+      return await response.json();
     } catch (error) {
-      console.error(`Scrobble ${action} error:`, error);
+      console.error(`Failed to get ${path}:`, error);
+      return null;
+    }
+  }
+
+  async getPlaybackProgress(): Promise<TraktPlaybackItem[] | null> {
+    return this.get<TraktPlaybackItem[]>("/sync/playback?extended=images");
+  }
+
+  async getWatchedShows(): Promise<TraktWatchedShow[] | null> {
+    return this.get<TraktWatchedShow[]>(
+      "/sync/watched/shows?extended=noseasons,images",
+    );
+  }
+
+  async getShowProgress(
+    showId: number | string,
+  ): Promise<TraktShowProgress | null> {
+    return this.get<TraktShowProgress>(
+      `/shows/${showId}/progress/watched?extended=images`,
+    );
+  }
+
+  async getSeasons(showId: number | string): Promise<TraktSeason[] | null> {
+    return this.get<TraktSeason[]>(
+      `/shows/${showId}/seasons?extended=full,episodes`,
+    );
+  }
+
+  async searchById(
+    idType: TraktIdType,
+    id: string | number,
+    types: TraktSearchType[],
+  ): Promise<TraktSearchResult[] | null> {
+    return this.get<TraktSearchResult[]>(
+      `/search/${idType}/${encodeURIComponent(id)}?type=${types.join(",")}`,
+    );
+  }
+
+  async searchByText(
+    query: string,
+    types: TraktSearchType[],
+    year?: number,
+  ): Promise<TraktSearchResult[] | null> {
+    const params = new URLSearchParams({ query });
+    if (year) {
+      params.set("years", String(year));
+    }
+    return this.get<TraktSearchResult[]>(
+      `/search/${types.join(",")}?${params.toString()}`,
+    );
+  }
+
+  async getEpisode(
+    showId: number | string,
+    season: number,
+    episode: number,
+  ): Promise<TraktEpisode | null> {
+    return this.get<TraktEpisode>(
+      `/shows/${showId}/seasons/${season}/episodes/${episode}`,
+    );
+  }
+
+  async getWatchlist(): Promise<TraktListItem[] | null> {
+    return this.get<TraktListItem[]>("/sync/watchlist?extended=images");
+  }
+
+  async getLists(): Promise<TraktList[] | null> {
+    return this.get<TraktList[]>("/users/me/lists");
+  }
+
+  async getListItems(listId: number | string): Promise<TraktListItem[] | null> {
+    return this.get<TraktListItem[]>(
+      `/users/me/lists/${listId}/items?extended=images`,
+    );
+  }
+
+  async removePlaybackProgress(playbackId: number): Promise<boolean> {
+    const isValid = await this.ensureValidToken();
+    if (!isValid) {
+      return false;
+    }
+
+    try {
+      const response = await httpClient.request(
+        `${TRAKT_API_BASE}/sync/playback/${playbackId}`,
+        {
+          method: "DELETE",
+          headers: this.getHeaders(),
+        },
+      );
+
+      return response.ok || response.status === 404;
+    } catch (error) {
+      console.error("Failed to remove playback progress:", error);
       return false;
     }
   }
@@ -305,7 +641,7 @@ class TraktService {
   async disconnect(): Promise<void> {
     if (this.credentials?.accessToken) {
       try {
-        await fetch(`${TRAKT_API_BASE}/oauth/revoke`, {
+        await httpClient.request(`${TRAKT_API_BASE}/oauth/revoke`, {
           method: "POST",
           headers: this.getHeaders(false),
           body: JSON.stringify({
@@ -325,34 +661,75 @@ class TraktService {
 
 export const traktService = new TraktService();
 
+// Trakt marks an item watched when a stop arrives at or above this progress;
+// a stop below it is stored as a paused playback instead
+export const TRAKT_WATCHED_THRESHOLD = 80;
+
+export function isWatchedProgress(progress: number): boolean {
+  return progress >= TRAKT_WATCHED_THRESHOLD;
+}
+
+// Trakt shows which app and release a scrobble or check-in came from
+function getAppInfo(): Pick<ScrobbleData, "app_version" | "app_date"> {
+  return {
+    app_version: Constants.expoConfig?.version,
+    app_date: Constants.expoConfig?.extra?.releaseDate,
+  };
+}
+
 export function createScrobbleData(
-  imdbId: string | undefined,
-  title: string,
-  season?: number,
-  episode?: number,
-  progress: number = 0
+  media: TraktMediaData,
+  progress: number = 0,
 ): ScrobbleData {
-  if (season !== undefined && episode !== undefined) {
+  return {
+    ...media,
+    progress: Math.min(100, Math.max(0, progress)),
+    ...getAppInfo(),
+  };
+}
+
+export function createCheckinData(media: TraktMediaData): TraktCheckinData {
+  return { ...media, ...getAppInfo() };
+}
+
+export function createRatingsRequest(
+  media: TraktMediaData,
+  rating: number,
+): TraktRatingsRequest {
+  const ratedAt = new Date().toISOString();
+  const value = Math.min(10, Math.max(1, Math.round(rating)));
+
+  if (media.show && media.episode) {
     return {
-      show: {
-        title: title,
-        ids: imdbId ? { imdb: imdbId } : undefined,
-      },
-      episode: {
-        season,
-        number: episode,
-      },
-      progress: Math.min(100, Math.max(0, progress)),
-      app_version: "1.0.0",
+      shows: [
+        {
+          title: media.show.title,
+          ids: media.show.ids,
+          seasons: [
+            {
+              number: media.episode.season,
+              episodes: [
+                {
+                  number: media.episode.number,
+                  rating: value,
+                  rated_at: ratedAt,
+                },
+              ],
+            },
+          ],
+        },
+      ],
     };
   }
 
   return {
-    movie: {
-      title: title,
-      ids: imdbId ? { imdb: imdbId } : undefined,
-    },
-    progress: Math.min(100, Math.max(0, progress)),
-    app_version: "1.0.0",
+    movies: [
+      {
+        title: media.movie?.title ?? "",
+        ids: media.movie?.ids,
+        rating: value,
+        rated_at: ratedAt,
+      },
+    ],
   };
 }
@@ -0,0 +1,101 @@
+import { HttpError } from "@/services/httpClient";
+import {
+  installSecretRedaction,
+  redactSecrets,
+  registerSecret,
+} from "@/storage/secretStorage";
+
+const API_KEY = "tb-0f9e8d7c6b5a4f3e";
+const TORBOX_URL = `https://api.torbox.app/v1/api/torrents/requestdl?token=${API_KEY}&torrent_id=77&file_id=0`;
+
+describe("redactSecrets", () => {
+  it("redacts secret query parameters and bearer tokens", () => {
+    expect(redactSecrets(TORBOX_URL)).toBe(
+      "https://api.torbox.app/v1/api/torrents/requestdl?token=[redacted]&torrent_id=77&file_id=0",
+    );
+    expect(redactSecrets("Authorization: Bearer abc.def-123")).toBe(
+      "Authorization: Bearer [redacted]",
+    );
+  });
+
+  it("redacts registered secrets wherever they appear", () => {
+    registerSecret("rd-registered-key-1234");
+
+    expect(redactSecrets("key rd-registered-key-1234 was rejected")).toBe(
+      "key [redacted] was rejected",
+    );
+  });
+});
+
+describe("installSecretRedaction", () => {
+  let logged: unknown[][];
+
+  beforeAll(() => {
+    logged = [];
+    jest.spyOn(console, "error").mockImplementation((...args: unknown[]) => {
+      logged.push(args);
+    });
+    installSecretRedaction();
+  });
+
+  beforeEach(() => {
+    logged.length = 0;
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("redacts the URL of an HttpError", () => {
+    const error = new HttpError("http", TORBOX_URL, "Request failed", 500);
+
+    console.error("Failed to resolve torrent:", error);
+
+    const [message, logError] = logged[0] as [string, HttpError];
+    expect(message).toBe("Failed to resolve torrent:");
+    expect(logError).toBeInstanceOf(HttpError);
+    expect(logError.url).not.toContain(API_KEY);
+    expect(logError.status).toBe(500);
+    expect(error.url).toBe(TORBOX_URL);
+  });
+
+  it("redacts strings nested in plain objects and arrays", () => {
+    const details = {
+      request: {
+        url: TORBOX_URL,
+        headers: { Authorization: "Bearer abc.def-123" },
+      },
+      attempts: [{ url: TORBOX_URL }],
+      status: 401,
+    };
+
+    console.error("Failed to sync:", details);
+
+    const output = logged[0][1] as typeof details;
+    expect(JSON.stringify(output)).not.toContain(API_KEY);
+    expect(JSON.stringify(output)).not.toContain("abc.def-123");
+    expect(output.status).toBe(401);
+    expect(details.request.url).toBe(TORBOX_URL);
+  });
+
+  it("redacts objects held by an error", () => {
+    const error = new Error("Request failed") as Error & { cause?: unknown };
+    error.cause = { url: TORBOX_URL };
+
+    console.error("Failed to load account:", error);
+
+    const logError = logged[0][1] as Error & { cause: { url: string } };
+    expect(logError.cause.url).not.toContain(API_KEY);
+  });
+
+  it("copes with cyclic objects", () => {
+    const details: Record<string, unknown> = { url: TORBOX_URL };
+    details.self = details;
+
+    console.error("Failed to sync:", details);
+
+    const output = logged[0][1] as Record<string, unknown>;
+    expect(output.url).not.toContain(API_KEY);
+    expect(output.self).toBe(output);
+  });
+});
@@ -0,0 +1,224 @@
+import {
+  createMemorySecretStore,
+  getDebridKeyName,
+  getSecret,
+  SECRET_KEYS,
+  setSecret,
+  setSecretStore,
+} from "@/storage/secretStorage";
+import {
+  CURRENT_SETTINGS_VERSION,
+  migrateSettings,
+  stripSecrets,
+} from "@/storage/settingsMigrations";
+
+// Migrated documents are untyped; the tests only look at the debrid accounts
+function getAccounts(document: Record<string, unknown>) {
+  return (document.debrid as { accounts: Record<string, unknown>[] }).accounts;
+}
+
+beforeEach(() => {
+  setSecretStore(createMemorySecretStore());
+});
+
+describe("0 → 1", () => {
+  it("turns the single debrid account into a list", async () => {
+    const migrated = await migrateSettings({
+      version: 0,
+      debrid: {
+        service: "realdebrid",
+        apiKey: "rd-key-12345678",
+        isConnected: true,
+      },
+    });
+
+    expect(getAccounts(migrated)).toEqual([
+      {
+        id: "realdebrid",
+        service: "realdebrid",
+        apiKey: "",
+        enabled: true,
+        isConnected: true,
+      },
+    ]);
+  });
+
+  it("leaves no account when none was set up", async () => {
+    const none = await migrateSettings({
+      version: 0,
+      debrid: { service: "none", apiKey: "" },
+    });
+    const missing = await migrateSettings({ version: 0 });
+
+    expect(getAccounts(none)).toEqual([]);
+    expect(getAccounts(missing)).toEqual([]);
+  });
+
+  it("keeps an account list that is already there", async () => {
+    const accounts = [
+      {
+        id: "a1",
+        service: "torbox",
+        apiKey: "",
+        enabled: false,
+        isConnected: false,
+      },
+    ];
+
+    const migrated = await migrateSettings({
+      version: 0,
+      debrid: { accounts },
+    });
+
+    expect(getAccounts(migrated)).toEqual(accounts);
+  });
+});
+
+describe("1 → 2", () => {
+  it("moves the Trakt tokens and debrid keys to the secure store", async () => {
+    const migrated = await migrateSettings({
+      version: 1,
+      trakt: {
+        accessToken: "trakt-access-1234",
+        refreshToken: "trakt-refresh-1234",
+        expiresAt: 1700000000000,
+        username: "sam",
+      },
+      debrid: {
+        accounts: [
+          {
+            id: "a1",
+            service: "realdebrid",
+            apiKey: "rd-key-12345678",
+            enabled: true,
+            isConnected: true,
+          },
+          {
+            id: "a2",
+            service: "torbox",
+            apiKey: "",
+            enabled: true,
+            isConnected: false,
+          },
+        ],
+      },
+    });
+
+    expect(migrated.trakt).toEqual({
+      expiresAt: 1700000000000,
+      username: "sam",
+    });
+    expect(getAccounts(migrated).map((account) => account.apiKey)).toEqual([
+      "",
+      "",
+    ]);
+    await expect(getSecret(SECRET_KEYS.TRAKT_ACCESS_TOKEN)).resolves.toBe(
+      "trakt-access-1234",
+    );
+    await expect(getSecret(SECRET_KEYS.TRAKT_REFRESH_TOKEN)).resolves.toBe(
+      "trakt-refresh-1234",
+    );
+    await expect(getSecret(getDebridKeyName("a1"))).resolves.toBe(
+      "rd-key-12345678",
+    );
+    await expect(getSecret(getDebridKeyName("a2"))).resolves.toBeNull();
+  });
+
+  it("leaves stored secrets alone when the document's are empty", async () => {
+    await setSecret(SECRET_KEYS.TRAKT_ACCESS_TOKEN, "trakt-access-1234");
+
+    await migrateSettings({
+      version: 1,
+      trakt: { accessToken: "", refreshToken: null },
+    });
+
+    await expect(getSecret(SECRET_KEYS.TRAKT_ACCESS_TOKEN)).resolves.toBe(
+      "trakt-access-1234",
+    );
+  });
+
+  it("copes with missing sections", async () => {
+    const migrated = await migrateSettings({ version: 1 });
+
+    expect(migrated.trakt).toEqual({});
+    expect(getAccounts(migrated)).toEqual([]);
+  });
+});
+
+describe("2 → 3", () => {
+  it("takes audio fingerprinting out of the skip sources", async () => {
+    const migrated = await migrateSettings({
+      version: 2,
+      skip: {
+        enabledChapterSkip: true,
+        enabledAudioSkip: true,
+        sourcePriority: ["community", "fingerprint", "chapter", "manual"],
+      },
+    });
+
+    expect(migrated.skip).toEqual({
+      enabledChapterSkip: true,
+      sourcePriority: ["community", "chapter", "manual"],
+    });
+  });
+
+  it("copes with a missing skip section", async () => {
+    const migrated = await migrateSettings({ version: 2 });
+
+    expect(migrated.skip).toBeUndefined();
+  });
+});
+
+describe("migrateSettings", () => {
+  it("runs every step from a legacy document", async () => {
+    const migrated = await migrateSettings({
+      version: 0,
+      playback: { defaultSpeed: 1.5 },
+      debrid: {
+        service: "alldebrid",
+        apiKey: "ad-key-12345678",
+        isConnected: false,
+      },
+    });
+
+    expect(migrated.version).toBe(CURRENT_SETTINGS_VERSION);
+    expect(migrated.playback).toEqual({ defaultSpeed: 1.5 });
+    expect(getAccounts(migrated)[0]).toMatchObject({
+      id: "alldebrid",
+      apiKey: "",
+    });
+    await expect(getSecret(getDebridKeyName("alldebrid"))).resolves.toBe(
+      "ad-key-12345678",
+    );
+  });
+
+  it("leaves current and newer documents alone", async () => {
+    const current = {
+      version: CURRENT_SETTINGS_VERSION,
+      trakt: { username: "sam" },
+    };
+    const newer = {
+      version: CURRENT_SETTINGS_VERSION + 1,
+      futureSection: { enabled: true },
+    };
+
+    await expect(migrateSettings(current)).resolves.toEqual(current);
+    await expect(migrateSettings(newer)).resolves.toEqual(newer);
+  });
+});
+
+describe("stripSecrets", () => {
+  it("blanks secrets from documents of any version", () => {
+    expect(
+      stripSecrets({
+        version: 0,
+        trakt: { accessToken: "trakt-access-1234", username: "sam" },
+        debrid: { service: "realdebrid", apiKey: "rd-key-12345678" },
+      }),
+    ).toEqual({
+      version: 0,
+      trakt: { username: "sam" },
+      debrid: { service: "realdebrid", apiKey: "" },
+    });
+  });
+});
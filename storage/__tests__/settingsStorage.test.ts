@@ -0,0 +1,130 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  createMemorySecretStore,
+  getDebridKeyName,
+  getSecret,
+  SECRET_KEYS,
+  setSecret,
+  setSecretStore,
+} from "@/storage/secretStorage";
+import { CURRENT_SETTINGS_VERSION } from "@/storage/settingsMigrations";
+import * as storage from "@/storage/settingsStorage";
+import { DEFAULT_PLAYBACK_SETTINGS } from "@/types";
+
+const SETTINGS_KEY = "@streamplayer/settings";
+
+async function readStored(): Promise<Record<string, any>> {
+  return JSON.parse((await AsyncStorage.getItem(SETTINGS_KEY)) ?? "null");
+}
+
+// Clearing also drops the document the module keeps for the session
+beforeEach(async () => {
+  setSecretStore(createMemorySecretStore());
+  await storage.clearAllSettings();
+  jest.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("settings from a newer version", () => {
+  it("reads what it understands without writing the document back", async () => {
+    const newer = {
+      version: CURRENT_SETTINGS_VERSION + 1,
+      playback: { ...DEFAULT_PLAYBACK_SETTINGS, defaultSpeed: 1.25 },
+      futureSection: { enabled: true },
+    };
+    await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(newer));
+
+    await expect(storage.loadPlaybackSettings()).resolves.toMatchObject({
+      defaultSpeed: 1.25,
+    });
+    await storage.savePlaybackSettings({
+      ...DEFAULT_PLAYBACK_SETTINGS,
+      defaultSpeed: 2,
+    });
+
+    await expect(readStored()).resolves.toEqual(newer);
+  });
+});
+
+describe("a failed settings read", () => {
+  it("isn't kept for the session", async () => {
+    await AsyncStorage.setItem(
+      SETTINGS_KEY,
+      JSON.stringify({
+        version: CURRENT_SETTINGS_VERSION,
+        playback: { ...DEFAULT_PLAYBACK_SETTINGS, defaultSpeed: 1.5 },
+      }),
+    );
+    jest
+      .spyOn(AsyncStorage, "getItem")
+      .mockRejectedValueOnce(new Error("Database is locked"));
+
+    await expect(storage.loadPlaybackSettings()).resolves.toEqual(
+      DEFAULT_PLAYBACK_SETTINGS,
+    );
+    await expect(storage.loadPlaybackSettings()).resolves.toMatchObject({
+      defaultSpeed: 1.5,
+    });
+  });
+
+  it("doesn't let defaults overwrite the stored settings", async () => {
+    const stored = {
+      version: CURRENT_SETTINGS_VERSION,
+      playback: { ...DEFAULT_PLAYBACK_SETTINGS, defaultSpeed: 1.5 },
+    };
+    await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(stored));
+    jest
+      .spyOn(AsyncStorage, "getItem")
+      .mockRejectedValueOnce(new Error("Database is locked"));
+
+    await storage.loadPlaybackSettings();
+    await storage.saveSourceSettings({
+      addons: [],
+      preferences: {
+        resolution: "720p",
+        maxSizeGb: 0,
+        codec: "any",
+        preferHdr: false,
+        cachedOnly: false,
+      },
+    });
+
+    const saved = await readStored();
+    expect(saved.playback.defaultSpeed).toBe(1.5);
+    expect(saved.sources.preferences.resolution).toBe("720p");
+  });
+});
+
+describe("normalizeSettingsDocument", () => {
+  it("never writes the secrets of an imported document", async () => {
+    await setSecret(SECRET_KEYS.TRAKT_ACCESS_TOKEN, "own-access-token");
+
+    const sections = await storage.normalizeSettingsDocument({
+      version: 1,
+      trakt: { accessToken: "", refreshToken: "imported-refresh-token" },
+      debrid: {
+        accounts: [
+          {
+            id: "a1",
+            service: "realdebrid",
+            apiKey: "imported-api-key",
+            enabled: true,
+            isConnected: true,
+          },
+        ],
+      },
+    });
+
+    expect(sections.debrid.accounts[0].apiKey).toBe("");
+    await expect(getSecret(SECRET_KEYS.TRAKT_ACCESS_TOKEN)).resolves.toBe(
+      "own-access-token",
+    );
+    await expect(
+      getSecret(SECRET_KEYS.TRAKT_REFRESH_TOKEN),
+    ).resolves.toBeNull();
+    await expect(getSecret(getDebridKeyName("a1"))).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,152 @@
+import * as SecureStore from "expo-secure-store";
+
+export interface SecretStore {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+// Secure store keys may only contain letters, digits, ".", "-" and "_"
+export const SECRET_KEYS = {
+  TRAKT_ACCESS_TOKEN: "streamplayer.trakt_access_token",
+  TRAKT_REFRESH_TOKEN: "streamplayer.trakt_refresh_token",
+  DEBRID_API_KEY_PREFIX: "streamplayer.debrid_api_key.",
+};
+
+const REDACTED = "[redacted]";
+// Shorter values would redact ordinary words out of log lines
+const MIN_SECRET_LENGTH = 8;
+const SECRET_QUERY_PARAMS =
+  /([?&](?:apikey|api_key|token|access_token|refresh_token|client_secret)=)[^&#\s"']+/gi;
+const BEARER_TOKEN = /(Bearer\s+)[\w.~+/-]+=*/gi;
+
+export function getDebridKeyName(accountId: string): string {
+  return `${SECRET_KEYS.DEBRID_API_KEY_PREFIX}${accountId}`;
+}
+
+export function createMemorySecretStore(): SecretStore {
+  const values = new Map<string, string>();
+  return {
+    getItem: async (key) => values.get(key) ?? null,
+    setItem: async (key, value) => {
+      values.set(key, value);
+    },
+    removeItem: async (key) => {
+      values.delete(key);
+    },
+  };
+}
+
+const keystore: SecretStore = {
+  getItem: (key) => SecureStore.getItemAsync(key),
+  setItem: (key, value) => SecureStore.setItemAsync(key, value),
+  removeItem: (key) => SecureStore.deleteItemAsync(key),
+};
+
+const knownSecrets = new Set<string>();
+let storePromise: Promise<SecretStore> | null = null;
+
+// The platform keystore isn't available on web, where secrets only last for the session
+function getStore(): Promise<SecretStore> {
+  if (!storePromise) {
+    storePromise = SecureStore.isAvailableAsync()
+      .then((available) => (available ? keystore : createMemorySecretStore()))
+      .catch(() => createMemorySecretStore());
+  }
+  return storePromise;
+}
+
+// Lets tests swap in createMemorySecretStore()
+export function setSecretStore(store: SecretStore): void {
+  storePromise = Promise.resolve(store);
+}
+
+export function registerSecret(value: string | null | undefined): void {
+  if (value && value.length >= MIN_SECRET_LENGTH) {
+    knownSecrets.add(value);
+  }
+}
+
+export async function getSecret(key: string): Promise<string | null> {
+  const store = await getStore();
+  const value = await store.getItem(key);
+  registerSecret(value);
+  return value;
+}
+
+// Passing null or an empty string removes the secret
+export async function setSecret(
+  key: string,
+  value: string | null,
+): Promise<void> {
+  const store = await getStore();
+  if (value) {
+    registerSecret(value);
+    await store.setItem(key, value);
+  } else {
+    await store.removeItem(key);
+  }
+}
+
+export function redactSecrets(text: string): string {
+  let redacted = text
+    .replace(SECRET_QUERY_PARAMS, `$1${REDACTED}`)
+    .replace(BEARER_TOKEN, `$1${REDACTED}`);
+  knownSecrets.forEach((secret) => {
+    redacted = redacted.split(secret).join(REDACTED);
+  });
+  return redacted;
+}
+
+// Errors, arrays and plain objects are copied with their strings redacted, so the values the caller
+// still holds stay untouched; seen keeps cyclic objects from recursing forever
+function redactValue(
+  value: unknown,
+  seen: WeakMap<object, unknown> = new WeakMap(),
+): unknown {
+  if (typeof value === "string") {
+    return redactSecrets(value);
+  }
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+  if (seen.has(value)) {
+    return seen.get(value);
+  }
+
+  if (Array.isArray(value)) {
+    const copy: unknown[] = [];
+    seen.set(value, copy);
+    value.forEach((item) => copy.push(redactValue(item, seen)));
+    return copy;
+  }
+
+  // Other class instances, such as a Response or a Map, are logged as they are
+  const prototype = Object.getPrototypeOf(value);
+  if (
+    !(value instanceof Error) &&
+    prototype !== Object.prototype &&
+    prototype !== null
+  ) {
+    return value;
+  }
+  // Keeping the prototype keeps an error's class for the console
+  const copy = Object.create(prototype);
+  seen.set(value, copy);
+  Object.getOwnPropertyNames(value).forEach((name) => {
+    copy[name] = redactValue((value as Record<string, unknown>)[name], seen);
+  });
+  return copy;
+}
+
+let redactionInstalled = false;
+
+// Services log caught errors with console.error, and those can carry request URLs and headers
+export function installSecretRedaction(): void {
+  if (redactionInstalled) return;
+  redactionInstalled = true;
+
+  const logError = console.error.bind(console);
+  console.error = (...args: unknown[]) =>
+    logError(...args.map((arg) => redactValue(arg)));
+}
@@ -0,0 +1,158 @@
+import {
+  getDebridKeyName,
+  setSecret,
+  SECRET_KEYS,
+} from "@/storage/secretStorage";
+
+// Older documents are untyped by definition; the schema checks the result of the chain
+export type StoredDocument = Record<string, unknown> & { version: number };
+type StoredRecord = Record<string, unknown>;
+type Migration = (
+  document: StoredDocument,
+) => StoredDocument | Promise<StoredDocument>;
+
+export function isStoredRecord(value: unknown): value is StoredRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function isStoredDocument(value: unknown): value is StoredDocument {
+  return isStoredRecord(value) && Number.isInteger(value.version);
+}
+
+function getSection(document: StoredRecord, section: string): StoredRecord {
+  const value = document[section];
+  return isStoredRecord(value) ? value : {};
+}
+
+function getAccounts(document: StoredRecord): StoredRecord[] {
+  const accounts = getSection(document, "debrid").accounts;
+  return Array.isArray(accounts) ? accounts.filter(isStoredRecord) : [];
+}
+
+function isSecret(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0;
+}
+
+// Entry n upgrades a version n document to version n + 1. Version 0 is the
+// document assembled from the per-section keys used before versioning.
+const SETTINGS_MIGRATIONS: Migration[] = [
+  // 0 → 1: debrid settings held a single { service, apiKey, isConnected } account
+  (document) => {
+    const stored = getSection(document, "debrid");
+    if (Array.isArray(stored.accounts)) {
+      return document;
+    }
+    const service = stored.service;
+    const hasAccount =
+      typeof service === "string" && service !== "none" && !!stored.apiKey;
+    return {
+      ...document,
+      debrid: {
+        accounts: hasAccount
+          ? [
+              {
+                id: service,
+                service,
+                apiKey: stored.apiKey,
+                enabled: true,
+                isConnected: !!stored.isConnected,
+              },
+            ]
+          : [],
+      },
+    };
+  },
+
+  // 1 → 2: Trakt tokens and debrid API keys move to the secure store
+  async (document) => {
+    const { accessToken, refreshToken, ...trakt } = getSection(
+      document,
+      "trakt",
+    );
+    const accounts = getAccounts(document);
+
+    // Empty values are left alone, so they can't sign out what is already stored
+    await Promise.all([
+      isSecret(accessToken) &&
+        setSecret(SECRET_KEYS.TRAKT_ACCESS_TOKEN, accessToken),
+      isSecret(refreshToken) &&
+        setSecret(SECRET_KEYS.TRAKT_REFRESH_TOKEN, refreshToken),
+      ...accounts.map(
+        ({ id, apiKey }) =>
+          typeof id === "string" &&
+          isSecret(apiKey) &&
+          setSecret(getDebridKeyName(id), apiKey),
+      ),
+    ]);
+
+    return {
+      ...document,
+      trakt,
+      debrid: {
+        ...getSection(document, "debrid"),
+        accounts: accounts.map((account) => ({ ...account, apiKey: "" })),
+      },
+    };
+  },
+
+  // 2 → 3: audio fingerprinting is no longer a skip source
+  (document) => {
+    if (!isStoredRecord(document.skip)) {
+      return document;
+    }
+    const { enabledAudioSkip, ...skip } = document.skip;
+    const priority = skip.sourcePriority;
+    return {
+      ...document,
+      skip: Array.isArray(priority)
+        ? {
+            ...skip,
+            sourcePriority: priority.filter(
+              (source) => source !== "fingerprint",
+            ),
+          }
+        : skip,
+    };
+  },
+];
+
+export const CURRENT_SETTINGS_VERSION = SETTINGS_MIGRATIONS.length;
+
+// Runs every step between the document's version and the current one, in order
+export async function migrateSettings(
+  document: StoredDocument,
+): Promise<StoredDocument> {
+  let migrated = document;
+  for (
+    let version = document.version;
+    version < CURRENT_SETTINGS_VERSION;
+    version++
+  ) {
+    migrated = {
+      ...(await SETTINGS_MIGRATIONS[version](migrated)),
+      version: version + 1,
+    };
+  }
+  return migrated;
+}
+
+// Backups may copy documents from before the secure store, whose secrets must not be kept
+export function stripSecrets<T extends StoredRecord>(document: T): T {
+  const { accessToken, refreshToken, ...trakt } = getSection(document, "trakt");
+  const debrid = getSection(document, "debrid");
+  return {
+    ...document,
+    trakt,
+    debrid: {
+      ...debrid,
+      ...(debrid.apiKey ? { apiKey: "" } : {}),
+      ...(Array.isArray(debrid.accounts)
+        ? {
+            accounts: debrid.accounts.map((account: unknown) =>
+              isStoredRecord(account) ? { ...account, apiKey: "" } : account,
+            ),
+          }
+        : {}),
+    },
+  };
+}
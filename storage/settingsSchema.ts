@@ -0,0 +1,226 @@
+import {
+  AppSettings,
+  DebridAccountSetting,
+  SkipProviderSetting,
+  StreamAddonSetting,
+  TraktCredentials,
+  DEFAULT_APP_SETTINGS,
+} from "@/types";
+
+const INVALID = Symbol("invalid");
+
+// A schema checks one value and repairs what it can. Invalid values fall back to the matching
+// default, or make the value INVALID when there is none (array items).
+export interface Schema<T> {
+  validate(
+    value: unknown,
+    fallback: T | undefined,
+    path: string,
+    issues: string[],
+  ): T | typeof INVALID;
+}
+
+type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+// Missing values quietly take their default; only values that are present but wrong count as issues
+function reject<T>(
+  value: unknown,
+  fallback: T | undefined,
+  path: string,
+  issues: string[],
+): T | typeof INVALID {
+  if (value !== undefined || fallback === undefined) {
+    issues.push(path || "settings");
+  }
+  return fallback === undefined ? INVALID : fallback;
+}
+
+function primitive<T>(isValid: (value: unknown) => boolean): Schema<T> {
+  return {
+    validate: (value, fallback, path, issues) =>
+      isValid(value) ? (value as T) : reject(value, fallback, path, issues),
+  };
+}
+
+export const boolean = (): Schema<boolean> =>
+  primitive((value) => typeof value === "boolean");
+
+export const string = (): Schema<string> =>
+  primitive((value) => typeof value === "string");
+
+export const number = (min = -Infinity, max = Infinity): Schema<number> =>
+  primitive(
+    (value) =>
+      typeof value === "number" &&
+      Number.isFinite(value) &&
+      value >= min &&
+      value <= max,
+  );
+
+export const oneOf = <T extends string>(values: readonly T[]): Schema<T> =>
+  primitive((value) => values.includes(value as T));
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    validate: (value, fallback, path, issues) =>
+      value === null
+        ? null
+        : schema.validate(value, fallback ?? undefined, path, issues),
+  };
+}
+
+// A missing optional field stays missing; a present but invalid one is dropped
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    validate: (value, _fallback, path, issues) => {
+      if (value === undefined) return undefined;
+      const result = schema.validate(value, undefined, path, issues);
+      return result === INVALID ? undefined : result;
+    },
+  };
+}
+
+// Invalid items are dropped rather than replacing the whole list
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    validate: (value, fallback, path, issues) => {
+      if (!Array.isArray(value)) return reject(value, fallback, path, issues);
+      return value
+        .map((entry, index) =>
+          item.validate(entry, undefined, `${path}[${index}]`, issues),
+        )
+        .filter((entry): entry is T => entry !== INVALID);
+    },
+  };
+}
+
+// Fields not in the shape are left out, so renamed and removed settings don't linger
+export function object<T>(shape: Shape<T>): Schema<T> {
+  return {
+    validate: (value, fallback, path, issues) => {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return reject(value, fallback, path, issues);
+      }
+
+      const source = value as Record<string, unknown>;
+      const result = {} as T;
+      for (const key of Object.keys(shape) as (keyof T & string)[]) {
+        const field = shape[key].validate(
+          source[key],
+          fallback?.[key],
+          path ? `${path}.${key}` : key,
+          issues,
+        );
+        if (field === INVALID) return reject(value, fallback, path, issues);
+        if (field !== undefined) result[key] = field;
+      }
+      return result;
+    },
+  };
+}
+
+const skipProviderSchema = object<SkipProviderSetting>({
+  id: string(),
+  name: string(),
+  enabled: boolean(),
+  timeoutMs: number(0),
+  url: optional(string()),
+});
+
+const debridAccountSchema = object<DebridAccountSetting>({
+  id: string(),
+  service: oneOf(["realdebrid", "alldebrid", "premiumize", "torbox"]),
+  apiKey: string(),
+  enabled: boolean(),
+  isConnected: boolean(),
+});
+
+const streamAddonSchema = object<StreamAddonSetting>({
+  id: string(),
+  name: string(),
+  url: string(),
+  enabled: boolean(),
+});
+
+export type StoredTraktCredentials = Pick<
+  TraktCredentials,
+  "expiresAt" | "username"
+>;
+
+// Everything in AppSettings except the secrets, which live in the secure store
+export interface SettingsDocument extends Omit<AppSettings, "trakt"> {
+  version: number;
+  trakt: StoredTraktCredentials;
+}
+
+export type SettingsSections = Omit<SettingsDocument, "version">;
+
+const settingsSchema = object<SettingsSections>({
+  skip: object({
+    enabledChapterSkip: boolean(),
+    enabledCommunitySkip: boolean(),
+    enabledManualSkip: boolean(),
+    autoSkipEnabled: boolean(),
+    skipFadeTimeMs: number(0),
+    globalIntroSkipSeconds: number(0),
+    globalCreditsSkipSeconds: number(0),
+    sourcePriority: array(oneOf(["chapter", "community", "manual"])),
+    leadInSeconds: object({
+      intro: number(0),
+      credits: number(0),
+      recap: number(0),
+      preview: number(0),
+    }),
+    shareSkipSegments: boolean(),
+    communityProviders: array(skipProviderSchema),
+  }),
+  playback: object({
+    defaultSpeed: number(0.25, 4),
+    rememberPosition: boolean(),
+    autoPlayNext: boolean(),
+  }),
+  trakt: object({
+    expiresAt: nullable(number(0)),
+    username: nullable(string()),
+  }),
+  traktPreferences: object({
+    watchMode: oneOf(["scrobble", "checkin"]),
+    promptRating: boolean(),
+  }),
+  debrid: object({
+    accounts: array(debridAccountSchema),
+  }),
+  sources: object({
+    addons: array(streamAddonSchema),
+    preferences: object({
+      resolution: oneOf(["2160p", "1080p", "720p", "480p"]),
+      maxSizeGb: number(0),
+      codec: oneOf(["any", "h264", "h265", "av1"]),
+      preferHdr: boolean(),
+      cachedOnly: boolean(),
+    }),
+  }),
+});
+
+export const DEFAULT_SETTINGS_SECTIONS: SettingsSections = {
+  ...DEFAULT_APP_SETTINGS,
+  trakt: {
+    expiresAt: DEFAULT_APP_SETTINGS.trakt.expiresAt,
+    username: DEFAULT_APP_SETTINGS.trakt.username,
+  },
+};
+
+// Each invalid field is reset to its default on its own; the paths of those fields are returned as issues
+export function repairSettings(value: unknown): {
+  sections: SettingsSections;
+  issues: string[];
+} {
+  const issues: string[] = [];
+  const sections = settingsSchema.validate(
+    value,
+    DEFAULT_SETTINGS_SECTIONS,
+    "",
+    issues,
+  ) as SettingsSections;
+  return { sections, issues };
+}
@@ -1,76 +1,303 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  getDebridKeyName,
+  getSecret,
+  setSecret,
+  SECRET_KEYS,
+} from "@/storage/secretStorage";
+import {
+  CURRENT_SETTINGS_VERSION,
+  isStoredDocument,
+  isStoredRecord,
+  migrateSettings,
+  StoredDocument,
+  stripSecrets,
+} from "@/storage/settingsMigrations";
+import {
+  DEFAULT_SETTINGS_SECTIONS,
+  repairSettings,
+  SettingsDocument,
+  SettingsSections,
+} from "@/storage/settingsSchema";
 import {
   AppSettings,
   EpisodeSkipData,
+  PlaybackProgress,
+  ShowSkipData,
   SkipSettings,
   PlaybackSettings,
   TraktCredentials,
+  TraktPreferences,
   DebridSettings,
-  DEFAULT_APP_SETTINGS,
-  DEFAULT_SKIP_SETTINGS,
-  DEFAULT_PLAYBACK_SETTINGS,
+  SourceSettings,
   DEFAULT_TRAKT_CREDENTIALS,
   DEFAULT_DEBRID_SETTINGS,
 } from "@/types";
 
 const STORAGE_KEYS = {
-  SKIP_SETTINGS: "@streamplayer/skip_settings",
-  PLAYBACK_SETTINGS: "@streamplayer/playback_settings",
-  TRAKT_CREDENTIALS: "@streamplayer/trakt_credentials",
-  DEBRID_SETTINGS: "@streamplayer/debrid_settings",
+  SETTINGS: "@streamplayer/settings",
+  SETTINGS_BACKUP: "@streamplayer/settings_backup",
   MANUAL_SKIPS_PREFIX: "@streamplayer/manual_skip_",
+  SHOW_SKIPS_PREFIX: "@streamplayer/show_skip_",
   PLAYBACK_POSITION_PREFIX: "@streamplayer/position_",
+  PLAYBACK_PROGRESS_PREFIX: "@streamplayer/progress_",
 };
 
-export async function loadSkipSettings(): Promise<SkipSettings> {
+// Before the versioned document every section had a key of its own
+const LEGACY_SECTION_KEYS: Record<keyof SettingsSections, string> = {
+  skip: "@streamplayer/skip_settings",
+  playback: "@streamplayer/playback_settings",
+  trakt: "@streamplayer/trakt_credentials",
+  traktPreferences: "@streamplayer/trakt_preferences",
+  debrid: "@streamplayer/debrid_settings",
+  sources: "@streamplayer/source_settings",
+};
+
+interface LoadedSettings {
+  document: SettingsDocument;
+  // Why the stored document must not be overwritten, when it mustn't
+  readOnly?: string;
+}
+
+let documentPromise: Promise<LoadedSettings> | null = null;
+let writeQueue: Promise<void> = Promise.resolve();
+
+function parseDocument(raw: string | null): StoredDocument | null {
+  if (raw === null) return null;
   try {
-    const data = await AsyncStorage.getItem(STORAGE_KEYS.SKIP_SETTINGS);
-    if (data) {
-      return { ...DEFAULT_SKIP_SETTINGS, ...JSON.parse(data) };
+    const document: unknown = JSON.parse(raw);
+    return isStoredDocument(document) ? document : null;
+  } catch {
+    return null;
+  }
+}
+
+async function loadLegacyDocument(): Promise<StoredDocument | null> {
+  const sections = Object.keys(
+    LEGACY_SECTION_KEYS,
+  ) as (keyof SettingsSections)[];
+  const entries = await AsyncStorage.multiGet(
+    sections.map((section) => LEGACY_SECTION_KEYS[section]),
+  );
+  if (entries.every(([, value]) => value === null)) return null;
+
+  const document: StoredDocument = { version: 0 };
+  sections.forEach((section, index) => {
+    const value = entries[index][1];
+    try {
+      if (value !== null) document[section] = JSON.parse(value);
+    } catch (error) {
+      console.error(`Failed to read legacy ${section} settings:`, error);
     }
-    return DEFAULT_SKIP_SETTINGS;
+  });
+  return document;
+}
+
+async function writeSettingsDocument(
+  document: SettingsDocument,
+): Promise<void> {
+  const previous = parseDocument(
+    await AsyncStorage.getItem(STORAGE_KEYS.SETTINGS),
+  );
+  // A corrupt document never replaces the last good backup
+  if (previous) {
+    await AsyncStorage.setItem(
+      STORAGE_KEYS.SETTINGS_BACKUP,
+      JSON.stringify(stripSecrets(previous)),
+    );
+  }
+  await AsyncStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(document));
+}
+
+// Read failures are thrown, so that a storage hiccup isn't taken for a fresh install
+async function loadSettingsDocument(): Promise<LoadedSettings> {
+  let stored: StoredDocument | null;
+  let isLegacy = false;
+  let isRestored = false;
+  const raw = await AsyncStorage.getItem(STORAGE_KEYS.SETTINGS);
+  if (raw === null) {
+    stored = await loadLegacyDocument();
+    isLegacy = stored !== null;
+  } else {
+    stored = parseDocument(raw);
+    if (!stored) {
+      console.error("Failed to parse settings, restoring backup");
+      stored = parseDocument(
+        await AsyncStorage.getItem(STORAGE_KEYS.SETTINGS_BACKUP),
+      );
+      isRestored = stored !== null;
+    }
+  }
+
+  if (!stored) {
+    return {
+      document: {
+        version: CURRENT_SETTINGS_VERSION,
+        ...DEFAULT_SETTINGS_SECTIONS,
+      },
+    };
+  }
+
+  // A document from a newer version is read as far as this one understands it, but never overwritten,
+  // since writing back the trimmed copy would lose whatever the newer version added
+  let readOnly =
+    stored.version > CURRENT_SETTINGS_VERSION
+      ? "Settings were saved by a newer version of StreamPlayer"
+      : undefined;
+  let migrated = stored;
+  try {
+    migrated = await migrateSettings(stored);
   } catch (error) {
-    console.error("Failed to load skip settings:", error);
-    return DEFAULT_SKIP_SETTINGS;
+    console.error("Failed to migrate settings:", error);
+    readOnly = "Settings couldn't be migrated";
+  }
+
+  const { sections, issues } = repairSettings(migrated);
+  if (issues.length > 0) {
+    console.error(
+      "Failed to validate settings, reset to defaults:",
+      issues.join(", "),
+    );
+  }
+
+  const document: SettingsDocument = {
+    version: Math.max(stored.version, CURRENT_SETTINGS_VERSION),
+    ...sections,
+  };
+  if (
+    !readOnly &&
+    (stored.version < CURRENT_SETTINGS_VERSION ||
+      issues.length > 0 ||
+      isRestored)
+  ) {
+    try {
+      if (isLegacy) {
+        await AsyncStorage.setItem(
+          STORAGE_KEYS.SETTINGS_BACKUP,
+          JSON.stringify(stripSecrets(stored)),
+        );
+      }
+      await writeSettingsDocument(document);
+      if (isLegacy) {
+        await AsyncStorage.multiRemove(Object.values(LEGACY_SECTION_KEYS));
+      }
+    } catch (error) {
+      console.error("Failed to save migrated settings:", error);
+    }
   }
+  return { document, readOnly };
+}
+
+// Loaded and migrated once; every section reads from and writes through this copy. A failed read
+// isn't kept: the session gets defaults it can't save, and the next read tries storage again
+function loadSettings(): Promise<LoadedSettings> {
+  if (!documentPromise) {
+    documentPromise = loadSettingsDocument().catch((error) => {
+      console.error("Failed to load settings:", error);
+      documentPromise = null;
+      return {
+        document: {
+          version: CURRENT_SETTINGS_VERSION,
+          ...DEFAULT_SETTINGS_SECTIONS,
+        },
+        readOnly: "Settings couldn't be read",
+      };
+    });
+  }
+  return documentPromise;
+}
+
+async function readSettingsDocument(): Promise<SettingsDocument> {
+  return (await loadSettings()).document;
+}
+
+// Writes are queued so that sections saved at the same time don't overwrite each other
+function queueSettingsWrite(
+  update: (document: SettingsDocument) => SettingsDocument,
+): Promise<void> {
+  const task = writeQueue.then(async () => {
+    const { document, readOnly } = await loadSettings();
+    if (readOnly) {
+      throw new Error(`${readOnly}, so changes can't be saved`);
+    }
+    const updated = update(document);
+    documentPromise = Promise.resolve({ document: updated });
+    await writeSettingsDocument(updated);
+  });
+  writeQueue = task.catch(() => undefined);
+  return task;
+}
+
+function updateSettingsSection<K extends keyof SettingsSections>(
+  section: K,
+  value: SettingsSections[K],
+): Promise<void> {
+  return queueSettingsWrite((document) => ({ ...document, [section]: value }));
+}
+
+// Everything but the secrets, as kept in the settings document
+export async function loadSettingsSections(): Promise<SettingsSections> {
+  const { version, ...sections } = await readSettingsDocument();
+  return sections;
+}
+
+export async function saveSettingsSections(
+  sections: SettingsSections,
+): Promise<void> {
+  await queueSettingsWrite((document) => ({ ...document, ...sections }));
+}
+
+// Brings a settings document from elsewhere, such as a backup, up to the current version
+export async function normalizeSettingsDocument(
+  value: unknown,
+): Promise<SettingsSections> {
+  const document = isStoredRecord(value) ? value : {};
+  const version = isStoredDocument(document)
+    ? document.version
+    : CURRENT_SETTINGS_VERSION;
+  // Secrets never come in through a document: migrating one from before the secure store
+  // would otherwise overwrite this device's Trakt login and debrid keys
+  const migrated = await migrateSettings(
+    stripSecrets({ ...document, version }),
+  );
+  return repairSettings(migrated).sections;
+}
+
+export async function loadSkipSettings(): Promise<SkipSettings> {
+  const { skip } = await readSettingsDocument();
+  return skip;
 }
 
 export async function saveSkipSettings(settings: SkipSettings): Promise<void> {
   try {
-    await AsyncStorage.setItem(STORAGE_KEYS.SKIP_SETTINGS, JSON.stringify(settings));
+    await updateSettingsSection("skip", settings);
   } catch (error) {
     console.error("Failed to save skip settings:", error);
   }
 }
 
 export async function loadPlaybackSettings(): Promise<PlaybackSettings> {
-  try {
-    const data = await AsyncStorage.getItem(STORAGE_KEYS.PLAYBACK_SETTINGS);
-    if (data) {
-      return { ...DEFAULT_PLAYBACK_SETTINGS, ...JSON.parse(data) };
-    }
-    return DEFAULT_PLAYBACK_SETTINGS;
-  } catch (error) {
-    console.error("Failed to load playback settings:", error);
-    return DEFAULT_PLAYBACK_SETTINGS;
-  }
+  const { playback } = await readSettingsDocument();
+  return playback;
 }
 
 export async function savePlaybackSettings(settings: PlaybackSettings): Promise<void> {
   try {
-    await AsyncStorage.setItem(STORAGE_KEYS.PLAYBACK_SETTINGS, JSON.stringify(settings));
+    await updateSettingsSection("playback", settings);
   } catch (error) {
     console.error("Failed to save playback settings:", error);
   }
 }
 
+// The tokens live in the secure store; the settings document only keeps the expiry and username
 export async function loadTraktCredentials(): Promise<TraktCredentials> {
   try {
-    const data = await AsyncStorage.getItem(STORAGE_KEYS.TRAKT_CREDENTIALS);
-    if (data) {
-      return { ...DEFAULT_TRAKT_CREDENTIALS, ...JSON.parse(data) };
-    }
-    return DEFAULT_TRAKT_CREDENTIALS;
+    const { trakt } = await readSettingsDocument();
+    const [accessToken, refreshToken] = await Promise.all([
+      getSecret(SECRET_KEYS.TRAKT_ACCESS_TOKEN),
+      getSecret(SECRET_KEYS.TRAKT_REFRESH_TOKEN),
+    ]);
+    return { ...trakt, accessToken, refreshToken };
   } catch (error) {
     console.error("Failed to load Trakt credentials:", error);
     return DEFAULT_TRAKT_CREDENTIALS;
@@ -79,7 +306,12 @@ export async function loadTraktCredentials(): Promise<TraktCredentials> {
 
 export async function saveTraktCredentials(credentials: TraktCredentials): Promise<void> {
   try {
-    await AsyncStorage.setItem(STORAGE_KEYS.TRAKT_CREDENTIALS, JSON.stringify(credentials));
+    const { accessToken, refreshToken, ...trakt } = credentials;
+    await Promise.all([
+      setSecret(SECRET_KEYS.TRAKT_ACCESS_TOKEN, accessToken),
+      setSecret(SECRET_KEYS.TRAKT_REFRESH_TOKEN, refreshToken),
+    ]);
+    await updateSettingsSection("trakt", trakt);
   } catch (error) {
     console.error("Failed to save Trakt credentials:", error);
   }
@@ -87,19 +319,45 @@ export async function saveTraktCredentials(credentials: TraktCredentials): Promi
 
 export async function clearTraktCredentials(): Promise<void> {
   try {
-    await AsyncStorage.removeItem(STORAGE_KEYS.TRAKT_CREDENTIALS);
+    await Promise.all([
+      setSecret(SECRET_KEYS.TRAKT_ACCESS_TOKEN, null),
+      setSecret(SECRET_KEYS.TRAKT_REFRESH_TOKEN, null),
+    ]);
+    await updateSettingsSection("trakt", DEFAULT_SETTINGS_SECTIONS.trakt);
   } catch (error) {
     console.error("Failed to clear Trakt credentials:", error);
   }
 }
 
+export async function loadTraktPreferences(): Promise<TraktPreferences> {
+  const { traktPreferences } = await readSettingsDocument();
+  return traktPreferences;
+}
+
+export async function saveTraktPreferences(
+  preferences: TraktPreferences,
+): Promise<void> {
+  try {
+    await updateSettingsSection("traktPreferences", preferences);
+  } catch (error) {
+    console.error("Failed to save Trakt preferences:", error);
+  }
+}
+
+// API keys live in the secure store, one per account
 export async function loadDebridSettings(): Promise<DebridSettings> {
   try {
-    const data = await AsyncStorage.getItem(STORAGE_KEYS.DEBRID_SETTINGS);
-    if (data) {
-      return { ...DEFAULT_DEBRID_SETTINGS, ...JSON.parse(data) };
-    }
-    return DEFAULT_DEBRID_SETTINGS;
+    const { debrid } = await readSettingsDocument();
+    const apiKeys = await Promise.all(
+      debrid.accounts.map((account) => getSecret(getDebridKeyName(account.id))),
+    );
+    return {
+      ...debrid,
+      accounts: debrid.accounts.map((account, index) => ({
+        ...account,
+        apiKey: apiKeys[index] ?? "",
+      })),
+    };
   } catch (error) {
     console.error("Failed to load Debrid settings:", error);
     return DEFAULT_DEBRID_SETTINGS;
@@ -108,14 +366,60 @@ export async function loadDebridSettings(): Promise<DebridSettings> {
 
 export async function saveDebridSettings(settings: DebridSettings): Promise<void> {
   try {
-    await AsyncStorage.setItem(STORAGE_KEYS.DEBRID_SETTINGS, JSON.stringify(settings));
+    const { debrid: previous } = await readSettingsDocument();
+    await Promise.all(
+      settings.accounts.map((account) =>
+        setSecret(getDebridKeyName(account.id), account.apiKey),
+      ),
+    );
+    await updateSettingsSection("debrid", {
+      ...settings,
+      accounts: settings.accounts.map((account) => ({
+        ...account,
+        apiKey: "",
+      })),
+    });
+
+    const removed = previous.accounts.filter(
+      (account) => !settings.accounts.some((item) => item.id === account.id),
+    );
+    await Promise.all(
+      removed.map((account) => setSecret(getDebridKeyName(account.id), null)),
+    );
   } catch (error) {
     console.error("Failed to save Debrid settings:", error);
   }
 }
 
-export function getEpisodeStorageKey(imdbId: string, season: number, episode: number): string {
-  return `${STORAGE_KEYS.MANUAL_SKIPS_PREFIX}${imdbId}_s${String(season).padStart(2, "0")}e${String(episode).padStart(2, "0")}`;
+export async function loadSourceSettings(): Promise<SourceSettings> {
+  const { sources } = await readSettingsDocument();
+  return sources;
+}
+
+export async function saveSourceSettings(
+  settings: SourceSettings,
+): Promise<void> {
+  try {
+    await updateSettingsSection("sources", settings);
+  } catch (error) {
+    console.error("Failed to save source settings:", error);
+  }
+}
+
+export function getEpisodeId(
+  imdbId: string,
+  season: number,
+  episode: number,
+): string {
+  return `${imdbId}_s${String(season).padStart(2, "0")}e${String(episode).padStart(2, "0")}`;
+}
+
+export function getEpisodeStorageKey(
+  imdbId: string,
+  season: number,
+  episode: number,
+): string {
+  return `${STORAGE_KEYS.MANUAL_SKIPS_PREFIX}${getEpisodeId(imdbId, season, episode)}`;
 }
 
 export async function loadManualSkipData(imdbId: string, season: number, episode: number): Promise<EpisodeSkipData | null> {
@@ -142,45 +446,191 @@ export async function saveManualSkipData(data: EpisodeSkipData): Promise<void> {
   }
 }
 
-export async function loadPlaybackPosition(videoUri: string): Promise<number> {
+export async function clearManualSkipData(
+  imdbId: string,
+  season: number,
+  episode: number,
+): Promise<void> {
   try {
-    const key = `${STORAGE_KEYS.PLAYBACK_POSITION_PREFIX}${encodeURIComponent(videoUri)}`;
-    const data = await AsyncStorage.getItem(key);
+    await AsyncStorage.removeItem(
+      getEpisodeStorageKey(imdbId, season, episode),
+    );
+  } catch (error) {
+    console.error("Failed to clear manual skip data:", error);
+  }
+}
+
+export function getShowStorageKey(imdbId: string): string {
+  return `${STORAGE_KEYS.SHOW_SKIPS_PREFIX}${imdbId}`;
+}
+
+export async function loadShowSkipData(
+  imdbId: string,
+): Promise<ShowSkipData | null> {
+  try {
+    const data = await AsyncStorage.getItem(getShowStorageKey(imdbId));
+    if (data) {
+      return JSON.parse(data);
+    }
+    return null;
+  } catch (error) {
+    console.error("Failed to load show skip data:", error);
+    return null;
+  }
+}
+
+export async function saveShowSkipData(data: ShowSkipData): Promise<void> {
+  try {
+    await AsyncStorage.setItem(
+      getShowStorageKey(data.imdbId),
+      JSON.stringify({ ...data, lastUpdated: Date.now() }),
+    );
+  } catch (error) {
+    console.error("Failed to save show skip data:", error);
+  }
+}
+
+export async function clearShowSkipData(imdbId: string): Promise<void> {
+  try {
+    await AsyncStorage.removeItem(getShowStorageKey(imdbId));
+  } catch (error) {
+    console.error("Failed to clear show skip data:", error);
+  }
+}
+
+export function getProgressId(
+  imdbId: string,
+  season?: number,
+  episode?: number,
+): string {
+  return season !== undefined && episode !== undefined
+    ? getEpisodeId(imdbId, season, episode)
+    : imdbId;
+}
+
+export async function loadPlaybackProgress(
+  progressId: string,
+): Promise<PlaybackProgress | null> {
+  try {
+    const data = await AsyncStorage.getItem(
+      `${STORAGE_KEYS.PLAYBACK_PROGRESS_PREFIX}${progressId}`,
+    );
     if (data) {
-      return parseInt(data, 10);
+      return JSON.parse(data);
     }
-    return 0;
+    return null;
+  } catch (error) {
+    console.error("Failed to load playback progress:", error);
+    return null;
+  }
+}
+
+export async function clearPlaybackProgress(progressId: string): Promise<void> {
+  try {
+    await AsyncStorage.removeItem(
+      `${STORAGE_KEYS.PLAYBACK_PROGRESS_PREFIX}${progressId}`,
+    );
   } catch (error) {
-    console.error("Failed to load playback position:", error);
-    return 0;
+    console.error("Failed to clear playback progress:", error);
   }
 }
 
-export async function savePlaybackPosition(videoUri: string, position: number): Promise<void> {
+export type StoredDataKind =
+  | "manualSkips"
+  | "showSkips"
+  | "positions"
+  | "progress";
+
+const STORED_DATA_PREFIXES: Record<StoredDataKind, string> = {
+  manualSkips: STORAGE_KEYS.MANUAL_SKIPS_PREFIX,
+  showSkips: STORAGE_KEYS.SHOW_SKIPS_PREFIX,
+  positions: STORAGE_KEYS.PLAYBACK_POSITION_PREFIX,
+  progress: STORAGE_KEYS.PLAYBACK_PROGRESS_PREFIX,
+};
+
+async function getStoredDataKeys(kind: StoredDataKind): Promise<string[]> {
+  const prefix = STORED_DATA_PREFIXES[kind];
+  const keys = await AsyncStorage.getAllKeys();
+  return keys.filter((key) => key.startsWith(prefix));
+}
+
+// Every stored entry of one kind, keyed by what follows the kind's key prefix
+export async function loadStoredData(
+  kind: StoredDataKind,
+): Promise<Record<string, unknown>> {
   try {
-    const key = `${STORAGE_KEYS.PLAYBACK_POSITION_PREFIX}${encodeURIComponent(videoUri)}`;
-    await AsyncStorage.setItem(key, String(Math.floor(position)));
+    const keys = await getStoredDataKeys(kind);
+    const entries = await AsyncStorage.multiGet(keys);
+    const data: Record<string, unknown> = {};
+    entries.forEach(([key, value]) => {
+      if (value === null) return;
+      try {
+        data[key.slice(STORED_DATA_PREFIXES[kind].length)] = JSON.parse(value);
+      } catch {
+        // Unreadable entries are left out
+      }
+    });
+    return data;
   } catch (error) {
-    console.error("Failed to save playback position:", error);
+    console.error(`Failed to load stored ${kind}:`, error);
+    return {};
   }
 }
 
+export async function saveStoredData(
+  kind: StoredDataKind,
+  data: Record<string, unknown>,
+): Promise<void> {
+  const prefix = STORED_DATA_PREFIXES[kind];
+  await AsyncStorage.multiSet(
+    Object.entries(data).map(([id, value]) => [
+      `${prefix}${id}`,
+      JSON.stringify(value),
+    ]),
+  );
+}
+
+export async function removeStoredData(
+  kind: StoredDataKind,
+  ids: string[],
+): Promise<void> {
+  const prefix = STORED_DATA_PREFIXES[kind];
+  await AsyncStorage.multiRemove(ids.map((id) => `${prefix}${id}`));
+}
+
+export async function clearStoredData(kind: StoredDataKind): Promise<void> {
+  await AsyncStorage.multiRemove(await getStoredDataKeys(kind));
+}
+
 export async function loadAllSettings(): Promise<AppSettings> {
-  const [skip, playback, trakt, debrid] = await Promise.all([
-    loadSkipSettings(),
-    loadPlaybackSettings(),
-    loadTraktCredentials(),
-    loadDebridSettings(),
-  ]);
-  
-  return { skip, playback, trakt, debrid };
+  const [skip, playback, trakt, traktPreferences, debrid, sources] =
+    await Promise.all([
+      loadSkipSettings(),
+      loadPlaybackSettings(),
+      loadTraktCredentials(),
+      loadTraktPreferences(),
+      loadDebridSettings(),
+      loadSourceSettings(),
+    ]);
+
+  return { skip, playback, trakt, traktPreferences, debrid, sources };
 }
 
 export async function clearAllSettings(): Promise<void> {
   try {
+    const { debrid } = await readSettingsDocument();
+    await Promise.all([
+      setSecret(SECRET_KEYS.TRAKT_ACCESS_TOKEN, null),
+      setSecret(SECRET_KEYS.TRAKT_REFRESH_TOKEN, null),
+      ...debrid.accounts.map((account) =>
+        setSecret(getDebridKeyName(account.id), null),
+      ),
+    ]);
+
     const keys = await AsyncStorage.getAllKeys();
     const appKeys = keys.filter((key) => key.startsWith("@streamplayer/"));
     await AsyncStorage.multiRemove(appKeys);
+    documentPromise = null;
   } catch (error) {
     console.error("Failed to clear all settings:", error);
   }
@@ -1,13 +1,27 @@
 export type SkipType = "intro" | "credits" | "recap" | "preview";
 
+export type SkipSource = "chapter" | "community" | "manual";
+
 export interface SkipMarker {
   type: SkipType;
   startTime: number;
   endTime: number;
-  source: "chapter" | "fingerprint" | "manual";
+  source: SkipSource;
+}
+
+export interface ManualSkipRanges {
+  introStartTime?: number;
+  introEndTime?: number;
+  creditsStartTime?: number;
+  creditsEndTime?: number;
+}
+
+export interface ManualSkipLayer extends ManualSkipRanges {
+  introSkipSeconds?: number;
+  creditsSkipSeconds?: number;
 }
 
-export interface EpisodeSkipData {
+export interface EpisodeSkipData extends ManualSkipRanges {
   episodeId: string;
   showName: string;
   season: number;
@@ -17,15 +31,57 @@ export interface EpisodeSkipData {
   lastUpdated: number;
 }
 
+export interface PlaybackProgress {
+  // imdbId for movies, imdbId_sXXeYY for episodes, uri_<encoded URI> for videos without ids
+  progressId: string;
+  imdbId?: string;
+  uri?: string;
+  title?: string;
+  showName?: string;
+  season?: number;
+  episode?: number;
+  position: number;
+  duration: number;
+  // When the title was last watched
+  updatedAt: number;
+  // Played nearly to the end; kept for history but no longer offered for resuming
+  watched?: boolean;
+}
+
+export interface ShowSkipData extends ManualSkipRanges {
+  imdbId: string;
+  showName: string;
+  introSkipSeconds: number;
+  creditsSkipSeconds: number;
+  lastUpdated: number;
+}
+
+export type SkipMarkPoint =
+  | "introStart"
+  | "introEnd"
+  | "creditsStart"
+  | "creditsEnd";
+
 export interface SkipSettings {
   enabledChapterSkip: boolean;
-  enabledAudioSkip: boolean;
   enabledCommunitySkip: boolean;
   enabledManualSkip: boolean;
   autoSkipEnabled: boolean;
   skipFadeTimeMs: number;
   globalIntroSkipSeconds: number;
   globalCreditsSkipSeconds: number;
+  sourcePriority: SkipSource[];
+  leadInSeconds: Record<SkipType, number>;
+  shareSkipSegments: boolean;
+  communityProviders: SkipProviderSetting[];
+}
+
+export interface SkipProviderSetting {
+  id: string;
+  name: string;
+  enabled: boolean;
+  timeoutMs: number;
+  url?: string;
 }
 
 export interface PlaybackSettings {
@@ -41,17 +97,57 @@ export interface TraktCredentials {
   username: string | null;
 }
 
-export interface DebridSettings {
-  service: "none" | "realdebrid" | "alldebrid" | "premiumize" | "torbox";
+export type TraktWatchMode = "scrobble" | "checkin";
+
+export interface TraktPreferences {
+  // Check-ins mark the title watched once its runtime has passed, without reporting progress
+  watchMode: TraktWatchMode;
+  promptRating: boolean;
+}
+
+export interface DebridAccountSetting {
+  id: string;
+  service: "realdebrid" | "alldebrid" | "premiumize" | "torbox";
   apiKey: string;
+  enabled: boolean;
   isConnected: boolean;
 }
 
+export interface DebridSettings {
+  // In priority order: streams come from the first account that has them cached
+  accounts: DebridAccountSetting[];
+}
+
+export interface StreamAddonSetting {
+  id: string;
+  name: string;
+  // Base URL of a Stremio addon; streams are read from {url}/stream/{type}/{id}.json
+  url: string;
+  enabled: boolean;
+}
+
+export interface SourcePreferences {
+  resolution: "2160p" | "1080p" | "720p" | "480p";
+  // Files above this are ranked down; 0 means no limit
+  maxSizeGb: number;
+  codec: "any" | "h264" | "h265" | "av1";
+  preferHdr: boolean;
+  // Hide torrents that no debrid account has cached
+  cachedOnly: boolean;
+}
+
+export interface SourceSettings {
+  addons: StreamAddonSetting[];
+  preferences: SourcePreferences;
+}
+
 export interface AppSettings {
   skip: SkipSettings;
   playback: PlaybackSettings;
   trakt: TraktCredentials;
+  traktPreferences: TraktPreferences;
   debrid: DebridSettings;
+  sources: SourceSettings;
 }
 
 export interface VideoInfo {
@@ -73,29 +169,108 @@ export interface ChapterData {
   endTime: number;
 }
 
+export type SkipSubmissionOrigin = "manual_mark" | "manual_skip";
+
+export type SkipSubmissionStatus = "pending" | "failed";
+
+export interface SkipSubmission {
+  id: string;
+  imdbId: string;
+  showName: string;
+  season: number;
+  episode: number;
+  type: SkipType;
+  startTime: number;
+  endTime: number;
+  duration: number;
+  confidence: number;
+  origin: SkipSubmissionOrigin;
+  status: SkipSubmissionStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  createdAt: number;
+}
+
+export interface PlaylistItem {
+  uri: string;
+  title?: string;
+  showName?: string;
+  imdbId?: string;
+  season?: number;
+  episode?: number;
+}
+
 export type RootStackParamList = {
-  Player: {
-    uri?: string;
-    title?: string;
-    showName?: string;
-    imdbId?: string;
-    season?: number;
-    episode?: number;
-  } | undefined;
+  Player:
+    | {
+        uri?: string;
+        title?: string;
+        showName?: string;
+        imdbId?: string;
+        // Trakt, TMDB and TVDB ids of the movie or show, when the opener knows them
+        traktId?: number;
+        tmdbId?: number;
+        tvdbId?: number;
+        season?: number;
+        episode?: number;
+        // Ordered episodes to step through; neighbours come from Trakt when absent
+        playlist?: PlaylistItem[];
+      }
+    | undefined;
   Settings: undefined;
-  SkipConfiguration: undefined;
+  SkipConfiguration:
+    | {
+        imdbId?: string;
+        showName?: string;
+        season?: number;
+        episode?: number;
+      }
+    | undefined;
   TraktAuth: undefined;
+  SkipSubmissions: undefined;
+  CommunityProviders: undefined;
+  Library: undefined;
+  // Opens an existing account, or sets up a new one for the given service
+  DebridAccount:
+    | { accountId: string }
+    | { service: DebridAccountSetting["service"] };
+  DebridAccounts: undefined;
+  Sources: {
+    title: string;
+    year?: number;
+    imdbId: string;
+    traktId?: number;
+    tmdbId?: number;
+    tvdbId?: number;
+    season?: number;
+    episode?: number;
+  };
+  SourceSettings: undefined;
+  Backup: undefined;
 };
 
 export const DEFAULT_SKIP_SETTINGS: SkipSettings = {
   enabledChapterSkip: true,
-  enabledAudioSkip: true,
   enabledCommunitySkip: true,
   enabledManualSkip: true,
   autoSkipEnabled: false,
   skipFadeTimeMs: 500,
   globalIntroSkipSeconds: 0,
   globalCreditsSkipSeconds: 0,
+  sourcePriority: ["chapter", "community", "manual"],
+  leadInSeconds: {
+    intro: 0,
+    recap: 0,
+    credits: 10,
+    preview: 0,
+  },
+  shareSkipSegments: false,
+  communityProviders: [
+    { id: "introhater", name: "IntroHater", enabled: true, timeoutMs: 5000 },
+    { id: "stremio", name: "Stremio Skips", enabled: true, timeoutMs: 5000 },
+    { id: "aniskip", name: "AniSkip", enabled: true, timeoutMs: 5000 },
+  ],
 };
 
 export const DEFAULT_PLAYBACK_SETTINGS: PlaybackSettings = {
@@ -111,15 +286,33 @@ export const DEFAULT_TRAKT_CREDENTIALS: TraktCredentials = {
   username: null,
 };
 
+export const DEFAULT_TRAKT_PREFERENCES: TraktPreferences = {
+  watchMode: "scrobble",
+  promptRating: false,
+};
+
 export const DEFAULT_DEBRID_SETTINGS: DebridSettings = {
-  service: "none",
-  apiKey: "",
-  isConnected: false,
+  accounts: [],
+};
+
+export const DEFAULT_SOURCE_PREFERENCES: SourcePreferences = {
+  resolution: "1080p",
+  maxSizeGb: 0,
+  codec: "any",
+  preferHdr: false,
+  cachedOnly: false,
+};
+
+export const DEFAULT_SOURCE_SETTINGS: SourceSettings = {
+  addons: [],
+  preferences: DEFAULT_SOURCE_PREFERENCES,
 };
 
 export const DEFAULT_APP_SETTINGS: AppSettings = {
   skip: DEFAULT_SKIP_SETTINGS,
   playback: DEFAULT_PLAYBACK_SETTINGS,
   trakt: DEFAULT_TRAKT_CREDENTIALS,
+  traktPreferences: DEFAULT_TRAKT_PREFERENCES,
   debrid: DEFAULT_DEBRID_SETTINGS,
+  sources: DEFAULT_SOURCE_SETTINGS,
 };